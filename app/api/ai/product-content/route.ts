@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { generateAllProductContent, ProductContent } from "@/lib/ai-content";
+import { withUsageContext } from "@/lib/cost-ledger";
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,11 +24,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate content using AI
-    const content: ProductContent = await generateAllProductContent(
-      designName,
-      productType,
-      colors,
-      platform as 'etsy' | 'shopify' | 'general'
+    const content: ProductContent = await withUsageContext({ userId: user.id }, () =>
+      generateAllProductContent(
+        designName,
+        productType,
+        colors,
+        platform as 'etsy' | 'shopify' | 'general'
+      )
     );
 
     return NextResponse.json({ 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getCurrentUser } from "@/lib/remix-upload";
+import { addBulkItem, advanceBulkQueue, getBulkBatch, runBulkJobs } from "@/lib/bulk-queue.server";
+import { MAX_BULK_FILE_SIZE } from "@/lib/bulk-queue";
+
+// The first items start right away, in after() with this budget
+export const maxDuration = 300; // 5 minutes max
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/bulk/[id]/items
+ * Add one image to a batch (multipart form: `image`, optional `fileName`).
+ * Images are sent one per request so no request body gets large; the item
+ * is queued immediately and may start before the rest are uploaded.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: batchId } = await params;
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const batch = await getBulkBatch(user.id, batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("image") as File;
+
+    if (!file) {
+      return NextResponse.json({ error: "No image file provided" }, { status: 400 });
+    }
+
+    if (!file.type.startsWith("image/")) {
+      return NextResponse.json({ error: "Invalid file type. Please upload an image." }, { status: 400 });
+    }
+
+    if (file.size > MAX_BULK_FILE_SIZE) {
+      return NextResponse.json({ error: "File too large. Maximum size is 10MB." }, { status: 400 });
+    }
+
+    const fileNameField = formData.get("fileName");
+    const fileName = typeof fileNameField === "string" && fileNameField ? fileNameField : file.name || "image.png";
+
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const imageDataUrl = `data:${file.type};base64,${bytes.toString("base64")}`;
+
+    const item = await addBulkItem(batch, fileName, imageDataUrl);
+
+    const jobIds = await advanceBulkQueue(user.id);
+    if (jobIds.length > 0) {
+      after(() => runBulkJobs(user.id, jobIds));
+    }
+
+    return NextResponse.json({ success: true, itemId: item.id, position: item.position });
+  } catch (error) {
+    console.error("Bulk item upload error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to add image",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getCurrentUser } from "@/lib/remix-upload";
+import { advanceBulkQueue, getBulkBatch, runBulkJobs, updateBulkBatch } from "@/lib/bulk-queue.server";
+import type { BulkBatchAction } from "@/lib/bulk-queue";
+
+// Resuming a batch starts its next items in after() with this budget
+export const maxDuration = 300; // 5 minutes max
+
+const ACTIONS: BulkBatchAction[] = ["pause", "resume", "cancel"];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/bulk/[id]
+ * Pause, resume or cancel a batch.
+ *
+ * Request body:
+ * - action: "pause" | "resume" | "cancel"
+ * - itemId: Optional - cancel just this (not yet started) item
+ *
+ * Items that are already generating finish and are saved either way.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: batchId } = await params;
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const action = body?.action as BulkBatchAction;
+    const itemId = typeof body?.itemId === "string" ? body.itemId : undefined;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const batch = await getBulkBatch(user.id, batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    try {
+      await updateBulkBatch(batch, action, itemId);
+    } catch (updateError) {
+      return NextResponse.json(
+        { error: updateError instanceof Error ? updateError.message : "Failed to update batch" },
+        { status: 409 }
+      );
+    }
+
+    if (action === "resume") {
+      const jobIds = await advanceBulkQueue(user.id);
+      if (jobIds.length > 0) {
+        after(() => runBulkJobs(user.id, jobIds));
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Bulk batch update error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update batch",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getCurrentUser } from "@/lib/remix-upload";
+import {
+  advanceBulkQueue,
+  BULK_MAX_CONCURRENT_JOBS,
+  createBulkBatch,
+  listBulkBatches,
+  runBulkJobs,
+} from "@/lib/bulk-queue.server";
+import { defaultBulkBatchName } from "@/lib/bulk-queue";
+import { parseStrategySelection } from "@/lib/strategy-templates";
+import { resolveStrategySlots } from "@/lib/strategy-templates.server";
+
+// Polling keeps the queue moving - started jobs run in after() with this budget
+export const maxDuration = 300; // 5 minutes max
+
+/**
+ * GET /api/bulk
+ * The bulk queue dashboard: recent batches with per-item status.
+ * Each poll also advances the queue (saves finished projects, starts
+ * pending items up to the per-user concurrency limit).
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const jobIds = await advanceBulkQueue(user.id);
+    if (jobIds.length > 0) {
+      after(() => runBulkJobs(user.id, jobIds));
+    }
+
+    const batches = await listBulkBatches(user.id);
+    return NextResponse.json({ batches, maxConcurrent: BULK_MAX_CONCURRENT_JOBS });
+  } catch (error) {
+    console.error("Bulk queue error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load bulk queue",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bulk
+ * Create an empty batch, then add its images with POST /api/bulk/[id]/items.
+ *
+ * Request body:
+ * - name: Optional batch name (defaults to the upload date)
+ * - strategyIds / variantCount: Strategy selection used for every image
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsedSelection = parseStrategySelection(body?.strategyIds, body?.variantCount);
+    if ("error" in parsedSelection) {
+      return NextResponse.json({ error: parsedSelection.error }, { status: 400 });
+    }
+    try {
+      await resolveStrategySlots(parsedSelection.selection, user.id);
+    } catch (selectionError) {
+      return NextResponse.json(
+        { error: selectionError instanceof Error ? selectionError.message : "Invalid strategy selection" },
+        { status: 400 }
+      );
+    }
+
+    const name = typeof body?.name === "string" && body.name.trim() ? body.name : defaultBulkBatchName();
+    const batch = await createBulkBatch(user.id, name, parsedSelection.selection);
+    console.log(`📦 Bulk batch ${batch.id} created ("${batch.name}")`);
+
+    return NextResponse.json({ success: true, batchId: batch.id, name: batch.name });
+  } catch (error) {
+    console.error("Bulk batch error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create bulk batch",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
+import { createClient } from '@/lib/supabase/server';
+import { fetchImageAsDataUrl, storagePathFromPublicUrl, uploadToStorage } from '@/lib/storage.server';
+import {
+  DEFAULT_VECTOR_COLORS,
+  MAX_VECTOR_COLORS,
+  MIN_VECTOR_COLORS,
+  placeSvgOnCanvas,
+  vectorizeImage,
+} from '@/lib/vectorize';
+import { embedTypographyFont } from '@/lib/typography';
+import type { VariantProvenance } from '@/lib/generation-events';
+
+type ExportFormat = 'png' | 'svg';
+const EXPORT_FORMATS: ExportFormat[] = ['png', 'svg'];
 
 // Helper to convert SVG to PNG using sharp
 async function svgToPngBuffer(svgString: string, width = 2048, height = 2048): Promise<Buffer> {
@@ -22,6 +36,9 @@ async function svgToPngBuffer(svgString: string, width = 2048, height = 2048): P
  * - productHeight: Export height in pixels (e.g., 5400)
  * - scale: Design scale percentage (e.g., 100)
  * - position: { x: number, y: number } offset from center
+ * - format: "png" (default) or "svg" - see exportSvg below
+ * - colors: SVG only, colour count for tracing (2-16, default 6)
+ * - variantId: SVG only, traces the saved variant and stores the SVG next to it
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,9 +49,23 @@ export async function POST(request: NextRequest) {
       productWidth, 
       productHeight, 
       scale = 100, 
-      position = { x: 0, y: 0 } 
+      position = { x: 0, y: 0 },
+      format = 'png',
+      colors = DEFAULT_VECTOR_COLORS,
+      variantId,
     } = body;
 
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported export format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (format === 'svg') {
+      return await exportSvg({ imageData, filter, productWidth, productHeight, scale, position, colors, variantId });
+    }
+
     // Validate required fields
     if (!imageData) {
       return NextResponse.json(
@@ -155,59 +186,14 @@ export async function POST(request: NextRequest) {
     
     console.log(`   Converted to PNG: ${origWidth}x${origHeight}px`);
 
-    // Parse CSS filter and apply with Sharp
-    const filters = parseCssFilter(filter || 'none');
-    
-    // Calculate design size in export canvas
-    // Preview uses 280px base size at 100% scale, preview canvas ~500px
-    const previewBaseSize = 280;
-    const previewCanvasSize = 500;
-    const exportScale = Math.min(productWidth, productHeight) / previewCanvasSize;
-    
-    // Calculate scaled size maintaining aspect ratio
-    const imgAspect = origWidth / origHeight;
-    const previewDesignSize = previewBaseSize * (scale / 100);
-    
-    let scaledWidth: number;
-    let scaledHeight: number;
-    
-    if (imgAspect > 1) {
-      // Landscape
-      scaledWidth = Math.round(previewDesignSize * exportScale);
-      scaledHeight = Math.round(scaledWidth / imgAspect);
-    } else {
-      // Portrait or square
-      scaledHeight = Math.round(previewDesignSize * exportScale);
-      scaledWidth = Math.round(scaledHeight * imgAspect);
-    }
+    const { width: scaledWidth, height: scaledHeight, left, top } = computePlacement(
+      origWidth, origHeight, productWidth, productHeight, scale, position
+    );
     
     console.log(`   Scaled design: ${scaledWidth}x${scaledHeight}px`);
 
-    // Apply filters to the design
-    let processedDesign = sharp(inputBuffer);
-    
-    // Apply brightness and saturation via modulate
-    if (filters.brightness !== 1 || filters.saturation !== 1) {
-      processedDesign = processedDesign.modulate({
-        brightness: filters.brightness,
-        saturation: filters.saturation,
-      });
-    }
-    
-    // Apply contrast via linear transformation
-    if (filters.contrast !== 1) {
-      const a = filters.contrast;
-      const b = Math.round(128 * (1 - filters.contrast));
-      processedDesign = processedDesign.linear(a, b);
-    }
-
-    // Handle invert filter
-    if (filters.invert) {
-      processedDesign = processedDesign.negate({ alpha: false });
-    }
-    
     // Resize design to calculated dimensions
-    const designBuffer = await processedDesign
+    const designBuffer = await applyCssFilter(sharp(inputBuffer), filter)
       .resize(scaledWidth, scaledHeight, {
         kernel: 'lanczos3',
         fit: 'inside',
@@ -215,15 +201,6 @@ export async function POST(request: NextRequest) {
       .png()
       .toBuffer();
     
-    // Calculate position on canvas (center + offset)
-    const centerX = Math.round((productWidth - scaledWidth) / 2);
-    const centerY = Math.round((productHeight - scaledHeight) / 2);
-    const offsetX = Math.round(position.x * exportScale);
-    const offsetY = Math.round(position.y * exportScale);
-    
-    const left = Math.max(0, Math.min(productWidth - scaledWidth, centerX + offsetX));
-    const top = Math.max(0, Math.min(productHeight - scaledHeight, centerY + offsetY));
-    
     console.log(`   Position on canvas: (${left}, ${top})`);
 
     // Create transparent canvas and composite the design
@@ -280,6 +257,242 @@ export async function POST(request: NextRequest) {
   }
 }
 
+interface ExportVariant {
+  id: string;
+  user_id: string;
+  image_url: string;
+  provenance: VariantProvenance | null;
+}
+
+interface SvgExportOptions {
+  imageData?: string;
+  filter?: string;
+  productWidth?: number;
+  productHeight?: number;
+  scale: number;
+  position: { x: number; y: number };
+  colors: number;
+  variantId?: string;
+}
+
+/**
+ * SVG export for print providers and sticker cutters.
+ *
+ * Traces the design into colour-layered paths (lib/vectorize.ts); vector
+ * typography variants reuse their original SVG instead (no filter allowed,
+ * as it can't be applied to the vector source). With variantId the
+ * saved variant is used (imageData optional) and the design SVG is stored
+ * next to the variant's PNG in the bucket. Without productWidth/productHeight
+ * the SVG is just the design at its own size.
+ */
+async function exportSvg(options: SvgExportOptions): Promise<NextResponse> {
+  const { filter, productWidth, productHeight, scale, position, variantId } = options;
+  const colors = Number(options.colors);
+
+  if (!Number.isInteger(colors) || colors < MIN_VECTOR_COLORS || colors > MAX_VECTOR_COLORS) {
+    return NextResponse.json(
+      { error: `colors must be a whole number between ${MIN_VECTOR_COLORS} and ${MAX_VECTOR_COLORS}` },
+      { status: 400 }
+    );
+  }
+  if (!options.imageData && !variantId) {
+    return NextResponse.json(
+      { error: 'Missing required field: imageData or variantId' },
+      { status: 400 }
+    );
+  }
+  if (options.imageData && !options.imageData.startsWith('data:')) {
+    return NextResponse.json(
+      { error: 'Invalid image data format. Expected base64 data URI.' },
+      { status: 400 }
+    );
+  }
+
+  let variant: ExportVariant | null = null;
+  if (variantId) {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data } = await supabase
+      .from('variants')
+      .select('id, user_id, image_url, provenance')
+      .eq('id', variantId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!data) {
+      return NextResponse.json({ error: 'Variant not found' }, { status: 404 });
+    }
+    variant = data as ExportVariant;
+  }
+
+  console.log('📦 SVG export request received:');
+  console.log(`   Variant: ${variantId || 'none (image data)'}`);
+  console.log(`   Colors: ${colors}`);
+
+  // Vector typography already has its real source - nothing to trace
+  const vectorSource = variant?.provenance?.vector;
+  let designSvg: string;
+  let designWidth: number;
+  let designHeight: number;
+  let palette: string[] | null = null;
+
+  if (vectorSource) {
+    // The filter is a raster operation - reject it rather than silently export unfiltered
+    if (!isIdentityFilter(filter)) {
+      return NextResponse.json(
+        { error: 'Filters are not supported for vector typography. Export without a filter, or as PNG.' },
+        { status: 400 }
+      );
+    }
+    console.log('   Using the variant\'s typography SVG');
+    // Print providers don't have our fonts - ship the font inside the file
+    designSvg = await embedTypographyFont(vectorSource.svg, vectorSource.font);
+    const sizeMatch = vectorSource.svg.match(/<svg\b[^>]*\bwidth="(\d+(?:\.\d+)?)"[^>]*\bheight="(\d+(?:\.\d+)?)"/);
+    designWidth = sizeMatch ? Number(sizeMatch[1]) : 4500;
+    designHeight = sizeMatch ? Number(sizeMatch[2]) : 5400;
+  } else {
+    const imageData = options.imageData || await fetchImageAsDataUrl(variant!.image_url);
+    const base64Data = imageData.split(',')[1] || '';
+    if (!base64Data) {
+      return NextResponse.json(
+        { error: 'Image data is empty or corrupted.' },
+        { status: 400 }
+      );
+    }
+
+    const filtered = await applyCssFilter(sharp(Buffer.from(base64Data, 'base64')), filter).png().toBuffer();
+    const traced = await vectorizeImage(filtered, { colors });
+    console.log(`   Traced ${traced.pathCount} contours in ${traced.palette.length} colours`);
+
+    designSvg = traced.svg;
+    designWidth = traced.width;
+    designHeight = traced.height;
+    palette = traced.palette;
+  }
+
+  let svgUrl: string | null = null;
+  if (variant) {
+    const variantPath = storagePathFromPublicUrl(variant.image_url);
+    const svgPath = variantPath
+      ? variantPath.replace(/\.[a-z]+$/i, '') + '.svg'
+      : `variants/${variant.user_id}/${variant.id}.svg`;
+    svgUrl = await uploadToStorage(
+      `data:image/svg+xml;base64,${Buffer.from(designSvg).toString('base64')}`,
+      svgPath
+    );
+    console.log(`   Stored SVG: ${svgPath}`);
+  }
+
+  let outputSvg = designSvg;
+  if (productWidth && productHeight) {
+    const box = computePlacement(designWidth, designHeight, productWidth, productHeight, scale, position);
+    outputSvg = placeSvgOnCanvas(designSvg, { width: productWidth, height: productHeight }, box);
+    console.log(`   Placed on ${productWidth}x${productHeight} canvas at (${box.left}, ${box.top})`);
+  }
+
+  console.log(`   File size: ${(Buffer.byteLength(outputSvg) / 1024).toFixed(1)} KB`);
+  console.log('✅ SVG export complete');
+
+  return NextResponse.json({
+    success: true,
+    format: 'svg',
+    exportedImage: `data:image/svg+xml;base64,${Buffer.from(outputSvg).toString('base64')}`,
+    svgUrl,
+    palette,
+    dimensions: {
+      width: productWidth || designWidth,
+      height: productHeight || designHeight,
+    },
+  });
+}
+
+/**
+ * Size and position of the design on the product canvas, matching the preview:
+ * 280px base size at 100% scale on a ~500px preview canvas
+ */
+function computePlacement(
+  origWidth: number,
+  origHeight: number,
+  productWidth: number,
+  productHeight: number,
+  scale: number,
+  position: { x: number; y: number }
+): { width: number; height: number; left: number; top: number } {
+  const previewBaseSize = 280;
+  const previewCanvasSize = 500;
+  const exportScale = Math.min(productWidth, productHeight) / previewCanvasSize;
+  
+  // Calculate scaled size maintaining aspect ratio
+  const imgAspect = origWidth / origHeight;
+  const previewDesignSize = previewBaseSize * (scale / 100);
+  
+  let width: number;
+  let height: number;
+  
+  if (imgAspect > 1) {
+    // Landscape
+    width = Math.round(previewDesignSize * exportScale);
+    height = Math.round(width / imgAspect);
+  } else {
+    // Portrait or square
+    height = Math.round(previewDesignSize * exportScale);
+    width = Math.round(height * imgAspect);
+  }
+  
+  // Calculate position on canvas (center + offset)
+  const centerX = Math.round((productWidth - width) / 2);
+  const centerY = Math.round((productHeight - height) / 2);
+  const offsetX = Math.round(position.x * exportScale);
+  const offsetY = Math.round(position.y * exportScale);
+  
+  const left = Math.max(0, Math.min(productWidth - width, centerX + offsetX));
+  const top = Math.max(0, Math.min(productHeight - height, centerY + offsetY));
+
+  return { width, height, left, top };
+}
+
+/**
+ * Apply a CSS filter string (brightness, contrast, saturate, invert) with Sharp
+ */
+function applyCssFilter(image: sharp.Sharp, filter: string | undefined): sharp.Sharp {
+  const filters = parseCssFilter(filter || 'none');
+  
+  // Apply brightness and saturation via modulate
+  if (filters.brightness !== 1 || filters.saturation !== 1) {
+    image = image.modulate({
+      brightness: filters.brightness,
+      saturation: filters.saturation,
+    });
+  }
+  
+  // Apply contrast via linear transformation
+  if (filters.contrast !== 1) {
+    const a = filters.contrast;
+    const b = Math.round(128 * (1 - filters.contrast));
+    image = image.linear(a, b);
+  }
+
+  // Handle invert filter
+  if (filters.invert) {
+    image = image.negate({ alpha: false });
+  }
+
+  return image;
+}
+
+/**
+ * Whether a CSS filter string leaves the image unchanged under applyCssFilter
+ */
+function isIdentityFilter(filter: string | undefined): boolean {
+  const filters = parseCssFilter(filter || 'none');
+  return filters.brightness === 1 && filters.contrast === 1 && filters.saturation === 1 && !filters.invert;
+}
+
 /**
  * Parse CSS filter string into individual values
  */
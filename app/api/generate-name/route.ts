@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
 import { generateProjectName } from "@/lib/gemini";
+import { withUsageContext } from "@/lib/cost-ledger";
+import { createClient } from "@/lib/supabase/server";
 
 export const maxDuration = 30;
 
 export async function POST(request: Request) {
   try {
-    const { imageData } = await request.json();
+    const { imageData, jobId } = await request.json();
 
     if (!imageData) {
       return NextResponse.json(
@@ -14,7 +16,14 @@ export async function POST(request: Request) {
       );
     }
 
-    const projectName = await generateProjectName(imageData);
+    // Guests can name designs too - the call is billed to the user when signed in
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const projectName = await withUsageContext(
+      { userId: user?.id ?? null, jobId: typeof jobId === "string" ? jobId : null },
+      () => generateProjectName(imageData)
+    );
 
     return NextResponse.json({ name: projectName });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { tagFields, trademarkIssues } from '@/lib/trademark-screening';
 
 type ValidationLevel = 'error' | 'warning';
 
@@ -7,6 +8,8 @@ interface ValidationIssue {
   level: ValidationLevel;
   code: string;
   message: string;
+  term?: string;   // trademark_risk: the restricted term that matched
+  field?: string;  // trademark_risk: where it matched (title, description, tags[n])
 }
 
 export async function POST(request: NextRequest) {
@@ -23,6 +26,7 @@ export async function POST(request: NextRequest) {
       shopIds = [],
       imageCount,
       colorVariantCount,
+      designText,
     } = body;
 
     const issues: ValidationIssue[] = [];
@@ -80,6 +84,14 @@ export async function POST(request: NextRequest) {
       issues.push({ level: 'warning', code: 'tags_recommended', message: 'Add tags to improve Etsy SEO (optional).' });
     }
 
+    // Trademark / restricted phrases in the listing (AI-written or typed) and the design itself
+    issues.push(...trademarkIssues({
+      design_text: typeof designText === 'string' ? designText : null,
+      title: typeof title === 'string' ? title : null,
+      description: typeof description === 'string' ? description : null,
+      ...tagFields(tags),
+    }));
+
     const hasErrors = issues.some((i) => i.level === 'error');
 
     return NextResponse.json({
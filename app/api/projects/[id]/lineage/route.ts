@@ -0,0 +1,125 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Guards against cycles / very deep remix chains
+const MAX_LINEAGE_DEPTH = 20;
+
+interface LineageProject {
+  id: string;
+  name: string;
+  original_image_url: string;
+  parent_project_id: string | null;
+  parent_variant_id: string | null;
+  created_at: string;
+}
+
+interface LineageVariant {
+  id: string;
+  strategy: string;
+  image_url: string;
+  thumbnail_url: string | null;
+  batch_number: number | null;
+}
+
+const PROJECT_COLUMNS = 'id, name, original_image_url, parent_project_id, parent_variant_id, created_at';
+const VARIANT_COLUMNS = 'id, strategy, image_url, thumbnail_url, batch_number';
+
+/**
+ * GET /api/projects/[id]/lineage
+ * Where a project was remixed from, and what was remixed from it
+ *
+ * Response:
+ * - ancestors: Oldest first - each ancestor project with the variant the next
+ *   project was remixed from (original → variant → sub-variant ...)
+ * - children: Projects remixed from one of this project's variants
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: projectData, error: projectError } = await supabase
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !projectData) {
+      // Missing lineage columns (migration not run) - nothing to show
+      if (projectError?.message?.includes('parent_')) {
+        return NextResponse.json({ ancestors: [], children: [] });
+      }
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Walk up the parent links
+    const ancestors: Array<{ project: LineageProject; variant: LineageVariant | null }> = [];
+    const seen = new Set<string>([projectId]);
+    let current = projectData as LineageProject;
+
+    while (current.parent_project_id && !seen.has(current.parent_project_id) && ancestors.length < MAX_LINEAGE_DEPTH) {
+      seen.add(current.parent_project_id);
+
+      const { data: parentData } = await supabase
+        .from('projects')
+        .select(PROJECT_COLUMNS)
+        .eq('id', current.parent_project_id)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!parentData) break;
+
+      let variant: LineageVariant | null = null;
+      if (current.parent_variant_id) {
+        const { data: variantData } = await supabase
+          .from('variants')
+          .select(VARIANT_COLUMNS)
+          .eq('id', current.parent_variant_id)
+          .eq('user_id', user.id)
+          .single();
+        variant = (variantData as LineageVariant | null) ?? null;
+      }
+
+      const parent = parentData as LineageProject;
+      ancestors.unshift({ project: parent, variant });
+      current = parent;
+    }
+
+    // One level down - projects remixed from this one
+    const { data: childData } = await supabase
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .eq('parent_project_id', projectId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    return NextResponse.json({
+      ancestors,
+      children: (childData || []) as LineageProject[],
+    });
+  } catch (error) {
+    console.error('Get project lineage error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,21 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { generateVariantImages } from "@/lib/gemini";
+import { resolveGenerationPipeline } from "@/lib/image-providers";
+import { analyzeCached, removeBackgroundCached } from "@/lib/image-cache";
+import { fetchImageAsDataUrl, uploadVariantImages } from "@/lib/storage.server";
 import {
-  analyzeImage,
-  generateRemixStrategies,
-  generateVariantImages,
-} from "@/lib/gemini";
-import { removeBackgroundWithRecraft } from "@/lib/recraft";
-import { createThumbnail } from "@/lib/thumbnail";
-import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+  createGenerationStream,
+  wantsEventStream,
+  type FailedVariant,
+  type GenerationEventHandler,
+  type VariantProvenance,
+} from "@/lib/generation-events";
+import type { DesignAnalysis } from "@/lib/design-utils";
+import { parseStrategySelection, type StrategySlot } from "@/lib/strategy-templates";
+import { resolveStrategySlots } from "@/lib/strategy-templates.server";
+import { strategyLanguage } from "@/lib/localization";
+import { withUsageContext } from "@/lib/cost-ledger";
 
 // Configure API route for long-running generation
 export const maxDuration = 300; // 5 minutes max
@@ -16,56 +24,165 @@ interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// Create a Supabase client for storage operations (using service role)
-const supabaseStorage = createSupabaseClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-const STORAGE_BUCKET = "design-images";
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
 
 /**
- * Convert base64 data URL to Buffer for upload
+ * Run the full generation pipeline for a new batch and save the variant records
  */
-function dataURLtoBuffer(dataURL: string): { buffer: Buffer; mimeType: string } {
-  const matches = dataURL.match(/^data:([^;]+);base64,(.+)$/);
-  if (!matches) {
-    throw new Error("Invalid data URL format");
+async function regenerateBatch(
+  supabase: ServerSupabase,
+  project: { id: string; original_image_url: string },
+  storedAnalysis: DesignAnalysis | null,
+  userId: string,
+  nextBatchNumber: number,
+  slots: StrategySlot[],
+  emit: GenerationEventHandler
+) {
+  const projectId = project.id;
+
+  // Download the original image and convert to base64
+  const imageDataUrl = await fetchImageAsDataUrl(project.original_image_url);
+
+  console.log("📷 Original image fetched, starting pre-processing...");
+
+  const pipeline = resolveGenerationPipeline();
+
+  // Pre-process: Remove background from original image
+  emit({ type: 'stage', stage: 'preprocess' });
+  let cleanedReferenceImage: string;
+  try {
+    console.log("🧹 Pre-processing: Extracting design from mockup...");
+    // Same original every batch - the cleaned reference is cached after the first run
+    const cleanedImageUrl = await removeBackgroundCached(imageDataUrl, pipeline.backgroundProvider);
+    cleanedReferenceImage = await fetchImageAsDataUrl(cleanedImageUrl);
+    console.log("✅ Design extracted successfully");
+  } catch (error) {
+    console.error("Pre-processing error:", error);
+    cleanedReferenceImage = imageDataUrl;
   }
-  const mimeType = matches[1];
-  const base64Data = matches[2];
-  const buffer = Buffer.from(base64Data, "base64");
-  return { buffer, mimeType };
-}
 
-/**
- * Upload an image to Supabase Storage and return the public URL
- */
-async function uploadToStorage(imageData: string, path: string): Promise<string> {
-  const { buffer, mimeType } = dataURLtoBuffer(imageData);
+  // Reuse the project's analysis (including any review corrections) - only
+  // projects saved without provenance are analyzed again
+  emit({ type: 'stage', stage: 'analysis' });
+  let analysis: DesignAnalysis;
+  if (storedAnalysis) {
+    analysis = storedAnalysis;
+    console.log("♻️ Using the project's stored analysis");
+  } else {
+    console.log("🔍 Analyzing design...");
+    analysis = await analyzeCached(imageDataUrl, pipeline.analysisProvider);
+    console.log("✅ Analysis complete:", analysis);
+  }
+  emit({ type: 'analysis', analysis });
+
+  // Generate remix strategies
+  console.log("💡 Generating remix strategies...");
+  emit({ type: 'stage', stage: 'strategies' });
+  const strategies = await pipeline.planStrategies(analysis, slots);
+  console.log(`✅ Generated ${strategies.length} strategies`);
+  emit({ type: 'strategies', strategies: strategies.map(({ id, strategy }) => ({ id, strategy })) });
+
+  // Generate variant images, uploading each (with thumbnail) as soon as it's ready
+  console.log("🎨 Generating variant images...");
+  emit({ type: 'stage', stage: 'variants' });
+  const uploaded = new Map<number, { imageUrl: string; thumbnailUrl: string }>();
+  const results = await generateVariantImages(cleanedReferenceImage, strategies, analysis, {
+    pipeline,
+    onProgress: emit,
+    onVariant: async (variant, tier) => {
+      const urls = await uploadVariantImages(
+        variant.design.imageData,
+        `variants/${userId}/${projectId}_b${nextBatchNumber}_v${variant.id}`
+      );
+      console.log(`✅ Variant ${variant.id} uploaded`);
+      uploaded.set(variant.id, urls);
+      emit({
+        type: 'variant_ready',
+        variant: {
+          id: variant.id,
+          strategy: variant.strategy,
+          strategyId: variant.strategyId,
+          status: 'ok',
+          tier,
+          design: {
+            imageData: urls.imageUrl,
+            imageUrl: urls.imageUrl,
+            thumbnailUrl: urls.thumbnailUrl,
+            prompt: variant.design.prompt,
+          },
+          colorClassification: variant.colorClassification,
+          provenance: variant.provenance,
+          similarity: variant.similarity,
+        },
+      });
+    },
+  });
+  const variants = results.flatMap((result) => (result.status === 'ok' ? [result.variant] : []));
+  const failedVariants = results.filter((result): result is FailedVariant => result.status === 'failed');
+  console.log(`✅ Generated ${variants.length} variants, ${failedVariants.length} failed`);
+
+  // Save whatever succeeded - only a batch with nothing to show is an error
+  if (variants.length === 0) {
+    throw new Error(`All variants failed: ${failedVariants.map((variant) => variant.error).join('; ')}`);
+  }
+
+  // Save variant records to database
+  console.log("💾 Saving variants to database...");
+  emit({ type: 'stage', stage: 'upload' });
+  const variantRecords = variants.map((variant) => {
+    const urls = uploaded.get(variant.id);
+    return {
+      project_id: projectId,
+      user_id: userId,  // Include user_id for optimized RLS
+      variant_number: variant.id,
+      batch_number: nextBatchNumber,
+      strategy: variant.strategy,
+      strategy_id: variant.strategyId || null,
+      language: strategyLanguage(variant.strategyId),
+      image_url: urls?.imageUrl || variant.design.imageData,
+      thumbnail_url: urls?.thumbnailUrl || null,
+      recommended_background: variant.colorClassification?.recommendedBackground || 'light' as const,
+      provenance: variant.provenance,
+      similarity: variant.similarity,
+    };
+  });
 
-  const { error } = await supabaseStorage.storage
-    .from(STORAGE_BUCKET)
-    .upload(path, buffer, {
-      contentType: mimeType,
-      upsert: true,
-    });
+  const { error: insertError } = await supabase
+    .from('variants')
+    .insert(variantRecords as never);
+
+  if (insertError) {
+    console.error("Failed to save variants:", insertError);
+    console.error("Insert error details:", JSON.stringify(insertError, null, 2));
+
+    // Check if it's a missing column error
+    if (insertError.message?.includes('batch_number')) {
+      throw new Error(`Database migration required. Please run the SQL migration to add batch_number column. (${insertError.message})`);
+    }
 
-  if (error) {
-    console.error("Storage upload error:", error);
-    throw new Error(`Failed to upload image: ${error.message}`);
+    throw new Error(`Failed to save regenerated variants: ${insertError.message}`);
   }
 
-  const { data: urlData } = supabaseStorage.storage
-    .from(STORAGE_BUCKET)
-    .getPublicUrl(path);
+  console.log(`✅ Regeneration complete! Created batch ${nextBatchNumber} with ${variants.length} variants`);
+  emit({ type: 'stage', stage: 'done' });
 
-  return urlData.publicUrl;
+  return {
+    success: true,
+    batchNumber: nextBatchNumber,
+    variantCount: variants.length,
+    variants: variantRecords,
+    failedVariants,
+  };
 }
 
 /**
  * POST /api/projects/[id]/regenerate
  * Regenerates variants for an existing project, creating a new batch
+ * Uses the analysis stored in the project's variant provenance (analyzed again only if none)
+ * Optional JSON body: { strategyIds, variantCount } (defaults to the 4 built-in strategies)
+ *
+ * With `Accept: text/event-stream`, streams typed progress events and
+ * finishes with a `complete` event carrying the same payload as the JSON response.
  */
 export async function POST(request: Request, { params }: RouteParams) {
   try {
@@ -104,154 +221,59 @@ export async function POST(request: Request, { params }: RouteParams) {
       name: string;
       original_image_url: string;
       created_at: string;
-      variants: Array<{ batch_number?: number }>;
+      variants: Array<{
+        batch_number?: number;
+        variant_number: number;
+        provenance: VariantProvenance | null;
+      }>;
     };
 
+    // Analysis the project was generated from: the first variant that recorded one
+    const storedAnalysis = [...(project.variants || [])]
+      .sort((a, b) => (a.batch_number || 1) - (b.batch_number || 1) || a.variant_number - b.variant_number)
+      .find((variant) => variant.provenance?.analysis)?.provenance?.analysis ?? null;
+
     // Calculate the next batch number
     const existingBatches = project.variants?.map((v) => v.batch_number || 1) || [1];
     const maxBatch = Math.max(...existingBatches);
     const nextBatchNumber = maxBatch + 1;
 
-    console.log(`🔄 Regenerating project ${projectId}, creating batch ${nextBatchNumber}`);
-
-    // Fetch the original image
-    const originalImageUrl = project.original_image_url;
-    
-    // Download the original image and convert to base64
-    const imageResponse = await fetch(originalImageUrl);
-    if (!imageResponse.ok) {
-      throw new Error("Failed to fetch original image");
+    // Strategy selection (empty body = defaults)
+    const body = await request.json().catch(() => ({}));
+    const parsedSelection = parseStrategySelection(body?.strategyIds, body?.variantCount);
+    if ("error" in parsedSelection) {
+      return NextResponse.json(
+        { error: parsedSelection.error },
+        { status: 400 }
+      );
     }
-    const imageBuffer = await imageResponse.arrayBuffer();
-    const base64Image = Buffer.from(imageBuffer).toString("base64");
-    const imageDataUrl = `data:image/png;base64,${base64Image}`;
-
-    console.log("📷 Original image fetched, starting pre-processing...");
-
-    // Pre-process: Remove background from original image
-    let cleanedReferenceImage: string;
+    let slots: StrategySlot[];
     try {
-      console.log("🧹 Pre-processing: Extracting design from mockup...");
-      cleanedReferenceImage = await removeBackgroundWithRecraft(imageDataUrl);
-      console.log("✅ Design extracted successfully");
-    } catch (error) {
-      console.error("Pre-processing error:", error);
-      cleanedReferenceImage = imageDataUrl;
+      slots = await resolveStrategySlots(parsedSelection.selection, user.id);
+    } catch (selectionError) {
+      return NextResponse.json(
+        { error: selectionError instanceof Error ? selectionError.message : "Invalid strategy selection" },
+        { status: 400 }
+      );
     }
 
-    // Analyze the design
-    console.log("🔍 Analyzing design...");
-    const analysis = await analyzeImage(imageDataUrl);
-    console.log("✅ Analysis complete:", analysis);
-
-    // Generate remix strategies
-    console.log("💡 Generating remix strategies...");
-    const strategies = await generateRemixStrategies(analysis);
-    console.log(`✅ Generated ${strategies.length} strategies`);
-
-    // Generate variant images
-    console.log("🎨 Generating variant images...");
-    const variants = await generateVariantImages(cleanedReferenceImage, strategies, analysis);
-    console.log(`✅ Generated ${variants.length} variants`);
-
-    // Upload variants to storage with batch-specific paths (including thumbnails)
-    console.log("📤 Uploading variants to storage...");
-    const uploadedVariants = await Promise.all(
-      variants.map(async (variant) => {
-        const variantPath = `variants/${user.id}/${projectId}_b${nextBatchNumber}_v${variant.id}.png`;
-        const thumbnailPath = `variants/${user.id}/${projectId}_b${nextBatchNumber}_v${variant.id}_thumb.webp`;
-        
-        try {
-          const imageUrl = await uploadToStorage(variant.design.imageData, variantPath);
-          console.log(`✅ Variant ${variant.id} uploaded`);
-          
-          // Create and upload thumbnail
-          let thumbnailUrl = imageUrl; // Fallback to full image
-          try {
-            const thumbnailBuffer = await createThumbnail(variant.design.imageData, 400);
-            const { error: thumbError } = await supabaseStorage.storage
-              .from(STORAGE_BUCKET)
-              .upload(thumbnailPath, thumbnailBuffer, {
-                contentType: 'image/webp',
-                upsert: true,
-              });
-            
-            if (!thumbError) {
-              const { data: thumbUrlData } = supabaseStorage.storage
-                .from(STORAGE_BUCKET)
-                .getPublicUrl(thumbnailPath);
-              thumbnailUrl = thumbUrlData.publicUrl;
-              console.log(`🖼️ Thumbnail ${variant.id} created`);
-            }
-          } catch (thumbErr) {
-            console.warn(`⚠️ Thumbnail creation failed for variant ${variant.id}`);
-          }
-          
-          return {
-            ...variant,
-            design: {
-              ...variant.design,
-              imageData: imageUrl,
-              imageUrl: imageUrl,
-              thumbnailUrl: thumbnailUrl,
-            },
-          };
-        } catch (uploadError) {
-          console.error(`❌ Failed to upload variant ${variant.id}:`, uploadError);
-          return variant;
-        }
-      })
-    );
-
-    // Save variant records to database
-    console.log("💾 Saving variants to database...");
-    const variantRecords = uploadedVariants.map((variant) => {
-      // Access design with type assertion since we added imageUrl and thumbnailUrl during upload
-      const design = variant.design as { imageData: string; imageUrl?: string; thumbnailUrl?: string; prompt: string };
-      return {
-        project_id: projectId,
-        user_id: user.id,  // Include user_id for optimized RLS
-        variant_number: variant.id,
-        batch_number: nextBatchNumber,
-        strategy: variant.strategy,
-        image_url: design.imageUrl || design.imageData,
-        thumbnail_url: design.thumbnailUrl || null,
-        recommended_background: variant.colorClassification?.recommendedBackground || 'light' as const,
-      };
-    });
+    console.log(`🔄 Regenerating project ${projectId}, creating batch ${nextBatchNumber}`);
 
-    const { error: insertError } = await supabase
-      .from('variants')
-      .insert(variantRecords as never);
+    const usage = { userId: user.id, projectId: project.id };
 
-    if (insertError) {
-      console.error("Failed to save variants:", insertError);
-      console.error("Insert error details:", JSON.stringify(insertError, null, 2));
-      
-      // Check if it's a missing column error
-      if (insertError.message?.includes('batch_number')) {
-        return NextResponse.json(
-          { 
-            error: "Database migration required. Please run the SQL migration to add batch_number column.",
-            details: insertError.message 
-          },
-          { status: 500 }
+    if (wantsEventStream(request)) {
+      return createGenerationStream(async (send) => {
+        const result = await withUsageContext(usage, () =>
+          regenerateBatch(supabase, project, storedAnalysis, user.id, nextBatchNumber, slots, send)
         );
-      }
-      
-      return NextResponse.json(
-        { error: "Failed to save regenerated variants", details: insertError.message },
-        { status: 500 }
-      );
+        send({ type: 'complete', result });
+      });
     }
 
-    console.log(`✅ Regeneration complete! Created batch ${nextBatchNumber} with ${variants.length} variants`);
-
-    return NextResponse.json({
-      success: true,
-      batchNumber: nextBatchNumber,
-      variantCount: variants.length,
-    });
+    const result = await withUsageContext(usage, () =>
+      regenerateBatch(supabase, project, storedAnalysis, user.id, nextBatchNumber, slots, () => {})
+    );
+    return NextResponse.json(result);
 
   } catch (error) {
     console.error("Regeneration error:", error);
@@ -264,4 +286,3 @@ export async function POST(request: Request, { params }: RouteParams) {
     );
   }
 }
-
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseRemixUpload } from "@/lib/remix-upload";
+import { createRemixJob, getRemixJob, runRemixJob, toRemixJobView } from "@/lib/remix-jobs";
+
+// Pre-processing + analysis run inside the request (usually 10-30s)
+export const maxDuration = 300; // 5 minutes max
+
+/**
+ * POST /api/remix/analyze
+ * Review flow, step 1: upload a design and get its DesignAnalysis back without
+ * generating anything. Same form fields and limits as POST /api/remix.
+ *
+ * The job pauses as "awaiting_review". Next:
+ * POST /api/remix/strategies (corrected analysis) → POST /api/remix/jobs/[id]/generate (edited prompts)
+ * Anonymous usage is only counted once variants are generated.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseRemixUpload(request);
+    if ("response" in parsed) {
+      return parsed.response;
+    }
+    const { user, ipHash, imageDataUrl, referenceDataUrls, selection } = parsed.upload;
+
+    const created = await createRemixJob({
+      imageDataUrl,
+      referenceDataUrls,
+      userId: user?.id ?? null,
+      ipHash,
+      selection,
+      review: true,
+    });
+
+    console.log(`🔍 Remix job ${created.id} created for review`);
+    await runRemixJob(created.id);
+
+    const job = await getRemixJob(created.id);
+    if (!job || job.status !== 'awaiting_review') {
+      return NextResponse.json(
+        {
+          error: "Failed to analyze design",
+          details: job?.error || "Analysis did not finish",
+        },
+        { status: 500 }
+      );
+    }
+
+    const view = toRemixJobView(job);
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      analysis: view.analysis,
+      trademarkRisks: view.trademarkRisks,
+      selection,
+    });
+  } catch (error) {
+    console.error("Remix analyze error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to analyze design",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
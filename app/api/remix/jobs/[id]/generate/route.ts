@@ -0,0 +1,96 @@
+import { NextResponse, after } from "next/server";
+import {
+  getRemixJob,
+  getRemixJobForCurrentUser,
+  runRemixJob,
+  startReviewedGeneration,
+  toRemixJobView,
+} from "@/lib/remix-jobs";
+import { createGenerationStream, wantsEventStream } from "@/lib/generation-events";
+
+// Generation runs in after() (or inside the stream) with this budget
+export const maxDuration = 300; // 5 minutes max
+
+// Keep edited prompts in the same range as generated ones
+const MAX_PROMPT_LENGTH = 2000;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/remix/jobs/[id]/generate
+ * Review flow, step 3: generate variants from the reviewed strategies.
+ * Body: { prompts?: { [strategyId]: string } } - edited prompts (others are kept)
+ *
+ * Like POST /api/remix: returns 202 and runs in the background (poll the job),
+ * or streams progress events with `Accept: text/event-stream`.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id: jobId } = await params;
+
+    const job = await getRemixJobForCurrentUser(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'awaiting_review' || job.stage !== 'variants') {
+      return NextResponse.json(
+        { error: "Plan strategies with POST /api/remix/strategies before generating" },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const prompts: Record<number, string> = {};
+    for (const [id, prompt] of Object.entries(body?.prompts ?? {})) {
+      if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) {
+        return NextResponse.json(
+          { error: `Prompt for strategy ${id} must be a string under ${MAX_PROMPT_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      prompts[Number(id)] = prompt;
+    }
+
+    const queued = await startReviewedGeneration(job, prompts);
+    console.log(`🧵 Remix job ${jobId} reviewed, generating variants`);
+
+    if (wantsEventStream(request)) {
+      return createGenerationStream(async (send) => {
+        send({ type: 'job', jobId });
+        await runRemixJob(jobId, { onEvent: send });
+
+        const finished = await getRemixJob(jobId);
+        if (finished) {
+          send({ type: 'complete', result: { job: toRemixJobView(finished) } });
+        }
+      });
+    }
+
+    after(() => runRemixJob(jobId));
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId,
+        status: queued.status,
+        stage: queued.stage,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Remix generate error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start generation",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse, after } from "next/server";
+import {
+  canRetryFailedVariants,
+  getRemixJob,
+  getRemixJobForCurrentUser,
+  requeueFailedVariants,
+  runRemixJob,
+  toRemixJobView,
+} from "@/lib/remix-jobs";
+import { createGenerationStream, wantsEventStream } from "@/lib/generation-events";
+import { checkAnonymousLimit } from "@/lib/remix-upload";
+
+// The retry runs in after() (or inside the stream) with this budget
+export const maxDuration = 300; // 5 minutes max
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/remix/jobs/[id]/retry
+ * Re-runs only the strategies that failed, keeping the variants that succeeded.
+ * Anonymous jobs need daily limit left, like POST /api/remix, but a retry
+ * does not count against it again.
+ *
+ * Like POST /api/remix: returns 202 and runs in the background (poll the job),
+ * or streams progress events with `Accept: text/event-stream`.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id: jobId } = await params;
+
+    const job = await getRemixJobForCurrentUser(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canRetryFailedVariants(job)) {
+      return NextResponse.json(
+        { error: "No failed variants to retry" },
+        { status: 409 }
+      );
+    }
+
+    // Same anonymous check as a new remix
+    if (!job.user_id) {
+      const limit = await checkAnonymousLimit(request);
+      if ("response" in limit) {
+        return limit.response;
+      }
+    }
+
+    const queued = await requeueFailedVariants(jobId);
+    console.log(`🔁 Retrying failed variants for remix job ${jobId}`);
+
+    if (wantsEventStream(request)) {
+      return createGenerationStream(async (send) => {
+        send({ type: 'job', jobId });
+        await runRemixJob(jobId, { onEvent: send });
+
+        const finished = await getRemixJob(jobId);
+        if (finished) {
+          send({ type: 'complete', result: { job: toRemixJobView(finished) } });
+        }
+      });
+    }
+
+    after(() => runRemixJob(jobId));
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId,
+        status: queued.status,
+        stage: queued.stage,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Remix retry error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to retry variants",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse, after } from "next/server";
+import {
+  getRemixJobForCurrentUser,
+  isJobRunnable,
+  runRemixJob,
+  toRemixJobView,
+} from "@/lib/remix-jobs";
+
+// A poll may resume a stalled job, which runs in after() with this budget
+export const maxDuration = 300; // 5 minutes max
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/remix/jobs/[id]
+ * Returns the current status/stage of a remix job (and results once done).
+ * If the job is queued or its worker died mid-stage, resumes it in the background.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id: jobId } = await params;
+
+    const job = await getRemixJobForCurrentUser(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (isJobRunnable(job)) {
+      console.log(`🔁 Resuming remix job ${jobId} at stage "${job.stage}"`);
+      after(() => runRemixJob(jobId));
+    }
+
+    return NextResponse.json({ job: toRemixJobView(job) });
+  } catch (error) {
+    console.error("Remix job status error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load remix job",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { normalizeDesignAnalysis } from "@/lib/design-utils";
+import { parseStrategySelection } from "@/lib/strategy-templates";
+import { getRemixJobForCurrentUser, planReviewedStrategies } from "@/lib/remix-jobs";
+
+export const maxDuration = 60;
+
+/**
+ * POST /api/remix/strategies
+ * Review flow, step 2: plan strategy prompts from the user's corrected analysis.
+ * Body: { jobId, analysis, strategyIds?, variantCount? }
+ * Can be called again with a different analysis / selection to re-plan.
+ */
+export async function POST(request: Request) {
+  try {
+    const { jobId, analysis: rawAnalysis, strategyIds, variantCount } = await request.json();
+
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json(
+        { error: "jobId is required" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getRemixJobForCurrentUser(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'awaiting_review') {
+      return NextResponse.json(
+        { error: "This remix is not waiting for review" },
+        { status: 409 }
+      );
+    }
+
+    const analysis = normalizeDesignAnalysis(rawAnalysis);
+    if (!analysis) {
+      return NextResponse.json(
+        { error: "Invalid analysis - theme, style, text, tone, typography_style, text_color, graphic_colors and design_type are required" },
+        { status: 400 }
+      );
+    }
+
+    // Default to the selection made at upload
+    const parsedSelection = parseStrategySelection(
+      strategyIds ?? job.strategy_ids,
+      variantCount ?? job.variant_count
+    );
+    if ("error" in parsedSelection) {
+      return NextResponse.json(
+        { error: parsedSelection.error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await planReviewedStrategies(job, analysis, parsedSelection.selection);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      analysis,
+      strategies: updated.strategies,
+    });
+  } catch (error) {
+    console.error("Remix strategies error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to generate remix strategies",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateSeasonalEventInput } from "@/lib/seasonal-events";
+import { toSeasonalEvent, toSeasonalEventFields } from "@/lib/seasonal-events.server";
+import type { SeasonalEventRow } from "@/lib/supabase/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/seasonal-events/[id]
+ * Update one of the user's events (same body as POST /api/seasonal-events)
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateSeasonalEventInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('seasonal_events')
+      .update({
+        ...toSeasonalEventFields(body),
+        updated_at: new Date().toISOString(),
+      } as never)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update seasonal event: ${error.message}`);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Seasonal event not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ event: toSeasonalEvent(data as SeasonalEventRow) });
+  } catch (error) {
+    console.error("Seasonal event update error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update seasonal event",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/seasonal-events/[id]
+ * Variants already generated for the event keep their label (stored on the variant)
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('seasonal_events')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete seasonal event: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Seasonal event delete error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete seasonal event",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
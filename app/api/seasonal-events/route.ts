@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateSeasonalEventInput } from "@/lib/seasonal-events";
+import { listSeasonalEvents, toSeasonalEvent, toSeasonalEventFields } from "@/lib/seasonal-events.server";
+import type { SeasonalEventInsert, SeasonalEventRow } from "@/lib/supabase/types";
+
+/**
+ * GET /api/seasonal-events
+ * The seasonal calendar: built-in holidays, plus the user's own events when signed in
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const events = await listSeasonalEvents(user?.id ?? null);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Seasonal events API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load seasonal events",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/seasonal-events
+ * Add an event: { name, month, day } or { name, month, weekday, nth }, plus { leadDays, promptHint }
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateSeasonalEventInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const record: SeasonalEventInsert = {
+      user_id: user.id,
+      ...toSeasonalEventFields(body),
+    };
+
+    const { data, error } = await supabase
+      .from('seasonal_events')
+      .insert(record as never)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save seasonal event: ${error?.message || 'no row returned'}`);
+    }
+
+    return NextResponse.json(
+      { event: toSeasonalEvent(data as SeasonalEventRow) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Seasonal events API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save seasonal event",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateStrategyTemplateInput } from "@/lib/strategy-templates";
+import { toStrategyTemplate } from "@/lib/strategy-templates.server";
+import type { StrategyTemplateRow } from "@/lib/supabase/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/strategy-templates/[id]
+ * Update one of the user's templates: { name, promptScaffold, similarityTarget }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateStrategyTemplateInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('strategy_templates')
+      .update({
+        name: body.name.trim(),
+        prompt_scaffold: body.promptScaffold.trim(),
+        similarity_target: Number(body.similarityTarget),
+        updated_at: new Date().toISOString(),
+      } as never)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update strategy template: ${error.message}`);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Strategy template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template: toStrategyTemplate(data as StrategyTemplateRow) });
+  } catch (error) {
+    console.error("Strategy template update error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update strategy template",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/strategy-templates/[id]
+ * Existing variants keep their strategy_id (the name is also stored on the variant)
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('strategy_templates')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete strategy template: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Strategy template delete error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete strategy template",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateStrategyTemplateInput } from "@/lib/strategy-templates";
+import { listStrategyTemplates, toStrategyTemplate } from "@/lib/strategy-templates.server";
+import type { StrategyTemplateInsert, StrategyTemplateRow } from "@/lib/supabase/types";
+
+/**
+ * GET /api/strategy-templates
+ * Built-in strategies, plus the user's own templates when signed in
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const templates = await listStrategyTemplates(user?.id ?? null);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Strategy templates API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load strategy templates",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/strategy-templates
+ * Save a new template: { name, promptScaffold, similarityTarget }
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateStrategyTemplateInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const record: StrategyTemplateInsert = {
+      user_id: user.id,
+      name: body.name.trim(),
+      prompt_scaffold: body.promptScaffold.trim(),
+      similarity_target: Number(body.similarityTarget),
+    };
+
+    const { data, error } = await supabase
+      .from('strategy_templates')
+      .insert(record as never)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save strategy template: ${error?.message || 'no row returned'}`);
+    }
+
+    return NextResponse.json(
+      { template: toStrategyTemplate(data as StrategyTemplateRow) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Strategy templates API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save strategy template",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
+import type { VariantProvenance } from "@/lib/generation-events";
+import type { SourceSimilarity } from "@/lib/source-similarity";
+import { strategyLanguage } from "@/lib/localization";
 
 interface PendingVariant {
   id: number;
   strategy: string;
+  strategyId?: string;
   design: {
     imageData: string;
     imageUrl?: string;
@@ -12,6 +16,8 @@ interface PendingVariant {
   colorClassification?: {
     recommendedBackground: 'light' | 'dark';
   };
+  provenance?: VariantProvenance;
+  similarity?: SourceSimilarity | null;
 }
 
 interface TransferRequest {
@@ -100,8 +106,12 @@ export async function POST(request: Request) {
         variant_number: v.id,
         batch_number: 1,
         strategy: v.strategy,
+        strategy_id: v.strategyId || null,
+        language: strategyLanguage(v.strategyId),
         image_url: imageUrl,
         recommended_background: v.colorClassification?.recommendedBackground || 'light',
+        provenance: v.provenance || null,
+        similarity: v.similarity || null,
       };
     });
 
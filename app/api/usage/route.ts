@@ -0,0 +1,119 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_USAGE_DAYS, MAX_USAGE_DAYS, summarizeUsage, type UsageEntry } from "@/lib/usage-summary";
+
+// usage_breakdown RPC row (one per provider/model/operation/project)
+type UsageBreakdownRow = Omit<UsageEntry, 'projectId'> & {
+  project_id: string | null;
+};
+
+interface ProjectLink {
+  id: string;
+  name: string;
+  remix_job_id: string | null;
+}
+
+/**
+ * GET /api/usage?days=30&projectId=...
+ * The current user's API usage and estimated costs: totals plus breakdowns
+ * by provider/model, operation and project.
+ *
+ * - days: How far back to look (default 30, max 365)
+ * - projectId: Only count calls for this project (its generation job included)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const days = Number(searchParams.get("days") || DEFAULT_USAGE_DAYS);
+    const projectId = searchParams.get("projectId");
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number between 1 and ${MAX_USAGE_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: projectData, error: projectsError } = await supabase
+      .from('projects')
+      .select('id, name, remix_job_id')
+      .eq('user_id', user.id);
+
+    if (projectsError) {
+      console.error('Error fetching projects for usage:', projectsError);
+      return NextResponse.json(
+        {
+          error: "Failed to fetch usage",
+          details: projectsError.message.includes('remix_job_id')
+            ? "Database migration required. Please run supabase-usage-ledger.sql."
+            : projectsError.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    const projects = (projectData || []) as ProjectLink[];
+    const projectNames: Record<string, string> = {};
+    for (const project of projects) {
+      projectNames[project.id] = project.name;
+    }
+
+    if (projectId && !projectNames[projectId]) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Grouped in SQL - remix calls are logged before the project exists and
+    // are attributed to it through the job
+    const { data: rows, error } = await supabase.rpc('usage_breakdown', {
+      p_user_id: user.id,
+      p_since: since,
+      p_project_id: projectId,
+    } as never);
+
+    if (error) {
+      console.error('Error fetching usage ledger:', error);
+      return NextResponse.json(
+        {
+          error: "Failed to fetch usage",
+          details: error.message.includes('usage_ledger') || error.message.includes('usage_breakdown')
+            ? "Database migration required. Please run supabase-usage-ledger.sql."
+            : error.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    const entries: UsageEntry[] = ((rows || []) as UsageBreakdownRow[]).map(({ project_id, ...row }) => ({
+      ...row,
+      projectId: project_id,
+    }));
+
+    return NextResponse.json(summarizeUsage(entries, projectNames, since));
+  } catch (error) {
+    console.error('Usage API error:', error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch usage",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { resolveGenerationPipeline } from "@/lib/image-providers";
+import { withUsageContext } from "@/lib/cost-ledger";
+import { fetchImageAsDataUrl } from "@/lib/storage.server";
+import { editVariantImage, MAX_EDIT_INSTRUCTION_LENGTH } from "@/lib/variant-edit";
+import type { VariantProvenance } from "@/lib/generation-events";
+import { strategyLanguage } from "@/lib/localization";
+import {
+  appendDerivedVariant,
+  loadSimilaritySource,
+  type DerivedVariantParent,
+} from "@/lib/derived-variants.server";
+
+// Configure API route for long-running generation
+export const maxDuration = 300; // 5 minutes max
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/variants/[id]/edit
+ * Edits one variant with a text instruction ("change the word BEER to COFFEE")
+ * and saves the result as a new variant in the same batch, linked to its parent.
+ *
+ * Request body:
+ * - instruction: What to change (required, max 500 characters)
+ * - mask: Optional image data URI - white marks the area that may change,
+ *         everything else is kept from the parent
+ *
+ * Response:
+ * - variant: The new variant record
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id: variantId } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const instruction = typeof body?.instruction === "string" ? body.instruction.trim() : "";
+    const mask = body?.mask ?? null;
+
+    if (!instruction) {
+      return NextResponse.json(
+        { error: "An edit instruction is required" },
+        { status: 400 }
+      );
+    }
+    if (instruction.length > MAX_EDIT_INSTRUCTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Instruction must be ${MAX_EDIT_INSTRUCTION_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+    if (mask !== null && (typeof mask !== "string" || !mask.startsWith("data:image/"))) {
+      return NextResponse.json(
+        { error: "Invalid mask format. Expected base64 data URI." },
+        { status: 400 }
+      );
+    }
+
+    // Fetch the variant (with its project) and verify ownership
+    const { data: variantData, error: variantError } = await supabase
+      .from('variants')
+      .select('*, projects(original_image_url)')
+      .eq('id', variantId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (variantError || !variantData) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Type assertion for the variant data
+    const parent = variantData as DerivedVariantParent & {
+      strategy: string;
+      image_url: string;
+      recommended_background: 'light' | 'dark';
+      provenance: VariantProvenance | null;
+    };
+
+    console.log(`✏️ Editing variant ${variantId}${mask ? " (masked)" : ""}`);
+
+    const pipeline = resolveGenerationPipeline();
+    const parentImage = await fetchImageAsDataUrl(parent.image_url);
+
+    const usage = { userId: user.id, projectId: parent.project_id };
+
+    const sourceImage = await loadSimilaritySource(parent, usage);
+
+    const edited = await withUsageContext(usage, () => editVariantImage({
+      parentVariantId: parent.id,
+      imageData: parentImage,
+      instruction,
+      mask,
+      lightDesign: parent.recommended_background === 'dark',
+      analysis: parent.provenance?.analysis ?? null,
+      strategyId: parent.strategy_id,
+      sourceImage,
+    }, pipeline));
+
+    // Append to the parent's batch
+    const inserted = await appendDerivedVariant(supabase, user.id, parent, {
+      imageData: edited.imageData,
+      strategy: parent.strategy.endsWith(" (edited)") ? parent.strategy : `${parent.strategy} (edited)`,
+      language: strategyLanguage(parent.strategy_id),
+      recommendedBackground: edited.colorClassification.recommendedBackground,
+      provenance: edited.provenance,
+      similarity: edited.similarity,
+    }, "edited");
+
+    return NextResponse.json({
+      success: true,
+      variant: inserted,
+    });
+
+  } catch (error) {
+    console.error("Variant edit error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to edit variant",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
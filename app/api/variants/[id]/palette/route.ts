@@ -0,0 +1,197 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { fetchImageAsDataUrl } from "@/lib/storage.server";
+import { extractDominantColors, recolorImage, recolorVariant } from "@/lib/palette-swap";
+import { DEFAULT_PALETTE_COLORS, MAX_PALETTE_COLORS, parseColorMapping } from "@/lib/palettes";
+import type { VariantProvenance } from "@/lib/generation-events";
+import { strategyLanguage } from "@/lib/localization";
+import {
+  appendDerivedVariant,
+  loadSimilaritySource,
+  type DerivedVariantParent,
+} from "@/lib/derived-variants.server";
+
+// Configure API route for full-resolution recolors
+export const maxDuration = 120;
+
+// Longest side of preview images
+const PREVIEW_SIZE = 512;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface PaletteParent extends DerivedVariantParent {
+  strategy: string;
+  image_url: string;
+  thumbnail_url: string | null;
+  recommended_background: 'light' | 'dark';
+  provenance: VariantProvenance | null;
+}
+
+/**
+ * GET /api/variants/[id]/palette?colors=5
+ * The variant's dominant colours (most common first, with their share of the design)
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id: variantId } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const colors = Number(new URL(request.url).searchParams.get("colors") || DEFAULT_PALETTE_COLORS);
+    if (!Number.isInteger(colors) || colors < 1 || colors > MAX_PALETTE_COLORS) {
+      return NextResponse.json(
+        { error: `colors must be a whole number between 1 and ${MAX_PALETTE_COLORS}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: variant } = await supabase
+      .from('variants')
+      .select('image_url')
+      .eq('id', variantId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!variant) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    const imageData = await fetchImageAsDataUrl((variant as { image_url: string }).image_url);
+    const dominant = await extractDominantColors(imageData, colors);
+
+    return NextResponse.json({ colors: dominant });
+  } catch (error) {
+    console.error("Palette extraction error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to extract colors",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/variants/[id]/palette
+ * Recolors a variant by mapping its dominant colours to new ones.
+ *
+ * Request body:
+ * - mapping: [{ from: "#rrggbb", to: "#rrggbb" }, ...] (up to 8 entries)
+ * - paletteName: Optional name of the palette the targets came from
+ * - preview: true returns a small preview image and saves nothing
+ *
+ * Response:
+ * - preview: PNG data URI (preview requests)
+ * - variant: The new variant record, saved in the parent's batch (otherwise)
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id: variantId } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const mapping = parseColorMapping(body?.mapping);
+    const paletteName = typeof body?.paletteName === "string" ? body.paletteName.trim().slice(0, 60) || null : null;
+    const isPreview = body?.preview === true;
+
+    if (!mapping) {
+      return NextResponse.json(
+        { error: `mapping must be 1-${MAX_PALETTE_COLORS} entries of { from, to } hex colors` },
+        { status: 400 }
+      );
+    }
+
+    // Fetch the variant (with its project) and verify ownership
+    const { data: variantData, error: variantError } = await supabase
+      .from('variants')
+      .select('*, projects(original_image_url)')
+      .eq('id', variantId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (variantError || !variantData) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    const parent = variantData as PaletteParent;
+
+    if (isPreview) {
+      // The thumbnail is plenty for a preview and much faster to fetch
+      const previewSource = await fetchImageAsDataUrl(parent.thumbnail_url || parent.image_url);
+      const preview = await recolorImage(previewSource, mapping, PREVIEW_SIZE);
+      return NextResponse.json({ preview });
+    }
+
+    const parentImage = await fetchImageAsDataUrl(parent.image_url);
+
+    const usage = { userId: user.id, projectId: parent.project_id };
+    const sourceImage = await loadSimilaritySource(parent, usage);
+
+    const recolored = await recolorVariant({
+      parentVariantId: parent.id,
+      imageData: parentImage,
+      mapping,
+      paletteName,
+      lightDesign: parent.recommended_background === 'dark',
+      analysis: parent.provenance?.analysis ?? null,
+      strategyId: parent.strategy_id,
+      sourceImage,
+    });
+
+    const suffix = paletteName ? ` (${paletteName} palette)` : " (recolored)";
+    const baseStrategy = parent.strategy.replace(/ \((?:recolored|[^()]+ palette)\)$/, "");
+
+    // Append to the parent's batch
+    const inserted = await appendDerivedVariant(supabase, user.id, parent, {
+      imageData: recolored.imageData,
+      strategy: `${baseStrategy}${suffix}`,
+      language: strategyLanguage(parent.strategy_id),
+      recommendedBackground: recolored.colorClassification.recommendedBackground,
+      provenance: recolored.provenance,
+      similarity: recolored.similarity,
+    }, "recolored");
+
+    return NextResponse.json({
+      success: true,
+      variant: inserted,
+    });
+
+  } catch (error) {
+    console.error("Palette swap error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to recolor variant",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
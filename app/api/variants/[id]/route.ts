@@ -0,0 +1,50 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/variants/[id]
+ * One of the user's variants with its project's name
+ * Used to seed a new remix from a variant ("Remix this")
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id: variantId } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: variant, error } = await supabase
+      .from('variants')
+      .select('*, projects(id, name)')
+      .eq('id', variantId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !variant) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ variant });
+  } catch (error) {
+    console.error('Get variant error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
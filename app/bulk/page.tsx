@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/components/AuthProvider";
+import BulkUploader from "@/components/BulkUploader";
+import BulkQueueDashboard from "@/components/BulkQueueDashboard";
+
+export default function BulkPage() {
+  const router = useRouter();
+  const { user, isLoading } = useAuth();
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push("/?signin=true");
+    }
+  }, [user, isLoading, router]);
+
+  if (isLoading || !user) {
+    return (
+      <main className="min-h-[calc(100vh-4rem)] p-4 md:p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 w-32 bg-secondary rounded" />
+            <div className="h-36 bg-secondary rounded" />
+            <div className="h-48 bg-secondary rounded" />
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-[calc(100vh-4rem)] p-4 md:px-8 md:py-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <Link
+            href="/"
+            className="p-1.5 -ml-1.5 rounded hover:bg-accent/5 transition-all duration-200 text-muted hover:text-accent"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-primary">Bulk Remix</h1>
+            <p className="text-xs text-muted">Queue a whole catalog - every design is remixed and saved as its own project.</p>
+          </div>
+        </div>
+
+        <section className="mb-8">
+          <BulkUploader userId={user.id} onQueued={() => setRefreshKey((key) => key + 1)} />
+        </section>
+
+        <section>
+          <h2 className="text-sm font-semibold text-primary mb-3">Queue</h2>
+          <BulkQueueDashboard refreshKey={refreshKey} />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -10,8 +10,14 @@ import VariantCard from "@/components/VariantCard";
 import Toast from "@/components/Toast";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import ProductCreationModal from "@/components/ProductCreationModal";
+import VariantDetailsDrawer from "@/components/VariantDetailsDrawer";
+import VariantEditModal from "@/components/VariantEditModal";
+import PaletteSwapModal from "@/components/PaletteSwapModal";
+import ProjectLineage from "@/components/ProjectLineage";
 import { useAuth } from "@/components/AuthProvider";
 import { generateDownloadFileName, downloadImage } from "@/lib/download-utils";
+import type { VariantProvenance } from "@/lib/generation-events";
+import type { SourceSimilarity } from "@/lib/source-similarity";
 
 interface Variant {
   id: string;
@@ -21,6 +27,9 @@ interface Variant {
   image_url: string;
   thumbnail_url?: string | null;
   recommended_background: 'light' | 'dark';
+  provenance?: VariantProvenance | null;
+  similarity?: SourceSimilarity | null;
+  parent_variant_id?: string | null;
 }
 
 interface Project {
@@ -63,6 +72,13 @@ export default function ProjectDetailPage({ params }: PageProps) {
     imageUrl: string;
   } | null>(null);
   
+  // Variant whose generation details drawer is open
+  const [detailsVariantId, setDetailsVariantId] = useState<string | null>(null);
+  
+  // Variant open in the edit modal
+  const [editVariantId, setEditVariantId] = useState<string | null>(null);
+  const [recolorVariantId, setRecolorVariantId] = useState<string | null>(null);
+  
   // Ref to prevent duplicate fetches
   const hasFetchedRef = useRef(false);
   const lastFetchedIdRef = useRef<string | null>(null);
@@ -246,6 +262,49 @@ export default function ProjectDetailPage({ params }: PageProps) {
     setShowProductModal(true);
   };
 
+  const handleVariantEdited = (variant: Variant) => {
+    setProject((prev) => prev ? { ...prev, variants: [...prev.variants, variant] } : prev);
+    setToast({ message: "Edit saved as a new variant", type: "success" });
+  };
+
+  const handleVariantRecolored = (variant: Variant) => {
+    setProject((prev) => prev ? { ...prev, variants: [...prev.variants, variant] } : prev);
+    setToast({ message: "Recolor saved as a new variant", type: "success" });
+  };
+
+  const handleExportSvg = async (variant: Variant, colors: number) => {
+    if (!project) return;
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: 'svg', variantId: variant.id, colors }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'SVG export failed');
+      }
+
+      const filename = generateDownloadFileName({
+        designName: project.name,
+        batchNumber: variant.batch_number || 1,
+        variantNumber: variant.variant_number,
+        strategy: variant.strategy,
+        style: 'Original'
+      }).replace(/\.png$/, '.svg');
+      await downloadImage(result.exportedImage, filename);
+      setToast({ message: "SVG downloaded", type: "success" });
+    } catch (error) {
+      console.error('SVG export error:', error);
+      setToast({ message: error instanceof Error ? error.message : "SVG export failed", type: "error" });
+    }
+  };
+
+  // "Remix this" - new project seeded from the variant (lineage is saved with it)
+  const handleRemixVariant = (variantId: string) => {
+    router.push(`/?remixVariant=${variantId}`);
+  };
+
   const handleProductCreated = (productId: string) => {
     setToast({ 
       message: "🎉 Product created and published to Shopify!", 
@@ -374,6 +433,11 @@ export default function ProjectDetailPage({ params }: PageProps) {
   }
 
   // Group variants by batch_number
+  const detailsVariant = project.variants.find((v) => v.id === detailsVariantId);
+  const productVariant = project.variants.find((v) => v.id === selectedVariantForProduct?.id);
+  const editVariant = project.variants.find((v) => v.id === editVariantId);
+  const recolorVariant = project.variants.find((v) => v.id === recolorVariantId);
+
   const variantsByBatch = project.variants.reduce((acc, variant) => {
     const batch = variant.batch_number || 1;
     if (!acc[batch]) {
@@ -576,6 +640,13 @@ export default function ProjectDetailPage({ params }: PageProps) {
                 );
               })}
             </div>
+
+            {/* Remixed from / remixed into */}
+            <ProjectLineage
+              projectId={project.id}
+              projectName={project.name}
+              variants={project.variants}
+            />
           </div>
 
           {/* Main Content Area */}
@@ -614,6 +685,10 @@ export default function ProjectDetailPage({ params }: PageProps) {
                   onFavoriteToggle={handleFavoriteToggle}
                   isPrintifyConnected={isPrintifyConnected}
                   onCreateProduct={handleCreateProduct}
+                  onShowDetails={setDetailsVariantId}
+                  onEdit={setEditVariantId}
+                  onRecolor={setRecolorVariantId}
+                  onRemix={handleRemixVariant}
                 />
               ))}
             </div>
@@ -760,10 +835,45 @@ export default function ProjectDetailPage({ params }: PageProps) {
           }}
           variantId={selectedVariantForProduct.id}
           designUrl={selectedVariantForProduct.imageUrl}
+          similarity={productVariant?.similarity}
+          designText={productVariant?.provenance?.textFidelity?.detected || productVariant?.provenance?.analysis?.text}
           designName={project.name}
           onSuccess={handleProductCreated}
         />
       )}
+
+      {/* Variant Edit Modal */}
+      {editVariant && (
+        <VariantEditModal
+          isOpen={!!editVariant}
+          onClose={() => setEditVariantId(null)}
+          variant={editVariant}
+          onSuccess={handleVariantEdited}
+        />
+      )}
+
+      {/* Palette Swap Modal */}
+      {recolorVariant && (
+        <PaletteSwapModal
+          isOpen={!!recolorVariant}
+          onClose={() => setRecolorVariantId(null)}
+          variant={recolorVariant}
+          onSuccess={handleVariantRecolored}
+        />
+      )}
+
+      {/* Generation Details Drawer */}
+      {detailsVariant && (
+        <VariantDetailsDrawer
+          isOpen={!!detailsVariant}
+          onClose={() => setDetailsVariantId(null)}
+          strategy={detailsVariant.strategy}
+          batchNumber={detailsVariant.batch_number}
+          provenance={detailsVariant.provenance}
+          similarity={detailsVariant.similarity}
+          onExportSvg={(colors) => handleExportSvg(detailsVariant, colors)}
+        />
+      )}
     </main>
   );
 }
@@ -1,6 +1,9 @@
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
 import DesignsContent from "@/components/DesignsContent";
+import UpcomingEventsPanel from "@/components/UpcomingEventsPanel";
+import { listSeasonalEvents } from "@/lib/seasonal-events.server";
+import { BUILTIN_SEASONAL_EVENTS, seasonalStrategyId, upcomingSeasonalEvents } from "@/lib/seasonal-events";
 
 // Server Component - data is fetched on the server
 export default async function DesignsPage() {
@@ -28,7 +31,8 @@ export default async function DesignsPage() {
         image_url,
         thumbnail_url,
         recommended_background,
-        strategy
+        strategy,
+        strategy_id
       )
     `)
     .eq("user_id", user.id)
@@ -40,6 +44,27 @@ export default async function DesignsPage() {
   
   const projectsList = projects || [];
 
+  // Upcoming events, each with the projects that have no variant for it yet
+  const seasonalEvents = await listSeasonalEvents(user.id).catch((eventsError) => {
+    console.error("Error fetching seasonal events:", eventsError);
+    return BUILTIN_SEASONAL_EVENTS;
+  });
+  const projectRows = projectsList as Array<{
+    id: string;
+    name: string;
+    original_image_url: string;
+    variants: Array<{ strategy_id: string | null }>;
+  }>;
+  const upcoming = upcomingSeasonalEvents(seasonalEvents).map((item) => {
+    const strategyId = seasonalStrategyId(item.event.id);
+    return {
+      ...item,
+      projects: projectRows
+        .filter((project) => !project.variants.some((variant) => variant.strategy_id === strategyId))
+        .map(({ id, name, original_image_url }) => ({ id, name, original_image_url })),
+    };
+  });
+
   return (
     <main className="min-h-[calc(100vh-4rem)] p-4 md:p-8 flex flex-col">
       <div className="max-w-6xl mx-auto w-full flex-1">
@@ -54,6 +79,8 @@ export default async function DesignsPage() {
           </p>
         </div>
 
+        <UpcomingEventsPanel upcoming={upcoming} />
+
         {/* Client Component handles sorting/view toggle */}
         <DesignsContent initialProjects={projectsList} />
       </div>
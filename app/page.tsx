@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, Suspense } from "react";
+import { useState, useEffect, useRef, useCallback, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import UploadSection from "@/components/UploadSection";
 import RemixGallery from "@/components/RemixGallery";
@@ -8,8 +8,13 @@ import LoadingSpinner from "@/components/LoadingSpinner";
 import Toast from "@/components/Toast";
 import AuthModal from "@/components/AuthModal";
 import SaveDesignsCTA from "@/components/SaveDesignsCTA";
+import VariantProgressGrid, { type VariantProgress } from "@/components/VariantProgressGrid";
+import FailedVariantsNotice from "@/components/FailedVariantsNotice";
+import StrategyPicker from "@/components/StrategyPicker";
+import MoodBoardPicker from "@/components/MoodBoardPicker";
+import RemixReviewPanel, { type ReviewStrategy } from "@/components/RemixReviewPanel";
 import { useAuth } from "@/components/AuthProvider";
-import { saveProject } from "@/lib/project-actions";
+import { saveProject, saveRegeneratedVariants } from "@/lib/project-actions";
 import { type DesignAnalysis } from "@/lib/design-utils";
 import { 
   getRemainingGenerations, 
@@ -18,13 +23,41 @@ import {
   getDailyLimit 
 } from "@/lib/usage-tracker";
 import { generateDownloadFileName, downloadImage } from "@/lib/download-utils";
+import type { RemixJobStage, RemixJobView } from "@/lib/remix-jobs";
+import {
+  readGenerationStream,
+  type FailedVariant,
+  type GenerationEvent,
+  type VariantProvenance,
+} from "@/lib/generation-events";
+import type { SourceSimilarity } from "@/lib/source-similarity";
+import { DEFAULT_STRATEGY_SELECTION, type StrategySelection } from "@/lib/strategy-templates";
 
 // Storage keys for cross-tab communication
 const TRANSFER_COMPLETED_KEY = "pod-remix-transfer-completed";
 const PENDING_PROJECT_KEY = "pod-remix-pending-project";
+// Remix job in flight - lets a refreshed tab resume polling
+const ACTIVE_JOB_KEY = "pod-remix-active-job";
+
+// Job polling
+const JOB_POLL_INTERVAL_MS = 3000;
+const MAX_POLL_FAILURES = 20; // ~1 minute of network trouble before giving up
+
+// "Remix this" reference: longest side, and the upload limit (same as lib/remix-upload.ts)
+const REMIX_REFERENCE_SIZE = 2048;
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+const STAGE_MESSAGES: Record<RemixJobStage, string> = {
+  preprocess: "Extracting your design...",
+  analysis: "Analyzing your design...",
+  strategies: "Planning design variations...",
+  variants: "Creating your design variations...",
+  upload: "Finalizing your designs...",
+  done: "Finalizing your designs...",
+};
 
 // State types
-type AppState = "idle" | "uploading" | "processing" | "complete" | "error";
+type AppState = "idle" | "uploading" | "processing" | "review" | "complete" | "error";
 
 interface DesignVersion {
   imageData: string;
@@ -41,15 +74,64 @@ interface ColorClassification {
 interface Variant {
   id: number;
   strategy: string;
+  strategyId?: string;
   design: DesignVersion;
   colorClassification?: ColorClassification;
+  provenance?: VariantProvenance;
+  similarity?: SourceSimilarity | null;
 }
 
-interface ApiResponse {
+interface EnqueueResponse {
   success: boolean;
-  analysis: DesignAnalysis;
-  variants: Variant[];
-  remaining?: number | null;
+  jobId: string;
+  stage: RemixJobStage;
+}
+
+/**
+ * Read an image URL into a data URL (needed to save / name a resumed project)
+ */
+async function imageUrlToDataUrl(url: string): Promise<string> {
+  const blob = await fetch(url).then((res) => res.blob());
+  return blobToDataUrl(blob);
+}
+
+/**
+ * Shrink an image until it fits the remix upload limit (PNG, so transparency is kept)
+ */
+async function downscaleImageBlob(blob: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  let longestSide = Math.min(REMIX_REFERENCE_SIZE, Math.max(bitmap.width, bitmap.height));
+  let result = blob;
+
+  try {
+    while (result.size > MAX_UPLOAD_SIZE || Math.max(bitmap.width, bitmap.height) > REMIX_REFERENCE_SIZE) {
+      const scale = longestSide / Math.max(bitmap.width, bitmap.height);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+      canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      result = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob((png) => (png ? resolve(png) : reject(new Error("Could not resize the image"))), "image/png")
+      );
+      if (result.size <= MAX_UPLOAD_SIZE) {
+        break;
+      }
+      longestSide = Math.round(longestSide / 2);
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return result;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 }
 
 function HomeContent() {
@@ -58,6 +140,8 @@ function HomeContent() {
   const [state, setState] = useState<AppState>("idle");
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [uploadPreview, setUploadPreview] = useState<string | null>(null);
+  // Further references blended with the upload (mood-board remix)
+  const [moodBoardFiles, setMoodBoardFiles] = useState<File[]>([]);
   const [variants, setVariants] = useState<Variant[]>([]);
   const [analysis, setAnalysis] = useState<DesignAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -65,11 +149,34 @@ function HomeContent() {
   const [showAuthModal, setShowAuthModal] = useState(false);
   const saveAttemptedRef = useRef(false);
   
+  // Remix job currently being polled (null = none / cancelled)
+  const activeJobRef = useRef<string | null>(null);
+  const [jobStage, setJobStage] = useState<RemixJobStage>("preprocess");
+  // Live per-variant status from the progress stream
+  const [variantProgress, setVariantProgress] = useState<Record<number, VariantProgress>>({});
+  // Variants that didn't generate, and the job whose failures can be retried
+  const [failedVariants, setFailedVariants] = useState<FailedVariant[]>([]);
+  const [retryJobId, setRetryJobId] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  // Which strategies to use and how many variants (also used for regenerate)
+  const [strategySelection, setStrategySelection] = useState<StrategySelection>(DEFAULT_STRATEGY_SELECTION);
+  // Review step: the paused job, the (editable) analysis and the planned prompts
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [reviewAnalysis, setReviewAnalysis] = useState<DesignAnalysis | null>(null);
+  const [reviewStrategies, setReviewStrategies] = useState<ReviewStrategy[] | null>(null);
+  const [isReviewBusy, setIsReviewBusy] = useState(false);
+  
   // Track saved project for regeneration
   const [savedProjectId, setSavedProjectId] = useState<string | null>(null);
   const [currentBatch, setCurrentBatch] = useState(1);
   const [projectName, setProjectName] = useState<string>('POD_Remix');
   
+  // Variant this remix was seeded from ("Remix this" on the designs page)
+  const [remixParent, setRemixParent] = useState<{ variantId: string; projectId: string } | null>(null);
+  // Job behind the current results, so the saved project is linked to its API usage
+  const [completedJobId, setCompletedJobId] = useState<string | null>(null);
+  const remixVariantLoadedRef = useRef<string | null>(null);
+  
   // Free tier usage tracking (only for non-authenticated users)
   const [remainingGenerations, setRemainingGenerations] = useState<number>(getDailyLimit());
   const [isAtLimit, setIsAtLimit] = useState(false);
@@ -96,6 +203,31 @@ function HomeContent() {
     }
   }, [searchParams]);
 
+  const handleReset = useCallback(() => {
+    // Stop polling any in-flight job and forget it
+    activeJobRef.current = null;
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    setState("idle");
+    setCompletedJobId(null);
+    setUploadedFile(null);
+    setUploadPreview(null);
+    setMoodBoardFiles([]);
+    setVariants([]);
+    setVariantProgress({});
+    setFailedVariants([]);
+    setRetryJobId(null);
+    setReviewJobId(null);
+    setReviewAnalysis(null);
+    setReviewStrategies(null);
+    setAnalysis(null);
+    setError(null);
+    saveAttemptedRef.current = false;
+    setSavedProjectId(null);
+    setCurrentBatch(1);
+    setProjectName('POD_Remix');
+    setRemixParent(null);
+  }, []);
+
   // Check if a transfer was completed in another tab - clear state to prevent duplicates
   useEffect(() => {
     const checkTransferCompleted = () => {
@@ -120,7 +252,7 @@ function HomeContent() {
 
     window.addEventListener('storage', handleStorageChange);
     return () => window.removeEventListener('storage', handleStorageChange);
-  }, [variants.length]);
+  }, [variants.length, handleReset]);
 
   // Auto-save project when variants are generated and user is logged in
   useEffect(() => {
@@ -150,7 +282,7 @@ function HomeContent() {
         const nameResponse = await fetch("/api/generate-name", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ imageData: uploadPreview }),
+          body: JSON.stringify({ imageData: uploadPreview, jobId: completedJobId }),
         });
 
         let generatedName = `Design ${new Date().toLocaleDateString()}`;
@@ -165,6 +297,9 @@ function HomeContent() {
           originalImage: uploadPreview,
           variants,
           projectName: generatedName,
+          parentVariantId: remixParent?.variantId,
+          parentProjectId: remixParent?.projectId,
+          remixJobId: completedJobId,
         });
 
         if (result.success && result.projectId) {
@@ -180,37 +315,264 @@ function HomeContent() {
     };
 
     autoSaveProject();
-  }, [state, variants, user, uploadPreview]);
+  }, [state, variants, user, uploadPreview, remixParent, completedJobId]);
 
   const handleImageSelect = (file: File, preview: string) => {
     setUploadedFile(file);
     setUploadPreview(preview);
+    setRemixParent(null);
     setError(null);
   };
 
-  const handleUpload = async () => {
-    if (!uploadedFile) return;
+  /**
+   * Poll a remix job until it completes, fails, or polling is cancelled.
+   * Network errors are retried - the job keeps running on the server.
+   */
+  const waitForRemixJob = useCallback(async (
+    jobId: string,
+    { restorePreview = false }: { restorePreview?: boolean } = {}
+  ): Promise<RemixJobView | null> => {
+    let failures = 0;
+    let previewRestored = !restorePreview;
+
+    while (activeJobRef.current === jobId) {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/remix/jobs/${jobId}`, { cache: "no-store" });
+      } catch (networkError) {
+        console.warn("Job poll failed, retrying:", networkError);
+      }
+
+      if (response?.status === 404) {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        throw new Error("This remix could not be found. Please upload your design again.");
+      }
+
+      if (response?.ok) {
+        failures = 0;
+        const { job }: { job: RemixJobView } = await response.json();
+        setJobStage(job.stage);
+
+        // After a refresh we lost the local preview - restore it from storage
+        if (!previewRestored) {
+          previewRestored = true;
+          try {
+            setUploadPreview(await imageUrlToDataUrl(job.originalImageUrl));
+          } catch (previewError) {
+            console.warn("Could not restore upload preview:", previewError);
+          }
+        }
+
+        if (job.status === "completed" || job.status === "failed") {
+          return job;
+        }
+      } else if (++failures >= MAX_POLL_FAILURES) {
+        // Keep ACTIVE_JOB_KEY so a refresh can resume this job
+        throw new Error("Lost connection to the server. Refresh the page to resume your remix.");
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+
+    return null;
+  }, []);
+
+  /**
+   * Show the results (or error) of a finished remix job
+   */
+  const finishRemixJob = useCallback((job: RemixJobView) => {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    activeJobRef.current = null;
+
+    if (job.status === "failed" || !job.variants || !job.analysis) {
+      throw new Error(job.error || "Failed to generate remixes");
+    }
+
+    // Sync usage tracking with server response
+    if (job.remaining !== null) {
+      syncUsage(getDailyLimit() - job.remaining);
+      setRemainingGenerations(job.remaining);
+      setIsAtLimit(job.remaining === 0);
+    }
+
+    setAnalysis(job.analysis);
+    setVariants(job.variants);
+    setFailedVariants(job.failedVariants);
+    setRetryJobId(job.failedVariants.length > 0 ? job.id : null);
+    setCompletedJobId(job.id);
+    setState("complete");
+  }, []);
+
+  /**
+   * Follow a remix job through to the results (or error) state
+   */
+  const trackRemixJob = useCallback(async (
+    jobId: string,
+    options?: { restorePreview?: boolean }
+  ) => {
+    activeJobRef.current = jobId;
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+
+    try {
+      const job = await waitForRemixJob(jobId, options);
+      if (!job) {
+        return; // Cancelled (reset / new upload)
+      }
+      finishRemixJob(job);
+    } catch (err) {
+      console.error("Remix job error:", err);
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      setState("error");
+    }
+  }, [waitForRemixJob, finishRemixJob]);
+
+  /**
+   * Apply a streamed progress event to the per-variant status cards
+   */
+  const applyGenerationEvent = (event: GenerationEvent) => {
+    const updateVariant = (id: number, patch: Partial<VariantProgress>) =>
+      setVariantProgress((prev) => ({
+        ...prev,
+        [id]: {
+          ...(prev[id] ?? { id, strategy: `Variant ${id}`, status: "queued", detail: "Queued" }),
+          ...patch,
+        },
+      }));
+
+    switch (event.type) {
+      case "stage":
+        setJobStage(event.stage);
+        break;
+      case "strategies":
+        setVariantProgress(Object.fromEntries(
+          event.strategies.map(({ id, strategy }) => [id, { id, strategy, status: "queued", detail: "Queued" }])
+        ));
+        break;
+      case "tier_attempt":
+        updateVariant(event.variantId, { status: "generating", detail: `Generating · ${event.tier}` });
+        break;
+      case "tier_failed":
+        updateVariant(event.variantId, { status: "retrying", detail: `Retrying · ${event.reason}` });
+        break;
+      case "tier_succeeded":
+        updateVariant(event.variantId, { status: "processing", detail: "Removing background" });
+        break;
+      case "background_removed":
+        updateVariant(event.variantId, { status: "processing", detail: "Preparing print file" });
+        break;
+      case "normalized":
+        updateVariant(event.variantId, { status: "processing", detail: "Uploading" });
+        break;
+      case "variant_failed":
+        updateVariant(event.variant.id, {
+          strategy: event.variant.strategy,
+          status: "failed",
+          detail: `Failed · ${event.variant.error}`,
+        });
+        break;
+      case "variant_ready":
+        updateVariant(event.variant.id, {
+          strategy: event.variant.strategy,
+          status: "ready",
+          detail: "Ready",
+          thumbnailUrl: event.variant.design.thumbnailUrl,
+        });
+        break;
+    }
+  };
+
+  // Resume a remix job that was in flight before a refresh / network drop
+  useEffect(() => {
+    const pendingJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!pendingJobId || activeJobRef.current) {
+      return;
+    }
 
+    console.log(`Resuming remix job ${pendingJobId}`);
     setState("processing");
+    trackRemixJob(pendingJobId, { restorePreview: true });
+  }, [trackRemixJob]);
+
+  /**
+   * Follow a started remix job to its finished state - live from the progress
+   * stream when the server sent one, otherwise (or if the stream drops) by polling.
+   * Returns null if the job was cancelled (reset / new upload).
+   */
+  const followRemixResponse = async (response: Response): Promise<RemixJobView | null> => {
+    if (!response.headers.get("content-type")?.includes("text/event-stream")) {
+      const data: EnqueueResponse = await response.json();
+      activeJobRef.current = data.jobId;
+      localStorage.setItem(ACTIVE_JOB_KEY, data.jobId);
+      return waitForRemixJob(data.jobId);
+    }
+
+    const streamed: { jobId: string | null; job: RemixJobView | null } = { jobId: null, job: null };
+    try {
+      await readGenerationStream(response, (event) => {
+        if (event.type === "job") {
+          streamed.jobId = event.jobId;
+          activeJobRef.current = event.jobId;
+          localStorage.setItem(ACTIVE_JOB_KEY, event.jobId);
+        } else if (event.type === "complete") {
+          streamed.job = event.result.job as RemixJobView;
+        } else if (activeJobRef.current === streamed.jobId) {
+          applyGenerationEvent(event);
+        }
+      });
+    } catch (streamError) {
+      console.warn("Progress stream dropped, falling back to polling:", streamError);
+    }
+
+    if (activeJobRef.current !== streamed.jobId) {
+      return null; // Reset while streaming
+    }
+
+    if (streamed.job && (streamed.job.status === "completed" || streamed.job.status === "failed")) {
+      return streamed.job;
+    }
+    if (streamed.jobId) {
+      // Stream ended early (network drop / timeout), or the job ran out of time and
+      // was queued again - it keeps running server-side
+      return waitForRemixJob(streamed.jobId);
+    }
+    throw new Error("Lost connection before the remix started. Please try again.");
+  };
+
+  /**
+   * Upload + analyze only - the user reviews the analysis and prompts before anything is generated
+   */
+  const handleUpload = useCallback(async (file: File | null = uploadedFile) => {
+    if (!file) return;
+
+    setState("processing");
+    setJobStage("preprocess");
+    setVariantProgress({});
+    setFailedVariants([]);
+    setRetryJobId(null);
     setError(null);
     saveAttemptedRef.current = false;
 
     try {
       const formData = new FormData();
-      formData.append("image", uploadedFile);
+      formData.append("image", file);
+      for (const reference of moodBoardFiles) {
+        formData.append("image", reference);
+      }
+      formData.append("strategyIds", JSON.stringify(strategySelection.strategyIds));
+      formData.append("variantCount", String(strategySelection.variantCount));
 
-      const response = await fetch("/api/remix", {
+      const response = await fetch("/api/remix/analyze", {
         method: "POST",
         body: formData,
       });
 
       if (!response.ok) {
-        let errorMessage = "Failed to generate remixes";
+        let errorMessage = "Failed to analyze design";
         try {
           const contentType = response.headers.get("content-type");
           if (contentType && contentType.includes("application/json")) {
             const errorData = await response.json();
-            errorMessage = errorData.error || errorMessage;
+            errorMessage = errorData.details || errorData.error || errorMessage;
             
             // Handle rate limit error specifically
             if (errorData.error === 'daily_limit') {
@@ -232,36 +594,179 @@ function HomeContent() {
         throw new Error(errorMessage);
       }
 
-      const data: ApiResponse = await response.json();
-      
-      // Sync usage tracking with server response
-      if (data.remaining !== undefined && data.remaining !== null) {
-        syncUsage(getDailyLimit() - data.remaining);
-        setRemainingGenerations(data.remaining);
-        setIsAtLimit(data.remaining === 0);
+      const data = await response.json();
+      setReviewJobId(data.jobId);
+      setReviewAnalysis(data.analysis);
+      setReviewStrategies(null);
+      setState("review");
+    } catch (err) {
+      console.error("Upload error:", err);
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      setState("error");
+    }
+  }, [uploadedFile, moodBoardFiles, strategySelection]);
+
+  // "Remix this" (/?remixVariant=<id>): use a saved variant as the new reference and start right away
+  useEffect(() => {
+    const remixVariantId = searchParams.get('remixVariant');
+    if (!remixVariantId || !user || remixVariantLoadedRef.current === remixVariantId) {
+      return;
+    }
+    remixVariantLoadedRef.current = remixVariantId;
+
+    const startVariantRemix = async () => {
+      try {
+        const response = await fetch(`/api/variants/${remixVariantId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Variant not found");
+        }
+        const variant = data.variant as { id: string; project_id: string; strategy: string; image_url: string };
+
+        // Saved variants are full POD canvases (4500x5400) - shrink to fit the upload limit
+        const blob = await downscaleImageBlob(await fetch(variant.image_url).then((res) => res.blob()));
+        const file = new File([blob], `${variant.strategy}.png`, { type: blob.type || "image/png" });
+        const preview = await blobToDataUrl(blob);
+
+        handleReset();
+        setUploadedFile(file);
+        setUploadPreview(preview);
+        setRemixParent({ variantId: variant.id, projectId: variant.project_id });
+        await handleUpload(file);
+      } catch (err) {
+        console.error("Remix from variant error:", err);
+        setToast({ message: err instanceof Error ? err.message : "Could not load the variant to remix", type: "error" });
       }
+    };
 
-      setAnalysis(data.analysis);
-      setVariants(data.variants);
-      setState("complete");
+    startVariantRemix();
+  }, [searchParams, user, handleUpload, handleReset]);
+
+  /**
+   * Write the strategy prompts from the (corrected) analysis
+   */
+  const planReviewStrategies = async (): Promise<ReviewStrategy[]> => {
+    const response = await fetch("/api/remix/strategies", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jobId: reviewJobId, analysis: reviewAnalysis, ...strategySelection }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || "Failed to write prompts");
+    }
+    return data.strategies;
+  };
+
+  const handlePlanStrategies = async () => {
+    setIsReviewBusy(true);
+    try {
+      setReviewStrategies(await planReviewStrategies());
     } catch (err) {
-      console.error("Upload error:", err);
+      console.error("Strategy planning error:", err);
+      setToast({
+        message: err instanceof Error ? err.message : "Failed to write prompts",
+        type: "error",
+      });
+    } finally {
+      setIsReviewBusy(false);
+    }
+  };
+
+  /**
+   * Generate variants from the reviewed prompts (all planned prompts are kept if none are passed)
+   */
+  const handleGenerateReviewed = async (strategies?: ReviewStrategy[]) => {
+    if (!reviewJobId) return;
+
+    setIsReviewBusy(true);
+    try {
+      const planned = strategies ?? await planReviewStrategies();
+
+      setState("processing");
+      setJobStage("variants");
+      setVariantProgress(Object.fromEntries(
+        planned.map(({ id, strategy }) => [id, { id, strategy, status: "queued", detail: "Queued" }])
+      ));
+
+      const response = await fetch(`/api/remix/jobs/${reviewJobId}/generate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({
+          prompts: Object.fromEntries(planned.map(({ id, prompt }) => [id, prompt])),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to generate remixes");
+      }
+
+      const job = await followRemixResponse(response);
+      if (job) {
+        finishRemixJob(job);
+      }
+    } catch (err) {
+      console.error("Generate error:", err);
       setError(err instanceof Error ? err.message : "An unexpected error occurred");
       setState("error");
+    } finally {
+      setIsReviewBusy(false);
     }
   };
 
-  const handleReset = () => {
-    setState("idle");
-    setUploadedFile(null);
-    setUploadPreview(null);
-    setVariants([]);
-    setAnalysis(null);
-    setError(null);
-    saveAttemptedRef.current = false;
-    setSavedProjectId(null);
-    setCurrentBatch(1);
-    setProjectName('POD_Remix');
+  // Re-run only the strategies that failed, keeping the variants we already have
+  const handleRetryFailed = async () => {
+    if (!retryJobId) return;
+
+    const existingIds = new Set(variants.map((v) => v.id));
+    setIsRetrying(true);
+    setVariantProgress({});
+
+    try {
+      const response = await fetch(`/api/remix/jobs/${retryJobId}/retry`, {
+        method: "POST",
+        headers: { Accept: "text/event-stream" },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to retry variants");
+      }
+
+      const job = await followRemixResponse(response);
+      if (!job) {
+        return; // Cancelled (reset / new upload)
+      }
+      finishRemixJob(job);
+
+      const added = (job.variants || []).filter((v) => !existingIds.has(v.id));
+
+      // The project was already saved with the partial set - add the new variants to it
+      if (added.length > 0 && savedProjectId && user) {
+        const saved = await saveRegeneratedVariants({
+          projectId: savedProjectId,
+          userId: user.id,
+          variants: added,
+          batchNumber: currentBatch,
+        });
+        if (!saved.success) {
+          throw new Error(`Recovered variants could not be saved to the project: ${saved.error}`);
+        }
+      }
+
+      setToast(job.failedVariants.length > 0
+        ? { message: `${added.length} recovered, ${job.failedVariants.length} still failing`, type: "info" }
+        : { message: `✨ All variants recovered!`, type: "success" });
+    } catch (err) {
+      console.error("Retry error:", err);
+      setToast({
+        message: err instanceof Error ? err.message : "Failed to retry variants",
+        type: "error",
+      });
+    } finally {
+      setIsRetrying(false);
+    }
   };
 
   // Regenerate variants for an existing project (adds new batch)
@@ -273,27 +778,59 @@ function HomeContent() {
     }
 
     setState("processing");
+    setJobStage("preprocess");
+    setVariantProgress({});
     setToast({ message: "Generating new variants... This may take 1-2 minutes.", type: "info" });
 
     try {
       const response = await fetch(`/api/projects/${savedProjectId}/regenerate`, {
         method: 'POST',
+        headers: { Accept: 'text/event-stream', 'Content-Type': 'application/json' },
+        body: JSON.stringify(strategySelection),
       });
 
-      const result = await response.json();
+      let result: {
+        batchNumber: number;
+        variantCount: number;
+        variants: Array<{ variant_number: number; strategy: string; strategy_id: string | null; image_url: string; thumbnail_url: string | null; recommended_background: 'light' | 'dark' }>;
+        failedVariants: FailedVariant[];
+      } | null = null;
 
-      if (!response.ok) {
-        console.error('Regeneration failed:', result);
-        throw new Error(result.error || 'Failed to regenerate');
+      if (!response.ok || !response.headers.get("content-type")?.includes("text/event-stream")) {
+        const json = await response.json();
+        if (!response.ok) {
+          console.error('Regeneration failed:', json);
+          throw new Error(json.details || json.error || 'Failed to regenerate');
+        }
+        result = json;
+      } else {
+        let streamError: string | null = null;
+        await readGenerationStream(response, (event) => {
+          if (event.type === "complete") {
+            result = event.result as typeof result;
+          } else if (event.type === "error") {
+            streamError = event.message;
+          } else {
+            applyGenerationEvent(event);
+          }
+        });
+        if (!result) {
+          throw new Error(streamError || 'Regeneration was interrupted');
+        }
       }
 
+      const batch = result!;
+
       // Update variants with new batch
-      const newVariants: Variant[] = result.variants.map((v: { variant_number: number; strategy: string; image_url: string; recommended_background: 'light' | 'dark' }) => ({
+      const newVariants: Variant[] = batch.variants.map((v) => ({
         id: v.variant_number,
         strategy: v.strategy,
+        strategyId: v.strategy_id || undefined,
         design: {
           imageData: v.image_url,
           imageUrl: v.image_url,
+          thumbnailUrl: v.thumbnail_url || undefined,
+          prompt: '',
         },
         colorClassification: {
           recommendedBackground: v.recommended_background || 'light',
@@ -302,10 +839,12 @@ function HomeContent() {
       }));
 
       setVariants(newVariants);
-      setCurrentBatch(result.batchNumber);
+      setFailedVariants(batch.failedVariants || []);
+      setRetryJobId(null); // Retry applies to remix jobs only - regenerate again instead
+      setCurrentBatch(batch.batchNumber);
       setState("complete");
       setToast({ 
-        message: `✨ Created ${result.variantCount} new variants (Variant ${result.batchNumber})!`, 
+        message: `✨ Created ${batch.variantCount} new variants (Variant ${batch.batchNumber})!`, 
         type: "success" 
       });
     } catch (error) {
@@ -353,6 +892,15 @@ function HomeContent() {
                     Click any design to download your print-ready PNGs instantly
                   </p>
                 </>
+              ) : state === "review" ? (
+                <>
+                  <h1 className="text-3xl md:text-4xl font-bold text-primary mb-2">
+                    Review Before Generating
+                  </h1>
+                  <p className="text-base text-muted max-w-lg mx-auto">
+                    Correct the details and prompts - you only spend a generation once they look right
+                  </p>
+                </>
               ) : (
                 <>
                   <h1 className="text-3xl md:text-4xl font-bold text-primary mb-2">
@@ -380,18 +928,51 @@ function HomeContent() {
                   remainingGenerations={user ? undefined : remainingGenerations}
                   isAtLimit={!user && isAtLimit}
                   onSignIn={() => setShowAuthModal(true)}
+                  bulkHref={user ? "/bulk" : undefined}
                 />
+                {uploadedFile && (
+                  <MoodBoardPicker files={moodBoardFiles} onChange={setMoodBoardFiles} />
+                )}
+                {uploadedFile && (
+                  <StrategyPicker
+                    value={strategySelection}
+                    onChange={setStrategySelection}
+                    userId={user?.id ?? null}
+                  />
+                )}
               </div>
             )}
 
             {/* State: Processing */}
             {state === "processing" && (
               <LoadingSpinner
-                message="Creating your design variations..."
+                message={STAGE_MESSAGES[jobStage]}
                 imagePreview={uploadPreview || undefined}
                 estimatedTime={25}
               />
             )}
+            {state === "processing" && (
+              <VariantProgressGrid
+                items={Object.values(variantProgress).sort((a, b) => a.id - b.id)}
+              />
+            )}
+
+            {/* State: Review analysis + prompts */}
+            {state === "review" && reviewAnalysis && (
+              <RemixReviewPanel
+                imagePreview={uploadPreview || undefined}
+                analysis={reviewAnalysis}
+                onAnalysisChange={setReviewAnalysis}
+                strategies={reviewStrategies}
+                onStrategiesChange={setReviewStrategies}
+                onPlanStrategies={handlePlanStrategies}
+                onEditAnalysis={() => setReviewStrategies(null)}
+                onGenerate={() => reviewStrategies && handleGenerateReviewed(reviewStrategies)}
+                onSkipReview={() => handleGenerateReviewed()}
+                onCancel={handleReset}
+                isBusy={isReviewBusy}
+              />
+            )}
 
             {/* State: Complete */}
             {state === "complete" && (
@@ -404,6 +985,13 @@ function HomeContent() {
                   />
                 </div>
 
+                {/* Variants that failed - keep the rest, retry just these */}
+                <FailedVariantsNotice
+                  failedVariants={failedVariants}
+                  onRetry={retryJobId ? handleRetryFailed : undefined}
+                  isRetrying={isRetrying}
+                />
+
                 
                 {/* Save Designs CTA - Only for guests */}
                 {!user && (
@@ -418,6 +1006,7 @@ function HomeContent() {
                         variants: variants.map(v => ({
                           id: v.id,
                           strategy: v.strategy,
+                          strategyId: v.strategyId,
                           design: {
                             imageData: v.design.imageData,
                             imageUrl: v.design.imageUrl,
@@ -4,6 +4,9 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/components/AuthProvider";
+import StrategyLibrary from "@/components/StrategyLibrary";
+import SeasonalCalendar from "@/components/SeasonalCalendar";
+import UsageBreakdown from "@/components/UsageBreakdown";
 
 interface UsageData {
   used: number;
@@ -487,6 +490,24 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* API Usage Section */}
+        <div className="mt-6">
+          <h2 className="text-sm font-bold text-primary mb-3">Usage &amp; Costs</h2>
+          <UsageBreakdown />
+        </div>
+
+        {/* Strategy Library Section */}
+        <div className="mt-6">
+          <h2 className="text-sm font-bold text-primary mb-3">Remix Strategies</h2>
+          <StrategyLibrary />
+        </div>
+
+        {/* Seasonal Calendar Section */}
+        <div className="mt-6">
+          <h2 className="text-sm font-bold text-primary mb-3">Seasonal Calendar</h2>
+          <SeasonalCalendar />
+        </div>
+
         {/* Upgrade Banner - Full width */}
         {!isPro && (
           <div className="mt-4 bg-surface rounded border border-orange/30 p-4">
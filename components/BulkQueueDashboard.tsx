@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { BulkBatchAction, BulkBatchView, BulkItemView } from "@/lib/bulk-queue";
+
+// The queue advances on each poll, so keep polling while anything is in flight
+const POLL_INTERVAL_MS = 5000;
+
+const STAGE_LABELS: Record<NonNullable<BulkItemView["stage"]>, string> = {
+  preprocess: "Extracting design",
+  analysis: "Analyzing",
+  strategies: "Planning variations",
+  variants: "Generating variants",
+  upload: "Finalizing",
+  done: "Finalizing",
+};
+
+const STATUS_STYLES: Record<BulkItemView["status"], string> = {
+  pending: "bg-secondary text-muted",
+  running: "bg-accent/10 text-accent",
+  saving: "bg-accent/10 text-accent",
+  completed: "bg-green-500/10 text-green-600",
+  failed: "bg-destructive/10 text-destructive",
+  cancelled: "bg-secondary text-muted",
+};
+
+interface BulkQueueDashboardProps {
+  // Bump to reload right away (e.g. after queueing a new batch)
+  refreshKey: number;
+}
+
+function itemLabel(item: BulkItemView): string {
+  if (item.status === "running") {
+    return item.stage ? STAGE_LABELS[item.stage] : "Starting";
+  }
+  if (item.status === "saving") {
+    return "Saving project";
+  }
+  return item.status.charAt(0).toUpperCase() + item.status.slice(1);
+}
+
+function hasActiveWork(batches: BulkBatchView[]): boolean {
+  return batches.some((batch) =>
+    batch.counts.running + batch.counts.saving > 0
+    || (batch.status === "active" && batch.counts.pending > 0)
+  );
+}
+
+/**
+ * Live view of the user's bulk batches with pause/resume/cancel controls
+ */
+export default function BulkQueueDashboard({ refreshKey }: BulkQueueDashboardProps) {
+  const [batches, setBatches] = useState<BulkBatchView[]>([]);
+  const [maxConcurrent, setMaxConcurrent] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/bulk");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to load bulk queue");
+      }
+      setBatches(data.batches);
+      setMaxConcurrent(data.maxConcurrent);
+      setError("");
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load bulk queue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, refreshKey]);
+
+  const isActive = hasActiveWork(batches);
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(loadQueue, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, loadQueue]);
+
+  const handleAction = async (batchId: string, action: BulkBatchAction, itemId?: string) => {
+    setPendingAction(itemId ?? batchId);
+    try {
+      const response = await fetch(`/api/bulk/${batchId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, itemId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to update batch");
+      }
+      await loadQueue();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Failed to update batch");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted">Loading queue...</p>;
+  }
+
+  if (batches.length === 0) {
+    return (
+      <div className="bg-surface rounded border border-border p-6 text-center">
+        <p className="text-sm text-muted">{error || "No bulk uploads yet. Queue some designs above to get started."}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {maxConcurrent > 0 && (
+        <p className="text-xs text-muted">
+          Up to {maxConcurrent} designs generate at a time; the rest wait their turn. Keep this page open to keep the queue moving.
+        </p>
+      )}
+
+      {batches.map((batch) => {
+        const total = batch.items.length;
+        const finished = batch.counts.completed + batch.counts.failed + batch.counts.cancelled;
+        const percent = total > 0 ? Math.round((finished / total) * 100) : 0;
+        const isOpen = batch.status === "active" || batch.status === "paused";
+
+        return (
+          <div key={batch.id} className="bg-surface rounded border border-border p-4">
+            <div className="flex items-start justify-between gap-3 mb-3">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-foreground truncate">{batch.name}</h3>
+                <p className="text-xs text-muted mt-0.5">
+                  {new Date(batch.createdAt).toLocaleString()} · {batch.variantCount} variants each ·{" "}
+                  <span className="capitalize">{batch.status}</span>
+                </p>
+              </div>
+              {isOpen && (
+                <div className="flex items-center gap-2 shrink-0">
+                  {batch.status === "active" ? (
+                    <button
+                      onClick={() => handleAction(batch.id, "pause")}
+                      disabled={pendingAction === batch.id}
+                      className="px-3 py-1.5 text-xs font-medium border border-border rounded hover:bg-secondary transition-colors disabled:opacity-50"
+                    >
+                      Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleAction(batch.id, "resume")}
+                      disabled={pendingAction === batch.id}
+                      className="px-3 py-1.5 text-xs font-medium border border-border rounded hover:bg-secondary transition-colors disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (confirm("Cancel the designs that haven't started yet? Designs already generating will still be saved.")) {
+                        handleAction(batch.id, "cancel");
+                      }
+                    }}
+                    disabled={pendingAction === batch.id}
+                    className="px-3 py-1.5 text-xs font-medium text-destructive border border-border rounded hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="h-1.5 bg-secondary rounded-full overflow-hidden mb-1.5">
+              <div className="h-full bg-accent transition-all duration-500" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-muted mb-3">
+              {batch.counts.completed} of {total} saved
+              {batch.counts.running + batch.counts.saving > 0 && ` · ${batch.counts.running + batch.counts.saving} in progress`}
+              {batch.counts.pending > 0 && ` · ${batch.counts.pending} waiting`}
+              {batch.counts.failed > 0 && ` · ${batch.counts.failed} failed`}
+              {batch.counts.cancelled > 0 && ` · ${batch.counts.cancelled} cancelled`}
+            </p>
+
+            <ul className="divide-y divide-border">
+              {batch.items.map((item) => (
+                <li key={item.id} className="flex items-center gap-3 py-2">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={item.originalImageUrl}
+                    alt={item.fileName}
+                    className="w-10 h-10 rounded object-contain bg-secondary shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    {item.projectId ? (
+                      <Link
+                        href={`/designs/${item.projectId}`}
+                        className="block text-sm font-medium text-foreground hover:text-accent truncate"
+                      >
+                        {item.projectName || item.fileName}
+                      </Link>
+                    ) : (
+                      <p className="text-sm text-foreground truncate">{item.fileName}</p>
+                    )}
+                    {item.error && <p className="text-xs text-destructive truncate" title={item.error}>{item.error}</p>}
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded shrink-0 ${STATUS_STYLES[item.status]}`}>
+                    {itemLabel(item)}
+                  </span>
+                  {item.status === "pending" && isOpen && (
+                    <button
+                      onClick={() => handleAction(batch.id, "cancel", item.id)}
+                      disabled={pendingAction === item.id}
+                      className="w-6 h-6 flex items-center justify-center text-muted hover:text-destructive shrink-0 disabled:opacity-50"
+                      title="Skip this design"
+                    >
+                      ×
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useRef, useState, DragEvent, ChangeEvent } from "react";
+import StrategyPicker from "@/components/StrategyPicker";
+import {
+  defaultBulkBatchName,
+  isBulkImageName,
+  MAX_BULK_FILE_SIZE,
+  MAX_BULK_ITEMS,
+  MAX_BULK_ZIP_SIZE,
+} from "@/lib/bulk-queue";
+import { DEFAULT_STRATEGY_SELECTION, type StrategySelection } from "@/lib/strategy-templates";
+import { extractZipFiles } from "@/lib/zip";
+
+interface BulkUploaderProps {
+  userId: string;
+  // Called once the batch exists and again when every image is uploaded
+  onQueued: () => void;
+}
+
+function isZip(file: File): boolean {
+  return file.type === "application/zip" || file.type === "application/x-zip-compressed" || /\.zip$/i.test(file.name);
+}
+
+/**
+ * Pick many designs (images and/or ZIPs) and queue them as one bulk batch
+ */
+export default function BulkUploader({ userId, onQueued }: BulkUploaderProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [batchName, setBatchName] = useState("");
+  const [selection, setSelection] = useState<StrategySelection>(DEFAULT_STRATEGY_SELECTION);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = async (picked: File[]) => {
+    setIsReading(true);
+    setError("");
+    setNotice("");
+
+    const skipped: string[] = [];
+    const images: File[] = [];
+    try {
+      for (const file of picked) {
+        if (isZip(file)) {
+          if (file.size > MAX_BULK_ZIP_SIZE) {
+            skipped.push(`${file.name} (ZIP over ${MAX_BULK_ZIP_SIZE / 1024 / 1024}MB)`);
+            continue;
+          }
+          images.push(...await extractZipFiles(file, isBulkImageName));
+          if (!batchName) {
+            setBatchName(defaultBulkBatchName(file.name));
+          }
+        } else if (file.type.startsWith("image/")) {
+          images.push(file);
+        } else {
+          skipped.push(file.name);
+        }
+      }
+    } catch (zipError) {
+      setError(zipError instanceof Error ? zipError.message : "Failed to read ZIP file");
+    }
+
+    const accepted = images.filter((file) => {
+      if (file.size > MAX_BULK_FILE_SIZE) {
+        skipped.push(`${file.name} (over 10MB)`);
+        return false;
+      }
+      return true;
+    });
+
+    setFiles((prev) => {
+      const next = [...prev, ...accepted];
+      if (next.length > MAX_BULK_ITEMS) {
+        setNotice(`Only the first ${MAX_BULK_ITEMS} images are kept - queue the rest as another batch.`);
+        return next.slice(0, MAX_BULK_ITEMS);
+      }
+      if (skipped.length > 0) {
+        setNotice(`Skipped ${skipped.length}: ${skipped.slice(0, 5).join(", ")}${skipped.length > 5 ? "…" : ""}`);
+      }
+      return next;
+    });
+    setIsReading(false);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
+    }
+    e.target.value = "";
+  };
+
+  const handleQueue = async () => {
+    if (files.length === 0) return;
+    setError("");
+    setNotice("");
+    setProgress({ done: 0, total: files.length });
+
+    try {
+      const response = await fetch("/api/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: batchName.trim() || defaultBulkBatchName(), ...selection }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to create batch");
+      }
+      onQueued();
+
+      // One image per request keeps each upload well under body size limits
+      const failed: string[] = [];
+      for (let i = 0; i < files.length; i++) {
+        const formData = new FormData();
+        formData.append("image", files[i]);
+        formData.append("fileName", files[i].name);
+        try {
+          const itemResponse = await fetch(`/api/bulk/${data.batchId}/items`, { method: "POST", body: formData });
+          if (!itemResponse.ok) {
+            const itemData = await itemResponse.json().catch(() => ({}));
+            throw new Error(itemData.details || itemData.error || "Upload failed");
+          }
+        } catch (uploadError) {
+          console.error(`Failed to queue ${files[i].name}:`, uploadError);
+          failed.push(files[i].name);
+        }
+        setProgress({ done: i + 1, total: files.length });
+      }
+
+      if (failed.length > 0) {
+        setError(`${failed.length} image${failed.length === 1 ? "" : "s"} could not be queued: ${failed.join(", ")}`);
+      }
+      setFiles([]);
+      setBatchName("");
+      onQueued();
+    } catch (queueError) {
+      setError(queueError instanceof Error ? queueError.message : "Failed to queue designs");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isUploading = progress !== null;
+
+  return (
+    <div className="bg-surface rounded border border-border p-4 space-y-4">
+      <div
+        onClick={() => !isUploading && fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+        className={`
+          border-2 border-dashed rounded p-6 text-center cursor-pointer transition-all duration-200
+          ${isDragging ? "border-accent bg-accent/5" : "border-border hover:border-accent/60 hover:bg-secondary/30"}
+        `}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.zip,application/zip"
+          multiple
+          onChange={handleFileInput}
+          className="hidden"
+        />
+        <div className="w-12 h-12 mx-auto mb-2 rounded bg-accent/10 flex items-center justify-center">
+          <svg className="w-6 h-6 text-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+        </div>
+        <p className="text-sm font-semibold text-foreground">
+          {isReading ? "Reading files..." : "Drop designs or a ZIP, or click to browse"}
+        </p>
+        <p className="text-xs text-muted mt-1">
+          Up to {MAX_BULK_ITEMS} images per batch · PNG, JPG, WEBP (max 10MB each)
+        </p>
+      </div>
+
+      {files.length > 0 && (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs text-muted">{files.length} image{files.length === 1 ? "" : "s"} selected</p>
+              <button
+                onClick={() => setFiles([])}
+                disabled={isUploading}
+                className="text-xs font-medium text-muted hover:text-destructive transition-colors disabled:opacity-50"
+              >
+                Clear all
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+              {files.map((file, index) => (
+                <span
+                  key={`${file.name}-${index}`}
+                  className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 bg-secondary text-xs text-foreground rounded"
+                >
+                  <span className="max-w-[10rem] truncate">{file.name}</span>
+                  <button
+                    onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isUploading}
+                    className="w-4 h-4 flex items-center justify-center text-muted hover:text-destructive"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="bulkBatchName" className="block text-xs text-muted mb-1">Batch name</label>
+            <input
+              id="bulkBatchName"
+              type="text"
+              value={batchName}
+              onChange={(e) => setBatchName(e.target.value)}
+              placeholder={defaultBulkBatchName()}
+              maxLength={80}
+              className="w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+          </div>
+
+          <StrategyPicker value={selection} onChange={setSelection} userId={userId} />
+        </>
+      )}
+
+      {notice && <p className="text-xs text-muted">{notice}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {files.length > 0 && (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleQueue}
+            disabled={isUploading || isReading}
+            className="px-4 py-2 bg-orange text-white text-sm font-semibold rounded shadow-sm hover:bg-orange-hover active:scale-[0.98] transition-all disabled:opacity-50"
+          >
+            {isUploading
+              ? `Uploading ${progress.done}/${progress.total}...`
+              : `Queue ${files.length} design${files.length === 1 ? "" : "s"}`}
+          </button>
+          <p className="text-xs text-muted">
+            Each design becomes its own project, named automatically.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
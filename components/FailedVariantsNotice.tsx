@@ -0,0 +1,66 @@
+"use client";
+
+import type { FailedVariant } from "@/lib/generation-events";
+
+interface FailedVariantsNoticeProps {
+  failedVariants: FailedVariant[];
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+/**
+ * Lists variants that didn't generate (with the reason and last tier tried)
+ * and offers to re-run just those strategies.
+ */
+export default function FailedVariantsNotice({
+  failedVariants,
+  onRetry,
+  isRetrying = false,
+}: FailedVariantsNoticeProps) {
+  if (failedVariants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full lg:w-1/2 mx-auto px-4 py-3 rounded bg-destructive/5 border border-destructive/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-destructive">
+            {failedVariants.length === 1
+              ? "1 variant couldn't be generated"
+              : `${failedVariants.length} variants couldn't be generated`}
+          </h3>
+          <ul className="mt-1.5 space-y-1">
+            {failedVariants.map((variant) => (
+              <li key={variant.id} className="text-xs text-muted truncate" title={variant.error}>
+                <span className="font-medium text-primary">{variant.strategy}</span>
+                {variant.tier && <span> · {variant.tier}</span>}
+                <span> · {variant.error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={isRetrying}
+            className="
+              flex-shrink-0
+              px-3 py-1.5
+              bg-primary
+              text-white
+              text-xs font-semibold
+              rounded
+              hover:shadow-md
+              disabled:opacity-50 disabled:cursor-not-allowed
+              transition-all duration-200
+              focus-ring
+            "
+          >
+            {isRetrying ? "Retrying..." : "Retry failed variants"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -196,6 +196,17 @@ export default function Header() {
                           <span className="font-medium">My Projects</span>
                         </Link>
 
+                        <Link
+                          href="/bulk"
+                          onClick={() => setShowUserMenu(false)}
+                          className="flex items-center gap-2 w-full px-2.5 py-2 text-sm rounded hover:bg-accent/5 transition-colors text-foreground/80"
+                        >
+                          <svg className="w-4 h-4 text-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                          </svg>
+                          <span className="font-medium">Bulk Remix</span>
+                        </Link>
+
                         <Link
                           href="/settings"
                           onClick={() => setShowUserMenu(false)}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useMemo, useRef, ChangeEvent } from "react";
+import { MAX_REFERENCE_IMAGES } from "@/lib/mood-board";
+
+interface MoodBoardPickerProps {
+  // Further references - the uploaded design is always the primary one
+  files: File[];
+  onChange: (files: File[]) => void;
+}
+
+/**
+ * Add up to 4 more reference designs to blend with the uploaded one
+ */
+export default function MoodBoardPicker({ files, onChange }: MoodBoardPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const maxExtra = MAX_REFERENCE_IMAGES - 1;
+
+  const previews = useMemo(() => files.map((file) => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []).filter(
+      (file) => file.type.startsWith("image/") && file.size <= 10 * 1024 * 1024
+    );
+    onChange([...files, ...picked].slice(0, maxExtra));
+    e.target.value = "";
+  };
+
+  return (
+    <div className="bg-surface rounded border border-border p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-foreground">Mood board</h3>
+        <span className="text-xs text-muted">{files.length}/{maxExtra} extra</span>
+      </div>
+      <p className="text-xs text-muted mb-3">
+        Blend your design with other references - e.g. its niche with another design&apos;s art style.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {previews.map((url, index) => (
+          <div key={url} className="relative w-16 h-16 rounded border border-border bg-secondary overflow-hidden">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={url} alt={files[index].name} className="w-full h-full object-contain" />
+            <button
+              onClick={() => onChange(files.filter((_, i) => i !== index))}
+              className="absolute top-0.5 right-0.5 w-5 h-5 flex items-center justify-center rounded-full bg-background/90 text-xs text-muted hover:text-destructive"
+              title="Remove reference"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {files.length < maxExtra && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-16 h-16 flex items-center justify-center rounded border-2 border-dashed border-border text-muted hover:border-accent/60 hover:text-accent transition-colors"
+            title="Add reference"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFileInput}
+        className="hidden"
+      />
+    </div>
+  );
+}
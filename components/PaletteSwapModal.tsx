@@ -0,0 +1,367 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  autoMapPalette,
+  BRAND_PALETTES_STORAGE_KEY,
+  MAX_BRAND_PALETTES,
+  SEASONAL_PALETTES,
+  type ColorMapping,
+  type DominantColor,
+  type NamedPalette,
+} from "@/lib/palettes";
+
+// Wait for the user to stop picking before rendering a preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+interface RecoloredVariant {
+  id: string;
+  variant_number: number;
+  batch_number?: number;
+  strategy: string;
+  image_url: string;
+  thumbnail_url?: string | null;
+  recommended_background: 'light' | 'dark';
+}
+
+interface PaletteSwapModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  variant: {
+    id: string;
+    strategy: string;
+    image_url: string;
+    recommended_background: 'light' | 'dark';
+  };
+  onSuccess: (variant: RecoloredVariant) => void;
+}
+
+function loadBrandPalettes(): NamedPalette[] {
+  try {
+    const stored = localStorage.getItem(BRAND_PALETTES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function PaletteChip({ palette, isActive, onSelect, onDelete }: {
+  palette: NamedPalette;
+  isActive: boolean;
+  onSelect: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div
+      className={`flex items-center gap-1.5 pl-1.5 pr-2 py-1 rounded border text-xs transition-colors ${
+        isActive ? "border-accent bg-accent/10" : "border-border hover:border-accent/50"
+      }`}
+    >
+      <button onClick={onSelect} className="flex items-center gap-1.5" title={`Apply ${palette.name}`}>
+        <span className="flex">
+          {palette.colors.map((color) => (
+            <span key={color} className="w-3 h-3 first:rounded-l-sm last:rounded-r-sm" style={{ backgroundColor: color }} />
+          ))}
+        </span>
+        <span className="text-foreground">{palette.name}</span>
+      </button>
+      {onDelete && (
+        <button onClick={onDelete} className="text-muted hover:text-destructive" title="Delete brand palette">
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Palette swap: map a variant's dominant colours to a seasonal, brand or
+ * hand-picked palette. Every mapping is previewed before it can be saved
+ * as a new variant.
+ */
+export default function PaletteSwapModal({
+  isOpen,
+  onClose,
+  variant,
+  onSuccess,
+}: PaletteSwapModalProps) {
+  const [sourceColors, setSourceColors] = useState<DominantColor[]>([]);
+  const [mapping, setMapping] = useState<ColorMapping[]>([]);
+  const [paletteName, setPaletteName] = useState<string | null>(null);
+  const [brandPalettes, setBrandPalettes] = useState<NamedPalette[]>([]);
+  const [brandName, setBrandName] = useState("");
+  const [preview, setPreview] = useState<{ image: string; key: string } | null>(null);
+  const [isLoadingColors, setIsLoadingColors] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const mappingKey = JSON.stringify(mapping);
+  const hasChanges = mapping.some(({ from, to }) => from !== to);
+
+  // Reset and read the variant's colours when opened for a (new) variant
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    setSourceColors([]);
+    setMapping([]);
+    setPaletteName(null);
+    setPreview(null);
+    setError("");
+    setBrandPalettes(loadBrandPalettes());
+    setIsLoadingColors(true);
+
+    fetch(`/api/variants/${variant.id}/palette`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || "Failed to read colors");
+        if (cancelled) return;
+        const colors: DominantColor[] = data.colors;
+        setSourceColors(colors);
+        setMapping(colors.map(({ color }) => ({ from: color, to: color })));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to read colors");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingColors(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, variant.id]);
+
+  // Preview every mapping (debounced) - saving requires an up-to-date preview
+  useEffect(() => {
+    if (!isOpen || !hasChanges) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const res = await fetch(`/api/variants/${variant.id}/palette`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ mapping: JSON.parse(mappingKey), preview: true }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || "Failed to preview colors");
+        if (!cancelled) setPreview({ image: data.preview, key: mappingKey });
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to preview colors");
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, variant.id, mappingKey, hasChanges]);
+
+  const applyPalette = (palette: NamedPalette) => {
+    setMapping(autoMapPalette(sourceColors.map(({ color }) => color), palette.colors));
+    setPaletteName(palette.name);
+    setError("");
+  };
+
+  const setTarget = (index: number, to: string) => {
+    setMapping((prev) => prev.map((entry, i) => (i === index ? { ...entry, to } : entry)));
+    setPaletteName(null);
+  };
+
+  const saveBrandPalette = () => {
+    const name = brandName.trim();
+    if (!name || !hasChanges) return;
+    const palette: NamedPalette = {
+      id: `brand-${Date.now()}`,
+      name,
+      colors: [...new Set(mapping.map(({ to }) => to))],
+    };
+    const next = [palette, ...brandPalettes.filter((p) => p.name !== name)].slice(0, MAX_BRAND_PALETTES);
+    setBrandPalettes(next);
+    localStorage.setItem(BRAND_PALETTES_STORAGE_KEY, JSON.stringify(next));
+    setPaletteName(name);
+    setBrandName("");
+  };
+
+  const deleteBrandPalette = (id: string) => {
+    const next = brandPalettes.filter((p) => p.id !== id);
+    setBrandPalettes(next);
+    localStorage.setItem(BRAND_PALETTES_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/variants/${variant.id}/palette`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping, paletteName }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || "Failed to recolor variant");
+      }
+      onSuccess(data.variant);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to recolor variant");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isDarkBg = variant.recommended_background === "dark";
+  const isPreviewCurrent = !!preview && preview.key === mappingKey;
+  const busy = isSaving || isLoadingColors;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={isSaving ? undefined : onClose}
+      />
+
+      <div className="relative bg-white dark:bg-gray-900 rounded shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-slideUp">
+        <div className="p-5 space-y-4">
+          <div>
+            <h2 className="text-lg font-bold text-foreground">Swap Palette</h2>
+            <p className="text-sm text-muted">{variant.strategy} - the recolor is saved as a new variant</p>
+          </div>
+
+          {/* Original vs. preview */}
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              { label: "Original", src: variant.image_url },
+              { label: isPreviewing ? "Preview (updating...)" : "Preview", src: hasChanges ? preview?.image : variant.image_url },
+            ].map(({ label, src }) => (
+              <div key={label} className="space-y-1">
+                <p className="text-[11px] text-muted">{label}</p>
+                <div className={`relative aspect-square rounded overflow-hidden border border-border flex items-center justify-center ${isDarkBg ? "bg-gray-800" : "bg-gray-100"}`}>
+                  {src ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={src} alt={label} className={`max-w-full max-h-full object-contain ${isPreviewing && label !== "Original" ? "opacity-60" : ""}`} />
+                  ) : (
+                    <div className="animate-spin rounded-full h-6 w-6 border-2 border-muted/30 border-t-muted" />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Colour mapping */}
+          <div className="space-y-1.5">
+            <p className="text-xs font-semibold text-foreground">Colors</p>
+            {isLoadingColors ? (
+              <p className="text-sm text-muted">Reading the design&apos;s colors...</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                {mapping.map(({ from, to }, index) => (
+                  <div key={from} className="flex items-center gap-2 text-sm">
+                    <span className="w-7 h-7 rounded border border-border flex-shrink-0" style={{ backgroundColor: from }} title={from} />
+                    <span className="text-muted">→</span>
+                    <input
+                      type="color"
+                      value={to}
+                      onChange={(e) => setTarget(index, e.target.value)}
+                      disabled={busy}
+                      className="w-9 h-7 rounded border border-border bg-transparent cursor-pointer flex-shrink-0"
+                      title="Pick a new color"
+                    />
+                    <span className="text-[11px] text-muted tabular-nums">
+                      {Math.round((sourceColors[index]?.share || 0) * 100)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Palettes */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-foreground">Seasonal palettes</p>
+            <div className="flex flex-wrap gap-1.5">
+              {SEASONAL_PALETTES.map((palette) => (
+                <PaletteChip
+                  key={palette.id}
+                  palette={palette}
+                  isActive={paletteName === palette.name}
+                  onSelect={() => applyPalette(palette)}
+                />
+              ))}
+            </div>
+
+            <p className="text-xs font-semibold text-foreground pt-1">Brand palettes</p>
+            {brandPalettes.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {brandPalettes.map((palette) => (
+                  <PaletteChip
+                    key={palette.id}
+                    palette={palette}
+                    isActive={paletteName === palette.name}
+                    onSelect={() => applyPalette(palette)}
+                    onDelete={() => deleteBrandPalette(palette.id)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted">Pick colors above, then save them as a brand palette to reuse them.</p>
+            )}
+            <div className="flex gap-2">
+              <input
+                value={brandName}
+                onChange={(e) => setBrandName(e.target.value.slice(0, 40))}
+                placeholder="Brand palette name"
+                disabled={busy}
+                className="flex-1 px-3 py-1.5 rounded border border-border bg-surface text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-accent/40"
+              />
+              <button
+                onClick={saveBrandPalette}
+                disabled={busy || !brandName.trim() || !hasChanges}
+                className="px-3 py-1.5 rounded text-sm font-medium bg-secondary hover:bg-secondary/80 border border-border disabled:opacity-50"
+              >
+                Save palette
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-2 bg-destructive/10 border border-destructive/30 rounded text-destructive text-xs">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2.5 bg-secondary hover:bg-secondary/80 rounded font-medium transition-all duration-200 disabled:opacity-50 border border-border"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busy || !hasChanges || !isPreviewCurrent || isPreviewing}
+              className="flex-1 px-4 py-2.5 text-white rounded font-semibold shadow-sm transition-all duration-200 disabled:opacity-50 flex items-center justify-center gap-2 bg-accent hover:bg-accent/90 active:scale-[0.98]"
+              title={!isPreviewCurrent && hasChanges ? "Wait for the preview" : undefined}
+            >
+              {isSaving ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/30 border-t-white" />
+                  Recoloring...
+                </>
+              ) : (
+                "Save as New Variant"
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
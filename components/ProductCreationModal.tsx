@@ -5,6 +5,7 @@ import Image from "next/image";
 import { PRESETS, PresetType } from "@/lib/image-processing";
 import { CatalogProduct } from "@/lib/printify-catalog";
 import { PrintifyVariant, PrintifyPrintProvider } from "@/lib/printify";
+import { isTooCloseToSource, type SourceSimilarity } from "@/lib/source-similarity";
 import ProductBrowser from "./ProductBrowser";
 import ColorStylePicker, { ColorStyleSelection } from "./ColorStylePicker";
 import AccordionCard from "./AccordionCard";
@@ -32,6 +33,8 @@ interface ProductCreationModalProps {
   variantId: string;
   designUrl: string;
   designName: string;
+  similarity?: SourceSimilarity | null;  // Near-copies must be acknowledged before publishing
+  designText?: string | null;            // Text in the design, screened for trademarks with the listing
   onSuccess?: (productId: string) => void;
 }
 
@@ -254,6 +257,8 @@ export default function ProductCreationModal({
   variantId,
   designUrl,
   designName,
+  similarity,
+  designText,
   onSuccess,
 }: ProductCreationModalProps) {
   const [step, setStep] = useState<Step>(1);
@@ -273,6 +278,8 @@ export default function ProductCreationModal({
   const [price, setPrice] = useState(24.99);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState("");
+  const tooCloseToSource = isTooCloseToSource(similarity);
+  const [similarityAcknowledged, setSimilarityAcknowledged] = useState(false);
   const [aiContent, setAiContent] = useState<AIContent | null>(null);
   const [loadingAI, setLoadingAI] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
@@ -682,6 +689,7 @@ export default function ProductCreationModal({
           shopIds: selectedShopIds,
           imageCount: mockupCount,
           colorVariantCount: variantCount,
+          designText,
         }),
       });
 
@@ -701,10 +709,14 @@ export default function ProductCreationModal({
     } finally {
       setValidating(false);
     }
-  }, [colorStyleSelection, title, description, tags, price, selectedShopIds]);
+  }, [colorStyleSelection, title, description, tags, price, selectedShopIds, designText]);
 
   const handleCreate = async () => {
     if (selectedProducts.length === 0 || !colorStyleSelection) return;
+    if (tooCloseToSource && !similarityAcknowledged) {
+      setError("This design is very close to the source design. Confirm it is original enough before publishing.");
+      return;
+    }
     if (!selectedShopIds.length) {
       setError("Select at least one store to publish to.");
       setStep(3);
@@ -1499,6 +1511,27 @@ export default function ProductCreationModal({
           )}
         </div>
 
+        {/* Near-copy warning - must be acknowledged before publishing */}
+        {tooCloseToSource && step === 3 && (
+          <div className="px-6 py-3 border-t border-orange/30 bg-orange/10 shrink-0">
+            <p className="text-sm font-semibold text-orange">
+              Too close to source ({similarity?.score}% similar)
+            </p>
+            <p className="text-xs text-muted mt-0.5">
+              This variant is nearly identical to the design it was remixed from. Publishing near-copies of other sellers&apos; designs can get listings removed.
+            </p>
+            <label className="flex items-center gap-2 mt-2 text-sm text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={similarityAcknowledged}
+                onChange={(e) => setSimilarityAcknowledged(e.target.checked)}
+                className="accent-orange"
+              />
+              I have reviewed this design and have the right to publish it
+            </label>
+          </div>
+        )}
+
         {/* Footer - Sticky at bottom with generous spacing */}
         <div className="flex items-center justify-between px-6 py-5 border-t border-border bg-secondary/20 shrink-0 mt-auto">
           <div className="text-sm text-muted">
@@ -1525,7 +1558,7 @@ export default function ProductCreationModal({
                 {loadingDetails ? 'Loading...' : 'Next →'}
               </button>
             ) : (
-              <button onClick={handleCreate} disabled={creating || !title} className="px-6 py-2.5 bg-[#29b474] text-white text-sm font-semibold rounded disabled:opacity-50 flex items-center gap-2 hover:bg-[#24a366] transition-colors">
+              <button onClick={handleCreate} disabled={creating || !title || (tooCloseToSource && !similarityAcknowledged)} className="px-6 py-2.5 bg-[#29b474] text-white text-sm font-semibold rounded disabled:opacity-50 flex items-center gap-2 hover:bg-[#24a366] transition-colors">
                 {creating ? <><svg className="animate-spin w-3.5 h-3.5" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" /></svg> Creating...</> : <>✓ Create {selectedProducts.length > 1 ? `${selectedProducts.length} Products` : 'Product'}</>}
               </button>
             )}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import Image from "next/image";
+
+interface LineageProject {
+  id: string;
+  name: string;
+  original_image_url: string;
+  parent_variant_id: string | null;
+}
+
+interface LineageVariant {
+  id: string;
+  strategy: string;
+  image_url: string;
+  thumbnail_url: string | null;
+  batch_number: number | null;
+}
+
+interface LineageResponse {
+  ancestors: Array<{ project: LineageProject; variant: LineageVariant | null }>;
+  children: LineageProject[];
+}
+
+interface ProjectLineageProps {
+  projectId: string;
+  projectName: string;
+  // This project's variants - labels which variant each remix came from
+  variants: Array<{ id: string; strategy: string; batch_number?: number }>;
+}
+
+function LineageThumb({ src, alt }: { src: string; alt: string }) {
+  return (
+    <div className="relative w-9 h-9 flex-shrink-0 bg-white rounded overflow-hidden border border-border">
+      <Image src={src} alt={alt} fill loading="lazy" className="object-contain p-0.5" sizes="36px" />
+    </div>
+  );
+}
+
+/**
+ * Ancestry of a remixed project (original → variant → sub-variant) and the
+ * projects remixed from it. Renders nothing for projects without lineage.
+ */
+export default function ProjectLineage({ projectId, projectName, variants }: ProjectLineageProps) {
+  const [lineage, setLineage] = useState<LineageResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/projects/${projectId}/lineage`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: LineageResponse | null) => {
+        if (!cancelled) setLineage(data);
+      })
+      .catch((error) => console.warn("Failed to load project lineage:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  if (!lineage || (lineage.ancestors.length === 0 && lineage.children.length === 0)) {
+    return null;
+  }
+
+  const variantLabel = (variantId: string | null) => {
+    const variant = variants.find((v) => v.id === variantId);
+    return variant ? `${variant.strategy}${variant.batch_number ? ` · Variant ${variant.batch_number}` : ""}` : "a variant";
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-bold text-foreground">Lineage</p>
+
+      {lineage.ancestors.length > 0 && (
+        <ol className="bg-surface rounded border border-border p-2.5 space-y-1.5">
+          {lineage.ancestors.map(({ project, variant }, index) => (
+            <li key={project.id} className="space-y-1.5">
+              <Link
+                href={`/designs/${project.id}`}
+                className="flex items-center gap-2 rounded p-1 -m-1 hover:bg-accent/5 transition-colors"
+              >
+                <LineageThumb src={project.original_image_url} alt={project.name} />
+                <div className="min-w-0">
+                  <p className="text-[11px] text-muted">{index === 0 ? "Original" : "Remix"}</p>
+                  <p className="text-xs font-medium text-foreground truncate">{project.name}</p>
+                </div>
+              </Link>
+              {variant && (
+                <div className="flex items-center gap-2 pl-4">
+                  <span className="text-muted text-xs">↳</span>
+                  <LineageThumb src={variant.thumbnail_url || variant.image_url} alt={variant.strategy} />
+                  <p className="text-xs text-foreground/80 truncate">{variant.strategy}</p>
+                </div>
+              )}
+            </li>
+          ))}
+          <li className="flex items-center gap-2 pl-8">
+            <span className="text-muted text-xs">↳</span>
+            <p className="text-xs font-semibold text-accent truncate">{projectName}</p>
+          </li>
+        </ol>
+      )}
+
+      {lineage.children.length > 0 && (
+        <div className="bg-surface rounded border border-border p-2.5 space-y-1.5">
+          <p className="text-[11px] text-muted">Remixed into</p>
+          {lineage.children.map((child) => (
+            <Link
+              key={child.id}
+              href={`/designs/${child.id}`}
+              className="flex items-center gap-2 rounded p-1 -m-1 hover:bg-accent/5 transition-colors"
+            >
+              <LineageThumb src={child.original_image_url} alt={child.name} />
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-foreground truncate">{child.name}</p>
+                <p className="text-[11px] text-muted truncate">from {variantLabel(child.parent_variant_id)}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
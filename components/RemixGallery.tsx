@@ -1,6 +1,8 @@
 "use client";
 
 import { useState, useRef } from "react";
+import type { VariantProvenance } from "@/lib/generation-events";
+import TextFidelityBadge from "./TextFidelityBadge";
 
 interface DesignVersion {
   imageData: string;
@@ -18,6 +20,7 @@ interface Variant {
   strategy: string;
   design: DesignVersion;
   colorClassification?: ColorClassification;
+  provenance?: VariantProvenance;
 }
 
 interface RemixGalleryProps {
@@ -232,7 +235,10 @@ function VariantCard({ variant, onDownload, onCreateProduct, isPrintifyConnected
       {/* Card Footer - Matching VariantCard layout */}
       <div className="px-3 py-2 flex items-center justify-between bg-white dark:bg-gray-800">
         {/* Strategy Name as Title */}
-        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate pr-2">{variant.strategy}</h3>
+        <div className="flex items-center gap-1.5 min-w-0 pr-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{variant.strategy}</h3>
+          <TextFidelityBadge fidelity={variant.provenance?.textFidelity} className="flex-shrink-0" />
+        </div>
         
         <div className="flex items-center gap-1">
           {/* Create Product Button - Primary if Printify connected */}
@@ -0,0 +1,204 @@
+"use client";
+
+import type { DesignAnalysis } from "@/lib/design-utils";
+
+export interface ReviewStrategy {
+  id: number;
+  strategy: string;
+  prompt: string;
+}
+
+interface RemixReviewPanelProps {
+  imagePreview?: string;
+  analysis: DesignAnalysis;
+  onAnalysisChange: (analysis: DesignAnalysis) => void;
+  // null until prompts have been planned from the analysis
+  strategies: ReviewStrategy[] | null;
+  onStrategiesChange: (strategies: ReviewStrategy[]) => void;
+  onPlanStrategies: () => void;
+  onEditAnalysis: () => void;
+  onGenerate: () => void;
+  onSkipReview: () => void;
+  onCancel: () => void;
+  isBusy?: boolean;
+}
+
+const TEXT_FIELDS: Array<{ key: keyof DesignAnalysis; label: string; multiline?: boolean }> = [
+  { key: "text", label: "Text on the design", multiline: true },
+  { key: "theme", label: "Theme" },
+  { key: "style", label: "Style" },
+  { key: "tone", label: "Tone" },
+  { key: "typography_style", label: "Typography" },
+  { key: "text_color", label: "Text color" },
+  { key: "character_action", label: "Character action" },
+];
+
+const inputClassName =
+  "w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50";
+
+/**
+ * Review step between analysis and image generation:
+ * 1. correct what the analysis got wrong (OCR'd text especially)
+ * 2. edit each strategy prompt before paying for generation
+ */
+export default function RemixReviewPanel({
+  imagePreview,
+  analysis,
+  onAnalysisChange,
+  strategies,
+  onStrategiesChange,
+  onPlanStrategies,
+  onEditAnalysis,
+  onGenerate,
+  onSkipReview,
+  onCancel,
+  isBusy = false,
+}: RemixReviewPanelProps) {
+  const updateField = (key: keyof DesignAnalysis, value: string) =>
+    onAnalysisChange({ ...analysis, [key]: value });
+
+  return (
+    <div className="max-w-3xl mx-auto bg-surface rounded border border-border p-4 md:p-6">
+      <div className="flex items-start gap-4 mb-4">
+        {imagePreview && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={imagePreview}
+            alt="Uploaded design"
+            className="w-20 h-20 object-contain rounded bg-background border border-border flex-shrink-0"
+          />
+        )}
+        <div>
+          <h2 className="text-base font-semibold text-primary">
+            {strategies ? "Edit the prompts" : "Check what we read from your design"}
+          </h2>
+          <p className="text-xs text-muted mt-1">
+            {strategies
+              ? "Each prompt becomes one variant. Nothing is generated until you click Generate."
+              : "Fix anything that's off - mistakes here carry into every variant."}
+          </p>
+        </div>
+      </div>
+
+      {!strategies ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {TEXT_FIELDS.map(({ key, label, multiline }) => (
+            <label key={key} className={`block ${multiline ? "md:col-span-2" : ""}`}>
+              <span className="block text-xs font-medium text-muted mb-1">{label}</span>
+              {multiline ? (
+                <textarea
+                  value={(analysis[key] as string | undefined) ?? ""}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  rows={2}
+                  className={inputClassName}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={(analysis[key] as string | undefined) ?? ""}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  className={inputClassName}
+                />
+              )}
+            </label>
+          ))}
+          <label className="block">
+            <span className="block text-xs font-medium text-muted mb-1">Graphic colors (comma separated)</span>
+            <input
+              type="text"
+              value={analysis.graphic_colors.join(", ")}
+              onChange={(e) =>
+                onAnalysisChange({
+                  ...analysis,
+                  graphic_colors: e.target.value.split(",").map((c) => c.trim()),
+                })
+              }
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-muted mb-1">Design type</span>
+            <select
+              value={analysis.design_type}
+              onChange={(e) =>
+                onAnalysisChange({ ...analysis, design_type: e.target.value as DesignAnalysis["design_type"] })
+              }
+              className={inputClassName}
+            >
+              <option value="text_only">Text only</option>
+              <option value="graphic_only">Graphic only</option>
+              <option value="mixed">Mixed</option>
+            </select>
+          </label>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {strategies.map((strategy) => (
+            <label key={strategy.id} className="block">
+              <span className="block text-xs font-medium text-muted mb-1">
+                Variant {strategy.id} · {strategy.strategy}
+              </span>
+              <textarea
+                value={strategy.prompt}
+                onChange={(e) =>
+                  onStrategiesChange(
+                    strategies.map((s) => (s.id === strategy.id ? { ...s, prompt: e.target.value } : s))
+                  )
+                }
+                rows={3}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-5 pt-4 border-t border-border">
+        <button
+          onClick={onCancel}
+          disabled={isBusy}
+          className="px-4 py-2 text-sm font-medium text-muted hover:text-foreground transition-colors disabled:opacity-50"
+        >
+          Start over
+        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          {!strategies ? (
+            <>
+              <button
+                onClick={onSkipReview}
+                disabled={isBusy}
+                className="px-4 py-2 bg-secondary text-foreground text-sm font-semibold rounded shadow-sm hover:bg-secondary/80 active:scale-[0.98] transition-all disabled:opacity-50"
+              >
+                Skip review & generate
+              </button>
+              <button
+                onClick={onPlanStrategies}
+                disabled={isBusy}
+                className="px-4 py-2 bg-accent text-white text-sm font-semibold rounded shadow-sm hover:bg-accent/90 active:scale-[0.98] transition-all disabled:opacity-50"
+              >
+                {isBusy ? "Writing prompts..." : "Next: review prompts"}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onEditAnalysis}
+                disabled={isBusy}
+                className="px-4 py-2 bg-secondary text-foreground text-sm font-semibold rounded shadow-sm hover:bg-secondary/80 active:scale-[0.98] transition-all disabled:opacity-50"
+              >
+                Back to details
+              </button>
+              <button
+                onClick={onGenerate}
+                disabled={isBusy || strategies.some((s) => !s.prompt.trim())}
+                className="px-4 py-2 bg-orange text-white text-sm font-semibold rounded shadow-sm hover:bg-orange-hover active:scale-[0.98] transition-all disabled:opacity-50"
+              >
+                Generate {strategies.length} variants
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
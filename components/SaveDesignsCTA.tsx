@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { createBrowserClient } from "@supabase/ssr";
+import type { VariantProvenance } from "@/lib/generation-events";
+import type { SourceSimilarity } from "@/lib/source-similarity";
 
 const PENDING_PROJECT_KEY = "pod-remix-pending-project";
 
@@ -10,6 +12,7 @@ interface PendingProject {
   variants: Array<{
     id: number;
     strategy: string;
+    strategyId?: string;
     design: {
       imageData: string;
       imageUrl?: string;
@@ -17,6 +20,8 @@ interface PendingProject {
     colorClassification?: {
       recommendedBackground: 'light' | 'dark';
     };
+    provenance?: VariantProvenance;
+    similarity?: SourceSimilarity | null;
   }>;
   createdAt: string;
 }
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_LEAD_DAYS,
+  formatSeasonalRule,
+  MAX_LEAD_DAYS,
+  MIN_LEAD_DAYS,
+  MONTH_NAMES,
+  NTH_LABELS,
+  validateSeasonalEventInput,
+  WEEKDAY_NAMES,
+  type SeasonalEvent,
+} from "@/lib/seasonal-events";
+
+interface EventForm {
+  name: string;
+  month: number;
+  // "day": fixed date, "weekday": nth weekday of the month
+  ruleType: "day" | "weekday";
+  day: number;
+  weekday: number;
+  nth: number;
+  leadDays: number;
+  promptHint: string;
+}
+
+const EMPTY_FORM: EventForm = {
+  name: "",
+  month: 1,
+  ruleType: "day",
+  day: 1,
+  weekday: 0,
+  nth: 1,
+  leadDays: DEFAULT_LEAD_DAYS,
+  promptHint: "",
+};
+
+function toRequestBody(form: EventForm) {
+  return {
+    name: form.name,
+    month: form.month,
+    day: form.ruleType === "day" ? form.day : null,
+    weekday: form.ruleType === "weekday" ? form.weekday : null,
+    nth: form.ruleType === "weekday" ? form.nth : null,
+    leadDays: form.leadDays,
+    promptHint: form.promptHint,
+  };
+}
+
+const selectClassName = "px-2 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50";
+
+/**
+ * Settings panel: the seasonal event calendar (built-in holidays + the user's own events)
+ */
+export default function SeasonalCalendar() {
+  const [events, setEvents] = useState<SeasonalEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<EventForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/seasonal-events")
+      .then((res) => res.json())
+      .then((data) => setEvents(data.events || []))
+      .catch((error) => console.error("Failed to load seasonal events:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError("");
+  };
+
+  const handleSave = async () => {
+    const body = toRequestBody(form);
+    const validationError = validateSeasonalEventInput(body);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setFormError("");
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/seasonal-events/${editingId}` : "/api/seasonal-events",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to save event");
+      }
+
+      setEvents((prev) =>
+        editingId
+          ? prev.map((e) => (e.id === editingId ? data.event : e))
+          : [...prev, data.event]
+      );
+      resetForm();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save event");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (event: SeasonalEvent) => {
+    if (!confirm(`Delete the "${event.name}" event?`)) return;
+
+    try {
+      const response = await fetch(`/api/seasonal-events/${event.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete event");
+      }
+      setEvents((prev) => prev.filter((e) => e.id !== event.id));
+      if (editingId === event.id) {
+        resetForm();
+      }
+    } catch (error) {
+      console.error("Failed to delete seasonal event:", error);
+    }
+  };
+
+  const startEditing = (event: SeasonalEvent) => {
+    setEditingId(event.id);
+    setForm({
+      name: event.name,
+      month: event.month,
+      ruleType: event.day !== null ? "day" : "weekday",
+      day: event.day ?? 1,
+      weekday: event.weekday ?? 0,
+      nth: event.nth ?? 1,
+      leadDays: event.leadDays,
+      promptHint: event.promptHint,
+    });
+    setFormError("");
+  };
+
+  const builtInEvents = events.filter((e) => e.builtIn);
+  const userEvents = events.filter((e) => !e.builtIn);
+
+  return (
+    <div className="bg-surface rounded border border-border p-4">
+      <p className="text-xs text-muted mb-3">
+        Events show up on your designs page ahead of time (lead days) with the projects that
+        have no variants for them yet. Add the niche events your shop sells for.
+      </p>
+
+      {loading ? (
+        <div className="animate-pulse h-16 bg-secondary rounded" />
+      ) : (
+        <div className="space-y-2">
+          {builtInEvents.map((event) => (
+            <div key={event.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded bg-secondary/50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">{event.name}</p>
+                <p className="text-xs text-muted truncate">{event.promptHint}</p>
+              </div>
+              <span className="text-xs text-muted flex-shrink-0">
+                Built-in · {formatSeasonalRule(event)} · {event.leadDays}d ahead
+              </span>
+            </div>
+          ))}
+          {userEvents.map((event) => (
+            <div key={event.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded border border-border">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">{event.name}</p>
+                <p className="text-xs text-muted truncate">{event.promptHint}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-xs text-muted">{formatSeasonalRule(event)} · {event.leadDays}d ahead</span>
+                <button
+                  onClick={() => startEditing(event)}
+                  className="px-2 py-1 text-xs font-medium text-accent hover:bg-accent/10 rounded transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(event)}
+                  className="px-2 py-1 text-xs font-medium text-destructive hover:bg-destructive/10 rounded transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit form */}
+      <div className="mt-4 pt-4 border-t border-border space-y-3">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Event name, e.g. Nurses Week"
+          className="w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+        />
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted">
+          <select
+            value={form.ruleType}
+            onChange={(e) => setForm({ ...form, ruleType: e.target.value as EventForm["ruleType"] })}
+            className={selectClassName}
+          >
+            <option value="day">On a date</option>
+            <option value="weekday">On a weekday</option>
+          </select>
+          {form.ruleType === "weekday" && (
+            <>
+              <select
+                value={form.nth}
+                onChange={(e) => setForm({ ...form, nth: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {Object.entries(NTH_LABELS).map(([nth, label]) => (
+                  <option key={nth} value={nth}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={form.weekday}
+                onChange={(e) => setForm({ ...form, weekday: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {WEEKDAY_NAMES.map((name, index) => (
+                  <option key={name} value={index}>{name}</option>
+                ))}
+              </select>
+              of
+            </>
+          )}
+          <select
+            value={form.month}
+            onChange={(e) => setForm({ ...form, month: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {MONTH_NAMES.map((name, index) => (
+              <option key={name} value={index + 1}>{name}</option>
+            ))}
+          </select>
+          {form.ruleType === "day" && (
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={form.day}
+              onChange={(e) => setForm({ ...form, day: Number(e.target.value) })}
+              className="w-16 px-2 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+          )}
+          <label className="flex items-center gap-2 ml-auto">
+            Show
+            <input
+              type="number"
+              min={MIN_LEAD_DAYS}
+              max={MAX_LEAD_DAYS}
+              value={form.leadDays}
+              onChange={(e) => setForm({ ...form, leadDays: Number(e.target.value) })}
+              className="w-16 px-2 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+            days ahead
+          </label>
+        </div>
+
+        <textarea
+          value={form.promptHint}
+          onChange={(e) => setForm({ ...form, promptHint: e.target.value })}
+          placeholder="Theme hint for the variants, e.g. scrubs, stethoscopes and a heartfelt thank-you to nurses"
+          rows={2}
+          className="w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+        />
+
+        {formError && (
+          <p className="text-sm text-destructive">{formError}</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-accent text-white text-sm font-semibold rounded shadow-sm hover:bg-accent/90 active:scale-[0.98] transition-all disabled:opacity-50"
+          >
+            {saving ? "Saving..." : editingId ? "Update event" : "Add event"}
+          </button>
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-sm font-medium text-muted hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
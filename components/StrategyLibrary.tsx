@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  STRATEGY_PLACEHOLDERS,
+  validateStrategyTemplateInput,
+  type StrategyTemplate,
+} from "@/lib/strategy-templates";
+
+interface TemplateForm {
+  name: string;
+  promptScaffold: string;
+  similarityTarget: number;
+}
+
+const EMPTY_FORM: TemplateForm = { name: "", promptScaffold: "", similarityTarget: 85 };
+
+/**
+ * Settings panel: manage the user's own remix strategy templates
+ */
+export default function StrategyLibrary() {
+  const [templates, setTemplates] = useState<StrategyTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/strategy-templates")
+      .then((res) => res.json())
+      .then((data) => setTemplates(data.templates || []))
+      .catch((error) => console.error("Failed to load strategy templates:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError("");
+  };
+
+  const handleSave = async () => {
+    const validationError = validateStrategyTemplateInput(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setFormError("");
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/strategy-templates/${editingId}` : "/api/strategy-templates",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to save template");
+      }
+
+      setTemplates((prev) =>
+        editingId
+          ? prev.map((t) => (t.id === editingId ? data.template : t))
+          : [...prev, data.template]
+      );
+      resetForm();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: StrategyTemplate) => {
+    if (!confirm(`Delete the "${template.name}" strategy?`)) return;
+
+    try {
+      const response = await fetch(`/api/strategy-templates/${template.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete template");
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (editingId === template.id) {
+        resetForm();
+      }
+    } catch (error) {
+      console.error("Failed to delete strategy template:", error);
+    }
+  };
+
+  const userTemplates = templates.filter((t) => !t.builtIn);
+  const builtInTemplates = templates.filter((t) => t.builtIn);
+
+  return (
+    <div className="bg-surface rounded border border-border p-4">
+      <p className="text-xs text-muted mb-3">
+        Save your own remix strategies. Use {STRATEGY_PLACEHOLDERS.join(", ")} in the prompt scaffold -
+        they are filled from the analysis of each uploaded design.
+      </p>
+
+      {loading ? (
+        <div className="animate-pulse h-16 bg-secondary rounded" />
+      ) : (
+        <div className="space-y-2">
+          {builtInTemplates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded bg-secondary/50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">{template.name}</p>
+                <p className="text-xs text-muted truncate">{template.promptScaffold}</p>
+              </div>
+              <span className="text-xs text-muted flex-shrink-0">Built-in · {template.similarityTarget}%</span>
+            </div>
+          ))}
+          {userTemplates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded border border-border">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">{template.name}</p>
+                <p className="text-xs text-muted truncate">{template.promptScaffold}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-xs text-muted">{template.similarityTarget}%</span>
+                <button
+                  onClick={() => {
+                    setEditingId(template.id);
+                    setForm({
+                      name: template.name,
+                      promptScaffold: template.promptScaffold,
+                      similarityTarget: template.similarityTarget,
+                    });
+                    setFormError("");
+                  }}
+                  className="px-2 py-1 text-xs font-medium text-accent hover:bg-accent/10 rounded transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="px-2 py-1 text-xs font-medium text-destructive hover:bg-destructive/10 rounded transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit form */}
+      <div className="mt-4 pt-4 border-t border-border space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Strategy name, e.g. Retro Badge"
+            className="w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+          <label className="flex items-center gap-2 text-xs text-muted">
+            Similarity
+            <input
+              type="number"
+              min={50}
+              max={100}
+              value={form.similarityTarget}
+              onChange={(e) => setForm({ ...form, similarityTarget: Number(e.target.value) })}
+              className="w-16 px-2 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+            %
+          </label>
+        </div>
+        <textarea
+          value={form.promptScaffold}
+          onChange={(e) => setForm({ ...form, promptScaffold: e.target.value })}
+          placeholder='e.g. Turn {theme} into a vintage circular badge, keep the text "{text}", {style} linework'
+          rows={2}
+          className="w-full px-3 py-2 bg-background border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/50"
+        />
+
+        {formError && (
+          <p className="text-sm text-destructive">{formError}</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-accent text-white text-sm font-semibold rounded shadow-sm hover:bg-accent/90 active:scale-[0.98] transition-all disabled:opacity-50"
+          >
+            {saving ? "Saving..." : editingId ? "Update strategy" : "Add strategy"}
+          </button>
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-sm font-medium text-muted hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
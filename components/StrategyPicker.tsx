@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState, KeyboardEvent } from "react";
+import {
+  BUILTIN_STRATEGY_TEMPLATES,
+  DEFAULT_STRATEGY_SELECTION,
+  isNicheStrategyId,
+  MAX_NICHE_LENGTH,
+  MAX_VARIANT_COUNT,
+  MIN_VARIANT_COUNT,
+  nicheSelection,
+  nicheStrategyTemplate,
+  type StrategySelection,
+  type StrategyTemplate,
+} from "@/lib/strategy-templates";
+import {
+  isLocaleStrategyId,
+  localeSelection,
+  strategyLanguage,
+  SUPPORTED_LANGUAGES,
+} from "@/lib/localization";
+
+type PickerMode = "strategies" | "niches" | "languages";
+
+const MODES: Array<{ mode: PickerMode; label: string }> = [
+  { mode: "strategies", label: "Remix strategies" },
+  { mode: "niches", label: "Retarget niches" },
+  { mode: "languages", label: "Localize" },
+];
+
+interface StrategyPickerProps {
+  value: StrategySelection;
+  onChange: (selection: StrategySelection) => void;
+  // Refetch templates when this changes (e.g. the signed-in user)
+  userId?: string | null;
+}
+
+/**
+ * Choose which remix strategies a run uses and how many variants to generate.
+ * Strategies are cycled to fill the variant count.
+ * "Retarget niches" mode instead takes a list of audiences, one variant each,
+ * and "Localize" a list of languages to translate the design text into.
+ */
+export default function StrategyPicker({ value, onChange, userId }: StrategyPickerProps) {
+  const [templates, setTemplates] = useState<StrategyTemplate[]>(BUILTIN_STRATEGY_TEMPLATES);
+  const niches = value.strategyIds.filter(isNicheStrategyId).map((id) => nicheStrategyTemplate(id).name);
+  const languages = value.strategyIds.map(strategyLanguage).filter((code): code is string => code !== null);
+  // Niche / language mode can be open before the first one is added
+  const [mode, setMode] = useState<PickerMode>(
+    niches.length > 0 ? "niches" : value.strategyIds.some(isLocaleStrategyId) ? "languages" : "strategies"
+  );
+  const [nicheInput, setNicheInput] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/strategy-templates")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.templates) {
+          setTemplates(data.templates);
+        }
+      })
+      .catch((error) => console.warn("Failed to load strategy templates:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const setNiches = (next: string[]) => {
+    onChange(next.length > 0 ? nicheSelection(next) : DEFAULT_STRATEGY_SELECTION);
+  };
+
+  const addNiches = () => {
+    // Comma-separated lists are split into one niche each
+    const added = nicheInput.split(",").map((niche) => niche.trim().slice(0, MAX_NICHE_LENGTH)).filter(Boolean);
+    if (added.length > 0) {
+      setNiches([...niches, ...added]);
+    }
+    setNicheInput("");
+  };
+
+  const handleNicheKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addNiches();
+    } else if (e.key === "Backspace" && !nicheInput && niches.length > 0) {
+      setNiches(niches.slice(0, -1));
+    }
+  };
+
+  const toggleLanguage = (code: string) => {
+    const next = languages.includes(code)
+      ? languages.filter((language) => language !== code)
+      : [...languages, code];
+    onChange(next.length > 0 ? localeSelection(next) : DEFAULT_STRATEGY_SELECTION);
+  };
+
+  const switchMode = (next: PickerMode) => {
+    setMode(next);
+    // Niches and languages are only kept in their own mode
+    if (niches.length > 0 || languages.length > 0) {
+      onChange(DEFAULT_STRATEGY_SELECTION);
+    }
+  };
+
+  const toggle = (id: string) => {
+    const selected = value.strategyIds.includes(id);
+    // Always keep at least one strategy selected
+    if (selected && value.strategyIds.length === 1) return;
+    onChange({
+      ...value,
+      strategyIds: selected
+        ? value.strategyIds.filter((s) => s !== id)
+        : [...value.strategyIds, id],
+    });
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-surface rounded border border-border p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-1 p-0.5 bg-secondary rounded">
+          {MODES.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => option.mode !== mode && switchMode(option.mode)}
+              className={`px-2.5 py-1 rounded text-xs font-semibold transition-colors ${
+                mode === option.mode ? "bg-surface text-primary shadow-sm" : "text-muted hover:text-primary"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {mode === "niches" ? (
+          <span className="text-xs text-muted">
+            {niches.length}/{MAX_VARIANT_COUNT} niches
+          </span>
+        ) : mode === "languages" ? (
+          <span className="text-xs text-muted">
+            {languages.length} language{languages.length !== 1 ? "s" : ""}
+          </span>
+        ) : (
+          <label className="flex items-center gap-2 text-xs text-muted">
+            Variants
+            <input
+              type="range"
+              min={MIN_VARIANT_COUNT}
+              max={MAX_VARIANT_COUNT}
+              value={value.variantCount}
+              onChange={(e) => onChange({ ...value, variantCount: Number(e.target.value) })}
+              className="w-28 accent-accent"
+            />
+            <span className="w-5 text-right font-semibold text-primary">{value.variantCount}</span>
+          </label>
+        )}
+      </div>
+
+      {mode === "niches" ? (
+        <div>
+          <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 bg-background border border-border rounded focus-within:ring-2 focus-within:ring-accent/50">
+            {niches.map((niche, index) => (
+              <span
+                key={niche}
+                className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs font-medium border border-accent bg-accent/10 text-accent"
+              >
+                {niche}
+                <button
+                  type="button"
+                  onClick={() => setNiches(niches.filter((_, i) => i !== index))}
+                  className="w-4 h-4 flex items-center justify-center hover:text-destructive"
+                  title="Remove niche"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            {niches.length < MAX_VARIANT_COUNT && (
+              <input
+                type="text"
+                value={nicheInput}
+                onChange={(e) => setNicheInput(e.target.value)}
+                onKeyDown={handleNicheKeyDown}
+                onBlur={addNiches}
+                placeholder={niches.length === 0 ? "nurses, teachers, dog moms..." : "Add niche"}
+                className="flex-1 min-w-[8rem] py-0.5 bg-transparent text-sm focus:outline-none"
+              />
+            )}
+          </div>
+          <p className="text-xs text-muted mt-2">
+            {niches.length === 0
+              ? "Add the audiences to retarget this design to - until then the regular strategies are used."
+              : "One variant per niche: new text and props for each audience, same pose, composition and style."}
+          </p>
+        </div>
+      ) : mode === "languages" ? (
+        <div>
+          <div className="flex flex-wrap gap-2">
+            {SUPPORTED_LANGUAGES.map((language) => {
+              const isSelected = languages.includes(language.code);
+              return (
+                <button
+                  key={language.code}
+                  type="button"
+                  onClick={() => toggleLanguage(language.code)}
+                  className={`px-2.5 py-1 rounded text-xs font-medium border transition-colors ${
+                    isSelected
+                      ? "border-accent bg-accent/10 text-accent"
+                      : "border-border text-muted hover:border-accent/60"
+                  }`}
+                >
+                  {language.name}
+                  <span className="ml-1 opacity-60 uppercase">{language.code}</span>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted mt-2">
+            {languages.length === 0
+              ? "Pick the languages to translate the design text into - until then the regular strategies are used."
+              : "One variant per language: the text translated idiomatically, same typography, pose and style."}
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {templates.map((template) => {
+            const isSelected = value.strategyIds.includes(template.id);
+            return (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => toggle(template.id)}
+                title={template.promptScaffold}
+                className={`px-2.5 py-1 rounded text-xs font-medium border transition-colors ${
+                  isSelected
+                    ? "border-accent bg-accent/10 text-accent"
+                    : "border-border text-muted hover:border-accent/60"
+                }`}
+              >
+                {template.name}
+                <span className="ml-1 opacity-60">{template.similarityTarget}%</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import type { TextFidelity } from "@/lib/text-fidelity";
+
+interface TextFidelityBadgeProps {
+  fidelity: TextFidelity | null | undefined;
+  className?: string;
+}
+
+/**
+ * Text-fidelity score of a variant ("Text 96%"), orange when the spelling
+ * still didn't match after the automatic retries
+ */
+export default function TextFidelityBadge({ fidelity, className = "" }: TextFidelityBadgeProps) {
+  if (!fidelity) return null;
+
+  const title = fidelity.passed
+    ? `Text matches "${fidelity.expected}"`
+    : `Text may be misspelled: read "${fidelity.detected}", expected "${fidelity.expected}"`;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[11px] font-semibold ${
+        fidelity.passed ? "bg-green-500/10 text-green-600" : "bg-orange/10 text-orange"
+      } ${className}`}
+      title={title}
+    >
+      {!fidelity.passed && (
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+        </svg>
+      )}
+      Text {fidelity.score}%
+    </span>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  SEASONAL_VARIANT_COUNT,
+  seasonalStrategyId,
+  type UpcomingSeasonalEvent,
+} from "@/lib/seasonal-events";
+
+// Projects listed per event before collapsing into "+N more"
+const MAX_VISIBLE_PROJECTS = 6;
+
+export interface UpcomingEventProjects extends UpcomingSeasonalEvent {
+  // Projects with no variant for this event yet
+  projects: Array<{ id: string; name: string; original_image_url: string }>;
+}
+
+interface UpcomingEventsPanelProps {
+  upcoming: UpcomingEventProjects[];
+}
+
+function formatEventDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Upcoming seasonal events with the projects still missing a themed variant
+ */
+export default function UpcomingEventsPanel({ upcoming }: UpcomingEventsPanelProps) {
+  const router = useRouter();
+  // "<eventId>:<projectId>" of the generations in flight
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+  const [error, setError] = useState("");
+
+  const events = upcoming.filter((item) => item.projects.length > 0);
+  if (events.length === 0) {
+    return null;
+  }
+
+  const handleGenerate = async (eventId: string, projectId: string) => {
+    const key = `${eventId}:${projectId}`;
+    setBusy((prev) => new Set(prev).add(key));
+    setError("");
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/regenerate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategyIds: [seasonalStrategyId(eventId)],
+          variantCount: SEASONAL_VARIANT_COUNT,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || "Failed to generate seasonal variants");
+      }
+
+      router.refresh();
+    } catch (generateError) {
+      console.error("Seasonal generation error:", generateError);
+      setError(generateError instanceof Error ? generateError.message : "Failed to generate seasonal variants");
+    } finally {
+      setBusy((prev) => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <section className="mb-6 bg-surface rounded border border-border p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-bold text-primary">Upcoming events</h2>
+        <Link href="/settings" className="text-xs font-medium text-accent hover:underline">
+          Edit calendar
+        </Link>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive mb-3">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {events.map(({ event, date, daysUntil, projects }) => (
+          <div key={event.id}>
+            <div className="flex items-baseline gap-2 mb-2">
+              <h3 className="text-sm font-semibold text-foreground">{event.name}</h3>
+              <span className="text-xs text-muted">
+                {formatEventDate(date)} · {daysUntil === 0 ? "today" : `in ${daysUntil} day${daysUntil !== 1 ? "s" : ""}`}
+              </span>
+              <span className="text-xs text-muted ml-auto">
+                {projects.length} project{projects.length !== 1 ? "s" : ""} without a {event.name} variant
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {projects.slice(0, MAX_VISIBLE_PROJECTS).map((project) => {
+                const isBusy = busy.has(`${event.id}:${project.id}`);
+                return (
+                  <div key={project.id} className="w-28 rounded border border-border bg-background overflow-hidden">
+                    <Link href={`/designs/${project.id}`} className="block aspect-square bg-secondary">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={project.original_image_url} alt={project.name} className="w-full h-full object-contain" />
+                    </Link>
+                    <div className="p-1.5">
+                      <p className="text-xs text-foreground truncate" title={project.name}>{project.name}</p>
+                      <button
+                        onClick={() => handleGenerate(event.id, project.id)}
+                        disabled={isBusy}
+                        className="mt-1 w-full px-2 py-1 text-xs font-semibold text-accent bg-accent/10 hover:bg-accent/20 rounded transition-colors disabled:opacity-50"
+                      >
+                        {isBusy ? "Generating..." : "Generate"}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {projects.length > MAX_VISIBLE_PROJECTS && (
+                <div className="w-28 flex items-center justify-center rounded border border-dashed border-border text-xs text-muted">
+                  +{projects.length - MAX_VISIBLE_PROJECTS} more
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
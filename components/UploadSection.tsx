@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, DragEvent, ChangeEvent } from "react";
+import Link from "next/link";
 
 interface UploadSectionProps {
   onImageSelect: (file: File, preview: string) => void;
@@ -11,6 +12,8 @@ interface UploadSectionProps {
   remainingGenerations?: number;
   isAtLimit?: boolean;
   onSignIn?: () => void;
+  // Link to the bulk queue (signed-in users only)
+  bulkHref?: string;
 }
 
 export default function UploadSection({ 
@@ -19,7 +22,8 @@ export default function UploadSection({
   onGenerate,
   remainingGenerations,
   isAtLimit,
-  onSignIn
+  onSignIn,
+  bulkHref
 }: UploadSectionProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
@@ -511,6 +515,14 @@ export default function UploadSection({
             )}
           </div>
         </div>
+
+        {bulkHref && (
+          <div className="px-5 pb-4 -mt-1 text-center">
+            <Link href={bulkHref} className="text-xs font-medium text-muted hover:text-accent transition-colors">
+              Have a whole catalog? Bulk remix many designs at once →
+            </Link>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatCost, type UsageBreakdownEntry, type UsageSummary } from "@/lib/usage-summary";
+
+type BreakdownView = "byModel" | "byOperation" | "byProject";
+
+const VIEWS: { id: BreakdownView; label: string }[] = [
+  { id: "byModel", label: "By model" },
+  { id: "byOperation", label: "By operation" },
+  { id: "byProject", label: "By project" },
+];
+
+const PERIODS = [7, 30, 90];
+
+function formatCount(value: number): string {
+  return value.toLocaleString();
+}
+
+function describeUsage(entry: UsageBreakdownEntry): string {
+  const parts = [`${formatCount(entry.calls)} call${entry.calls === 1 ? "" : "s"}`];
+  if (entry.inputTokens || entry.outputTokens) {
+    parts.push(`${formatCount(entry.inputTokens + entry.outputTokens)} tokens`);
+  }
+  if (entry.images) {
+    parts.push(`${formatCount(entry.images)} image${entry.images === 1 ? "" : "s"}`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Settings panel: estimated API costs of the user's generations, with breakdowns
+ */
+export default function UsageBreakdown() {
+  const [days, setDays] = useState(30);
+  const [view, setView] = useState<BreakdownView>("byModel");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+
+  useEffect(() => {
+    setLoading(true);
+    setLoadError("");
+
+    fetch(`/api/usage?days=${days}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.details || data.error || "Failed to load usage");
+        }
+        setSummary(data);
+      })
+      .catch((error) => {
+        console.error("Failed to load usage:", error);
+        setLoadError(error instanceof Error ? error.message : "Failed to load usage");
+      })
+      .finally(() => setLoading(false));
+  }, [days]);
+
+  const rows = summary ? summary[view] : [];
+  const maxCost = Math.max(0, ...rows.map((row) => row.costUsd));
+
+  return (
+    <div className="bg-surface rounded border border-border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <p className="text-xs text-muted">
+          Estimated from provider list prices - your actual bill may differ.
+        </p>
+        <div className="flex items-center gap-1">
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-2 py-1 text-xs font-medium rounded transition-colors ${
+                days === period ? "bg-accent/15 text-accent" : "text-muted hover:text-foreground"
+              }`}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse h-24 bg-secondary rounded" />
+      ) : loadError ? (
+        <p className="text-sm text-destructive">{loadError}</p>
+      ) : summary && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="px-3 py-2 rounded bg-secondary/50">
+              <p className="text-xs text-muted">Estimated cost</p>
+              <p className="text-lg font-bold text-primary">{formatCost(summary.totals.costUsd)}</p>
+            </div>
+            <div className="px-3 py-2 rounded bg-secondary/50">
+              <p className="text-xs text-muted">API calls</p>
+              <p className="text-lg font-bold text-foreground">{formatCount(summary.totals.calls)}</p>
+            </div>
+            <div className="px-3 py-2 rounded bg-secondary/50">
+              <p className="text-xs text-muted">Tokens (in / out)</p>
+              <p className="text-lg font-bold text-foreground">
+                {formatCount(summary.totals.inputTokens)}
+                <span className="text-muted text-sm font-normal"> / {formatCount(summary.totals.outputTokens)}</span>
+              </p>
+            </div>
+            <div className="px-3 py-2 rounded bg-secondary/50">
+              <p className="text-xs text-muted">Images</p>
+              <p className="text-lg font-bold text-foreground">{formatCount(summary.totals.images)}</p>
+            </div>
+          </div>
+
+          {/* Breakdown */}
+          <div className="flex items-center gap-1 mb-2">
+            {VIEWS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`px-2 py-1 text-xs font-medium rounded transition-colors ${
+                  view === id ? "bg-secondary text-foreground" : "text-muted hover:text-foreground"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted py-2">
+              {view === "byProject" ? "No usage linked to saved projects yet." : "No API usage in this period."}
+            </p>
+          ) : (
+            <div className="space-y-1.5">
+              {rows.map((row) => (
+                <div key={row.key} className="px-3 py-2 rounded border border-border">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{row.label}</p>
+                      <p className="text-xs text-muted">{describeUsage(row)}</p>
+                    </div>
+                    <span className="text-sm font-semibold text-foreground flex-shrink-0">{formatCost(row.costUsd)}</span>
+                  </div>
+                  <div className="w-full h-1 bg-secondary rounded-full overflow-hidden mt-1.5">
+                    <div
+                      className="h-full rounded-full bg-accent"
+                      style={{ width: `${maxCost > 0 ? (row.costUsd / maxCost) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import Image from "next/image";
+import type { VariantProvenance } from "@/lib/generation-events";
+import { isTooCloseToSource, type SourceSimilarity } from "@/lib/source-similarity";
+import TextFidelityBadge from "./TextFidelityBadge";
 
 // 4 distinct background colors - T-shirt simulation (POD product colors)
 const variantBackgrounds = {
@@ -27,6 +30,8 @@ interface VariantCardProps {
     image_url: string;
     thumbnail_url?: string | null;
     recommended_background: 'light' | 'dark';
+    provenance?: VariantProvenance | null;
+    similarity?: SourceSimilarity | null;
   };
   projectId: string;
   designName?: string;
@@ -37,6 +42,10 @@ interface VariantCardProps {
   onFavoriteToggle?: (variantId: string) => void;
   isPrintifyConnected?: boolean;
   onCreateProduct?: (variantId: string, imageUrl: string) => void;
+  onShowDetails?: (variantId: string) => void;
+  onEdit?: (variantId: string) => void;
+  onRecolor?: (variantId: string) => void;
+  onRemix?: (variantId: string) => void;
   productCount?: number;
 }
 
@@ -51,6 +60,10 @@ export default function VariantCard({
   onFavoriteToggle,
   isPrintifyConnected = false,
   onCreateProduct,
+  onShowDetails,
+  onEdit,
+  onRecolor,
+  onRemix,
   productCount,
 }: VariantCardProps) {
   // Each variant gets a unique shade based on its number (1-4)
@@ -58,6 +71,8 @@ export default function VariantCard({
   const bgIndex = (variant.variant_number - 1) % 4;
   const bgClass = variantBackgrounds[isDarkBg ? 'dark' : 'light'][bgIndex];
   
+  const tooClose = isTooCloseToSource(variant.similarity);
+
   // Dynamic star icon color based on background (no background, just icon)
   const starColor = isDarkBg ? 'text-white/80 hover:text-white' : 'text-gray-600 hover:text-gray-800';
 
@@ -94,6 +109,38 @@ export default function VariantCard({
     }
   };
 
+  const handleShowDetails = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onShowDetails) {
+      onShowDetails(variant.id);
+    }
+  };
+
+  const handleEdit = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onEdit) {
+      onEdit(variant.id);
+    }
+  };
+
+  const handleRecolor = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onRecolor) {
+      onRecolor(variant.id);
+    }
+  };
+
+  const handleRemix = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onRemix) {
+      onRemix(variant.id);
+    }
+  };
+
   return (
     <div
       onClick={handleCardClick}
@@ -143,6 +190,19 @@ export default function VariantCard({
           </button>
         )}
         
+        {/* Near-copy warning - Bottom Left */}
+        {tooClose && (
+          <span
+            className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded bg-orange text-white text-[11px] font-semibold shadow-sm flex items-center gap-1"
+            title={`${variant.similarity?.score}% similar to the source design - review before publishing`}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+            </svg>
+            Too close to source
+          </span>
+        )}
+        
         {/* Favorite Star - Top Right - No background, just icon */}
         {onFavoriteToggle && !isSelectionMode && (
           <button
@@ -173,7 +233,10 @@ export default function VariantCard({
       <div className="px-2.5 py-2 flex items-center justify-between bg-surface">
         {/* Strategy Name and Product Count */}
         <div className="min-w-0">
-          <h3 className="text-sm font-semibold text-primary truncate pr-2">{variant.strategy}</h3>
+          <div className="flex items-center gap-1.5 min-w-0">
+            <h3 className="text-sm font-semibold text-primary truncate">{variant.strategy}</h3>
+            <TextFidelityBadge fidelity={variant.provenance?.textFidelity} className="flex-shrink-0" />
+          </div>
           {productCount !== undefined && (
             <div className="flex items-center gap-1 text-[11px] text-muted mt-0.5">
               <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
@@ -187,7 +250,55 @@ export default function VariantCard({
         </div>
 
         {!isSelectionMode && (
-          <div className="flex items-center">
+          <div className="flex items-center gap-1">
+            {/* Start a new project with this variant as the reference */}
+            {onRemix && (
+              <button
+                onClick={handleRemix}
+                className="w-7 h-7 flex items-center justify-center text-muted hover:text-foreground rounded transition-colors"
+                title="Remix this"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+              </button>
+            )}
+            {/* Prompt-based edit, saved as a new variant */}
+            {onEdit && (
+              <button
+                onClick={handleEdit}
+                className="w-7 h-7 flex items-center justify-center text-muted hover:text-foreground rounded transition-colors"
+                title="Edit design"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+              </button>
+            )}
+            {/* Palette swap, saved as a new variant */}
+            {onRecolor && (
+              <button
+                onClick={handleRecolor}
+                className="w-7 h-7 flex items-center justify-center text-muted hover:text-foreground rounded transition-colors"
+                title="Swap palette"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                </svg>
+              </button>
+            )}
+            {/* Generation details (prompt, model, tiers) */}
+            {onShowDetails && (
+              <button
+                onClick={handleShowDetails}
+                className="w-7 h-7 flex items-center justify-center text-muted hover:text-foreground rounded transition-colors"
+                title="Generation details"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </button>
+            )}
             {/* Create Product Button - Primary CTA */}
             {onCreateProduct && (
               <button
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import type { VariantProvenance } from "@/lib/generation-events";
+import type { SourceSimilarity } from "@/lib/source-similarity";
+
+interface VariantDetailsDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  strategy: string;
+  batchNumber?: number;
+  provenance: VariantProvenance | null | undefined;
+  similarity?: SourceSimilarity | null;
+  // Traces the variant to SVG and downloads it (hidden when not provided)
+  onExportSvg?: (colors: number) => Promise<void>;
+}
+
+// Colour counts offered for SVG tracing (the export route accepts 2-16)
+const SVG_COLOR_OPTIONS = [2, 3, 4, 6, 8, 12, 16];
+const DEFAULT_SVG_COLORS = 6;
+
+const OUTCOME_STYLES: Record<VariantProvenance["attempts"][number]["outcome"], string> = {
+  accepted: "bg-green-500/10 text-green-600",
+  rejected: "bg-orange/10 text-orange",
+  error: "bg-destructive/10 text-destructive",
+};
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1.5 text-sm">
+      <dt className="text-muted flex-shrink-0">{label}</dt>
+      <dd className="text-foreground text-right break-words min-w-0">{value || "—"}</dd>
+    </div>
+  );
+}
+
+/**
+ * Slide-over showing how a variant was generated:
+ * analysis, prompt, model/tier, every tier attempt and the background-removal path
+ */
+export default function VariantDetailsDrawer({
+  isOpen,
+  onClose,
+  strategy,
+  batchNumber,
+  provenance,
+  similarity,
+  onExportSvg,
+}: VariantDetailsDrawerProps) {
+  const [svgColors, setSvgColors] = useState(DEFAULT_SVG_COLORS);
+  const [isExportingSvg, setIsExportingSvg] = useState(false);
+
+  if (!isOpen) return null;
+
+  const analysis = provenance?.analysis;
+
+  const handleExportSvg = async () => {
+    if (!onExportSvg || isExportingSvg) return;
+    setIsExportingSvg(true);
+    try {
+      await onExportSvg(svgColors);
+    } finally {
+      setIsExportingSvg(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-foreground/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Drawer */}
+      <aside className="relative h-full w-full max-w-md bg-surface border-l border-border shadow-card overflow-y-auto">
+        <div className="sticky top-0 bg-surface border-b border-border px-5 py-4 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-primary truncate">{strategy}</h2>
+            <p className="text-xs text-muted">
+              Generation details{batchNumber ? ` · Variant ${batchNumber}` : ""}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-muted hover:text-foreground rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {onExportSvg && (
+          <section className="px-5 pt-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-muted mb-2">Export</h3>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-muted" htmlFor="svg-colors">Colors</label>
+              <select
+                id="svg-colors"
+                value={svgColors}
+                onChange={(e) => setSvgColors(Number(e.target.value))}
+                disabled={isExportingSvg}
+                className="px-2 py-1.5 text-sm bg-background border border-border rounded text-foreground"
+              >
+                {SVG_COLOR_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleExportSvg}
+                disabled={isExportingSvg}
+                className="ml-auto px-3 py-1.5 text-sm font-medium bg-accent text-white rounded hover:bg-accent/90 disabled:opacity-50 transition-colors"
+              >
+                {isExportingSvg ? "Tracing..." : "Download SVG"}
+              </button>
+            </div>
+            <p className="text-xs text-muted mt-1.5">
+              {provenance?.vector
+                ? "Vector typography - exports the original lettering (colors don't apply)."
+                : "Traces the design into flat color shapes for cutters and vector print."}
+            </p>
+          </section>
+        )}
+
+        {!provenance ? (
+          <p className="px-5 py-6 text-sm text-muted">
+            No generation details were recorded for this design (it was created before details were tracked).
+          </p>
+        ) : (
+          <div className="px-5 py-4 space-y-6">
+            <section>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted mb-2">Generation</h3>
+              <dl className="divide-y divide-border">
+                <DetailRow label="Provider" value={provenance.provider} />
+                <DetailRow label="Model" value={provenance.model} />
+                <DetailRow label="Tier used" value={provenance.usedTier} />
+                <DetailRow
+                  label="Background removal"
+                  value={provenance.backgroundRemoval.skipped
+                    ? "Skipped (already clean)"
+                    : provenance.backgroundRemoval.provider}
+                />
+                {provenance.textFidelity && (
+                  <DetailRow
+                    label="Text check"
+                    value={`${provenance.textFidelity.score}% · read "${provenance.textFidelity.detected}"${
+                      provenance.textFidelity.retries > 0 ? ` · ${provenance.textFidelity.retries} retries` : ""
+                    }`}
+                  />
+                )}
+                {similarity && (
+                  <DetailRow
+                    label="Similarity to source"
+                    value={`${similarity.score}% (pHash ${similarity.phash}, SSIM ${similarity.ssim})${similarity.tooClose ? " · too close" : ""}`}
+                  />
+                )}
+                {provenance.vector && (
+                  <DetailRow
+                    label="Typography"
+                    value={`${provenance.vector.layout} · ${provenance.vector.font} (vector)`}
+                  />
+                )}
+                {provenance.edit && (
+                  <DetailRow
+                    label="Edit"
+                    value={`"${provenance.edit.instruction}"${provenance.edit.masked ? " (masked area)" : ""}`}
+                  />
+                )}
+                {provenance.recolor && (
+                  <DetailRow
+                    label="Palette swap"
+                    value={
+                      <span className="inline-flex flex-wrap justify-end items-center gap-1">
+                        {provenance.recolor.paletteName && <span className="mr-1">{provenance.recolor.paletteName}</span>}
+                        {provenance.recolor.mapping.map(({ from, to }) => (
+                          <span key={from} className="inline-flex items-center gap-0.5" title={`${from} → ${to}`}>
+                            <span className="w-3 h-3 rounded-sm border border-border" style={{ backgroundColor: from }} />
+                            <span className="text-muted text-[10px]">→</span>
+                            <span className="w-3 h-3 rounded-sm border border-border" style={{ backgroundColor: to }} />
+                          </span>
+                        ))}
+                      </span>
+                    }
+                  />
+                )}
+                <DetailRow label="Strategy template" value={provenance.strategyId} />
+                <DetailRow label="Generated" value={new Date(provenance.generatedAt).toLocaleString()} />
+              </dl>
+            </section>
+
+            <section>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted mb-2">Prompt</h3>
+              <p className="text-sm text-foreground bg-background border border-border rounded p-3 whitespace-pre-wrap">
+                {provenance.prompt}
+              </p>
+            </section>
+
+            <section>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted mb-2">Tier attempts</h3>
+              <ol className="space-y-2">
+                {provenance.attempts.map((attempt, index) => (
+                  <li key={index} className="border border-border rounded p-2.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-foreground truncate">{attempt.tier}</span>
+                      <span className={`px-1.5 py-0.5 rounded text-[11px] font-semibold ${OUTCOME_STYLES[attempt.outcome]}`}>
+                        {attempt.outcome}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted mt-1">{attempt.reason}</p>
+                  </li>
+                ))}
+              </ol>
+            </section>
+
+            {analysis && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-muted mb-2">Design analysis</h3>
+                <dl className="divide-y divide-border">
+                  <DetailRow label="Text" value={analysis.text} />
+                  <DetailRow label="Theme" value={analysis.theme} />
+                  <DetailRow label="Style" value={analysis.style} />
+                  <DetailRow label="Tone" value={analysis.tone} />
+                  <DetailRow label="Design type" value={analysis.design_type} />
+                  <DetailRow label="Typography" value={analysis.typography_style} />
+                  <DetailRow label="Text color" value={analysis.text_color} />
+                  <DetailRow label="Graphic colors" value={analysis.graphic_colors.join(", ")} />
+                </dl>
+              </section>
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
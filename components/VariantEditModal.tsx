@@ -0,0 +1,270 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+
+// Keep in sync with MAX_EDIT_INSTRUCTION_LENGTH in lib/variant-edit.ts (server-only)
+const MAX_INSTRUCTION_LENGTH = 500;
+
+// Mask canvas width - the server scales the mask to the variant's full size
+const MASK_WIDTH = 512;
+
+interface EditedVariant {
+  id: string;
+  variant_number: number;
+  batch_number?: number;
+  strategy: string;
+  image_url: string;
+  thumbnail_url?: string | null;
+  recommended_background: 'light' | 'dark';
+}
+
+interface VariantEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  variant: {
+    id: string;
+    strategy: string;
+    image_url: string;
+    recommended_background: 'light' | 'dark';
+  };
+  onSuccess: (variant: EditedVariant) => void;
+}
+
+/**
+ * Follow-up edit of one variant: a text instruction plus an optional
+ * painted mask limiting which area may change. Saves a new variant.
+ */
+export default function VariantEditModal({
+  isOpen,
+  onClose,
+  variant,
+  onSuccess,
+}: VariantEditModalProps) {
+  const [instruction, setInstruction] = useState("");
+  const [useMask, setUseMask] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [brushSize, setBrushSize] = useState(32);
+  const [canvasHeight, setCanvasHeight] = useState(MASK_WIDTH);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState("");
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+
+  // Reset when opened for a (new) variant
+  useEffect(() => {
+    if (isOpen) {
+      setInstruction("");
+      setUseMask(false);
+      setHasMask(false);
+      setError("");
+    }
+  }, [isOpen, variant.id]);
+
+  const clearMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  }, []);
+
+  // Painting coordinates are in canvas pixels, the canvas is scaled by CSS
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+    ctx.fillStyle = "#ff4040";
+    ctx.beginPath();
+    ctx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+    setHasMask(true);
+  };
+
+  /**
+   * Painted strokes → black/white PNG (white = area that may change)
+   */
+  const exportMask = (): string | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasMask) return null;
+
+    const strokes = document.createElement("canvas");
+    strokes.width = canvas.width;
+    strokes.height = canvas.height;
+    const strokesCtx = strokes.getContext("2d");
+    const mask = document.createElement("canvas");
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext("2d");
+    if (!strokesCtx || !maskCtx) return null;
+
+    strokesCtx.drawImage(canvas, 0, 0);
+    strokesCtx.globalCompositeOperation = "source-in";
+    strokesCtx.fillStyle = "#ffffff";
+    strokesCtx.fillRect(0, 0, strokes.width, strokes.height);
+
+    maskCtx.fillStyle = "#000000";
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(strokes, 0, 0);
+    return mask.toDataURL("image/png");
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = instruction.trim();
+    if (!trimmed) {
+      setError("Describe what to change.");
+      return;
+    }
+
+    setIsEditing(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/variants/${variant.id}/edit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ instruction: trimmed, mask: useMask ? exportMask() : null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || "Failed to edit variant");
+      }
+      onSuccess(data.variant);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to edit variant");
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isDarkBg = variant.recommended_background === "dark";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={isEditing ? undefined : onClose}
+      />
+
+      <div className="relative bg-white dark:bg-gray-900 rounded shadow-2xl w-full max-w-lg overflow-hidden animate-slideUp">
+        <div className="p-5 space-y-4">
+          <div>
+            <h2 className="text-lg font-bold text-foreground">Edit Design</h2>
+            <p className="text-sm text-muted">{variant.strategy} - the edit is saved as a new variant</p>
+          </div>
+
+          {/* Preview + optional mask painting */}
+          <div className={`relative rounded overflow-hidden border border-border ${isDarkBg ? "bg-gray-800" : "bg-gray-100"}`}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={variant.image_url}
+              alt={variant.strategy}
+              className="w-full h-auto block"
+              onLoad={(e) => {
+                const img = e.currentTarget;
+                setCanvasHeight(Math.round((img.naturalHeight / img.naturalWidth) * MASK_WIDTH));
+              }}
+            />
+            {useMask && (
+              <canvas
+                ref={canvasRef}
+                width={MASK_WIDTH}
+                height={canvasHeight}
+                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                onPointerDown={(e) => {
+                  isDrawingRef.current = true;
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  paint(e);
+                }}
+                onPointerMove={(e) => {
+                  if (isDrawingRef.current) paint(e);
+                }}
+                onPointerUp={() => {
+                  isDrawingRef.current = false;
+                }}
+              />
+            )}
+          </div>
+
+          {/* Mask controls */}
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <label className="flex items-center gap-2 text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useMask}
+                onChange={(e) => {
+                  setUseMask(e.target.checked);
+                  setHasMask(false);
+                }}
+                disabled={isEditing}
+              />
+              Only change a painted area
+            </label>
+            {useMask && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={8}
+                  max={96}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="w-20"
+                  title="Brush size"
+                />
+                <button
+                  onClick={clearMask}
+                  disabled={isEditing || !hasMask}
+                  className="px-2 py-1 rounded text-xs font-medium text-muted hover:text-foreground hover:bg-secondary/80 disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value.slice(0, MAX_INSTRUCTION_LENGTH))}
+              placeholder='e.g. "Change the word BEER to COFFEE" or "Make the bear hold a dumbbell"'
+              rows={3}
+              disabled={isEditing}
+              className="w-full px-3 py-2 rounded border border-border bg-surface text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-accent/40"
+            />
+            <p className="text-[11px] text-muted text-right">{instruction.length}/{MAX_INSTRUCTION_LENGTH}</p>
+          </div>
+
+          {error && (
+            <div className="p-2 bg-destructive/10 border border-destructive/30 rounded text-destructive text-xs">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isEditing}
+              className="flex-1 px-4 py-2.5 bg-secondary hover:bg-secondary/80 rounded font-medium transition-all duration-200 disabled:opacity-50 border border-border"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isEditing || !instruction.trim() || (useMask && !hasMask)}
+              className="flex-1 px-4 py-2.5 text-white rounded font-semibold shadow-sm transition-all duration-200 disabled:opacity-50 flex items-center justify-center gap-2 bg-accent hover:bg-accent/90 active:scale-[0.98]"
+            >
+              {isEditing ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/30 border-t-white" />
+                  Editing...
+                </>
+              ) : (
+                "Apply Edit"
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
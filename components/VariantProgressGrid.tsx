@@ -0,0 +1,69 @@
+"use client";
+
+export interface VariantProgress {
+  id: number;
+  strategy: string;
+  status: "queued" | "generating" | "retrying" | "processing" | "ready" | "failed";
+  detail: string;
+  thumbnailUrl?: string;
+}
+
+interface VariantProgressGridProps {
+  items: VariantProgress[];
+}
+
+const statusStyles: Record<VariantProgress["status"], string> = {
+  queued: "bg-muted/10 text-muted",
+  generating: "bg-accent/10 text-accent",
+  retrying: "bg-orange/10 text-orange",
+  processing: "bg-accent/10 text-accent",
+  ready: "bg-[#29b474]/10 text-[#29b474]",
+  failed: "bg-destructive/10 text-destructive",
+};
+
+/**
+ * Live per-variant status while generation streams in.
+ * Finished variants show their thumbnail right away.
+ */
+export default function VariantProgressGrid({ items }: VariantProgressGridProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 max-w-3xl mx-auto mt-6">
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className="bg-surface rounded-sm overflow-hidden shadow-sm border border-border"
+        >
+          <div className="aspect-square bg-background relative flex items-center justify-center">
+            {item.thumbnailUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={item.thumbnailUrl}
+                alt={item.strategy}
+                className="w-full h-full object-contain p-3 animate-fade-in"
+              />
+            ) : item.status === "failed" ? (
+              <svg className="w-8 h-8 text-destructive/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            ) : (
+              <div className="w-8 h-8 rounded-full border-2 border-accent/30 border-t-accent animate-spin" />
+            )}
+          </div>
+          <div className="px-2.5 py-2">
+            <h3 className="text-xs font-semibold text-primary truncate">{item.strategy}</h3>
+            <span
+              className={`inline-block mt-1 px-1.5 py-0.5 rounded-sm text-[10px] font-medium truncate max-w-full ${statusStyles[item.status]}`}
+              title={item.detail}
+            >
+              {item.detail}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
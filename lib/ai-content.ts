@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { recordGeminiUsage } from "./cost-ledger";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
@@ -39,6 +40,7 @@ Return ONLY the title, nothing else.`;
 
     const result = await model.generateContent(prompt);
     const response = await result.response;
+    recordGeminiUsage(model, 'product title', response);
     return response.text().trim().replace(/^["']|["']$/g, '').slice(0, 100);
   } catch (error) {
     console.error("Error generating title:", error);
@@ -79,6 +81,7 @@ Return ONLY the description, no additional commentary.`;
 
     const result = await model.generateContent(prompt);
     const response = await result.response;
+    recordGeminiUsage(model, 'product description', response);
     return response.text().trim();
   } catch (error) {
     console.error("Error generating description:", error);
@@ -123,6 +126,7 @@ Return ONLY a JSON array of strings, like: ["tag1", "tag2", "tag3"]`;
 
     const result = await model.generateContent(prompt);
     const response = await result.response;
+    recordGeminiUsage(model, 'product tags', response);
     const text = response.text().trim();
     
     // Parse JSON array
@@ -187,6 +191,7 @@ Return ONLY valid JSON:
 
     const result = await model.generateContent(prompt);
     const response = await result.response;
+    recordGeminiUsage(model, 'product content', response);
     const text = response.text().trim();
     
     // Parse JSON
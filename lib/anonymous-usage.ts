@@ -0,0 +1,99 @@
+/**
+ * Server-side usage tracking for free tier rate limiting
+ * Counts daily generations per hashed IP in the anonymous_usage table
+ */
+
+import crypto from "crypto";
+import { serviceClient as supabase } from "./storage.server";
+
+// Rate limiting constants
+export const DAILY_LIMIT = 2;
+const RATE_LIMIT_SALT = process.env.RATE_LIMIT_SALT || 'podremix-salt-2024';
+
+/**
+ * Hash IP address for privacy-preserving rate limiting
+ */
+export function hashIP(ip: string): string {
+  return crypto.createHash('sha256').update(ip + RATE_LIMIT_SALT).digest('hex');
+}
+
+/**
+ * Check rate limit for anonymous users
+ * Returns: { allowed: boolean, remaining: number, count: number }
+ */
+export async function checkRateLimit(ipHash: string): Promise<{ allowed: boolean; remaining: number; count: number }> {
+  const today = new Date().toISOString().split('T')[0];
+
+  // Check current usage
+  const { data: usage } = await supabase
+    .from('anonymous_usage')
+    .select('count')
+    .eq('ip_hash', ipHash)
+    .eq('date', today)
+    .single();
+
+  const currentCount = usage?.count || 0;
+
+  if (currentCount >= DAILY_LIMIT) {
+    return { allowed: false, remaining: 0, count: currentCount };
+  }
+
+  return {
+    allowed: true,
+    remaining: DAILY_LIMIT - currentCount,
+    count: currentCount
+  };
+}
+
+/**
+ * Increment usage count for an IP hash
+ */
+export async function incrementUsage(ipHash: string): Promise<number> {
+  const today = new Date().toISOString().split('T')[0];
+
+  // First, try to get existing record
+  const { data: existing } = await supabase
+    .from('anonymous_usage')
+    .select('count')
+    .eq('ip_hash', ipHash)
+    .eq('date', today)
+    .single();
+
+  if (existing) {
+    // Update existing record
+    const newCount = existing.count + 1;
+    await supabase
+      .from('anonymous_usage')
+      .update({ count: newCount })
+      .eq('ip_hash', ipHash)
+      .eq('date', today);
+    return newCount;
+  } else {
+    // Insert new record
+    const { error } = await supabase
+      .from('anonymous_usage')
+      .insert({ ip_hash: ipHash, date: today, count: 1 });
+
+    if (error) {
+      // Race condition: another request created the record
+      // Try to update instead
+      const { data: current } = await supabase
+        .from('anonymous_usage')
+        .select('count')
+        .eq('ip_hash', ipHash)
+        .eq('date', today)
+        .single();
+
+      if (current) {
+        const newCount = current.count + 1;
+        await supabase
+          .from('anonymous_usage')
+          .update({ count: newCount })
+          .eq('ip_hash', ipHash)
+          .eq('date', today);
+        return newCount;
+      }
+    }
+    return 1;
+  }
+}
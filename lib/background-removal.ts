@@ -0,0 +1,338 @@
+/**
+ * Local background removal - Server-only
+ * A sharp-based remover for the easy cases, so they don't need a paid Recraft call:
+ * - chroma key: generations on the solid #00AA00 canvas (see generateWithGeminiTiered)
+ * - flood fill: any other near-uniform background, filled in from the borders
+ * Both finish with edge-aware alpha feathering so edges don't keep a halo.
+ *
+ * It is tried first (cheap) and used again as an offline fallback when the
+ * configured background provider fails. LOCAL_BACKGROUND_REMOVAL controls this:
+ * "first" (default), "fallback" (only when the provider fails) or "off".
+ */
+
+import sharp from 'sharp';
+import type { ImageGenerationProvider } from './image-providers/types';
+
+export type LocalRemovalMethod = 'chroma-key' | 'flood-fill' | 'already-transparent';
+
+export interface LocalRemovalResult {
+  imageData: string;
+  method: LocalRemovalMethod;
+  borderUniformity: number;  // Share of border pixels matching the background colour (0-1)
+  removedRatio: number;      // Share of the canvas made transparent (0-1)
+}
+
+export interface BackgroundRemovalResult {
+  imageData: string;
+  method: string;            // "local:chroma-key", "local:flood-fill", or the provider name
+  usedFallback: boolean;     // Provider failed and the local remover stood in
+}
+
+interface RgbaImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const GREEN_SCREEN: Rgb = { r: 0x00, g: 0xaa, b: 0x00 };
+
+// Colour distances are Euclidean in RGB (0 - 441)
+const BORDER_TOLERANCE = 40;      // Border pixel counts as "background colour"
+const GREEN_SCREEN_DISTANCE = 90; // Measured background this close to #00AA00 → chroma key
+const KEY_INNER = 48;             // Chroma key: fully transparent below this distance
+const KEY_OUTER = 110;            // Chroma key: fully opaque above this distance
+const FILL_TOLERANCE = 36;        // Flood fill: neighbours this close to the background are filled
+const FEATHER_OUTER = 120;        // Flood fill: edge pixels reach full opacity at this distance
+const EDGE_GRADIENT = 160;        // Colour step that marks a hard edge (not smoothed)
+
+// Confidence needed before skipping the provider, vs. when standing in for a failed one
+const FIRST_ATTEMPT_UNIFORMITY = 0.9;
+const FALLBACK_UNIFORMITY = 0.6;
+const MIN_REMOVED_RATIO = 0.05;
+const MAX_REMOVED_RATIO = 0.97;
+
+type LocalRemovalMode = 'first' | 'fallback' | 'off';
+
+function localRemovalMode(): LocalRemovalMode {
+  const mode = (process.env.LOCAL_BACKGROUND_REMOVAL || 'first').trim().toLowerCase();
+  return mode === 'fallback' || mode === 'off' ? mode : 'first';
+}
+
+async function decodeRgba(imageData: string): Promise<RgbaImage> {
+  const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+  const { data, info } = await sharp(Buffer.from(base64Data, 'base64'))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+async function encodePng({ data, width, height }: RgbaImage): Promise<string> {
+  const buffer = await sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return `data:image/png;base64,${buffer.toString('base64')}`;
+}
+
+function colorDistance(data: Buffer, offset: number, color: Rgb): number {
+  const dr = data[offset] - color.r;
+  const dg = data[offset + 1] - color.g;
+  const db = data[offset + 2] - color.b;
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Indices of every pixel on the outer edge of the canvas
+ */
+function borderPixels(width: number, height: number): number[] {
+  const pixels: number[] = [];
+  for (let x = 0; x < width; x++) {
+    pixels.push(x, (height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    pixels.push(y * width, y * width + width - 1);
+  }
+  return pixels;
+}
+
+/**
+ * Estimate the background colour from the border and how uniform the border is
+ */
+function analyzeBorder(image: RgbaImage): { background: Rgb | null; uniformity: number; transparentRatio: number } {
+  const border = borderPixels(image.width, image.height);
+  const opaque = border.filter((i) => image.data[i * 4 + 3] >= 128);
+  const transparentRatio = 1 - opaque.length / border.length;
+
+  if (opaque.length === 0) {
+    return { background: null, uniformity: 0, transparentRatio };
+  }
+
+  const background: Rgb = {
+    r: median(opaque.map((i) => image.data[i * 4])),
+    g: median(opaque.map((i) => image.data[i * 4 + 1])),
+    b: median(opaque.map((i) => image.data[i * 4 + 2])),
+  };
+  const matching = opaque.filter((i) => colorDistance(image.data, i * 4, background) <= BORDER_TOLERANCE).length;
+
+  return { background, uniformity: matching / opaque.length, transparentRatio };
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Green screen: key every pixel by its distance to the measured canvas colour
+ * (not just the connected region - the green shows through gaps in letters too)
+ */
+function chromaKey(image: RgbaImage, background: Rgb): Uint8Array {
+  const pixelCount = image.width * image.height;
+  const alpha = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const keyed = smoothstep(KEY_INNER, KEY_OUTER, colorDistance(image.data, i * 4, background));
+    alpha[i] = Math.round(keyed * image.data[i * 4 + 3]);
+  }
+  return alpha;
+}
+
+/**
+ * Near-uniform background: fill from the border through every connected pixel
+ * close to the background colour. Enclosed areas (inside letters) are kept.
+ */
+function floodFill(image: RgbaImage, background: Rgb): Uint8Array {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+  const alpha = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    alpha[i] = data[i * 4 + 3];
+  }
+
+  const isBackground = (i: number) =>
+    alpha[i] !== 0 && colorDistance(data, i * 4, background) <= FILL_TOLERANCE;
+
+  const queue = new Int32Array(pixelCount);
+  let head = 0;
+  let tail = 0;
+  for (const i of borderPixels(width, height)) {
+    if (isBackground(i)) {
+      alpha[i] = 0;
+      queue[tail++] = i;
+    }
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      i >= width ? i - width : -1,
+      i < pixelCount - width ? i + width : -1,
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && isBackground(n)) {
+        alpha[n] = 0;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  // Foreground pixels touching the fill get alpha from how far they are from the
+  // background colour, so anti-aliased edges blend instead of keeping a fringe
+  for (let i = 0; i < pixelCount; i++) {
+    if (alpha[i] === 0) continue;
+    const x = i % width;
+    const touchesFill =
+      (x > 0 && alpha[i - 1] === 0) ||
+      (x < width - 1 && alpha[i + 1] === 0) ||
+      (i >= width && alpha[i - width] === 0) ||
+      (i < pixelCount - width && alpha[i + width] === 0);
+    if (touchesFill) {
+      const distance = colorDistance(data, i * 4, background);
+      alpha[i] = Math.round(Math.min(alpha[i], smoothstep(FILL_TOLERANCE, FEATHER_OUTER, distance) * 255));
+    }
+  }
+  return alpha;
+}
+
+/**
+ * Edge-aware feathering: soften the alpha along the cut-out, except across hard
+ * colour edges (crisp lettering stays crisp). Partially transparent pixels are
+ * un-mixed from the background colour to remove the halo / green spill.
+ */
+function featherAlpha(image: RgbaImage, alpha: Uint8Array, background: Rgb): void {
+  const { data, width, height } = image;
+  const source = Uint8Array.from(alpha);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      let maxStep = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const n = i + dy * width + dx;
+          sum += source[n];
+          min = Math.min(min, source[n]);
+          max = Math.max(max, source[n]);
+          if (source[n] > 0 && n !== i) {
+            const dr = data[n * 4] - data[i * 4];
+            const dg = data[n * 4 + 1] - data[i * 4 + 1];
+            const db = data[n * 4 + 2] - data[i * 4 + 2];
+            maxStep = Math.max(maxStep, Math.sqrt(dr * dr + dg * dg + db * db));
+          }
+        }
+      }
+      // Only the boundary band, and only where the picture itself has no hard edge
+      if (min !== max && maxStep < EDGE_GRADIENT) {
+        alpha[i] = Math.round((source[i] + sum / 9) / 2);
+      }
+    }
+  }
+
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    const o = i * 4;
+    if (a > 0 && a < 255) {
+      const f = a / 255;
+      data[o] = Math.max(0, Math.min(255, Math.round((data[o] - (1 - f) * background.r) / f)));
+      data[o + 1] = Math.max(0, Math.min(255, Math.round((data[o + 1] - (1 - f) * background.g) / f)));
+      data[o + 2] = Math.max(0, Math.min(255, Math.round((data[o + 2] - (1 - f) * background.b) / f)));
+    }
+    data[o + 3] = a;
+  }
+}
+
+/**
+ * Remove a green-screen or near-uniform background with sharp only.
+ * Returns null when the image doesn't look safe to key locally (busy or
+ * non-uniform background, or nearly everything / nothing would be removed).
+ * `bestEffort` lowers the bar - used when no provider is available.
+ */
+export async function removeBackgroundLocally(
+  imageData: string,
+  { bestEffort = false }: { bestEffort?: boolean } = {}
+): Promise<LocalRemovalResult | null> {
+  const image = await decodeRgba(imageData);
+  const { background, uniformity, transparentRatio } = analyzeBorder(image);
+
+  if (transparentRatio >= 0.9) {
+    // Already cut out - nothing to remove
+    return { imageData: await encodePng(image), method: 'already-transparent', borderUniformity: 1, removedRatio: 0 };
+  }
+  if (!background || uniformity < (bestEffort ? FALLBACK_UNIFORMITY : FIRST_ATTEMPT_UNIFORMITY)) {
+    return null;
+  }
+
+  const isGreenScreen = Math.sqrt(
+    (background.r - GREEN_SCREEN.r) ** 2 +
+    (background.g - GREEN_SCREEN.g) ** 2 +
+    (background.b - GREEN_SCREEN.b) ** 2
+  ) <= GREEN_SCREEN_DISTANCE;
+  const method: LocalRemovalMethod = isGreenScreen ? 'chroma-key' : 'flood-fill';
+  const alpha = isGreenScreen ? chromaKey(image, background) : floodFill(image, background);
+
+  let removed = 0;
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] < 128 && image.data[i * 4 + 3] >= 128) removed++;
+  }
+  const removedRatio = removed / alpha.length;
+  if (removedRatio < MIN_REMOVED_RATIO || removedRatio > MAX_REMOVED_RATIO) {
+    return null;
+  }
+
+  featherAlpha(image, alpha, background);
+
+  return { imageData: await encodePng(image), method, borderUniformity: uniformity, removedRatio };
+}
+
+/**
+ * Background removal with the local remover in front of (and behind) the provider:
+ * 1. local keying, if it is confident (skips the paid call)
+ * 2. the configured provider
+ * 3. local keying in best-effort mode, if the provider failed (offline fallback)
+ */
+export async function removeBackgroundWithFallback(
+  imageData: string,
+  provider: ImageGenerationProvider
+): Promise<BackgroundRemovalResult> {
+  const mode = provider.name === 'local' ? 'off' : localRemovalMode();
+
+  if (mode === 'first') {
+    try {
+      const local = await removeBackgroundLocally(imageData);
+      if (local) {
+        console.log(`🟩 Local background removal (${local.method}, ${Math.round(local.removedRatio * 100)}% removed) - skipping ${provider.name}`);
+        return { imageData: local.imageData, method: `local:${local.method}`, usedFallback: false };
+      }
+    } catch (error) {
+      console.warn('⚠️ Local background removal failed, using provider:', error);
+    }
+  }
+
+  try {
+    return { imageData: await provider.removeBackground(imageData), method: provider.name, usedFallback: false };
+  } catch (error) {
+    if (mode === 'off') {
+      throw error;
+    }
+    const local = await removeBackgroundLocally(imageData, { bestEffort: true });
+    if (!local) {
+      throw error;
+    }
+    console.warn(`⚠️ ${provider.name} background removal failed (${error instanceof Error ? error.message : error}) - using local ${local.method}`);
+    return { imageData: local.imageData, method: `local:${local.method}`, usedFallback: true };
+  }
+}
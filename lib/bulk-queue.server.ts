@@ -0,0 +1,563 @@
+/**
+ * Bulk remix queue - Server-only
+ *
+ * Each bulk item goes pending → running (remix job) → saving → completed.
+ * There is no long-lived worker: advanceBulkQueue() does one pass over a
+ * user's queue - saves projects for finished jobs, starts pending items up to
+ * the concurrency limit - and returns the jobs that need a worker. It runs
+ * whenever the dashboard polls or an item is added, and again each time one
+ * of the user's jobs finishes (runBulkJobs), so the queue keeps moving while
+ * anyone is watching and picks up where it left off otherwise.
+ */
+
+import crypto from "crypto";
+import { generateProjectName } from "./gemini";
+import { withUsageContext } from "./cost-ledger";
+import {
+  createRemixJob,
+  getRemixJob,
+  isJobRunnable,
+  JOB_DEADLINE_MS,
+  runRemixJob,
+  STALE_JOB_MS,
+  toRemixJobView,
+} from "./remix-jobs";
+import {
+  serviceClient as supabase,
+  copyInStorage,
+  fetchImageAsDataUrl,
+  uploadToStorage,
+} from "./storage.server";
+import { DEFAULT_STRATEGY_IDS, type StrategySelection } from "./strategy-templates";
+import { strategyLanguage } from "./localization";
+import type { BulkBatchRow, BulkItemRow, RemixJobRow } from "./supabase/types";
+import {
+  countBulkItems,
+  MAX_BULK_ITEMS,
+  type BulkBatchAction,
+  type BulkBatchView,
+  type BulkItemView,
+} from "./bulk-queue";
+
+// Remix jobs a user can have generating at once (override with BULK_MAX_CONCURRENT_JOBS)
+export const BULK_MAX_CONCURRENT_JOBS = Number(process.env.BULK_MAX_CONCURRENT_JOBS) || 2;
+
+// Batches shown on the dashboard
+const DASHBOARD_BATCHES = 10;
+
+function migrationHint(message: string): string {
+  return message.includes('bulk_')
+    ? `Database migration required. Please run supabase-bulk-queue.sql. (${message})`
+    : message;
+}
+
+async function updateBulkItem(itemId: string, fields: Partial<BulkItemRow>): Promise<void> {
+  const { error } = await supabase
+    .from('bulk_items')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', itemId);
+
+  if (error) {
+    throw new Error(`Failed to update bulk item: ${error.message}`);
+  }
+}
+
+/**
+ * Move an item from one status to another, unless another request got there first
+ * (optimistic lock on status + updated_at, like claimRemixJob)
+ */
+async function claimBulkItem(item: BulkItemRow, status: BulkItemRow['status']): Promise<BulkItemRow | null> {
+  const { data } = await supabase
+    .from('bulk_items')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', item.id)
+    .eq('status', item.status)
+    .eq('updated_at', item.updated_at)
+    .select()
+    .maybeSingle();
+
+  return (data as BulkItemRow | null) ?? null;
+}
+
+/**
+ * Claim the user's next pending item if they are under BULK_MAX_CONCURRENT_JOBS
+ * Returns null when the queue is empty or every slot is taken.
+ */
+async function claimNextBulkItem(userId: string): Promise<BulkItemRow | null> {
+  const { data, error } = await supabase.rpc('claim_bulk_item', {
+    p_user_id: userId,
+    p_max_running: BULK_MAX_CONCURRENT_JOBS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim bulk item: ${migrationHint(error.message)}`);
+  }
+  return ((data ?? []) as BulkItemRow[])[0] ?? null;
+}
+
+/**
+ * Create an empty batch; images are added one request at a time (addBulkItem)
+ */
+export async function createBulkBatch(
+  userId: string,
+  name: string,
+  selection: StrategySelection
+): Promise<BulkBatchRow> {
+  const { data, error } = await supabase
+    .from('bulk_batches')
+    .insert({
+      user_id: userId,
+      name: name.trim().slice(0, 80),
+      strategy_ids: selection.strategyIds,
+      variant_count: selection.variantCount,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create bulk batch: ${migrationHint(error?.message || 'no row returned')}`);
+  }
+
+  return data as BulkBatchRow;
+}
+
+/**
+ * Load one of the user's batches (null if missing or someone else's)
+ */
+export async function getBulkBatch(userId: string, batchId: string): Promise<BulkBatchRow | null> {
+  const { data, error } = await supabase
+    .from('bulk_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load bulk batch: ${migrationHint(error.message)}`);
+  }
+
+  return (data as BulkBatchRow | null) ?? null;
+}
+
+/**
+ * Store an image and queue it as the batch's next item
+ */
+export async function addBulkItem(
+  batch: BulkBatchRow,
+  fileName: string,
+  imageDataUrl: string
+): Promise<BulkItemRow> {
+  const { count } = await supabase
+    .from('bulk_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_id', batch.id);
+
+  const position = count ?? 0;
+  if (position >= MAX_BULK_ITEMS) {
+    throw new Error(`A batch can hold at most ${MAX_BULK_ITEMS} images`);
+  }
+
+  const itemId = crypto.randomUUID();
+  const originalImageUrl = await uploadToStorage(imageDataUrl, `bulk/${batch.user_id}/${batch.id}/${itemId}.png`);
+
+  const { data, error } = await supabase
+    .from('bulk_items')
+    .insert({
+      id: itemId,
+      batch_id: batch.id,
+      user_id: batch.user_id,
+      position,
+      file_name: fileName.slice(0, 200),
+      original_image_url: originalImageUrl,
+      // Images added to a cancelled batch never start
+      status: batch.status === 'cancelled' ? 'cancelled' : 'pending',
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to queue bulk item: ${migrationHint(error?.message || 'no row returned')}`);
+  }
+
+  // A completed batch that gets more images is back in the queue
+  if (batch.status === 'completed') {
+    await supabase
+      .from('bulk_batches')
+      .update({ status: 'active', updated_at: new Date().toISOString() })
+      .eq('id', batch.id);
+  }
+
+  return data as BulkItemRow;
+}
+
+/**
+ * Pause, resume or cancel a batch - or cancel one of its items
+ * Items that are already generating always finish (and are saved).
+ */
+export async function updateBulkBatch(
+  batch: BulkBatchRow,
+  action: BulkBatchAction,
+  itemId?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  if (itemId) {
+    if (action !== 'cancel') {
+      throw new Error('Only cancel applies to a single item');
+    }
+    const { data, error } = await supabase
+      .from('bulk_items')
+      .update({ status: 'cancelled', updated_at: now })
+      .eq('id', itemId)
+      .eq('batch_id', batch.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel bulk item: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new Error('Only items that have not started can be cancelled');
+    }
+    return;
+  }
+
+  if (batch.status === 'cancelled' || batch.status === 'completed') {
+    throw new Error(`Batch is already ${batch.status}`);
+  }
+
+  const status: BulkBatchRow['status'] = action === 'pause' ? 'paused' : action === 'resume' ? 'active' : 'cancelled';
+  const { error } = await supabase
+    .from('bulk_batches')
+    .update({ status, updated_at: now })
+    .eq('id', batch.id);
+
+  if (error) {
+    throw new Error(`Failed to ${action} bulk batch: ${error.message}`);
+  }
+
+  if (action === 'cancel') {
+    await supabase
+      .from('bulk_items')
+      .update({ status: 'cancelled', updated_at: now })
+      .eq('batch_id', batch.id)
+      .eq('status', 'pending');
+  }
+
+  console.log(`📦 Bulk batch ${batch.id}: ${action}`);
+}
+
+/**
+ * Copy a finished job out of temp storage into a named project
+ * Same storage layout as saveProject, so project deletion cleans it up.
+ */
+async function saveBulkProject(item: BulkItemRow, job: RemixJobRow): Promise<{ projectId: string; name: string }> {
+  const userId = item.user_id;
+  const variants = toRemixJobView(job).variants ?? [];
+  if (variants.length === 0) {
+    throw new Error('Remix finished without any variants');
+  }
+
+  const projectId = crypto.randomUUID();
+  const name = await withUsageContext({ userId, projectId, jobId: job.id }, async () =>
+    generateProjectName(await fetchImageAsDataUrl(item.original_image_url))
+  );
+
+  const originalUrl = await copyInStorage(item.original_image_url, `originals/${userId}/${projectId}.png`);
+  const copied = await Promise.all(variants.map(async (variant) => {
+    const basePath = `variants/${userId}/${projectId}_v${variant.id}`;
+    const imageUrl = await copyInStorage(variant.design.imageUrl || variant.design.imageData, `${basePath}.png`);
+    let thumbnailUrl = imageUrl;
+    if (variant.design.thumbnailUrl && variant.design.thumbnailUrl !== variant.design.imageUrl) {
+      try {
+        thumbnailUrl = await copyInStorage(variant.design.thumbnailUrl, `${basePath}_thumb.webp`);
+      } catch (error) {
+        console.warn(`⚠️ Failed to copy thumbnail of variant ${variant.id}, using full image:`, error);
+      }
+    }
+    return { variant, imageUrl, thumbnailUrl };
+  }));
+
+  const { error: projectError } = await supabase
+    .from('projects')
+    .insert({
+      id: projectId,
+      user_id: userId,
+      name,
+      original_image_url: originalUrl,
+      remix_job_id: job.id,
+    });
+
+  if (projectError) {
+    throw new Error(`Failed to save project: ${projectError.message}`);
+  }
+
+  const { error: variantsError } = await supabase
+    .from('variants')
+    .insert(copied.map(({ variant, imageUrl, thumbnailUrl }) => ({
+      project_id: projectId,
+      user_id: userId,
+      variant_number: variant.id,
+      batch_number: 1,
+      strategy: variant.strategy,
+      strategy_id: variant.strategyId || null,
+      language: strategyLanguage(variant.strategyId),
+      image_url: imageUrl,
+      thumbnail_url: thumbnailUrl,
+      recommended_background: variant.colorClassification?.recommendedBackground || 'light',
+      provenance: variant.provenance || null,
+      similarity: variant.similarity || null,
+    })));
+
+  if (variantsError) {
+    await supabase.from('projects').delete().eq('id', projectId);
+    throw new Error(`Failed to save variants: ${variantsError.message}`);
+  }
+
+  return { projectId, name };
+}
+
+/**
+ * Check on one started item: save its project when the job is done
+ * Returns the job ID if the job needs a worker (queued, or stalled mid-stage).
+ */
+async function settleRunningItem(item: BulkItemRow, jobs: Map<string, RemixJobRow>): Promise<string | null> {
+  // Just claimed by another request, which is still creating its job -
+  // only a claim that never got one (the request died) is given up on
+  if (!item.job_id && item.status === 'running'
+    && Date.now() - new Date(item.updated_at).getTime() < STALE_JOB_MS) {
+    return null;
+  }
+
+  const job = item.job_id ? jobs.get(item.job_id) : undefined;
+
+  if (!job) {
+    await updateBulkItem(item.id, { status: 'failed', error: 'Remix job not found' });
+    return null;
+  }
+
+  if (job.status === 'failed') {
+    await updateBulkItem(item.id, { status: 'failed', error: job.error || 'Remix failed' });
+    return null;
+  }
+
+  if (job.status !== 'completed') {
+    return isJobRunnable(job) ? job.id : null;
+  }
+
+  // Only one request saves the project; a save that died mid-way is retried once stale
+  if (item.status === 'saving' && Date.now() - new Date(item.updated_at).getTime() < STALE_JOB_MS) {
+    return null;
+  }
+  const claimed = await claimBulkItem(item, 'saving');
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    const { projectId, name } = await saveBulkProject(claimed, job);
+    await updateBulkItem(item.id, { status: 'completed', project_id: projectId, project_name: name, error: null });
+    console.log(`✅ Bulk item ${item.id} saved as project "${name}"`);
+  } catch (error) {
+    console.error(`❌ Bulk item ${item.id} could not be saved:`, error);
+    await updateBulkItem(item.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to save project',
+    });
+  }
+  return null;
+}
+
+/**
+ * One pass over the user's queue (see the file comment)
+ * @returns IDs of remix jobs that need a worker - hand them to runBulkJobs
+ */
+export async function advanceBulkQueue(userId: string): Promise<string[]> {
+  const { data: activeData, error } = await supabase
+    .from('bulk_items')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['running', 'saving']);
+
+  if (error) {
+    throw new Error(`Failed to load bulk queue: ${migrationHint(error.message)}`);
+  }
+
+  const started = (activeData || []) as BulkItemRow[];
+  const jobs = new Map<string, RemixJobRow>();
+  for (const item of started) {
+    const job = item.job_id ? await getRemixJob(item.job_id) : null;
+    if (job) jobs.set(job.id, job);
+  }
+
+  const toRun: string[] = [];
+  for (const item of started) {
+    const jobId = await settleRunningItem(item, jobs);
+    if (jobId) toRun.push(jobId);
+  }
+
+  // Start pending items (oldest active batch first) while there's capacity -
+  // each claim checks the running count atomically (claim_bulk_item)
+  const batches = new Map<string, BulkBatchRow>();
+  for (let item = await claimNextBulkItem(userId); item; item = await claimNextBulkItem(userId)) {
+    try {
+      let batch = batches.get(item.batch_id);
+      if (!batch) {
+        const { data: batchData, error: batchError } = await supabase
+          .from('bulk_batches')
+          .select('*')
+          .eq('id', item.batch_id)
+          .single();
+        if (batchError || !batchData) {
+          throw new Error(`Failed to load bulk batch: ${batchError?.message || 'not found'}`);
+        }
+        batch = batchData as BulkBatchRow;
+        batches.set(batch.id, batch);
+      }
+
+      const job = await createRemixJob({
+        originalImageUrl: item.original_image_url,
+        userId,
+        ipHash: null,
+        selection: {
+          strategyIds: (batch.strategy_ids as string[] | null) ?? DEFAULT_STRATEGY_IDS,
+          variantCount: batch.variant_count,
+        },
+      });
+      await updateBulkItem(item.id, { job_id: job.id });
+      toRun.push(job.id);
+      console.log(`📦 Bulk item ${item.id} (${item.file_name}) started as remix job ${job.id}`);
+    } catch (startError) {
+      console.error(`❌ Bulk item ${item.id} could not start:`, startError);
+      await updateBulkItem(item.id, {
+        status: 'failed',
+        error: startError instanceof Error ? startError.message : 'Failed to start remix',
+      });
+    }
+  }
+
+  await completeFinishedBatches(userId);
+  return toRun;
+}
+
+/**
+ * Mark active batches with nothing left to do as completed
+ */
+async function completeFinishedBatches(userId: string): Promise<void> {
+  const { data: batchData } = await supabase
+    .from('bulk_batches')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  for (const { id } of (batchData || []) as Array<{ id: string }>) {
+    const { count } = await supabase
+      .from('bulk_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('batch_id', id)
+      .in('status', ['pending', 'running', 'saving']);
+
+    if (count === 0) {
+      await supabase
+        .from('bulk_batches')
+        .update({ status: 'completed', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'active');
+    }
+  }
+}
+
+/**
+ * Worker for a user's bulk jobs (run in after()): each finished job advances
+ * the queue, and newly started jobs are run here too, until the queue is idle
+ * or the function times out - polling the dashboard resumes from there.
+ */
+export async function runBulkJobs(
+  userId: string,
+  jobIds: string[],
+  deadline = Date.now() + JOB_DEADLINE_MS
+): Promise<void> {
+  await Promise.all(jobIds.map(async (jobId) => {
+    // Jobs started later share this invocation's time budget
+    await runRemixJob(jobId, { deadline });
+    try {
+      const next = await advanceBulkQueue(userId);
+      // Jobs already being worked on are skipped by runRemixJob's claim
+      if (next.length > 0) {
+        await runBulkJobs(userId, next, deadline);
+      }
+    } catch (error) {
+      console.error(`❌ Bulk queue for user ${userId} could not advance:`, error);
+    }
+  }));
+}
+
+/**
+ * The dashboard: recent batches with their items (newest batch first)
+ */
+export async function listBulkBatches(userId: string): Promise<BulkBatchView[]> {
+  const { data: batchData, error } = await supabase
+    .from('bulk_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(DASHBOARD_BATCHES);
+
+  if (error) {
+    throw new Error(`Failed to load bulk batches: ${migrationHint(error.message)}`);
+  }
+
+  const batches = (batchData || []) as BulkBatchRow[];
+  if (batches.length === 0) {
+    return [];
+  }
+
+  const { data: itemData, error: itemsError } = await supabase
+    .from('bulk_items')
+    .select('*')
+    .in('batch_id', batches.map((batch) => batch.id))
+    .order('position', { ascending: true });
+
+  if (itemsError) {
+    throw new Error(`Failed to load bulk items: ${itemsError.message}`);
+  }
+
+  const items = (itemData || []) as BulkItemRow[];
+  const runningJobIds = items
+    .filter((item) => item.status === 'running' && item.job_id)
+    .map((item) => item.job_id as string);
+  const stages = new Map<string, RemixJobRow['stage']>();
+  if (runningJobIds.length > 0) {
+    const { data: jobData } = await supabase
+      .from('remix_jobs')
+      .select('id, stage')
+      .in('id', runningJobIds);
+    for (const job of (jobData || []) as Array<Pick<RemixJobRow, 'id' | 'stage'>>) {
+      stages.set(job.id, job.stage);
+    }
+  }
+
+  return batches.map((batch) => {
+    const batchItems = items.filter((item) => item.batch_id === batch.id);
+    return {
+      id: batch.id,
+      name: batch.name,
+      status: batch.status,
+      variantCount: batch.variant_count,
+      createdAt: batch.created_at,
+      counts: countBulkItems(batchItems),
+      items: batchItems.map((item): BulkItemView => ({
+        id: item.id,
+        position: item.position,
+        fileName: item.file_name,
+        originalImageUrl: item.original_image_url,
+        status: item.status,
+        stage: item.job_id ? stages.get(item.job_id) ?? null : null,
+        jobId: item.job_id,
+        projectId: item.project_id,
+        projectName: item.project_name,
+        error: item.error,
+      })),
+    };
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Bulk remix queue - limits and views
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * A bulk upload is a batch with one item per image. Items wait as "pending"
+ * until the queue starts a remix job for them - at most BULK_MAX_CONCURRENT_JOBS
+ * per user at a time - and finish as a saved, automatically named project.
+ * See lib/bulk-queue.server.ts for the queue itself.
+ */
+
+import type { BulkBatchRow, BulkItemRow, RemixJobRow } from './supabase/types';
+
+export const MAX_BULK_ITEMS = 50;
+export const MAX_BULK_FILE_SIZE = 10 * 1024 * 1024;   // Per image, same as single uploads
+export const MAX_BULK_ZIP_SIZE = 200 * 1024 * 1024;
+
+export const BULK_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+export type BulkBatchStatus = BulkBatchRow['status'];
+export type BulkItemStatus = BulkItemRow['status'];
+export type BulkBatchAction = 'pause' | 'resume' | 'cancel';
+
+export interface BulkItemView {
+  id: string;
+  position: number;
+  fileName: string;
+  originalImageUrl: string;
+  status: BulkItemStatus;
+  stage: RemixJobRow['stage'] | null;    // Remix job stage while running
+  jobId: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  error: string | null;
+}
+
+export interface BulkBatchView {
+  id: string;
+  name: string;
+  status: BulkBatchStatus;
+  variantCount: number;
+  createdAt: string;
+  counts: Record<BulkItemStatus, number>;
+  items: BulkItemView[];
+}
+
+/**
+ * Whether a file name looks like an image the remix pipeline accepts
+ */
+export function isBulkImageName(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return BULK_IMAGE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Item counts per status (for progress bars and batch completion)
+ */
+export function countBulkItems(items: Array<{ status: BulkItemStatus }>): Record<BulkItemStatus, number> {
+  const counts: Record<BulkItemStatus, number> = {
+    pending: 0,
+    running: 0,
+    saving: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const item of items) {
+    counts[item.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Default batch name: the ZIP's name, or the upload date
+ */
+export function defaultBulkBatchName(zipName?: string | null): string {
+  const stem = zipName?.replace(/\.zip$/i, '').trim();
+  return stem || `Bulk upload ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Colour quantization on raw RGBA pixels (k-means)
+ * Shared by SVG tracing (lib/vectorize.ts) and palette swaps (lib/palette-swap.ts).
+ */
+
+// Pixels sampled for k-means (callers still assign every pixel themselves)
+const KMEANS_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 12;
+// Squared RGB distance under which neighbouring pixels count as the same flat colour
+const FLAT_DISTANCE = 48;
+// Palette entries closer than this (squared RGB distance) are merged
+const MIN_COLOR_DISTANCE = 400;
+
+export function toHex(rgb: number[]): string {
+  return `#${rgb.map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function colorDistance(a: number[], b: number[]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * Index of the palette colour nearest to an RGB value
+ */
+export function closestColor(r: number, g: number, b: number, palette: number[][]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let k = 0; k < palette.length; k++) {
+    const d = (r - palette[k][0]) ** 2 + (g - palette[k][1]) ** 2 + (b - palette[k][2]) ** 2;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = k;
+    }
+  }
+  return best;
+}
+
+/**
+ * Opaque pixels inside flat areas - their right and lower neighbours have
+ * (nearly) the same colour. Leaves out anti-aliased edges, which would
+ * otherwise win palette slots of their own.
+ */
+export function flatPixels(pixels: Uint8Array, opaque: Uint8Array, width: number): Uint8Array {
+  const flat = new Uint8Array(opaque.length);
+  const similar = (a: number, b: number) =>
+    (pixels[a * 4] - pixels[b * 4]) ** 2
+      + (pixels[a * 4 + 1] - pixels[b * 4 + 1]) ** 2
+      + (pixels[a * 4 + 2] - pixels[b * 4 + 2]) ** 2 <= FLAT_DISTANCE;
+  for (let i = 0; i < opaque.length - width - 1; i++) {
+    if (opaque[i] && opaque[i + 1] && opaque[i + width] && similar(i, i + 1) && similar(i, i + width)) {
+      flat[i] = 1;
+    }
+  }
+  return flat;
+}
+
+/**
+ * k-means over a sample of the included pixels (RGBA buffer, include = 1/0 per pixel).
+ * Seeded by farthest-point selection, so the same image always gives the same palette.
+ * Returns up to colorCount RGB colours, most common first.
+ */
+export function quantizeColors(pixels: Uint8Array, include: Uint8Array, colorCount: number): number[][] {
+  const total = include.reduce((sum, v) => sum + v, 0);
+  const stride = Math.max(1, Math.floor(total / KMEANS_SAMPLES));
+  const samples: number[][] = [];
+  for (let i = 0, seen = 0; i < include.length; i++) {
+    if (!include[i]) continue;
+    if (seen++ % stride === 0) samples.push([pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]]);
+  }
+  if (samples.length === 0) return [];
+
+  const centers: number[][] = [samples[0].slice()];
+  const nearest = samples.map(s => colorDistance(s, centers[0]));
+  while (centers.length < colorCount) {
+    let farthest = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] === 0) break; // Fewer distinct colours than requested
+    centers.push(samples[farthest].slice());
+    samples.forEach((s, i) => { nearest[i] = Math.min(nearest[i], colorDistance(s, centers[centers.length - 1])); });
+  }
+
+  let sizes: number[] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const s of samples) {
+      const sum = sums[closestColor(s[0], s[1], s[2], centers)];
+      sum[0] += s[0]; sum[1] += s[1]; sum[2] += s[2]; sum[3]++;
+    }
+    sizes = sums.map(sum => sum[3]);
+    let moved = false;
+    sums.forEach((sum, k) => {
+      if (sum[3] === 0) return;
+      const next = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+      if (colorDistance(next, centers[k]) > 0.25) moved = true;
+      centers[k] = next;
+    });
+    if (!moved) break;
+  }
+
+  // Designs with fewer flat colours than requested end up with near-duplicates -
+  // keep the bigger one, or the split between them turns into noise
+  const palette: number[][] = [];
+  centers
+    .map((center, k) => ({ center, size: sizes[k] }))
+    .filter(({ size }) => size > 0)
+    .sort((a, b) => b.size - a.size)
+    .forEach(({ center }) => {
+      if (palette.every(kept => colorDistance(kept, center) > MIN_COLOR_DISTANCE)) palette.push(center);
+    });
+  return palette;
+}
@@ -0,0 +1,149 @@
+/**
+ * Cost & usage ledger - Server-only
+ *
+ * Every external API call (Gemini, Recraft) is recorded in usage_ledger with
+ * its provider, model, tokens/images and an estimated cost. Call sites only
+ * report what they used (recordUsage / recordGeminiUsage); who to bill is
+ * taken from the surrounding usage context, so the user / job / project
+ * doesn't have to be threaded through every provider function:
+ *
+ *   await withUsageContext({ userId, jobId }, () => runStages());
+ *
+ * Calls outside any context are still recorded, just unattributed.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { UsageLedgerInsert } from './supabase/types';
+
+export interface UsageContext {
+  userId: string | null;
+  projectId?: string | null;
+  jobId?: string | null;
+}
+
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  operation: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+}
+
+interface ModelPricing {
+  inputPerMillion?: number;   // USD per 1M input tokens
+  outputPerMillion?: number;  // USD per 1M output tokens
+  perImage?: number;          // USD per image (per-call APIs)
+}
+
+/**
+ * Provider list prices in USD - estimates only, update when providers change them.
+ * Gemini image output is billed as tokens (1290 per image), so it's covered by
+ * outputPerMillion.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'recraftv3': { perImage: 0.04 },
+  'recraft-remove-background': { perImage: 0.01 },
+  'recraft-crisp-upscale': { perImage: 0.004 },
+};
+
+interface UsageStore {
+  context: UsageContext;
+  pending: Promise<void>[];
+}
+
+const storage = new AsyncLocalStorage<UsageStore>();
+const warnedModels = new Set<string>();
+let warnedInsertFailure = false;
+
+/**
+ * Estimated cost of one call in USD (0 for models without a price)
+ */
+export function estimateCost(record: UsageRecord): number {
+  const pricing = MODEL_PRICING[record.model];
+  if (!pricing) {
+    if (!warnedModels.has(record.model)) {
+      warnedModels.add(record.model);
+      console.warn(`⚠️ No pricing for model "${record.model}" - its calls are recorded at $0`);
+    }
+    return 0;
+  }
+
+  const cost = ((record.inputTokens || 0) * (pricing.inputPerMillion || 0)
+    + (record.outputTokens || 0) * (pricing.outputPerMillion || 0)) / 1_000_000
+    + (record.images || 0) * (pricing.perImage || 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Run fn with a usage context; ledger writes started inside it are awaited
+ * before this resolves. Nested contexts inherit fields they don't set.
+ */
+export async function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  const parent = storage.getStore();
+  const store: UsageStore = {
+    context: { ...parent?.context, ...context },
+    pending: [],
+  };
+
+  try {
+    return await storage.run(store, fn);
+  } finally {
+    await Promise.allSettled(store.pending);
+  }
+}
+
+async function insertLedgerRow(row: UsageLedgerInsert): Promise<void> {
+  // Imported lazily: most importers of this module never need a DB client
+  const { serviceClient } = await import('./storage.server');
+  const { error } = await serviceClient.from('usage_ledger').insert(row as never);
+  if (error && !warnedInsertFailure) {
+    warnedInsertFailure = true;
+    console.warn(`⚠️ Failed to record API usage (run supabase-usage-ledger.sql?): ${error.message}`);
+  }
+}
+
+/**
+ * Record one external API call. Never throws - accounting must not fail a generation.
+ */
+export function recordUsage(record: UsageRecord): void {
+  const store = storage.getStore();
+  const context = store?.context;
+  const row: UsageLedgerInsert = {
+    user_id: context?.userId ?? null,
+    project_id: context?.projectId ?? null,
+    job_id: context?.jobId ?? null,
+    provider: record.provider,
+    model: record.model,
+    operation: record.operation,
+    input_tokens: record.inputTokens || 0,
+    output_tokens: record.outputTokens || 0,
+    images: record.images || 0,
+    estimated_cost_usd: estimateCost(record),
+  };
+
+  const write = insertLedgerRow(row).catch((error) => {
+    console.warn('⚠️ Failed to record API usage:', error);
+  });
+  store?.pending.push(write);
+}
+
+/**
+ * Record a Gemini call from its response's usage metadata
+ * @param model - the GenerativeModel that made the call
+ */
+export function recordGeminiUsage(
+  model: { model: string },
+  operation: string,
+  response: { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } }
+): void {
+  recordUsage({
+    provider: 'gemini',
+    model: model.model.replace(/^models\//, ''),
+    operation,
+    inputTokens: response.usageMetadata?.promptTokenCount,
+    outputTokens: response.usageMetadata?.candidatesTokenCount,
+  });
+}
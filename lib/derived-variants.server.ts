@@ -0,0 +1,145 @@
+/**
+ * Derived variants - Server-only
+ * Edits and palette swaps of a variant are saved as new variants appended to
+ * the parent's batch (next free variant number, linked by parent_variant_id).
+ *
+ * Two derivations of the same batch can run at once, so the variant number is
+ * claimed by the insert itself (retried on the project/batch/number unique
+ * constraint) and the images are uploaded under a random path that never
+ * depends on that number.
+ */
+
+import { randomUUID } from 'crypto';
+import type { createClient } from './supabase/server';
+import { withUsageContext, type UsageContext } from './cost-ledger';
+import { removeBackgroundCached } from './image-cache';
+import { resolveGenerationPipeline } from './image-providers';
+import { fetchImageAsDataUrl, uploadVariantImages } from './storage.server';
+import type { VariantProvenance } from './generation-events';
+import type { SourceSimilarity } from './source-similarity';
+import type { Variant } from './supabase/types';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+// Inserts attempted before giving up on a busy batch
+const MAX_NUMBER_ATTEMPTS = 5;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface DerivedVariantParent {
+  id: string;
+  project_id: string;
+  batch_number: number | null;
+  strategy_id: string | null;
+  projects: { original_image_url: string } | null;
+}
+
+export interface DerivedVariantFields {
+  imageData: string;
+  strategy: string;
+  language: string | null;
+  recommendedBackground: 'light' | 'dark';
+  provenance: VariantProvenance;
+  similarity: SourceSimilarity | null;
+}
+
+/**
+ * Cleaned project original, for the similarity score of a derived variant
+ * (cached since the first generation). Null if it can't be loaded.
+ */
+export async function loadSimilaritySource(
+  parent: DerivedVariantParent,
+  usage: UsageContext
+): Promise<string | null> {
+  if (!parent.projects?.original_image_url) {
+    return null;
+  }
+  try {
+    const originalImage = await fetchImageAsDataUrl(parent.projects.original_image_url);
+    return await fetchImageAsDataUrl(
+      await withUsageContext(usage, () => removeBackgroundCached(originalImage, resolveGenerationPipeline().backgroundProvider))
+    );
+  } catch (error) {
+    console.warn("⚠️ Could not load source design for similarity check:", error);
+    return null;
+  }
+}
+
+async function nextVariantNumber(supabase: ServerSupabase, projectId: string, batchNumber: number): Promise<number> {
+  const { data, error } = await supabase
+    .from('variants')
+    .select('variant_number')
+    .eq('project_id', projectId)
+    .eq('batch_number', batchNumber)
+    .order('variant_number', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to read batch variants: ${error.message}`);
+  }
+  const last = (data as Array<{ variant_number: number }> | null)?.[0]?.variant_number ?? 0;
+  return last + 1;
+}
+
+/**
+ * Upload a derived variant and save it as the next variant of its parent's batch
+ * @param kind - What the derivation is, for logs and errors ("edited", "recolored")
+ */
+export async function appendDerivedVariant(
+  supabase: ServerSupabase,
+  userId: string,
+  parent: DerivedVariantParent,
+  fields: DerivedVariantFields,
+  kind: string
+): Promise<Variant> {
+  const batchNumber = parent.batch_number || 1;
+
+  const urls = await uploadVariantImages(
+    fields.imageData,
+    `variants/${userId}/${parent.project_id}_b${batchNumber}_${randomUUID()}`
+  );
+
+  for (let attempt = 1; attempt <= MAX_NUMBER_ATTEMPTS; attempt++) {
+    const variantNumber = await nextVariantNumber(supabase, parent.project_id, batchNumber);
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('variants')
+      .insert({
+        project_id: parent.project_id,
+        user_id: userId,
+        variant_number: variantNumber,
+        batch_number: batchNumber,
+        strategy: fields.strategy,
+        strategy_id: parent.strategy_id,
+        language: fields.language,
+        image_url: urls.imageUrl,
+        thumbnail_url: urls.thumbnailUrl,
+        recommended_background: fields.recommendedBackground,
+        provenance: fields.provenance,
+        similarity: fields.similarity,
+        parent_variant_id: parent.id,
+      } as never)
+      .select()
+      .single();
+
+    if (!insertError && inserted) {
+      console.log(`✅ Saved ${kind} variant of ${parent.id} as batch ${batchNumber} variant ${variantNumber}`);
+      return inserted as Variant;
+    }
+
+    // Another derivation took this number first - claim the next one
+    if (insertError?.code === UNIQUE_VIOLATION) {
+      console.log(`🔁 Variant number ${variantNumber} taken in batch ${batchNumber}, retrying (${attempt}/${MAX_NUMBER_ATTEMPTS})`);
+      continue;
+    }
+
+    console.error(`Failed to save ${kind} variant:`, insertError);
+    if (insertError?.message?.includes('parent_variant_id') || insertError?.message?.includes('variant_number_check')) {
+      throw new Error(`Database migration required. Please run supabase-variant-edits.sql. (${insertError.message})`);
+    }
+    throw new Error(`Failed to save ${kind} variant: ${insertError?.message || 'no record returned'}`);
+  }
+
+  throw new Error(`Failed to save ${kind} variant: batch ${batchNumber} is busy, try again`);
+}
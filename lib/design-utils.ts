@@ -16,6 +16,76 @@ export interface DesignAnalysis {
   character_action?: string; // What the main character/subject is doing (e.g., "lifting barbell") or "none"
 }
 
+const DESIGN_TYPES: DesignAnalysis['design_type'][] = ['text_only', 'graphic_only', 'mixed'];
+
+// Loose labels models use instead of the design_type enum
+const DESIGN_TYPE_ALIASES: Record<string, DesignAnalysis['design_type']> = {
+  text: 'text_only',
+  typography: 'text_only',
+  typographic: 'text_only',
+  graphic: 'graphic_only',
+  graphics: 'graphic_only',
+  illustration: 'graphic_only',
+  image: 'graphic_only',
+  both: 'mixed',
+  combined: 'mixed',
+  hybrid: 'mixed',
+  text_and_graphic: 'mixed',
+  text_and_graphics: 'mixed',
+};
+
+/**
+ * Coerce a design_type value ("Text Only", "text-only", "illustration", ...) to the enum
+ * Returns null if it can't be mapped
+ */
+export function coerceDesignType(value: unknown): DesignAnalysis['design_type'] | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (DESIGN_TYPES.includes(key as DesignAnalysis['design_type'])) {
+    return key as DesignAnalysis['design_type'];
+  }
+  return DESIGN_TYPE_ALIASES[key] ?? null;
+}
+
+/**
+ * Validate a DesignAnalysis edited by the user (review step)
+ * Returns a clean copy, or null if a required field is missing / the wrong type
+ */
+export function normalizeDesignAnalysis(input: unknown): DesignAnalysis | null {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const a = input as Record<string, unknown>;
+  const stringFields = ['theme', 'style', 'text', 'tone', 'typography_style', 'text_color'] as const;
+  if (!stringFields.every((field) => typeof a[field] === 'string')) {
+    return null;
+  }
+  if (!Array.isArray(a.graphic_colors) || !a.graphic_colors.every((c) => typeof c === 'string')) {
+    return null;
+  }
+  const designType = coerceDesignType(a.design_type);
+  if (!designType) {
+    return null;
+  }
+  if (a.character_action !== undefined && typeof a.character_action !== 'string') {
+    return null;
+  }
+
+  return {
+    theme: (a.theme as string).trim(),
+    style: (a.style as string).trim(),
+    graphic_colors: (a.graphic_colors as string[]).map((c) => c.trim()).filter(Boolean),
+    text: (a.text as string).trim(),
+    design_type: designType,
+    tone: (a.tone as string).trim(),
+    typography_style: (a.typography_style as string).trim(),
+    text_color: (a.text_color as string).trim(),
+    character_action: typeof a.character_action === 'string' ? a.character_action.trim() : undefined,
+  };
+}
+
 /**
  * Derive optimal background from analysis.
  * Priority: TEXT_COLOR > GRAPHIC_COLORS
@@ -1,4 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GoogleGenerativeAI,
+  type GenerateContentResult,
+  type GenerativeModel,
+  type Part,
+} from "@google/generative-ai";
 
 // Import shared types and utilities (client-safe)
 export type { DesignAnalysis } from './design-utils';
@@ -6,14 +11,54 @@ export { deriveOptimalBackground } from './design-utils';
 import type { DesignAnalysis } from './design-utils';
 import { deriveOptimalBackground } from './design-utils';
 import { detectRecommendedBackground } from './image-utils';
+import type { GenerationPipelineConfig } from './image-providers/types';
+import {
+  designAnalysisSchema,
+  designTextSchema,
+  designTranslationsSchema,
+  generateStructured,
+  remixStrategiesSchema,
+  StructuredOutputError,
+} from './structured-output';
+import { isCircuitOpen, withResilience } from './resilient-call';
+import { isSeasonalStrategyId } from './seasonal-events';
+import { findLanguage, isLocaleStrategyId, strategyLanguage, withLocalizedText } from './localization';
+import { recordGeminiUsage } from './cost-ledger';
+import { removeBackgroundWithFallback } from './background-removal';
+import type { FailedVariant, TierAttempt, VariantProgressEvent, VariantProvenance } from './generation-events';
+import type { EditRequest, ImageGenerationProvider, VectorSource } from './image-providers/types';
+import { DEFAULT_TOO_CLOSE_THRESHOLD, type SourceSimilarity } from './source-similarity';
+import {
+  DEFAULT_TEXT_FIDELITY_THRESHOLD,
+  expectedVariantText,
+  scoreTextFidelity,
+  type TextFidelity,
+} from './text-fidelity';
+import {
+  BUILTIN_STRATEGY_TEMPLATES,
+  DEFAULT_VARIANT_COUNT,
+  fillStrategyScaffold,
+  isNicheStrategyId,
+  planStrategySlots,
+  type StrategySlot,
+} from './strategy-templates';
 
 // Initialize the Google Generative AI client
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
+// Text-fidelity check: minimum score (0-100) and regenerations before a variant is flagged
+const TEXT_FIDELITY_THRESHOLD = Number(process.env.TEXT_FIDELITY_THRESHOLD) || DEFAULT_TEXT_FIDELITY_THRESHOLD;
+const TEXT_FIDELITY_RETRIES = Math.max(0, Number(process.env.TEXT_FIDELITY_RETRIES ?? 1) || 0);
+
+// Similarity score (0-100) at which a variant counts as a near-copy of the source
+export const SIMILARITY_TOO_CLOSE_THRESHOLD = Number(process.env.SIMILARITY_TOO_CLOSE_THRESHOLD) || DEFAULT_TOO_CLOSE_THRESHOLD;
+
 export interface RemixStrategy {
   id: number;
   strategy: string;
   prompt: string;
+  strategyId?: string; // Template that produced this strategy (see lib/strategy-templates.ts)
+  text?: string;       // Phrase the variant carries instead of analysis.text (localization)
 }
 
 export interface DesignVersion {
@@ -29,8 +74,29 @@ export interface ColorClassification {
 export interface GeneratedVariant {
   id: number;
   strategy: string;
+  strategyId?: string;
   design: DesignVersion;
   colorClassification?: ColorClassification;
+  provenance: VariantProvenance;
+  similarity: SourceSimilarity | null;  // vs. the cleaned reference (null if it couldn't be measured)
+}
+
+/**
+ * Outcome of one strategy - a failure never takes the other variants down with it
+ */
+export type VariantGenerationResult =
+  | { status: 'ok'; id: number; strategy: string; tier: string; variant: GeneratedVariant }
+  | FailedVariant;
+
+export interface GenerateVariantOptions {
+  pipeline?: Partial<GenerationPipelineConfig>;
+  // Progress for live UIs (tier attempts, validation failures, post-processing)
+  onProgress?: (event: VariantProgressEvent) => void;
+  // Called as soon as each variant is POD-ready, before the others finish.
+  // Awaited, so callers can upload the variant inside it (a throw marks the variant failed).
+  onVariant?: (variant: GeneratedVariant, tier: string) => void | Promise<void>;
+  // Further cleaned references of a mood-board remix (originalImage is the primary one)
+  extraReferences?: string[];
 }
 
 /**
@@ -61,8 +127,11 @@ Return ONLY the project name, nothing else. No quotes, no explanation.`;
       },
     };
 
-    const result = await model.generateContent([prompt, imagePart]);
+    const result = await withResilience('gemini', 'project name', (signal) =>
+      model.generateContent([prompt, imagePart], { signal })
+    );
     const response = await result.response;
+    recordGeminiUsage(model, 'project name', response);
     const name = response.text().trim();
 
     // Clean up the name - remove any quotes or extra punctuation
@@ -78,29 +147,6 @@ Return ONLY the project name, nothing else. No quotes, no explanation.`;
   }
 }
 
-/**
- * Helper function to extract a string field from malformed JSON
- */
-function extractField(jsonStr: string, fieldName: string): string | null {
-  const regex = new RegExp(`"${fieldName}"\\s*:\\s*"([^"]*)"`, 'i');
-  const match = jsonStr.match(regex);
-  return match ? match[1] : null;
-}
-
-/**
- * Helper function to extract an array field from malformed JSON
- */
-function extractArrayField(jsonStr: string, fieldName: string): string[] | null {
-  const regex = new RegExp(`"${fieldName}"\\s*:\\s*\\[([^\\]]*)\\]`, 'i');
-  const match = jsonStr.match(regex);
-  if (!match) return null;
-  
-  // Extract strings from the array
-  const arrayContent = match[1];
-  const items = arrayContent.match(/"([^"]*)"/g);
-  return items ? items.map(item => item.replace(/"/g, '')) : [];
-}
-
 /**
  * Step 1: Analyze the uploaded POD design image
  * Uses gemini-2.5-flash with vision capability
@@ -171,100 +217,164 @@ Return ONLY valid JSON conforming to the schema below. Do not include any markdo
       },
     };
 
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
+    // JSON mode + runtime validation (re-asks once on a schema mismatch)
+    const analysis = await generateStructured(model, [prompt, imagePart], designAnalysisSchema);
+    console.log("✅ Analysis validated:", analysis);
+    return analysis;
+  } catch (error) {
+    console.error("Error analyzing image:", error);
+    // Keep the typed schema error (issues + raw reply) for callers
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to analyze image: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
 
-    console.log("🤖 Gemini analysis raw response:", text);
+/**
+ * Mood boards: blend the analyses of several references into one
+ * Uses gemini-2.5-flash (text only - the references were already analyzed)
+ */
+export async function blendDesignAnalyses(
+  analyses: DesignAnalysis[]
+): Promise<DesignAnalysis> {
+  if (analyses.length === 1) {
+    return analyses[0];
+  }
 
-    // Parse the JSON response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Failed to extract JSON from response");
-    }
+  try {
+    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
 
-    let jsonStr = jsonMatch[0];
-    console.log("📋 Extracted JSON:", jsonStr);
-
-    // Try to parse with better error handling
-    try {
-      // First attempt: parse as-is
-      const analysis: DesignAnalysis = JSON.parse(jsonStr);
-      console.log("✅ Analysis JSON parsed successfully");
-      return analysis;
-    } catch (firstError) {
-      console.log("⚠️ First parse failed, attempting to clean JSON...");
-      
-      try {
-        // Clean the JSON string by fixing common issues
-        jsonStr = jsonStr
-          // Remove any trailing commas before closing braces/brackets
-          .replace(/,(\s*[}\]])/g, '$1')
-          // Fix any unescaped quotes within string values (be careful here)
-          .replace(/:\s*"([^"]*)"([^",}\]]*)"([^"]*)"(\s*[,}\]])/g, (match, p1, p2, p3, p4) => {
-            // If there's text between quotes, it's likely an unescaped quote
-            if (p2.trim().length > 0) {
-              return `: "${p1}\\"${p2}\\"${p3}"${p4}`;
-            }
-            return match;
-          });
-        
-        // Try parsing again
-        const analysis: DesignAnalysis = JSON.parse(jsonStr);
-        console.log("✅ Analysis JSON cleaned and parsed successfully");
-        return analysis;
-      } catch (secondError) {
-        console.error("❌ Failed to parse even after cleaning");
-        console.error("Original error:", firstError);
-        console.error("Cleaning error:", secondError);
-        console.error("JSON string:", jsonStr);
-        
-        // Last resort: try to manually extract fields
-        try {
-          console.log("⚠️ Attempting manual field extraction...");
-          
-          const analysis: DesignAnalysis = {
-            theme: extractField(jsonStr, 'theme') || 'Unknown',
-            style: extractField(jsonStr, 'style') || 'Unknown',
-            graphic_colors: extractArrayField(jsonStr, 'graphic_colors') || extractArrayField(jsonStr, 'colors') || ['black', 'white'],
-            text: extractField(jsonStr, 'text') || '',
-            design_type: (extractField(jsonStr, 'design_type') || 'mixed') as "text_only" | "graphic_only" | "mixed",
-            tone: extractField(jsonStr, 'tone') || 'neutral',
-            typography_style: extractField(jsonStr, 'typography_style') || '',
-            text_color: extractField(jsonStr, 'text_color') || 'none',
-            character_action: extractField(jsonStr, 'character_action') || 'none'
-          };
-          
-          console.log("✅ Manual extraction successful:", analysis);
-          return analysis;
-        } catch (thirdError) {
-          console.error("❌ Manual extraction also failed");
-          throw firstError; // Throw original error for debugging
-        }
-      }
+    const prompt = `These are analyses of ${analyses.length} reference designs that together form a MOOD BOARD for ONE new print-on-demand design:
+
+${analyses.map((analysis, i) => `Reference ${i + 1}${i === 0 ? ' (primary)' : ''}:\n${JSON.stringify(analysis, null, 2)}`).join('\n\n')}
+
+Combine them into a single analysis of the NEW design, taking the strongest ingredient from each reference.
+For example: the theme/subject of one with the art style of another, or one design's phrase in another's typography.
+
+🎯 BLENDING RULES:
+- Use the primary reference's theme and character_action unless another reference clearly supplies the subject
+- Take the "style" from the reference with the most distinctive art style
+- "text": keep ONE phrase exactly as written in the reference it comes from (or "" if none have text)
+- "typography_style" and "text_color" must fit the chosen text
+- "graphic_colors": 2-4 colors that work together
+- "design_type": what the blended design will be ("text_only", "graphic_only" or "mixed")
+- Describe the blend in "theme" and "style" concretely - the image prompts are written from them
+
+Return ONLY valid JSON with the same fields as the analyses above. Do not include any markdown formatting or additional text.`;
+
+    // JSON mode + runtime validation (re-asks once on a schema mismatch)
+    const blended = await generateStructured(model, [prompt], designAnalysisSchema);
+    console.log("✅ Mood board blended:", blended);
+    return blended;
+  } catch (error) {
+    console.error("Error blending analyses:", error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
     }
+    throw new Error(
+      `Failed to blend analyses: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Localization: translate the design text into each language
+ * Uses gemini-2.5-flash - idiomatic wording that fits a shirt, not a literal translation
+ *
+ * @returns Translated phrase per language code
+ */
+export async function translateDesignText(
+  text: string,
+  languages: string[]
+): Promise<Record<string, string>> {
+  try {
+    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+
+    const prompt = `Translate the text of a print-on-demand design (t-shirt, mug, sticker) for buyers in other countries.
+
+Text: "${text}"
+
+Languages: ${languages.map((code) => `${code} (${findLanguage(code)?.name ?? code})`).join(', ')}
+
+🌍 TRANSLATION RULES:
+- Translate the MEANING and the joke, not word for word - use the idiom a native speaker would put on a shirt
+- Keep puns, rhymes and wordplay working in the target language (replace them with a local equivalent if needed)
+- Keep it about as short as the original - it must fit the same typography
+- Keep the capitalization style of the original (ALL CAPS stays ALL CAPS)
+- Keep names, brands and numbers unchanged
+
+Return ONLY a JSON array with one entry per language:
+[
+${languages.map((code) => `  {"language": "${code}", "text": "..."}`).join(',\n')}
+]`;
+
+    // JSON mode + runtime validation (one translation per language, re-asks once)
+    const translations = await generateStructured(model, [prompt], designTranslationsSchema(languages));
+    console.log("✅ Design text translated:", translations);
+    return Object.fromEntries(translations.map((translation) => [translation.language, translation.text]));
   } catch (error) {
-    console.error("Error analyzing image:", error);
+    console.error("Error translating design text:", error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
     throw new Error(
-      `Failed to analyze image: ${error instanceof Error ? error.message : "Unknown error"}`
+      `Failed to translate design text: ${error instanceof Error ? error.message : "Unknown error"}`
     );
   }
 }
 
 /**
- * Step 2: Generate 4 remix strategies based on the design analysis
+ * Step 2: Generate one remix strategy per slot based on the design analysis
  * Uses gemini-2.5-flash for text generation
  * 
- * NEW STRATEGIES (POD-focused, high similarity):
+ * Each slot is a strategy template (name + prompt scaffold + similarity target).
+ * Default slots are the 4 built-in POD strategies (high similarity):
  * 1. Safe Recreation - Holistic small tweaks (85-93% similar)
  * 2. Phrase Variation - Text/wording changes only (80-90% similar)
  * 3. Element Tweak - Small decorative details (85-95% similar)
  * 4. Artistic Treatment - Rendering style changes (85-93% similar)
+ *
+ * Niche retargeting slots (see nicheSelection) get one strategy per niche,
+ * labelled with the niche: new text and props, same pose, composition and style.
+ *
+ * Localization slots (see localeSelection) get the design text translated
+ * first; each strategy carries its translation in `text`.
  */
 export async function generateRemixStrategies(
-  analysis: DesignAnalysis
+  analysis: DesignAnalysis,
+  slots: StrategySlot[] = planStrategySlots(BUILTIN_STRATEGY_TEMPLATES, DEFAULT_VARIANT_COUNT)
 ): Promise<RemixStrategy[]> {
+  const expected = slots.length;
+  // Attach slot IDs / template IDs by position (the LLM only writes the prompts)
+  // Niche and seasonal strategies are labelled with the niche / event name as given
+  const keepsTemplateName = (id: string) => isNicheStrategyId(id) || isSeasonalStrategyId(id) || isLocaleStrategyId(id);
+  const nicheSlots = slots.filter((slot) => isNicheStrategyId(slot.template.id));
+  const localeSlots = slots.filter((slot) => isLocaleStrategyId(slot.template.id));
+
   try {
+    const languages = [...new Set(localeSlots.map((slot) => strategyLanguage(slot.template.id) ?? ''))];
+    const translations = languages.length > 0 && analysis.text.trim()
+      ? await translateDesignText(analysis.text, languages)
+      : {};
+    const translationFor = (templateId: string) => translations[strategyLanguage(templateId) ?? ''];
+
+    const withTemplates = (strategies: RemixStrategy[]): RemixStrategy[] =>
+      strategies.map((strategy, i) => {
+        const templateId = slots[i].template.id;
+        const text = translationFor(templateId);
+        return {
+          ...strategy,
+          id: slots[i].id,
+          strategy: keepsTemplateName(templateId) ? slots[i].template.name : strategy.strategy,
+          strategyId: templateId,
+          // The translation must be in the prompt verbatim (it's what the fidelity check expects)
+          ...(text ? { text, prompt: withLocalizedText(strategy.prompt, text) } : {}),
+        };
+      });
+
     const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
 
     // Generate prompts that focus ONLY on design elements
@@ -273,7 +383,7 @@ export async function generateRemixStrategies(
     const prompt = `Based on this design analysis:
 ${JSON.stringify(analysis, null, 2)}
 
-Create 4 remix strategies as a JSON array.
+Create ${expected} remix strategies as a JSON array.
 
 🎯 WHAT TO GENERATE:
 - Flat 2D graphic illustrations (clipart style)
@@ -284,13 +394,24 @@ Create 4 remix strategies as a JSON array.
 Character action: "${analysis.character_action || 'preserve original pose'}"
 ALL variants must show the SAME pose/action.
 
-📋 THE 4 STRATEGIES:
-
-1. **Safe Recreation**: Recreate with tiny proportion tweaks. Same pose.
-2. **Phrase Variation**: Change text wording only. Same everything else. Typography: "${analysis.typography_style || 'same style'}"
-3. **Element Tweak**: One tiny decorative change. Nearly identical otherwise.
-4. **Artistic Treatment**: Different rendering (line weight, texture). Same content.
-
+📋 THE ${expected} STRATEGIES:
+
+${slots.map((slot) => `${slot.id}. **${slot.template.name}** (~${slot.template.similarityTarget}% similar to the original): ${fillStrategyScaffold(slot.template.promptScaffold, analysis)}`).join('\n')}
+
+Typography (keep unless a strategy changes it): "${analysis.typography_style || 'same style'}"
+${nicheSlots.length > 0 ? `
+🎯 NICHE RETARGETING (${nicheSlots.map((slot) => slot.template.name).join(', ')}):
+- Each of these strategies sells the SAME winning concept to its target niche
+- Rewrite the phrase so that niche instantly recognizes itself, keeping the joke/structure of "${analysis.text || 'the original'}"
+- Swap props/accessories for ones from that niche (e.g. scrubs and a stethoscope for nurses, an apple and chalkboard for teachers)
+- KEEP the character_action, the composition and the "${analysis.style}" style exactly
+` : ''}${localeSlots.length > 0 ? `
+🌍 LOCALIZATION (${localeSlots.map((slot) => slot.template.name).join(', ')}):
+- Each of these strategies is the SAME design with its text translated
+${localeSlots.map((slot) => `- ${slot.template.name}: the text must read EXACTLY "${translationFor(slot.template.id) ?? analysis.text}"`).join('\n')}
+- Quote the translated text verbatim in the prompt, in the "${analysis.typography_style || 'original'}" typography
+- Change NOTHING else: same character_action, composition, colors and "${analysis.style}" style
+` : ''}
 🎨 PROMPT RULES:
 - Keep prompts SHORT (under 400 characters)
 - Describe the design elements only (characters, text, graphics)
@@ -302,119 +423,19 @@ ALL variants must show the SAME pose/action.
 
 Return ONLY JSON array:
 [
-  {"id": 1, "strategy": "Safe Recreation", "prompt": "..."},
-  {"id": 2, "strategy": "Phrase Variation", "prompt": "..."},
-  {"id": 3, "strategy": "Element Tweak", "prompt": "..."},
-  {"id": 4, "strategy": "Artistic Treatment", "prompt": "..."}
+${slots.map((slot) => `  {"id": ${slot.id}, "strategy": ${JSON.stringify(slot.template.name)}, "prompt": "..."}`).join(',\n')}
 ]`;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    console.log("🤖 Gemini raw response:", text);
-
-    // Parse the JSON response
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error("Failed to extract JSON array from response");
-    }
-
-    let jsonStr = jsonMatch[0];
-    console.log("📋 Extracted JSON strategies (count check):", jsonStr.match(/"id":\s*\d+/g)?.length || 0, "strategies found");
-
-    // Clean common JSON issues from LLM responses
-    // Fix unescaped quotes and backslashes in prompt strings
-    try {
-      // First attempt: parse as-is
-      const strategies: RemixStrategy[] = JSON.parse(jsonStr);
-      console.log("✅ JSON parsed successfully");
-      
-      // Validate we got 4 strategies
-      if (strategies.length !== 4) {
-        throw new Error(`Expected 4 strategies, got ${strategies.length}`);
-      }
-      
-      return strategies;
-    } catch (firstError) {
-      console.log("⚠️ First parse failed, attempting to clean JSON...");
-      
-      // Try to fix common issues
-      try {
-        // More robust parsing - find objects by looking for id fields
-        const strategies: RemixStrategy[] = [];
-        
-        // Split by object boundaries more carefully
-        const objectRegex = /\{\s*"id"\s*:\s*(\d+)\s*,\s*"strategy"\s*:\s*"([^"]+)"\s*,\s*"prompt"\s*:\s*"((?:[^"\\]|\\.)*)"\s*\}/g;
-        let match;
-        
-        while ((match = objectRegex.exec(jsonStr)) !== null) {
-          strategies.push({
-            id: parseInt(match[1]),
-            strategy: match[2],
-            prompt: match[3]
-              // Clean up escape sequences
-              .replace(/\\n/g, ' ')
-              .replace(/\\r/g, '')
-              .replace(/\\t/g, ' ')
-              .replace(/\\"/g, '"')
-              .replace(/\\'/g, "'")
-              .replace(/\\\\/g, '\\')
-              .replace(/\s+/g, ' ')
-              .trim()
-          });
-        }
-        
-        if (strategies.length === 0) {
-          // Fallback: try even more lenient parsing
-          console.log("⚠️ Regex extraction failed, trying line-by-line...");
-          
-          // Extract by looking for the fields separately
-          const ids = [...jsonStr.matchAll(/"id"\s*:\s*(\d+)/g)].map(m => parseInt(m[1]));
-          const stratNames = [...jsonStr.matchAll(/"strategy"\s*:\s*"([^"]+)"/g)].map(m => m[1]);
-          const prompts = [...jsonStr.matchAll(/"prompt"\s*:\s*"([^"]+(?:[^"\\]|\\.)*)"/g)].map(m => 
-            m[1]
-              .replace(/\\n/g, ' ')
-              .replace(/\\r/g, '')
-              .replace(/\\t/g, ' ')
-              .replace(/\\"/g, '"')
-              .replace(/\\'/g, "'")
-              .replace(/\\\\/g, '\\')
-              .replace(/\s+/g, ' ')
-              .trim()
-          );
-          
-          if (ids.length === 4 && stratNames.length === 4 && prompts.length === 4) {
-            for (let i = 0; i < 4; i++) {
-              strategies.push({
-                id: ids[i],
-                strategy: stratNames[i],
-                prompt: prompts[i]
-              });
-            }
-          } else {
-            throw new Error(`Mismatched field counts: ${ids.length} ids, ${stratNames.length} strategies, ${prompts.length} prompts`);
-          }
-        }
-        
-        console.log("✅ JSON cleaned and parsed successfully");
-        
-        // Validate we got 4 strategies
-        if (strategies.length !== 4) {
-          throw new Error(`Expected 4 strategies, got ${strategies.length}`);
-        }
-        
-        return strategies;
-      } catch (secondError) {
-        console.error("❌ Failed to parse even after cleaning");
-        console.error("Original error:", firstError);
-        console.error("Cleaning error:", secondError);
-        console.error("JSON string:", jsonStr);
-        throw firstError; // Throw original error for debugging
-      }
-    }
+    // JSON mode + runtime validation (exactly one strategy per slot, re-asks once)
+    const strategies = await generateStructured(model, [prompt], remixStrategiesSchema(expected));
+    console.log(`✅ ${strategies.length} strategies validated`);
+    return withTemplates(strategies);
   } catch (error) {
     console.error("Error generating remix strategies:", error);
+    // Keep the typed schema error (issues + raw reply) for callers
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
     throw new Error(
       `Failed to generate remix strategies: ${error instanceof Error ? error.message : "Unknown error"}`
     );
@@ -458,7 +479,7 @@ function extractImageFromGeminiResponse(response: any): string {
  * @param imageData - Base64 encoded image to validate
  * @returns Object with isIsolatedDesign boolean and reason string
  */
-async function validateGeneratedImage(imageData: string): Promise<{ isIsolatedDesign: boolean; reason: string }> {
+export async function validateGeneratedImage(imageData: string): Promise<{ isIsolatedDesign: boolean; reason: string }> {
   try {
     console.log('🔍 Validating generated image...');
     
@@ -482,8 +503,11 @@ Respond with ONLY valid JSON:
       },
     };
 
-    const result = await model.generateContent([prompt, imagePart]);
+    const result = await withResilience('gemini', 'mockup validation', (signal) =>
+      model.generateContent([prompt, imagePart], { signal })
+    );
     const response = await result.response;
+    recordGeminiUsage(model, 'mockup validation', response);
     const text = response.text();
     
     // Parse JSON response
@@ -507,6 +531,46 @@ Respond with ONLY valid JSON:
   }
 }
 
+/**
+ * TEXT FIDELITY LAYER: Read back the lettering in a generated variant
+ * Uses gemini-2.5-flash vision; the caller compares it to the expected phrase.
+ *
+ * @param imageData - Base64 encoded variant image
+ * @returns The visible text ("" if the design has none)
+ */
+export async function readDesignText(imageData: string): Promise<string> {
+  try {
+    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+
+    const prompt = `Transcribe ALL visible text in this graphic design EXACTLY as it is spelled in the image.
+
+- Read CHARACTER BY CHARACTER - do NOT correct spelling mistakes, report them as drawn
+- Do NOT guess what the text was meant to say
+- Join separate lines with a single space, top to bottom
+- If there is no text, return an empty string
+
+Return JSON: { "text": "..." }`;
+
+    const imagePart = {
+      inlineData: {
+        data: imageData.split(",")[1] || imageData,
+        mimeType: "image/png",
+      },
+    };
+
+    const { text } = await generateStructured(model, [prompt, imagePart], designTextSchema);
+    return text;
+  } catch (error) {
+    console.error("Error reading design text:", error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to read design text: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
 /**
  * Generate image with Gemini using different prompt tiers
  * Each tier is progressively more aggressive about preventing mockups
@@ -514,12 +578,13 @@ Respond with ONLY valid JSON:
  * Background removal happens AFTER generation, so we don't specify
  * any background color in the prompts - just focus on the design elements.
  */
-async function generateWithGeminiTiered(
+export async function generateWithGeminiTiered(
   model: any,
   strategy: RemixStrategy,
   referenceImage: string | null,
   tier: 'normal' | 'aggressive' | 'no-reference',
-  textColor?: string
+  textColor?: string,
+  extraReferences: string[] = []
 ): Promise<string> {
   
   // Determine if we need a colored background to preserve light-colored text/elements
@@ -538,17 +603,22 @@ async function generateWithGeminiTiered(
   let prompt: string;
   
   const basePrompt = strategy.prompt;
+
+  // Mood board: the prompt already describes the blend, the images show each ingredient
+  const moodBoardInstruction = referenceImage && extraReferences.length > 0
+    ? `\nThe ${extraReferences.length + 1} reference images are a mood board - blend them as described (e.g. the subject of one in the art style of another) into ONE new design. Do not copy any single reference.`
+    : '';
   
   if (tier === 'normal') {
     prompt = `Inspired by the reference image, ${basePrompt}
 
-Keep the EXACT same pose/action from the reference.
+Keep the EXACT same pose/action from the reference.${moodBoardInstruction}
 Generate only the design elements (characters, text, graphics).${bgInstruction}`;
   } else if (tier === 'aggressive') {
     prompt = `${basePrompt}
 
 IMPORTANT: Generate ONLY the artwork itself - no t-shirts or products.
-Keep the EXACT same pose/action.${bgInstruction}`;
+Keep the EXACT same pose/action.${moodBoardInstruction}${bgInstruction}`;
   } else {
     // no-reference tier - don't use the reference image at all
     prompt = `Create a flat 2D graphic illustration: ${basePrompt}
@@ -559,194 +629,326 @@ Generate only the design elements (characters, text, graphics).${bgInstruction}`
   // Prepare content parts
   const contentParts: any[] = [prompt];
   
-  // Add reference image for normal and aggressive tiers
+  // Add reference image(s) for normal and aggressive tiers
   if (referenceImage && tier !== 'no-reference') {
-    contentParts.push({
-      inlineData: {
-        data: referenceImage.split(",")[1] || referenceImage,
-        mimeType: "image/png",
-      },
-    });
+    for (const image of [referenceImage, ...extraReferences]) {
+      contentParts.push({
+        inlineData: {
+          data: image.split(",")[1] || image,
+          mimeType: "image/png",
+        },
+      });
+    }
   }
 
-  const result = await model.generateContent(contentParts);
+  const result = await withResilience<GenerateContentResult>('gemini', `image generation (${tier})`, (signal) =>
+    model.generateContent(contentParts, { signal })
+  );
   const response = await result.response;
+  recordGeminiUsage(model, `image generation (${tier})`, response);
   
   return extractImageFromGeminiResponse(response);
 }
 
+
+/**
+ * Follow-up edit of a finished variant with gemini-2.5-flash-image
+ * The design comes in flattened on a solid canvas colour and must come back on
+ * the same colour, so background removal (chroma key) works as for generation.
+ */
+export async function editWithGemini(model: GenerativeModel, request: EditRequest): Promise<string> {
+  const maskRule = request.mask
+    ? '\n- The SECOND image is a mask: change ONLY the area that is WHITE in the mask. Everything in the BLACK area must stay exactly as it is.'
+    : '';
+
+  const prompt = `Edit this graphic design: ${request.instruction}
+
+RULES:
+- Change ONLY what the instruction asks for. Keep every other element, the layout, colors, typography and art style exactly the same.${maskRule}
+- Keep the solid ${request.canvasColor} background filling the ENTIRE canvas - no t-shirts, mockups, frames, boxes or new background elements.
+- Return the complete design at the same size and framing.`;
+
+  const contentParts: Part[] = [
+    { text: prompt },
+    { inlineData: { data: request.imageData.split(",")[1] || request.imageData, mimeType: "image/png" } },
+  ];
+  if (request.mask) {
+    contentParts.push({ inlineData: { data: request.mask.split(",")[1] || request.mask, mimeType: "image/png" } });
+  }
+
+  const result = await withResilience<GenerateContentResult>('gemini', 'variant edit', (signal) =>
+    model.generateContent(contentParts, { signal })
+  );
+  recordGeminiUsage(model, 'variant edit', result.response);
+  return extractImageFromGeminiResponse(result.response);
+}
+
+/**
+ * Read a variant's text back and score it against the expected phrase.
+ * Returns null when the check can't run (provider has no vision model, or the
+ * read failed) - the check is advisory and never fails a variant.
+ */
+async function checkTextFidelity(
+  reader: ImageGenerationProvider,
+  imageData: string,
+  expectedText: string
+): Promise<Omit<TextFidelity, 'retries'> | null> {
+  if (!reader.readText) {
+    return null;
+  }
+  try {
+    const detected = await reader.readText(imageData);
+    const fidelity = scoreTextFidelity(expectedText, detected, TEXT_FIDELITY_THRESHOLD);
+    console.log(`🔤 Text check: "${detected}" vs "${expectedText}" → ${fidelity.score}`);
+    return fidelity;
+  } catch (error) {
+    console.warn('⚠️ Text fidelity check failed, skipping:', error);
+    return null;
+  }
+}
+
 /**
  * Step 3: Generate variant images with TIERED FALLBACK SYSTEM
  * 
  * MULTI-LAYER DEFENSE AGAINST MOCKUPS:
  * 
+ * Tiers come from the provider pipeline (see lib/image-providers).
+ * Default order:
  * TIER 1: Normal Gemini generation with reference image
  * TIER 2: Aggressive prompt with reference image  
  * TIER 3: Aggressive prompt WITHOUT reference image
  * TIER 4: Recraft fallback (GUARANTEED isolated design)
  * 
  * After generation:
- * 1. Validate output is isolated design (not mockup)
- * 2. Remove background with Recraft
- * 3. Normalize to POD-ready specs with Sharp (4500x5400, 300 DPI)
+ * 1. Validate output is isolated design (not mockup) - done by the provider
+ *    and, for strategies that keep the text, read the text back and regenerate
+ *    on misspellings (TEXT_FIDELITY_THRESHOLD / TEXT_FIDELITY_RETRIES)
+ * 2. Remove background with the background provider (Recraft by default)
+ * 3. Score similarity to the source (pHash + SSIM) to flag near-copies
+ * 4. Normalize to POD-ready specs with Sharp (4500x5400, 300 DPI)
  * 
  * Each variant includes colorClassification for per-variant background selection.
+ * Progress is reported through options.onProgress / options.onVariant.
+ *
+ * Returns one result per strategy (status 'ok' | 'failed'), so callers can keep
+ * whatever succeeded and retry only the failed strategies.
  */
 export async function generateVariantImages(
   originalImage: string,
   strategies: RemixStrategy[],
-  analysis?: DesignAnalysis
-): Promise<GeneratedVariant[]> {
+  analysis?: DesignAnalysis,
+  options: GenerateVariantOptions = {}
+): Promise<VariantGenerationResult[]> {
+  const { onProgress, onVariant, extraReferences = [] } = options;
   // Extract textColor for backward compatibility
   const textColor = analysis?.text_color;
   try {
     console.log("🚀 Starting variant generation with tiered fallback system...");
     
-    // Use Gemini 2.5 Flash Image model (supports image input + output)
-    const geminiImageModel = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image" });
-
-    // Import Recraft's functions
-    const { removeBackgroundWithRecraft, generateVariantImagesWithRecraft } = await import('./recraft');
+    // Resolve the provider chain (env-configurable, overridable per call)
+    const { resolveGenerationPipeline } = await import('./image-providers');
+    const pipeline = resolveGenerationPipeline(options.pipeline);
+    console.log(`🔗 Tier order: ${pipeline.tiers.map(t => t.id).join(' → ')}`);
     
     // Import Sharp normalization
-    const { normalizeToPODSize } = await import('./image-utils');
+    const { normalizeToPODSize, trimTransparentPixels } = await import('./image-utils');
+    const { measureSourceSimilarity } = await import('./image-hash');
 
-    // Generate all variants in parallel
-    const generationPromises = strategies.map(async (strategy) => {
+    // Run one strategy through the tiers and post-processing
+    // attempt.tier tracks the last tier tried, for failure reporting
+    const produceVariant = async (strategy: RemixStrategy, attempt: { tier: string | null }) => {
       console.log(`\n🎨 ===== VARIANT ${strategy.id}: ${strategy.strategy} =====`);
       
       let generatedImageData: string | null = null;
       let usedTier: string = '';
+      let hasCleanBackground = false;
+      let acceptedIndex = -1;
+      let vector: VectorSource | null = null;
+      const attempts: TierAttempt[] = [];
       
-      // TIER 1: Normal generation with reference
-      try {
-        console.log(`📍 TIER 1: Normal generation with reference...`);
-        generatedImageData = await generateWithGeminiTiered(
-          geminiImageModel, 
-          strategy, 
-          originalImage, 
-          'normal',
-          textColor
-        );
+      // Text fidelity: strategies that keep the phrase are read back and retried on typos
+      const expectedText = expectedVariantText(strategy, analysis?.text);
+      
+      // Text-only designs that keep their phrase: set real type first, AI tiers as fallback
+      const tiers = pipeline.typographyTier && analysis?.design_type === 'text_only' && expectedText
+        ? [pipeline.typographyTier, ...pipeline.tiers]
+        : pipeline.tiers;
+      let textFidelity: TextFidelity | null = null;
+      let textRetries = 0;
+      // Closest spelling so far - used (and flagged) if the retries don't fix it
+      let bestMismatch: {
+        imageData: string;
+        hasCleanBackground: boolean;
+        tier: string;
+        attemptIndex: number;
+        fidelity: Omit<TextFidelity, 'retries'>;
+      } | null = null;
+      
+      const acceptBestMismatch = () => {
+        if (!bestMismatch) return;
+        generatedImageData = bestMismatch.imageData;
+        hasCleanBackground = bestMismatch.hasCleanBackground;
+        usedTier = bestMismatch.tier;
+        acceptedIndex = bestMismatch.attemptIndex;
+        textFidelity = { ...bestMismatch.fidelity, retries: textRetries };
+        attempts[acceptedIndex] = {
+          ...attempts[acceptedIndex],
+          outcome: 'accepted',
+          reason: `Accepted with text mismatch after ${textRetries} retries: read "${bestMismatch.fidelity.detected}" (score ${bestMismatch.fidelity.score})`,
+        };
+        console.log(`⚠️ ${usedTier} kept with flagged text (score ${bestMismatch.fidelity.score})`);
+        onProgress?.({ type: 'tier_succeeded', variantId: strategy.id, tier: usedTier });
+      };
+      
+      for (let i = 0; i < tiers.length && !generatedImageData; i++) {
+        const tier = tiers[i];
+        const next = tiers[i + 1];
+        const nextLabel = next ? `Moving to ${next.label}` : 'No tiers left';
+        attempt.tier = tier.label;
         
-        // Validate the output
-        const validation = await validateGeneratedImage(generatedImageData);
-        if (validation.isIsolatedDesign) {
-          usedTier = 'Tier 1 (Normal)';
-          console.log(`✅ TIER 1 SUCCESS: ${validation.reason}`);
-        } else {
-          console.log(`❌ TIER 1 FAILED: ${validation.reason} - Moving to Tier 2`);
-          generatedImageData = null;
+        // A provider that keeps failing is skipped until its circuit cools down
+        if (isCircuitOpen(tier.provider.name)) {
+          const reason = `${tier.provider.name} circuit open - skipped`;
+          console.log(`⏭️ ${tier.label} SKIPPED: ${reason} - ${nextLabel}`);
+          attempts.push({ tier: tier.label, provider: tier.provider.name, model: null, outcome: 'error', reason });
+          onProgress?.({ type: 'tier_failed', variantId: strategy.id, tier: tier.label, reason });
+          continue;
         }
-      } catch (error) {
-        console.log(`❌ TIER 1 ERROR: ${error} - Moving to Tier 2`);
-        generatedImageData = null;
-      }
-      
-      // TIER 2: Aggressive prompt with reference
-      if (!generatedImageData) {
+        
         try {
-          console.log(`📍 TIER 2: Aggressive prompt with reference...`);
-          generatedImageData = await generateWithGeminiTiered(
-            geminiImageModel, 
-            strategy, 
-            originalImage, 
-            'aggressive',
-            textColor
-          );
+          console.log(`📍 ${tier.label}: generating with ${tier.provider.name}...`);
+          onProgress?.({ type: 'tier_attempt', variantId: strategy.id, tier: tier.label, provider: tier.provider.name });
+          const result = await tier.provider.generate({
+            strategy,
+            referenceImage: originalImage,
+            extraReferences,
+            mode: tier.mode,
+            textColor,
+            analysis,
+          });
           
-          const validation = await validateGeneratedImage(generatedImageData);
-          if (validation.isIsolatedDesign) {
-            usedTier = 'Tier 2 (Aggressive)';
-            console.log(`✅ TIER 2 SUCCESS: ${validation.reason}`);
+          // Vector type is set from the phrase itself - nothing to read back
+          const fidelity = result.isIsolatedDesign && expectedText && !result.vector
+            ? await checkTextFidelity(pipeline.analysisProvider, result.imageData, expectedText)
+            : null;
+          const textMismatch = fidelity !== null && !fidelity.passed;
+          
+          attempts.push({
+            tier: tier.label,
+            provider: tier.provider.name,
+            model: result.model ?? null,
+            outcome: result.isIsolatedDesign && !textMismatch ? 'accepted' : 'rejected',
+            reason: textMismatch
+              ? `Text mismatch: read "${fidelity.detected}", expected "${expectedText}" (score ${fidelity.score})`
+              : result.reason,
+          });
+          
+          if (textMismatch) {
+            if (!bestMismatch || fidelity.score > bestMismatch.fidelity.score) {
+              bestMismatch = {
+                imageData: result.imageData,
+                hasCleanBackground: result.hasCleanBackground,
+                tier: tier.label,
+                attemptIndex: attempts.length - 1,
+                fidelity,
+              };
+            }
+            if (textRetries < TEXT_FIDELITY_RETRIES) {
+              textRetries++;
+              console.log(`🔤 ${tier.label} TEXT MISMATCH: read "${fidelity.detected}" (score ${fidelity.score}) - regenerating (${textRetries}/${TEXT_FIDELITY_RETRIES})`);
+              onProgress?.({ type: 'tier_failed', variantId: strategy.id, tier: tier.label, reason: attempts[attempts.length - 1].reason });
+              i--; // Same tier again
+              continue;
+            }
+            acceptBestMismatch();
+          } else if (result.isIsolatedDesign) {
+            generatedImageData = result.imageData;
+            hasCleanBackground = result.hasCleanBackground;
+            usedTier = tier.label;
+            acceptedIndex = attempts.length - 1;
+            textFidelity = fidelity ? { ...fidelity, retries: textRetries } : null;
+            vector = result.vector ?? null;
+            console.log(`✅ ${tier.label} SUCCESS: ${result.reason}`);
+            onProgress?.({ type: 'tier_succeeded', variantId: strategy.id, tier: tier.label });
           } else {
-            console.log(`❌ TIER 2 FAILED: ${validation.reason} - Moving to Tier 3`);
-            generatedImageData = null;
+            console.log(`❌ ${tier.label} FAILED: ${result.reason} - ${nextLabel}`);
+            onProgress?.({ type: 'tier_failed', variantId: strategy.id, tier: tier.label, reason: result.reason });
           }
         } catch (error) {
-          console.log(`❌ TIER 2 ERROR: ${error} - Moving to Tier 3`);
-          generatedImageData = null;
+          console.log(`❌ ${tier.label} ERROR: ${error} - ${nextLabel}`);
+          attempts.push({
+            tier: tier.label,
+            provider: tier.provider.name,
+            model: null,
+            outcome: 'error',
+            reason: error instanceof Error ? error.message : String(error),
+          });
+          onProgress?.({
+            type: 'tier_failed',
+            variantId: strategy.id,
+            tier: tier.label,
+            reason: error instanceof Error ? error.message : String(error),
+          });
         }
       }
       
-      // TIER 3: No reference image
       if (!generatedImageData) {
-        try {
-          console.log(`📍 TIER 3: Generation WITHOUT reference image...`);
-          generatedImageData = await generateWithGeminiTiered(
-            geminiImageModel, 
-            strategy, 
-            null, 
-            'no-reference',
-            textColor
-          );
-          
-          const validation = await validateGeneratedImage(generatedImageData);
-          if (validation.isIsolatedDesign) {
-            usedTier = 'Tier 3 (No Reference)';
-            console.log(`✅ TIER 3 SUCCESS: ${validation.reason}`);
-          } else {
-            console.log(`❌ TIER 3 FAILED: ${validation.reason} - Moving to Tier 4 (Recraft Fallback)`);
-            generatedImageData = null;
-          }
-        } catch (error) {
-          console.log(`❌ TIER 3 ERROR: ${error} - Moving to Tier 4 (Recraft Fallback)`);
-          generatedImageData = null;
-        }
+        // Later tiers failed outright - a misspelled design beats none
+        acceptBestMismatch();
       }
-      
-      // TIER 4: Recraft fallback - GUARANTEED to produce isolated design
       if (!generatedImageData) {
-        try {
-          console.log(`📍 TIER 4: RECRAFT FALLBACK (guaranteed isolated design)...`);
-          
-          // Use Recraft to generate - it ONLY produces isolated graphics
-          const recraftResults = await generateVariantImagesWithRecraft([strategy]);
-          
-          if (recraftResults.length > 0 && recraftResults[0].design?.imageData) {
-            generatedImageData = recraftResults[0].design.imageData;
-            usedTier = 'Tier 4 (Recraft Fallback)';
-            console.log(`✅ TIER 4 SUCCESS: Recraft generated isolated design`);
-          } else {
-            throw new Error('Recraft returned no image data');
-          }
-        } catch (error) {
-          console.error(`❌ TIER 4 FAILED: ${error}`);
-          throw new Error(`All generation tiers failed for variant ${strategy.id}`);
-        }
+        throw new Error(`All generation tiers failed for variant ${strategy.id}`);
       }
       
+      const accepted = attempts[acceptedIndex];
       console.log(`📊 Generation complete using: ${usedTier}`);
       
       // POST-PROCESSING PIPELINE
       console.log(`🧹 Removing background for variant ${strategy.id}...`);
       
-      // Remove background using Recraft (skip if already from Recraft generation)
+      // Remove background (skip if the provider already produced a clean background)
       let cleanedImageData: string;
-      if (usedTier === 'Tier 4 (Recraft Fallback)') {
-        // Recraft generation already has clean background
+      let backgroundMethod: string | null = null;
+      if (hasCleanBackground) {
         cleanedImageData = generatedImageData;
-        console.log(`⏭️ Skipping background removal (Recraft output already clean)`);
+        console.log(`⏭️ Skipping background removal (${usedTier} output already clean)`);
       } else {
         // Log input size for background removal tracking
         const inputSize = generatedImageData.length;
-        cleanedImageData = await removeBackgroundWithRecraft(generatedImageData);
+        // Green-screen / flat backgrounds are keyed locally; the provider handles the rest
+        const removal = await removeBackgroundWithFallback(generatedImageData, pipeline.backgroundProvider);
+        cleanedImageData = removal.imageData;
+        backgroundMethod = removal.method;
         const outputSize = cleanedImageData.length;
         console.log(`🧹 BG removal: ${Math.round(inputSize/1024)}KB → ${Math.round(outputSize/1024)}KB (${Math.round(outputSize/inputSize*100)}%)`);
       }
-      
-      // Import trim function
-      const { trimTransparentPixels } = await import('./image-utils');
+      onProgress?.({ type: 'background_removed', variantId: strategy.id, skipped: hasCleanBackground });
       
       // TRIM FIRST - before normalizing (removes excess transparent padding)
       console.log(`✂️ Trimming transparent pixels for variant ${strategy.id}...`);
       const trimmedImageData = await trimTransparentPixels(cleanedImageData);
       
+      // ORIGINALITY: how close is the variant to the source design? (advisory)
+      // Mood boards keep the score of the closest reference
+      let similarity: SourceSimilarity | null = null;
+      try {
+        const scores = await Promise.all(
+          [originalImage, ...extraReferences].map((reference) =>
+            measureSourceSimilarity(reference, trimmedImageData, SIMILARITY_TOO_CLOSE_THRESHOLD)
+          )
+        );
+        similarity = scores.reduce((closest, score) => (score.score > closest.score ? score : closest));
+        console.log(`🪞 Variant ${strategy.id} similarity to source: ${similarity.score}% (pHash ${similarity.phash}, SSIM ${similarity.ssim})${similarity.tooClose ? ' - TOO CLOSE' : ''}`);
+      } catch (error) {
+        console.warn(`⚠️ Similarity scoring failed for variant ${strategy.id}:`, error);
+      }
+      
       console.log(`📐 Normalizing variant ${strategy.id} to POD specs...`);
       
       // THEN normalize (center the trimmed design on POD canvas)
       // This replaces Crisp Upscale - Sharp is FREE and gives consistent dimensions
       const podReadyImageData = await normalizeToPODSize(trimmedImageData);
+      onProgress?.({ type: 'normalized', variantId: strategy.id });
       
       console.log(`✅ Variant ${strategy.id} complete (${usedTier} → BG removed → POD normalized)`);
       
@@ -772,21 +974,64 @@ export async function generateVariantImages(
       
       console.log(`🎨 Variant ${strategy.id} color: ${colorClassification.recommendedBackground} (${colorClassification.productHint})`);
       
-      return {
+      const variant: GeneratedVariant = {
         id: strategy.id,
         strategy: strategy.strategy,
+        strategyId: strategy.strategyId,
         design: {
           imageData: podReadyImageData,
           prompt: strategy.prompt,
         },
         colorClassification,
+        provenance: {
+          analysis: analysis ?? null,
+          prompt: strategy.prompt,
+          strategyId: strategy.strategyId ?? null,
+          provider: accepted.provider,
+          model: accepted.model,
+          usedTier,
+          attempts,
+          backgroundRemoval: {
+            provider: backgroundMethod,
+            skipped: hasCleanBackground,
+          },
+          textFidelity,
+          vector,
+          generatedAt: new Date().toISOString(),
+        },
+        similarity,
       };
+      
+      await onVariant?.(variant, usedTier);
+      
+      return { variant, tier: usedTier };
+    };
+
+    // Generate all variants in parallel - each one succeeds or fails on its own
+    const generationPromises = strategies.map(async (strategy): Promise<VariantGenerationResult> => {
+      const attempt: { tier: string | null } = { tier: null };
+      try {
+        const { variant, tier } = await produceVariant(strategy, attempt);
+        return { status: 'ok', id: strategy.id, strategy: strategy.strategy, tier, variant };
+      } catch (error) {
+        console.error(`❌ Variant ${strategy.id} failed:`, error);
+        const failed: FailedVariant = {
+          id: strategy.id,
+          strategy: strategy.strategy,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          tier: attempt.tier,
+        };
+        onProgress?.({ type: 'variant_failed', variant: failed });
+        return failed;
+      }
     });
     
-    const variants = await Promise.all(generationPromises);
-    console.log(`\n✅ ===== ALL ${variants.length} VARIANTS GENERATED SUCCESSFULLY =====\n`);
+    const results = await Promise.all(generationPromises);
+    const succeeded = results.filter((result) => result.status === 'ok').length;
+    console.log(`\n✅ ===== ${succeeded}/${results.length} VARIANTS GENERATED =====\n`);
     
-    return variants;
+    return results;
   } catch (error) {
     console.error("Error generating variant images:", error);
     throw new Error(
@@ -0,0 +1,221 @@
+/**
+ * Typed generation progress events, streamed to the browser as Server-Sent Events.
+ * This file contains NO server-side dependencies (shared by routes and client).
+ */
+
+import type { DesignAnalysis } from './design-utils';
+import type { ColorMapping } from './palettes';
+import type { SourceSimilarity } from './source-similarity';
+import type { TextFidelity } from './text-fidelity';
+
+export type GenerationStage = 'preprocess' | 'analysis' | 'strategies' | 'variants' | 'upload' | 'done';
+
+/**
+ * A variant that could not be produced
+ * tier is the last tier attempted (null if generation never started)
+ */
+export interface FailedVariant {
+  id: number;
+  strategy: string;
+  status: 'failed';
+  error: string;
+  tier: string | null;
+}
+
+/**
+ * Per-variant progress emitted from inside generateVariantImages
+ */
+export type VariantProgressEvent =
+  | { type: 'tier_attempt'; variantId: number; tier: string; provider: string }
+  | { type: 'tier_failed'; variantId: number; tier: string; reason: string }
+  | { type: 'tier_succeeded'; variantId: number; tier: string }
+  | { type: 'background_removed'; variantId: number; skipped: boolean }
+  | { type: 'normalized'; variantId: number }
+  | { type: 'variant_failed'; variant: FailedVariant };
+
+/**
+ * One tier tried for a variant, with the validation reason / error it returned
+ */
+export interface TierAttempt {
+  tier: string;
+  provider: string;
+  model: string | null;
+  outcome: 'accepted' | 'rejected' | 'error';
+  reason: string;
+}
+
+/**
+ * How a variant was produced - enough to explain or reproduce it later.
+ * Stored on variants.provenance.
+ */
+export interface VariantProvenance {
+  analysis: DesignAnalysis | null;
+  prompt: string;
+  strategyId: string | null;
+  provider: string;
+  model: string | null;
+  usedTier: string;
+  attempts: TierAttempt[];
+  // provider is null when the generated image already had a clean background
+  backgroundRemoval: { provider: string | null; skipped: boolean };
+  // Read-back of the variant's text vs. the original phrase (null when not checked)
+  textFidelity?: TextFidelity | null;
+  // Set on variants made by editing another variant (POST /api/variants/[id]/edit)
+  edit?: { parentVariantId: string; instruction: string; masked: boolean } | null;
+  // SVG source of vector typography variants (text-only designs)
+  vector?: { svg: string; layout: string; font: string } | null;
+  // Set on variants made by a palette swap (POST /api/variants/[id]/palette)
+  recolor?: { parentVariantId: string; mapping: ColorMapping[]; paletteName: string | null } | null;
+  generatedAt: string;
+}
+
+/**
+ * A finished variant, already uploaded (URLs only - never base64 over the wire)
+ * tier is the tier that produced it
+ */
+export interface ReadyVariant {
+  id: number;
+  strategy: string;
+  strategyId?: string;
+  status: 'ok';
+  tier: string;
+  design: {
+    imageData: string;
+    imageUrl: string;
+    thumbnailUrl: string;
+    prompt: string;
+  };
+  colorClassification?: {
+    recommendedBackground: 'light' | 'dark';
+    productHint: string;
+  };
+  provenance?: VariantProvenance;
+  similarity?: SourceSimilarity | null;
+}
+
+/**
+ * Per-variant outcome of a generation run
+ */
+export type VariantResult = ReadyVariant | FailedVariant;
+
+/**
+ * Everything a generation stream can send
+ * `complete` carries a route-specific payload (job view for /api/remix,
+ * batch info for /api/projects/[id]/regenerate).
+ */
+export type GenerationEvent =
+  | VariantProgressEvent
+  | { type: 'job'; jobId: string }
+  | { type: 'stage'; stage: GenerationStage }
+  | { type: 'analysis'; analysis: DesignAnalysis }
+  | { type: 'strategies'; strategies: Array<{ id: number; strategy: string }> }
+  | { type: 'variant_ready'; variant: ReadyVariant }
+  | { type: 'complete'; result: Record<string, unknown> }
+  | { type: 'error'; message: string };
+
+export type GenerationEventHandler = (event: GenerationEvent) => void;
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+} as const;
+
+/**
+ * Whether the client asked for a streamed response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Format one event as an SSE frame
+ */
+export function encodeGenerationEvent(event: GenerationEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Build an SSE response around a producer.
+ * The producer keeps running if the browser disconnects - events are just dropped,
+ * so background work (job state, uploads) still completes.
+ */
+export function createGenerationStream(
+  produce: (send: GenerationEventHandler) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send: GenerationEventHandler = (event) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(encodeGenerationEvent(event)));
+        } catch {
+          open = false; // Client went away
+        }
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (open) {
+          open = false;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Client: read an SSE response body and dispatch each event
+ * Resolves when the stream ends (normally or because the connection dropped).
+ */
+export async function readGenerationStream(
+  response: Response,
+  onEvent: GenerationEventHandler
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice(6))
+        .join('\n');
+
+      if (data) {
+        try {
+          onEvent(JSON.parse(data) as GenerationEvent);
+        } catch (parseError) {
+          console.warn('Skipping malformed generation event:', parseError);
+        }
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Pre-processing cache - Server-only
+ * Background removal of the uploaded design and its DesignAnalysis are paid calls
+ * that always give the same answer for the same picture, so they are cached in
+ * the image_cache table, keyed by SHA-256 of the bytes.
+ *
+ * Behind it, a fine perceptual hash (see fingerprintImage) catches the same
+ * picture saved as other bytes. It must match exactly: a look-alike (same
+ * layout, "BEER DAD" vs "COFFEE DAD") gets its own analysis, and nobody's
+ * cleaned upload is served for a merely similar picture.
+ *
+ * A cache failure (table missing, storage error) never fails the remix -
+ * it just falls through to the provider call.
+ */
+
+import { removeBackgroundWithFallback } from './background-removal';
+import type { DesignAnalysis } from './design-utils';
+import type { ImageGenerationProvider } from './image-providers/types';
+import { fingerprintImage, sha256OfDataUrl, type ImageFingerprint } from './image-hash';
+import { serviceClient, uploadToStorage } from './storage.server';
+import type { ImageCacheInsert, ImageCacheRow } from './supabase/types';
+
+// Entries checked when falling back to the perceptual hash
+const PHASH_CANDIDATES = 5;
+
+/**
+ * Find a usable cache entry: these exact bytes first, then the same picture
+ * (identical perceptual hash) saved as other bytes
+ * @param usable - Whether an entry has the result wanted, from the same provider
+ */
+async function findCacheEntry(
+  fingerprint: ImageFingerprint,
+  usable: (entry: ImageCacheRow) => boolean
+): Promise<ImageCacheRow | null> {
+  const { data, error } = await serviceClient
+    .from('image_cache')
+    .select('*')
+    .eq('sha256', fingerprint.sha256)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read image cache: ${error.message}`);
+  }
+  const exact = data as ImageCacheRow | null;
+  if (exact && usable(exact)) {
+    return exact;
+  }
+
+  const { data: similarData, error: similarError } = await serviceClient
+    .from('image_cache')
+    .select('*')
+    .eq('phash', fingerprint.phash)
+    .neq('sha256', fingerprint.sha256)
+    .order('updated_at', { ascending: false })
+    .limit(PHASH_CANDIDATES);
+
+  if (similarError) {
+    throw new Error(`Failed to read image cache: ${similarError.message}`);
+  }
+  const similar = ((similarData || []) as ImageCacheRow[]).find(usable) ?? null;
+  if (similar) {
+    console.log(`♻️ Same picture as cached ${similar.sha256.slice(0, 12)} (perceptual hash)`);
+  }
+  return similar;
+}
+
+async function saveCacheEntry(entry: ImageCacheInsert): Promise<void> {
+  const { error } = await serviceClient
+    .from('image_cache')
+    .upsert({ ...entry, updated_at: new Date().toISOString() } as never, { onConflict: 'sha256' });
+
+  if (error) {
+    throw new Error(`Failed to write image cache: ${error.message}`);
+  }
+}
+
+/**
+ * Remove the background of an uploaded design, reusing a cached result if this
+ * picture was cleaned by the same provider before.
+ * Returns the public URL of the cleaned reference image.
+ */
+export async function removeBackgroundCached(
+  imageData: string,
+  provider: ImageGenerationProvider
+): Promise<string> {
+  let fingerprint: ImageFingerprint | null = null;
+  try {
+    fingerprint = await fingerprintImage(imageData);
+    const entry = await findCacheEntry(
+      fingerprint,
+      (candidate) => !!candidate.cleaned_image_url && candidate.cleaned_by === provider.name
+    );
+    if (entry?.cleaned_image_url) {
+      console.log(`♻️ Cache hit: cleaned reference for ${fingerprint.sha256.slice(0, 12)}`);
+      return entry.cleaned_image_url;
+    }
+  } catch (error) {
+    console.warn('⚠️ Image cache lookup failed, removing background without cache:', error);
+  }
+
+  const cleaned = await removeBackgroundWithFallback(imageData, provider);
+  const sha256 = fingerprint?.sha256 ?? sha256OfDataUrl(imageData);
+  const cleanedImageUrl = await uploadToStorage(cleaned.imageData, `cache/${sha256}.png`);
+
+  // A stand-in result (provider was down) shouldn't be served on later uploads
+  if (cleaned.usedFallback || !fingerprint) {
+    return cleanedImageUrl;
+  }
+  try {
+    await saveCacheEntry({
+      ...fingerprint,
+      cleaned_image_url: cleanedImageUrl,
+      cleaned_by: provider.name,
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not cache cleaned reference:', error);
+  }
+  return cleanedImageUrl;
+}
+
+/**
+ * Analyze an uploaded design, reusing a cached analysis if this picture was
+ * analyzed by the same provider before
+ */
+export async function analyzeCached(
+  imageData: string,
+  provider: ImageGenerationProvider
+): Promise<DesignAnalysis> {
+  let fingerprint: ImageFingerprint | null = null;
+  try {
+    fingerprint = await fingerprintImage(imageData);
+    const entry = await findCacheEntry(
+      fingerprint,
+      (candidate) => !!candidate.analysis && candidate.analyzed_by === provider.name
+    );
+    if (entry?.analysis) {
+      console.log(`♻️ Cache hit: analysis for ${fingerprint.sha256.slice(0, 12)}`);
+      return entry.analysis as unknown as DesignAnalysis;
+    }
+  } catch (error) {
+    console.warn('⚠️ Image cache lookup failed, analyzing without cache:', error);
+  }
+
+  const analysis = await provider.analyze(imageData);
+
+  if (!fingerprint) {
+    return analysis;
+  }
+  try {
+    await saveCacheEntry({
+      ...fingerprint,
+      analysis: analysis as never,
+      analyzed_by: provider.name,
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not cache analysis:', error);
+  }
+  return analysis;
+}
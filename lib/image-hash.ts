@@ -0,0 +1,178 @@
+/**
+ * Image fingerprints - Server-only (uses sharp + node:crypto)
+ * SHA-256 identifies identical bytes (the pre-processing cache key); a
+ * fine-grained perceptual hash finds the same picture saved as other bytes.
+ * measureSourceSimilarity scores how close a variant is to its source design
+ * with a perceptual hash (dHash) and SSIM.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { DEFAULT_TOO_CLOSE_THRESHOLD, type SourceSimilarity } from './source-similarity';
+
+function dataUrlToBuffer(imageData: string): Buffer {
+  const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+  return Buffer.from(base64Data, 'base64');
+}
+
+/**
+ * SHA-256 of the raw image bytes (hex)
+ */
+export function sha256Hex(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Difference hash (size x size bits, 64 by default): shrink to (size+1) x size
+ * grayscale and compare each pixel with its right-hand neighbour.
+ * Transparent areas are flattened onto white. `size` must be a multiple of 4.
+ */
+export async function perceptualHash(buffer: Buffer, size = 8): Promise<string> {
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(size + 1, size, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let row = 0; row < size; row++) {
+    // One hex digit per 4 bits
+    for (let col = 0; col < size; col += 4) {
+      let nibble = 0;
+      for (let bit = col; bit < col + 4; bit++) {
+        const left = pixels[row * (size + 1) + bit];
+        const right = pixels[row * (size + 1) + bit + 1];
+        nibble = (nibble << 1) | (left > right ? 1 : 0);
+      }
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes (0 = same picture, 64 = opposite)
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * SHA-256 of an image data URL's bytes
+ */
+export function sha256OfDataUrl(imageData: string): string {
+  return sha256Hex(dataUrlToBuffer(imageData));
+}
+
+// Cache hash resolution: at 64x64 a one-letter edit flips bits, a lossless re-save doesn't
+const CACHE_PHASH_SIZE = 64;
+
+export interface ImageFingerprint {
+  sha256: string;  // hex, of the raw image bytes
+  phash: string;   // 1024 hex chars (64x64-bit difference hash)
+}
+
+/**
+ * Fingerprint an image data URL for the pre-processing cache
+ */
+export async function fingerprintImage(imageData: string): Promise<ImageFingerprint> {
+  const buffer = dataUrlToBuffer(imageData);
+  return {
+    sha256: sha256Hex(buffer),
+    phash: await perceptualHash(buffer, CACHE_PHASH_SIZE),
+  };
+}
+
+const SIMILARITY_SIZE = 64;
+const SSIM_WINDOW = 8;
+
+/**
+ * Design content only, as a 64x64 grayscale grid: flattened onto white,
+ * trimmed to the artwork and letterboxed, so padding / canvas size don't count
+ */
+async function similarityPixels(buffer: Buffer): Promise<Buffer> {
+  const flattened = await sharp(buffer).flatten({ background: '#ffffff' }).png().toBuffer();
+  let trimmed = flattened;
+  try {
+    trimmed = await sharp(flattened).trim({ background: '#ffffff', threshold: 10 }).toBuffer();
+  } catch {
+    // Blank image - nothing to trim
+  }
+  return sharp(trimmed)
+    .resize(SIMILARITY_SIZE, SIMILARITY_SIZE, { fit: 'contain', background: '#ffffff' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Mean SSIM over non-overlapping 8x8 windows (-1 to 1, 1 = identical)
+ */
+function structuralSimilarity(a: Buffer, b: Buffer): number {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const n = SSIM_WINDOW * SSIM_WINDOW;
+  let total = 0;
+  let windows = 0;
+
+  for (let wy = 0; wy < SIMILARITY_SIZE; wy += SSIM_WINDOW) {
+    for (let wx = 0; wx < SIMILARITY_SIZE; wx += SSIM_WINDOW) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const pa = a[y * SIMILARITY_SIZE + x];
+          const pb = b[y * SIMILARITY_SIZE + x];
+          sumA += pa;
+          sumB += pb;
+          sumAA += pa * pa;
+          sumBB += pb * pb;
+          sumAB += pa * pb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      windows++;
+    }
+  }
+  return total / windows;
+}
+
+/**
+ * How similar a variant is to its source design (perceptual hash + SSIM)
+ * Unrelated images land near 0; a re-encode of the same design near 100.
+ */
+export async function measureSourceSimilarity(
+  sourceImage: string,
+  variantImage: string,
+  threshold: number = DEFAULT_TOO_CLOSE_THRESHOLD
+): Promise<SourceSimilarity> {
+  const [source, variant] = await Promise.all([
+    similarityPixels(dataUrlToBuffer(sourceImage)),
+    similarityPixels(dataUrlToBuffer(variantImage)),
+  ]);
+  const [sourceHash, variantHash] = await Promise.all([
+    perceptualHash(await sharp(source, { raw: { width: SIMILARITY_SIZE, height: SIMILARITY_SIZE, channels: 1 } }).png().toBuffer()),
+    perceptualHash(await sharp(variant, { raw: { width: SIMILARITY_SIZE, height: SIMILARITY_SIZE, channels: 1 } }).png().toBuffer()),
+  ]);
+
+  // Random images differ in ~32 of 64 bits - scale so that reads as 0%
+  const phash = Math.round(Math.max(0, 1 - hammingDistance(sourceHash, variantHash) / 32) * 100);
+  const ssim = Math.round(Math.max(0, structuralSimilarity(source, variant)) * 100);
+  const score = Math.round((phash + ssim) / 2);
+
+  return { score, phash, ssim, threshold, tooClose: score >= threshold };
+}
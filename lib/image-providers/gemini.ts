@@ -0,0 +1,75 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  analyzeImage,
+  editWithGemini,
+  generateWithGeminiTiered,
+  readDesignText,
+  validateGeneratedImage,
+} from '../gemini';
+import type { EditRequest, ImageGenerationProvider, GenerationRequest, GenerationResult } from './types';
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+/**
+ * Gemini provider
+ * - analyze / readText: gemini-2.5-flash vision
+ * - generate: gemini-2.5-flash-image, validated against product mockups
+ *   (mood-board remixes send every reference image)
+ * - edit: gemini-2.5-flash-image, instruction (+ optional mask) on an existing variant
+ * - removeBackground / upscale: not supported (use Recraft or local)
+ */
+export function createGeminiProvider(): ImageGenerationProvider {
+  return {
+    name: 'gemini',
+
+    analyze: (imageData: string) => analyzeImage(imageData),
+
+    readText: (imageData: string) => readDesignText(imageData),
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      // Use Gemini 2.5 Flash Image model (supports image input + output)
+      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image" });
+
+      const imageData = await generateWithGeminiTiered(
+        model,
+        request.strategy,
+        request.mode === 'no-reference' ? null : request.referenceImage,
+        request.mode,
+        request.textColor,
+        request.mode === 'no-reference' ? [] : request.extraReferences
+      );
+
+      // Validate the output is an isolated design (not a mockup)
+      const validation = await validateGeneratedImage(imageData);
+
+      return {
+        imageData,
+        isIsolatedDesign: validation.isIsolatedDesign,
+        model: 'gemini-2.5-flash-image',
+        reason: validation.reason,
+        hasCleanBackground: false,
+      };
+    },
+
+    async edit(request: EditRequest): Promise<GenerationResult> {
+      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image" });
+      const imageData = await editWithGemini(model, request);
+
+      return {
+        imageData,
+        isIsolatedDesign: true,
+        model: 'gemini-2.5-flash-image',
+        reason: request.mask ? 'Masked edit' : 'Instruction edit',
+        hasCleanBackground: false, // Returned on the solid canvas colour
+      };
+    },
+
+    async removeBackground(): Promise<string> {
+      throw new Error('Gemini provider does not support background removal');
+    },
+
+    async upscale(): Promise<string> {
+      throw new Error('Gemini provider does not support upscaling');
+    },
+  };
+}
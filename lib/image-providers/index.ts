@@ -0,0 +1,130 @@
+import { blendDesignAnalyses, generateRemixStrategies } from '../gemini';
+import { mergeDesignAnalyses } from '../mood-board';
+import { createGeminiProvider } from './gemini';
+import { createRecraftProvider } from './recraft';
+import { createLocalProvider, localRemixStrategies } from './local';
+import { createTypographyProvider } from './typography';
+import type {
+  GenerationMode,
+  GenerationPipelineConfig,
+  GenerationTier,
+  ImageGenerationProvider,
+} from './types';
+
+export type {
+  EditRequest,
+  GenerationMode,
+  GenerationPipelineConfig,
+  GenerationRequest,
+  GenerationResult,
+  GenerationTier,
+  ImageGenerationProvider,
+  VectorSource,
+} from './types';
+export { createGeminiProvider } from './gemini';
+export { createRecraftProvider } from './recraft';
+export { createLocalProvider, localRemixStrategies, LOCAL_STUB_ANALYSIS } from './local';
+export { createTypographyProvider } from './typography';
+
+/**
+ * Default fallback chain (matches the original hard-wired tiers):
+ * TIER 1: Gemini with reference
+ * TIER 2: Gemini aggressive prompt with reference
+ * TIER 3: Gemini without reference
+ * TIER 4: Recraft (GUARANTEED isolated design)
+ */
+export const DEFAULT_TIER_SPEC = 'gemini:normal,gemini:aggressive,gemini:no-reference,recraft';
+
+const PROVIDER_FACTORIES: Record<string, () => ImageGenerationProvider> = {
+  gemini: createGeminiProvider,
+  recraft: createRecraftProvider,
+  local: createLocalProvider,
+  typography: createTypographyProvider,
+};
+
+const GENERATION_MODES: GenerationMode[] = ['normal', 'aggressive', 'no-reference'];
+
+// Providers are stateless wrappers - share one instance per name
+const providerCache = new Map<string, ImageGenerationProvider>();
+
+/**
+ * Get a provider by name ("gemini" | "recraft" | "local" | "typography")
+ */
+export function getProvider(name: string): ImageGenerationProvider {
+  const key = name.trim().toLowerCase();
+  const cached = providerCache.get(key);
+  if (cached) return cached;
+
+  const factory = PROVIDER_FACTORIES[key];
+  if (!factory) {
+    throw new Error(`Unknown image provider "${name}". Available: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+  }
+
+  const provider = factory();
+  providerCache.set(key, provider);
+  return provider;
+}
+
+/**
+ * Parse a tier spec like "gemini:normal,gemini:no-reference,recraft" into tiers.
+ * Order is the fallback order; drop an entry to skip that tier.
+ */
+export function parseTierSpec(spec: string): GenerationTier[] {
+  const entries = spec.split(',').map(s => s.trim()).filter(Boolean);
+
+  if (entries.length === 0) {
+    throw new Error('Tier spec must list at least one tier');
+  }
+
+  return entries.map((entry, index) => {
+    const [providerName, rawMode] = entry.split(':');
+    const mode = (rawMode || 'normal') as GenerationMode;
+
+    if (!GENERATION_MODES.includes(mode)) {
+      throw new Error(`Unknown generation mode "${rawMode}" in tier "${entry}"`);
+    }
+
+    return {
+      id: entry,
+      label: `Tier ${index + 1} (${entry})`,
+      provider: getProvider(providerName),
+      mode,
+    };
+  });
+}
+
+/**
+ * Resolve the pipeline config from environment variables, with optional overrides.
+ *
+ * IMAGE_GENERATION_TIERS     - fallback chain (default: DEFAULT_TIER_SPEC)
+ * IMAGE_ANALYSIS_PROVIDER    - provider for analyzeImage (default: gemini)
+ * IMAGE_BACKGROUND_PROVIDER  - provider for background removal (default: recraft)
+ * IMAGE_EDIT_PROVIDER        - provider for follow-up variant edits (default: gemini)
+ * TEXT_ONLY_TYPOGRAPHY       - "on" (default) renders text-only designs as vector type before the AI tiers, "off" skips it
+ *
+ * Set all four to "local" to run the full pipeline without API keys.
+ */
+export function resolveGenerationPipeline(
+  overrides: Partial<GenerationPipelineConfig> = {}
+): GenerationPipelineConfig {
+  const analysisProvider = overrides.analysisProvider
+    ?? getProvider(process.env.IMAGE_ANALYSIS_PROVIDER || 'gemini');
+
+  return {
+    tiers: overrides.tiers ?? parseTierSpec(process.env.IMAGE_GENERATION_TIERS || DEFAULT_TIER_SPEC),
+    analysisProvider,
+    backgroundProvider: overrides.backgroundProvider
+      ?? getProvider(process.env.IMAGE_BACKGROUND_PROVIDER || 'recraft'),
+    editProvider: overrides.editProvider
+      ?? getProvider(process.env.IMAGE_EDIT_PROVIDER || 'gemini'),
+    typographyTier: overrides.typographyTier !== undefined
+      ? overrides.typographyTier
+      : process.env.TEXT_ONLY_TYPOGRAPHY === 'off'
+        ? null
+        : { id: 'typography', label: 'Typography (vector text)', provider: getProvider('typography'), mode: 'normal' },
+    planStrategies: overrides.planStrategies
+      ?? (analysisProvider.name === 'local' ? localRemixStrategies : generateRemixStrategies),
+    blendAnalyses: overrides.blendAnalyses
+      ?? (analysisProvider.name === 'local' ? async (analyses) => mergeDesignAnalyses(analyses) : blendDesignAnalyses),
+  };
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { removeBackgroundLocally } from '../background-removal';
+import type { DesignAnalysis } from '../design-utils';
+import { strategyLanguage, withLocalizedText } from '../localization';
+import type { RemixStrategy } from '../gemini';
+import {
+  BUILTIN_STRATEGY_TEMPLATES,
+  DEFAULT_VARIANT_COUNT,
+  fillStrategyScaffold,
+  planStrategySlots,
+  type StrategySlot,
+} from '../strategy-templates';
+import type { EditRequest, ImageGenerationProvider, GenerationRequest, GenerationResult } from './types';
+
+/**
+ * Local stub provider - deterministic, no network, no API keys.
+ * Lets the whole remix pipeline run in tests and offline development.
+ * Same input always produces the same output.
+ */
+
+const STUB_SIZE = 1024;
+
+/**
+ * Pick a stable color from any string (same string → same color)
+ */
+function colorFromSeed(seed: string): string {
+  const hash = crypto.createHash('sha256').update(seed).digest();
+  return `#${hash.subarray(0, 3).toString('hex')}`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Fixed analysis used by the stub (mixed design with dark text)
+ */
+export const LOCAL_STUB_ANALYSIS: DesignAnalysis = {
+  theme: 'Local stub design',
+  style: 'flat cartoon',
+  graphic_colors: ['black', 'orange'],
+  text: 'LOCAL STUB',
+  design_type: 'mixed',
+  tone: 'neutral',
+  typography_style: 'bold sans-serif',
+  text_color: 'black',
+  character_action: 'none',
+};
+
+/**
+ * Deterministic stand-in for generateRemixStrategies (no LLM call)
+ */
+export async function localRemixStrategies(
+  analysis: DesignAnalysis,
+  slots: StrategySlot[] = planStrategySlots(BUILTIN_STRATEGY_TEMPLATES, DEFAULT_VARIANT_COUNT)
+): Promise<RemixStrategy[]> {
+  return slots.map((slot) => {
+    const prompt = fillStrategyScaffold(slot.template.promptScaffold, analysis);
+    // Stub "translation": the phrase tagged with the language code
+    const language = strategyLanguage(slot.template.id);
+    const text = language && analysis.text.trim() ? `${analysis.text} (${language.toUpperCase()})` : undefined;
+    return {
+      id: slot.id,
+      strategy: slot.template.name,
+      prompt: text ? withLocalizedText(prompt, text) : prompt,
+      strategyId: slot.template.id,
+      ...(text ? { text } : {}),
+    };
+  });
+}
+
+export function createLocalProvider(): ImageGenerationProvider {
+  return {
+    name: 'local',
+
+    async analyze(): Promise<DesignAnalysis> {
+      return { ...LOCAL_STUB_ANALYSIS };
+    },
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const { strategy } = request;
+      const fill = colorFromSeed(`${strategy.id}:${strategy.prompt}`);
+      const label = escapeXml(strategy.strategy.toUpperCase());
+
+      // Simple badge-free graphic: circle + strategy label on transparent canvas
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${STUB_SIZE}" height="${STUB_SIZE}">
+  <circle cx="512" cy="440" r="280" fill="${fill}" />
+  <text x="512" y="880" font-family="sans-serif" font-size="72" font-weight="bold" text-anchor="middle" fill="#111111">${label}</text>
+</svg>`;
+
+      const buffer = await sharp(Buffer.from(svg)).png().toBuffer();
+
+      return {
+        imageData: `data:image/png;base64,${buffer.toString('base64')}`,
+        isIsolatedDesign: true,
+        reason: 'Local stub output',
+        hasCleanBackground: true,
+      };
+    },
+
+    async edit(request: EditRequest): Promise<GenerationResult> {
+      // Deterministic stand-in: stamp the instruction under the design
+      const base64Data = request.imageData.includes(',') ? request.imageData.split(',')[1] : request.imageData;
+      const input = Buffer.from(base64Data, 'base64');
+      const { width = STUB_SIZE, height = STUB_SIZE } = await sharp(input).metadata();
+      const caption = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <text x="${width / 2}" y="${height - 40}" font-family="sans-serif" font-size="${Math.round(width / 24)}" font-weight="bold" text-anchor="middle" fill="${colorFromSeed(request.instruction)}">${escapeXml(request.instruction.toUpperCase())}</text>
+</svg>`;
+      const buffer = await sharp(input).composite([{ input: Buffer.from(caption) }]).png().toBuffer();
+
+      return {
+        imageData: `data:image/png;base64,${buffer.toString('base64')}`,
+        isIsolatedDesign: true,
+        reason: 'Local stub edit',
+        hasCleanBackground: false,
+      };
+    },
+
+    async removeBackground(imageData: string): Promise<string> {
+      // Key out green-screen / flat backgrounds; anything else (and the already
+      // transparent stub output) is just normalized to PNG
+      const keyed = await removeBackgroundLocally(imageData, { bestEffort: true });
+      if (keyed) {
+        return keyed.imageData;
+      }
+      const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+      const buffer = await sharp(Buffer.from(base64Data, 'base64')).ensureAlpha().png().toBuffer();
+      return `data:image/png;base64,${buffer.toString('base64')}`;
+    },
+
+    async upscale(imageData: string): Promise<string> {
+      const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+      const input = Buffer.from(base64Data, 'base64');
+      const { width = STUB_SIZE, height = STUB_SIZE } = await sharp(input).metadata();
+      const buffer = await sharp(input)
+        .resize(width * 2, height * 2, { kernel: 'lanczos3' })
+        .png()
+        .toBuffer();
+      return `data:image/png;base64,${buffer.toString('base64')}`;
+    },
+  };
+}
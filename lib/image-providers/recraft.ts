@@ -0,0 +1,42 @@
+import {
+  generateVariantImagesWithRecraft,
+  removeBackgroundWithRecraft,
+  crispUpscaleWithRecraft,
+} from '../recraft';
+import type { ImageGenerationProvider, GenerationRequest, GenerationResult } from './types';
+
+/**
+ * Recraft provider
+ * - generate: recraftv3 vector illustration (ONLY produces isolated graphics)
+ * - removeBackground / upscale: Recraft image tools
+ * - analyze: not supported (Recraft has no vision model)
+ */
+export function createRecraftProvider(): ImageGenerationProvider {
+  return {
+    name: 'recraft',
+
+    async analyze() {
+      throw new Error('Recraft provider does not support design analysis');
+    },
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const recraftResults = await generateVariantImagesWithRecraft([request.strategy]);
+
+      if (recraftResults.length === 0 || !recraftResults[0].design?.imageData) {
+        throw new Error('Recraft returned no image data');
+      }
+
+      return {
+        imageData: recraftResults[0].design.imageData,
+        isIsolatedDesign: true,
+        reason: 'Recraft generated isolated design',
+        hasCleanBackground: true, // Recraft generation already has clean background
+        model: 'recraftv3',
+      };
+    },
+
+    removeBackground: (imageData: string) => removeBackgroundWithRecraft(imageData),
+
+    upscale: (imageData: string) => crispUpscaleWithRecraft(imageData),
+  };
+}
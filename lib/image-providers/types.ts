@@ -0,0 +1,90 @@
+import type { DesignAnalysis } from '../design-utils';
+import type { RemixStrategy } from '../gemini';
+import type { StrategySlot } from '../strategy-templates';
+
+/**
+ * Gemini prompt tiers - each is progressively more aggressive about preventing mockups.
+ * Providers without prompt tiers ignore this.
+ */
+export type GenerationMode = 'normal' | 'aggressive' | 'no-reference';
+
+export interface GenerationRequest {
+  strategy: RemixStrategy;
+  referenceImage: string | null; // Cleaned reference (data URI), null for no-reference tiers
+  extraReferences?: string[];    // Further cleaned mood-board references (providers without multi-image input ignore them)
+  mode: GenerationMode;
+  textColor?: string;            // Used to decide on a green-screen canvas for light text
+  analysis?: DesignAnalysis;     // Text / typography for providers that set type themselves
+}
+
+/**
+ * Follow-up edit of an existing variant ("change the word BEER to COFFEE")
+ */
+export interface EditRequest {
+  imageData: string;             // The design flattened onto canvasColor (data URI)
+  instruction: string;
+  mask: string | null;           // Same size as imageData - white = area to change
+  canvasColor: string;           // Solid background the design sits on, e.g. "#00AA00"
+}
+
+export interface GenerationResult {
+  imageData: string;             // Base64 data URI
+  isIsolatedDesign: boolean;     // False when the output is a product mockup (tier failed)
+  reason: string;                // Validation reason / provider note
+  hasCleanBackground: boolean;   // True when background removal can be skipped
+  model?: string;                // Model that produced the image (recorded in provenance)
+  vector?: VectorSource;         // Set by providers that draw vectors (kept as the source file)
+}
+
+/**
+ * SVG a raster result was rendered from
+ */
+export interface VectorSource {
+  svg: string;
+  layout: string;                // e.g. "arched"
+  font: string;                  // Font family used
+}
+
+/**
+ * An image generation backend (Gemini, Recraft, local stub, ...)
+ * Every capability either returns a result or throws - the pipeline
+ * treats a throw as "move on to the next tier".
+ */
+export interface ImageGenerationProvider {
+  name: string;
+  analyze(imageData: string): Promise<DesignAnalysis>;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  removeBackground(imageData: string): Promise<string>;
+  upscale(imageData: string): Promise<string>;
+  // Transcribe the text in an image (text-fidelity check) - vision providers only
+  readText?(imageData: string): Promise<string>;
+  // Image-to-image edit of a variant - providers that can't edit leave this out
+  edit?(request: EditRequest): Promise<GenerationResult>;
+}
+
+/**
+ * One step of the fallback chain, e.g. "gemini:aggressive" or "recraft"
+ */
+export interface GenerationTier {
+  id: string;
+  label: string;                 // Human readable, e.g. "Tier 2 (gemini:aggressive)"
+  provider: ImageGenerationProvider;
+  mode: GenerationMode;
+}
+
+/**
+ * Everything the remix pipeline needs to run end-to-end.
+ * Resolved from env by default, overridable per call (tests, admin tools).
+ */
+export interface GenerationPipelineConfig {
+  tiers: GenerationTier[];
+  analysisProvider: ImageGenerationProvider;
+  backgroundProvider: ImageGenerationProvider;
+  editProvider: ImageGenerationProvider;
+  // Tried first for text-only designs whose strategy keeps the phrase (null = AI tiers only)
+  typographyTier: GenerationTier | null;
+  // One strategy per slot (defaults to the 4 built-in strategies)
+  planStrategies: (analysis: DesignAnalysis, slots?: StrategySlot[]) => Promise<RemixStrategy[]>;
+  // Combine the analyses of a mood board's references into one (primary reference first)
+  blendAnalyses: (analyses: DesignAnalysis[]) => Promise<DesignAnalysis>;
+}
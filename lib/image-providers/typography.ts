@@ -0,0 +1,53 @@
+import type { DesignAnalysis } from '../design-utils';
+import { renderTypography, TYPOGRAPHY_LAYOUTS } from '../typography';
+import type { ImageGenerationProvider, GenerationRequest, GenerationResult } from './types';
+
+/**
+ * Typography provider - sets the design's text as vector type (no AI image).
+ * Only generates: text-only designs get pixel-perfect lettering and an SVG source.
+ * The layout cycles with the variant number (stacked, arched, distressed, ...).
+ */
+export function createTypographyProvider(): ImageGenerationProvider {
+  return {
+    name: 'typography',
+
+    async analyze(): Promise<DesignAnalysis> {
+      throw new Error('Typography provider cannot analyze images');
+    },
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const { strategy, analysis } = request;
+      // Localized strategies carry their translation
+      const text = strategy.text?.trim() || analysis?.text?.trim();
+      if (!analysis || !text) {
+        throw new Error('Typography needs the design text from the analysis');
+      }
+
+      const layout = TYPOGRAPHY_LAYOUTS[(Math.max(strategy.id, 1) - 1) % TYPOGRAPHY_LAYOUTS.length];
+      const result = await renderTypography({
+        text,
+        typographyStyle: analysis.typography_style,
+        textColor: analysis.text_color || request.textColor,
+        layout,
+        variation: Math.floor((Math.max(strategy.id, 1) - 1) / TYPOGRAPHY_LAYOUTS.length),
+      });
+
+      return {
+        imageData: result.imageData,
+        isIsolatedDesign: true,
+        reason: `Vector typography (${layout}, ${result.font.family})`,
+        hasCleanBackground: true,
+        model: `svg:${result.font.id}`,
+        vector: { svg: result.svg, layout, font: result.font.family },
+      };
+    },
+
+    async removeBackground(): Promise<string> {
+      throw new Error('Typography provider cannot remove backgrounds');
+    },
+
+    async upscale(): Promise<string> {
+      throw new Error('Typography provider cannot upscale images');
+    },
+  };
+}
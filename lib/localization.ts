@@ -0,0 +1,97 @@
+/**
+ * Localization variants - the design's text translated for another market
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * A localization run lists target languages and each becomes a strategy of
+ * its own, identified as "locale:<code>". The phrase is translated once per
+ * language (idiom-aware, not word for word) and the variant carries the
+ * translation, so the text-fidelity check reads it back in that language.
+ */
+
+import { normalizeDesignText } from './text-fidelity';
+import { MAX_VARIANT_COUNT, MIN_VARIANT_COUNT, type StrategySelection, type StrategyTemplate } from './strategy-templates';
+
+// Prefix for localization strategies, followed by the ISO 639-1 language code
+const LOCALE_PREFIX = 'locale:';
+
+export interface Language {
+  code: string;  // ISO 639-1, stored on the variant
+  name: string;
+}
+
+/**
+ * Languages of the EU marketplaces we sell in
+ */
+export const SUPPORTED_LANGUAGES: Language[] = [
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'da', name: 'Danish' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'el', name: 'Greek' },
+];
+
+export function isLocaleStrategyId(id: string): boolean {
+  return id.startsWith(LOCALE_PREFIX);
+}
+
+export function localeStrategyId(code: string): string {
+  return `${LOCALE_PREFIX}${code}`;
+}
+
+export function findLanguage(code: string): Language | undefined {
+  return SUPPORTED_LANGUAGES.find((language) => language.code === code);
+}
+
+/**
+ * Language code of a variant's strategy (null unless it's a localization strategy)
+ */
+export function strategyLanguage(strategyId: string | null | undefined): string | null {
+  return strategyId && isLocaleStrategyId(strategyId) ? strategyId.slice(LOCALE_PREFIX.length) : null;
+}
+
+/**
+ * Template for one language - its name becomes the variant's strategy label.
+ * Only the text changes; typography, pose, composition and style stay.
+ */
+export function localeStrategyTemplate(id: string): StrategyTemplate {
+  const code = strategyLanguage(id) ?? '';
+  const language = findLanguage(code);
+  if (!language) {
+    throw new Error(`Unsupported language: ${code}`);
+  }
+  return {
+    id,
+    name: language.name,
+    promptScaffold: `Localize {theme} for ${language.name}-speaking buyers: replace the text "{text}" with its ${language.name} translation in the same typography. Same pose, composition and {style} style.`,
+    similarityTarget: 85,
+    builtIn: true,
+  };
+}
+
+/**
+ * Localization run: one variant per language (a single language gets two takes)
+ */
+export function localeSelection(codes: string[]): StrategySelection {
+  const unique = [...new Set(codes)].filter((code) => findLanguage(code)).slice(0, MAX_VARIANT_COUNT);
+  return {
+    strategyIds: unique.map(localeStrategyId),
+    variantCount: Math.max(MIN_VARIANT_COUNT, unique.length),
+  };
+}
+
+/**
+ * Make sure a localized strategy's prompt quotes its translation
+ * (the model sometimes paraphrases it while writing the prompt)
+ */
+export function withLocalizedText(prompt: string, text: string): string {
+  return normalizeDesignText(prompt).includes(normalizeDesignText(text))
+    ? prompt
+    : `${prompt} The text reads exactly "${text}".`;
+}
@@ -0,0 +1,49 @@
+/**
+ * Mood-board remixes - several reference designs blended into one remix
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * The first reference is the primary one (it becomes the project's original
+ * design); the others contribute their theme, style, text or palette.
+ */
+
+import type { DesignAnalysis } from './design-utils';
+
+// A remix takes 1 reference, or a mood board of 2-5
+export const MAX_REFERENCE_IMAGES = 5;
+
+function hasValue(value: string | undefined): value is string {
+  return !!value && value.trim().toLowerCase() !== 'none';
+}
+
+/**
+ * Deterministic blend of several analyses (no LLM)
+ * Used by the local provider and when the model can't blend them:
+ * theme and pose from the primary reference, art style from the second,
+ * text and typography from the first reference that has any, palettes merged.
+ */
+export function mergeDesignAnalyses(analyses: DesignAnalysis[]): DesignAnalysis {
+  if (analyses.length === 0) {
+    throw new Error('Failed to merge analyses: no analyses given');
+  }
+  const [primary, ...others] = analyses;
+  if (others.length === 0) {
+    return primary;
+  }
+
+  const withText = analyses.find((analysis) => analysis.text.trim()) ?? primary;
+  const colors = [...new Set(analyses.flatMap((analysis) => analysis.graphic_colors))].slice(0, 4);
+  // Different kinds of design (e.g. a quote + an illustration) blend into a mixed one
+  const designTypes = new Set(analyses.map((analysis) => analysis.design_type));
+
+  return {
+    theme: primary.theme,
+    style: others[0].style,
+    graphic_colors: colors,
+    text: withText.text,
+    design_type: designTypes.size === 1 ? primary.design_type : 'mixed',
+    tone: primary.tone,
+    typography_style: withText.typography_style,
+    text_color: withText.text_color,
+    character_action: analyses.map((analysis) => analysis.character_action).find(hasValue) ?? 'none',
+  };
+}
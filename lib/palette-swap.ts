@@ -0,0 +1,204 @@
+/**
+ * Palette swaps - Server-only
+ * Recolour a variant by mapping its dominant colours to a target palette.
+ *
+ * 1. Dominant colours: k-means on the opaque pixels (see color-quantize.ts)
+ * 2. Recolour: every pixel is shifted by its nearest dominant colour's
+ *    (target - source) offset, blended between neighbouring colours, so
+ *    shading, texture and anti-aliased edges survive the swap
+ */
+
+import sharp from 'sharp';
+import type { DesignAnalysis } from './design-utils';
+import { SIMILARITY_TOO_CLOSE_THRESHOLD, type ColorClassification } from './gemini';
+import type { VariantProvenance } from './generation-events';
+import type { SourceSimilarity } from './source-similarity';
+import { closestColor, colorDistance, flatPixels, quantizeColors, toHex } from './color-quantize';
+import { measureSourceSimilarity } from './image-hash';
+import { detectRecommendedBackground } from './image-utils';
+import { DEFAULT_PALETTE_COLORS, hexToRgb, MAX_PALETTE_COLORS, type ColorMapping, type DominantColor } from './palettes';
+
+// Longest side analysed for dominant colours
+const ANALYSIS_SIZE = 512;
+// Pixels more transparent than this don't count towards dominant colours
+const ALPHA_CUTOFF = 128;
+// Colours covering less of the design than this are left out of the palette
+const MIN_COLOR_SHARE = 0.005;
+// Softness of the blend between neighbouring colours (squared RGB distance)
+const BLEND_SOFTNESS = 256;
+
+export interface PaletteSwapInput {
+  parentVariantId: string;
+  imageData: string;                       // Parent variant (transparent PNG data URI)
+  mapping: ColorMapping[];
+  paletteName: string | null;              // Seasonal/brand palette the targets came from
+  lightDesign: boolean;                    // Parent recommended for dark products
+  analysis: DesignAnalysis | null;         // Parent's analysis (carried into provenance)
+  strategyId: string | null;
+  sourceImage?: string | null;             // Cleaned project original, for the similarity score
+}
+
+export interface RecoloredVariant {
+  imageData: string;
+  colorClassification: ColorClassification;
+  provenance: VariantProvenance;
+  similarity: SourceSimilarity | null;
+}
+
+function toBuffer(imageData: string): Buffer {
+  const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+  return Buffer.from(base64Data, 'base64');
+}
+
+/**
+ * Dominant colours of a design, most common first
+ */
+export async function extractDominantColors(
+  imageData: string,
+  colorCount = DEFAULT_PALETTE_COLORS
+): Promise<DominantColor[]> {
+  const count = Math.max(1, Math.min(MAX_PALETTE_COLORS, Math.round(colorCount)));
+
+  const { data, info } = await sharp(toBuffer(imageData))
+    .ensureAlpha()
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const pixels = new Uint8Array(data.buffer, data.byteOffset, data.length);
+
+  const opaque = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < opaque.length; i++) {
+    opaque[i] = pixels[i * 4 + 3] >= ALPHA_CUTOFF ? 1 : 0;
+  }
+
+  const flat = flatPixels(pixels, opaque, info.width);
+  const palette = quantizeColors(pixels, flat.includes(1) ? flat : opaque, count);
+  if (palette.length === 0) return [];
+
+  // Shares over every opaque pixel, not just the flat ones k-means saw
+  const counts = palette.map(() => 0);
+  let total = 0;
+  for (let i = 0; i < opaque.length; i++) {
+    if (!opaque[i]) continue;
+    counts[closestColor(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2], palette)]++;
+    total++;
+  }
+
+  return palette
+    .map((rgb, k) => ({ color: toHex(rgb), share: Math.round((counts[k] / total) * 1000) / 1000 }))
+    .filter(({ share }) => share >= MIN_COLOR_SHARE)
+    .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Apply a colour mapping to a design. Transparency is kept as is.
+ * @param maxSize - downscale first (previews); omit for full resolution
+ */
+export async function recolorImage(
+  imageData: string,
+  mapping: ColorMapping[],
+  maxSize?: number
+): Promise<string> {
+  if (mapping.length === 0) {
+    throw new Error('Palette mapping is empty');
+  }
+
+  let image = sharp(toBuffer(imageData)).ensureAlpha();
+  if (maxSize) {
+    image = image.resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true });
+  }
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+
+  const sources = mapping.map(({ from }) => hexToRgb(from));
+  const offsets = mapping.map(({ from, to }) => {
+    const [fr, fg, fb] = hexToRgb(from);
+    const [tr, tg, tb] = hexToRgb(to);
+    return [tr - fr, tg - fg, tb - fb];
+  });
+
+  const weights = new Float64Array(sources.length);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const pixel = [data[i], data[i + 1], data[i + 2]];
+
+    // Inverse-square weights: a pixel on a dominant colour takes that colour's
+    // offset, edge pixels between two colours get a mix of both
+    let weightSum = 0;
+    for (let k = 0; k < sources.length; k++) {
+      weights[k] = 1 / (colorDistance(pixel, sources[k]) + BLEND_SOFTNESS) ** 2;
+      weightSum += weights[k];
+    }
+
+    let dr = 0;
+    let dg = 0;
+    let db = 0;
+    for (let k = 0; k < sources.length; k++) {
+      const w = weights[k] / weightSum;
+      dr += offsets[k][0] * w;
+      dg += offsets[k][1] * w;
+      db += offsets[k][2] * w;
+    }
+
+    data[i] = Math.max(0, Math.min(255, Math.round(pixel[0] + dr)));
+    data[i + 1] = Math.max(0, Math.min(255, Math.round(pixel[1] + dg)));
+    data[i + 2] = Math.max(0, Math.min(255, Math.round(pixel[2] + db)));
+  }
+
+  const output = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${output.toString('base64')}`;
+}
+
+/**
+ * Full-resolution palette swap of a variant, with the same metadata a freshly
+ * generated variant gets (background recommendation, similarity, provenance)
+ */
+export async function recolorVariant(input: PaletteSwapInput): Promise<RecoloredVariant> {
+  console.log(`🎨 Recoloring variant ${input.parentVariantId}${input.paletteName ? ` with "${input.paletteName}"` : ''}`);
+  const recolored = await recolorImage(input.imageData, input.mapping);
+
+  // A new palette can flip which products the design works on
+  let recommendedBackground: 'light' | 'dark' = input.lightDesign ? 'dark' : 'light';
+  try {
+    recommendedBackground = await detectRecommendedBackground(recolored);
+  } catch {
+    console.warn(`⚠️ Color classification failed for recolor of ${input.parentVariantId}, keeping parent's`);
+  }
+
+  let similarity: SourceSimilarity | null = null;
+  if (input.sourceImage) {
+    try {
+      similarity = await measureSourceSimilarity(input.sourceImage, recolored, SIMILARITY_TOO_CLOSE_THRESHOLD);
+    } catch (error) {
+      console.warn(`⚠️ Similarity check failed for recolor of ${input.parentVariantId}:`, error);
+    }
+  }
+
+  console.log(`✅ Recolor of variant ${input.parentVariantId} complete`);
+
+  return {
+    imageData: recolored,
+    colorClassification: {
+      recommendedBackground,
+      productHint: recommendedBackground === 'dark' ? 'Best on dark products' : 'Best on light products',
+    },
+    provenance: {
+      analysis: input.analysis,
+      prompt: `Palette swap: ${input.mapping.map(({ from, to }) => `${from} → ${to}`).join(', ')}`,
+      strategyId: input.strategyId,
+      provider: 'palette-swap',
+      model: null,
+      usedTier: 'recolor',
+      attempts: [],
+      backgroundRemoval: { provider: null, skipped: true },
+      recolor: {
+        parentVariantId: input.parentVariantId,
+        mapping: input.mapping,
+        paletteName: input.paletteName,
+      },
+      generatedAt: new Date().toISOString(),
+    },
+    similarity,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Colour palettes for palette swaps (recolouring a variant)
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Target palettes come from three places: colours picked by hand, brand
+ * palettes the user saved (localStorage), and the seasonal sets below.
+ */
+
+export const MAX_PALETTE_COLORS = 8;
+export const DEFAULT_PALETTE_COLORS = 5;
+
+export const BRAND_PALETTES_STORAGE_KEY = 'brandPalettes';
+export const MAX_BRAND_PALETTES = 12;
+
+export interface NamedPalette {
+  id: string;
+  name: string;
+  colors: string[];   // #rrggbb
+}
+
+// One dominant colour of a variant and the colour it should become
+export interface ColorMapping {
+  from: string;       // #rrggbb
+  to: string;         // #rrggbb
+}
+
+// A variant's dominant colour and its share of the opaque pixels (0-1)
+export interface DominantColor {
+  color: string;
+  share: number;
+}
+
+export const SEASONAL_PALETTES: NamedPalette[] = [
+  { id: 'spring', name: 'Spring', colors: ['#f7a8c4', '#b8e0a8', '#fff2a8', '#a8d8f0', '#6bbf59'] },
+  { id: 'summer', name: 'Summer', colors: ['#ff6b35', '#ffd23f', '#3bceac', '#0ead69', '#1a8fe3'] },
+  { id: 'autumn', name: 'Autumn', colors: ['#8c2f39', '#d35400', '#e6a141', '#5b3a29', '#6b705c'] },
+  { id: 'winter', name: 'Winter', colors: ['#0b2545', '#13315c', '#8da9c4', '#eef4ed', '#c0c0c8'] },
+  { id: 'halloween', name: 'Halloween', colors: ['#ff7518', '#1b1b1b', '#6a0dad', '#7cfc00', '#f5f5f5'] },
+  { id: 'christmas', name: 'Christmas', colors: ['#b3000c', '#0b6623', '#f8f8f8', '#d4af37', '#1d1d1d'] },
+  { id: 'valentines', name: "Valentine's", colors: ['#e0115f', '#ff8fab', '#ffe5ec', '#8b0a50', '#ffffff'] },
+  { id: 'independence', name: 'Fourth of July', colors: ['#b22234', '#ffffff', '#3c3b6e', '#6d7fcc', '#e8e8e8'] },
+];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_PATTERN.test(value);
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Relative luminance (0-1), good enough to order colours light → dark
+export function luminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex);
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+/**
+ * Pair a variant's colours with a target palette by lightness rank, so the
+ * darkest colour maps to the darkest target and so on (keeps contrast and
+ * legibility). Targets are reused when the palette has fewer colours.
+ */
+export function autoMapPalette(source: string[], target: string[]): ColorMapping[] {
+  if (target.length === 0) return source.map(from => ({ from, to: from }));
+
+  const sourceOrder = source.map((color, index) => ({ color, index }))
+    .sort((a, b) => luminance(a.color) - luminance(b.color));
+  const targetOrder = [...target].sort((a, b) => luminance(a) - luminance(b));
+
+  const mapping: ColorMapping[] = new Array(source.length);
+  sourceOrder.forEach(({ color, index }, rank) => {
+    const targetIndex = source.length === 1
+      ? Math.floor(targetOrder.length / 2)
+      : Math.round((rank / (source.length - 1)) * (targetOrder.length - 1));
+    mapping[index] = { from: color, to: targetOrder[targetIndex] };
+  });
+  return mapping;
+}
+
+/**
+ * Validate a mapping sent by the client (null when malformed)
+ */
+export function parseColorMapping(value: unknown): ColorMapping[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PALETTE_COLORS) return null;
+  const mapping = value.map((entry) => ({
+    from: (entry as ColorMapping)?.from,
+    to: (entry as ColorMapping)?.to,
+  }));
+  return mapping.every(({ from, to }) => isHexColor(from) && isHexColor(to))
+    ? mapping.map(({ from, to }) => ({ from: from.toLowerCase(), to: to.toLowerCase() }))
+    : null;
+}
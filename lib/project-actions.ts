@@ -1,9 +1,13 @@
 import { createClient } from '@/lib/supabase/client'
 import type { ProjectInsert, VariantInsert } from '@/lib/supabase/types'
+import type { VariantProvenance } from '@/lib/generation-events'
+import type { SourceSimilarity } from '@/lib/source-similarity'
+import { strategyLanguage } from '@/lib/localization'
 
 interface Variant {
   id: number;
   strategy: string;
+  strategyId?: string;  // Strategy template that produced the variant
   design: {
     imageData: string;  // Can be URL or base64
     imageUrl?: string;  // Explicit URL field (preferred)
@@ -14,6 +18,8 @@ interface Variant {
     recommendedBackground: 'light' | 'dark';
     productHint: string;
   };
+  provenance?: VariantProvenance;  // How the variant was generated (analysis, prompt, tiers)
+  similarity?: SourceSimilarity | null;  // Closeness to the source design
 }
 
 interface SaveProjectParams {
@@ -21,6 +27,11 @@ interface SaveProjectParams {
   originalImage: string;
   variants: Variant[];
   projectName: string;
+  // Set when the project was remixed from an existing variant ("Remix this")
+  parentVariantId?: string | null;
+  parentProjectId?: string | null;
+  // Remix job that generated the variants (links its API usage to the project)
+  remixJobId?: string | null;
 }
 
 interface SaveProjectResult {
@@ -92,6 +103,77 @@ async function uploadImage(
   return urlData.publicUrl;
 }
 
+// Variant columns added by later migrations, and the migration that adds each one
+const MIGRATED_VARIANT_COLUMNS: Array<{ column: keyof VariantInsert; migration: string }> = [
+  { column: 'strategy_id', migration: 'supabase-strategy-templates.sql' },
+  { column: 'provenance', migration: 'supabase-variant-provenance.sql' },
+  { column: 'similarity', migration: 'supabase-variant-similarity.sql' },
+  { column: 'language', migration: 'supabase-localization.sql' },
+]
+
+/**
+ * Insert variant records
+ * A missing column is reported as the migration to run - variants are never
+ * saved without their provenance / similarity data
+ */
+async function insertVariantRecords(
+  supabase: ReturnType<typeof createClient>,
+  records: VariantInsert[]
+): Promise<{ message: string; code?: string } | null> {
+  const { error } = await supabase
+    .from('variants')
+    .insert(records as never)
+
+  const missing = error && MIGRATED_VARIANT_COLUMNS.find(({ column }) => error.message?.includes(column))
+  if (missing) {
+    return { message: `Database migration required. Please run ${missing.migration}. (${error.message})` }
+  }
+  return error
+}
+
+// Inserts attempted before giving up on a busy batch
+const MAX_NUMBER_ATTEMPTS = 5
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Insert variants after the last variant of their batch. Edits and palette
+ * swaps append to the same batch (lib/derived-variants.server.ts), so the
+ * numbers are read just before the insert and re-read if another save took them.
+ */
+async function appendVariantRecords(
+  supabase: ReturnType<typeof createClient>,
+  projectId: string,
+  batchNumber: number,
+  records: Omit<VariantInsert, 'variant_number'>[]
+): Promise<{ message: string } | null> {
+  for (let attempt = 1; attempt <= MAX_NUMBER_ATTEMPTS; attempt++) {
+    const { data, error: readError } = await supabase
+      .from('variants')
+      .select('variant_number')
+      .eq('project_id', projectId)
+      .eq('batch_number', batchNumber)
+      .order('variant_number', { ascending: false })
+      .limit(1)
+
+    if (readError) {
+      return readError
+    }
+    const last = (data as Array<{ variant_number: number }> | null)?.[0]?.variant_number ?? 0
+
+    const error = await insertVariantRecords(
+      supabase,
+      records.map((record, index) => ({ ...record, variant_number: last + 1 + index }))
+    )
+    if (error?.code !== UNIQUE_VIOLATION) {
+      return error
+    }
+    console.log(`🔁 Variant numbers after ${last} taken in batch ${batchNumber}, retrying (${attempt}/${MAX_NUMBER_ATTEMPTS})`)
+  }
+  return { message: `batch ${batchNumber} is busy, try again` }
+}
+
 /**
  * Save a complete project with original image and all variants
  */
@@ -100,6 +182,9 @@ export async function saveProject({
   originalImage,
   variants,
   projectName,
+  parentVariantId = null,
+  parentProjectId = null,
+  remixJobId = null,
 }: SaveProjectParams): Promise<SaveProjectResult> {
   const supabase = createClient();
   
@@ -196,11 +281,24 @@ export async function saveProject({
       user_id: userId,
       name: projectName,
       original_image_url: originalUrl,
+      // Only sent for remixes, so plain saves work before supabase-project-lineage.sql is run
+      ...(parentVariantId && { parent_variant_id: parentVariantId, parent_project_id: parentProjectId }),
+      ...(remixJobId && { remix_job_id: remixJobId }),
     };
     
-    const { error: projectError } = await supabase
+    let { error: projectError } = await supabase
       .from('projects')
       .insert(projectRecord as never);
+
+    // Usage attribution is optional - save without it until supabase-usage-ledger.sql is run
+    if (projectError?.message?.includes('remix_job_id')) {
+      console.warn('⚠️ projects.remix_job_id missing (run supabase-usage-ledger.sql), saving without it');
+      const withoutJob = { ...projectRecord };
+      delete withoutJob.remix_job_id;
+      ({ error: projectError } = await supabase
+        .from('projects')
+        .insert(withoutJob as never));
+    }
     
     if (projectError) {
       throw new Error(`Failed to save project: ${projectError.message}`);
@@ -213,14 +311,16 @@ export async function saveProject({
       variant_number: variant.id,
       batch_number: 1,
       strategy: variant.strategy,
+      strategy_id: variant.strategyId || null,
+      language: strategyLanguage(variant.strategyId),
       image_url: variant.imageUrl,
       thumbnail_url: variant.thumbnailUrl || null,
       recommended_background: variant.colorClassification?.recommendedBackground || 'light',
+      provenance: variant.provenance || null,
+      similarity: variant.similarity || null,
     }));
     
-    const { error: variantsError } = await supabase
-      .from('variants')
-      .insert(variantRecords as never);
+    const variantsError = await insertVariantRecords(supabase, variantRecords);
     
     if (variantsError) {
       // Try to clean up the project if variants failed
@@ -244,7 +344,8 @@ export async function saveProject({
 
 /**
  * Save regenerated variants to an existing project
- * Creates a new batch of variants without deleting existing ones
+ * Appends them after the batch's last variant without deleting existing ones
+ * (the strategy stays linked through strategy_id, not the variant number)
  */
 interface SaveRegeneratedVariantsParams {
   projectId: string;
@@ -335,21 +436,22 @@ export async function saveRegeneratedVariants({
     
     const uploadedVariants = await Promise.all(variantUploadPromises);
     
-    // Insert variant records with the new batch number
-    const variantRecords: VariantInsert[] = uploadedVariants.map((variant) => ({
+    // Insert variant records with the batch number (numbered after its last variant)
+    const variantRecords = uploadedVariants.map((variant) => ({
       project_id: projectId,
       user_id: userId,  // Include user_id for optimized RLS
-      variant_number: variant.id,
       batch_number: batchNumber,
       strategy: variant.strategy,
+      strategy_id: variant.strategyId || null,
+      language: strategyLanguage(variant.strategyId),
       image_url: variant.imageUrl,
       thumbnail_url: variant.thumbnailUrl || null,
       recommended_background: variant.colorClassification?.recommendedBackground || 'light',
+      provenance: variant.provenance || null,
+      similarity: variant.similarity || null,
     }));
     
-    const { error: variantsError } = await supabase
-      .from('variants')
-      .insert(variantRecords as never);
+    const variantsError = await appendVariantRecords(supabase, projectId, batchNumber, variantRecords);
     
     if (variantsError) {
       throw new Error(`Failed to save regenerated variants: ${variantsError.message}`);
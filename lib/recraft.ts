@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import { resilientFetch, withResilience } from "./resilient-call";
+import { recordUsage } from "./cost-ledger";
 
 // Check if API key is set
 if (!process.env.RECRAFT_API_KEY) {
@@ -9,6 +11,7 @@ if (!process.env.RECRAFT_API_KEY) {
 const recraftClient = new OpenAI({
   baseURL: 'https://external.api.recraft.ai/v1',
   apiKey: process.env.RECRAFT_API_KEY || "",
+  maxRetries: 0, // Retries / timeouts are handled by withResilience
 });
 
 export interface RemixStrategy {
@@ -90,7 +93,7 @@ async function generateRecraftDesignDirect(
 
     // Make direct HTTP call to Recraft API
     // Following the official documentation from Recraft
-    const response = await fetch('https://external.api.recraft.ai/v1/images/generations', {
+    const response = await resilientFetch('recraft', 'image generation', 'https://external.api.recraft.ai/v1/images/generations', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -112,6 +115,7 @@ async function generateRecraftDesignDirect(
       throw new Error(`Recraft API returned ${response.status}: ${errorText}`);
     }
 
+    recordUsage({ provider: 'recraft', model: 'recraftv3', operation: 'image generation', images: 1 });
     const data = await response.json();
     
     // Extract the base64 image data
@@ -185,16 +189,19 @@ async function generateRecraftDesign(
 
     // Generate image with Recraft using OpenAI library
     // Following the official Recraft documentation pattern
-    const response = await recraftClient.images.generate({
-      prompt: fullPrompt,
-      n: 1,
-      size: "1024x1024",
-      response_format: "b64_json",
-      extra_body: {
-        style: 'vector_illustration',
-        model: 'recraftv3',
-      }
-    } as any);
+    const response = await withResilience('recraft', 'image generation', (signal) =>
+      recraftClient.images.generate({
+        prompt: fullPrompt,
+        n: 1,
+        size: "1024x1024",
+        response_format: "b64_json",
+        extra_body: {
+          style: 'vector_illustration',
+          model: 'recraftv3',
+        }
+      } as any, { signal })
+    );
+    recordUsage({ provider: 'recraft', model: 'recraftv3', operation: 'image generation', images: 1 });
 
     console.log(`✅ Recraft generated variant ${strategy.id} successfully`);
 
@@ -310,7 +317,7 @@ export async function removeBackgroundWithRecraft(imageData: string): Promise<st
     formData.append('file', blob, 'image.png');      // Attach the image file
     
     // Call Recraft's background removal API
-    const response = await fetch('https://external.api.recraft.ai/v1/images/removeBackground', {
+    const response = await resilientFetch('recraft', 'background removal', 'https://external.api.recraft.ai/v1/images/removeBackground', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${process.env.RECRAFT_API_KEY}`,
@@ -324,7 +331,8 @@ export async function removeBackgroundWithRecraft(imageData: string): Promise<st
       console.error(`❌ Recraft background removal error (${response.status}):`, errorText);
       throw new Error(`Recraft background removal failed with status ${response.status}: ${errorText}`);
     }
-    
+
+    recordUsage({ provider: 'recraft', model: 'recraft-remove-background', operation: 'background removal', images: 1 });
     const data = await response.json();
     console.log('📦 Recraft response structure:', Object.keys(data));
     
@@ -453,7 +461,7 @@ export async function crispUpscaleWithRecraft(imageData: string): Promise<string
     formData.append('file', blob, 'image.png');      // Attach the image file
     
     // Call Recraft's Crisp Upscale API
-    const response = await fetch('https://external.api.recraft.ai/v1/images/crispUpscale', {
+    const response = await resilientFetch('recraft', 'crisp upscale', 'https://external.api.recraft.ai/v1/images/crispUpscale', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${process.env.RECRAFT_API_KEY}`,
@@ -467,7 +475,8 @@ export async function crispUpscaleWithRecraft(imageData: string): Promise<string
       console.error(`❌ Recraft Crisp Upscale error (${response.status}):`, errorText);
       throw new Error(`Recraft Crisp Upscale failed with status ${response.status}: ${errorText}`);
     }
-    
+
+    recordUsage({ provider: 'recraft', model: 'recraft-crisp-upscale', operation: 'crisp upscale', images: 1 });
     const data = await response.json();
     console.log('📦 Recraft Crisp Upscale response structure:', Object.keys(data));
     
@@ -0,0 +1,610 @@
+/**
+ * Asynchronous remix jobs - Server-only
+ *
+ * A remix runs as a sequence of stages, and the job row is saved after each one
+ * (and after every finished variant):
+ *   preprocess → analysis → strategies → variants → upload → done
+ *
+ * If the worker is killed mid-stage (function timeout, deploy, crash), the job
+ * stays "running" with a stale updated_at. The next poll of
+ * GET /api/remix/jobs/[id] re-claims it and resumes from the saved stage.
+ *
+ * Mood-board jobs carry 1-4 further references (reference_image_urls): every
+ * reference is cleaned and analyzed, the analyses are blended into one, and all
+ * cleaned references go to the image model.
+ *
+ * Review jobs (needs_review) pause after analysis as "awaiting_review": the user
+ * corrects the analysis, strategies are planned on request, the user edits the
+ * prompts, and only then does the worker continue with the variants stage.
+ */
+
+import crypto from "crypto";
+import { generateVariantImages, type DesignAnalysis, type RemixStrategy } from "./gemini";
+import { resolveGenerationPipeline } from "./image-providers";
+import { analyzeCached, removeBackgroundCached } from "./image-cache";
+import { DAILY_LIMIT, incrementUsage } from "./anonymous-usage";
+import { mergeDesignAnalyses } from "./mood-board";
+import { withUsageContext } from "./cost-ledger";
+import { isDeadlineNear, withDeadline } from "./resilient-call";
+import { DEFAULT_STRATEGY_IDS, type StrategySelection } from "./strategy-templates";
+import { resolveStrategySlots } from "./strategy-templates.server";
+import { createClient } from "./supabase/server";
+import {
+  serviceClient as supabase,
+  uploadToStorage,
+  uploadThumbnail,
+  uploadVariantImages,
+  fetchImageAsDataUrl,
+} from "./storage.server";
+import type { FailedVariant, GenerationEventHandler, ReadyVariant, VariantProvenance } from "./generation-events";
+import type { SourceSimilarity } from "./source-similarity";
+import { trademarkIssues, type TrademarkIssue } from "./trademark-screening";
+import type { RemixJobRow } from "./supabase/types";
+
+export type RemixJobStatus = RemixJobRow['status'];
+export type RemixJobStage = RemixJobRow['stage'];
+
+// A running job that hasn't saved progress for this long is considered dead
+// (must be longer than the route maxDuration of 300s)
+export const STALE_JOB_MS = 6 * 60 * 1000;
+
+// Provider calls of one worker run must end within the route maxDuration of 300s,
+// leaving time to save the job (see withDeadline)
+export const JOB_DEADLINE_MS = 270 * 1000;
+
+// Give up after this many worker attempts (each attempt gets a fresh function timeout)
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Variant as stored on the job (variants column)
+ * Full-size images are uploaded immediately - base64 never goes into the job row
+ */
+interface StoredVariant {
+  id: number;
+  strategy: string;
+  strategyId?: string;
+  prompt: string;
+  tier: string;
+  imageUrl: string;
+  thumbnailUrl?: string;
+  colorClassification?: {
+    recommendedBackground: 'light' | 'dark';
+    productHint: string;
+  };
+  provenance?: VariantProvenance;
+  similarity?: SourceSimilarity | null;
+}
+
+/**
+ * Variant in the shape returned to the client (same as the old /api/remix response)
+ */
+export type RemixJobVariant = ReadyVariant;
+
+function toReadyVariant(variant: StoredVariant): RemixJobVariant {
+  return {
+    id: variant.id,
+    strategy: variant.strategy,
+    strategyId: variant.strategyId,
+    status: 'ok',
+    tier: variant.tier,
+    design: {
+      imageData: variant.imageUrl,
+      imageUrl: variant.imageUrl,
+      thumbnailUrl: variant.thumbnailUrl || variant.imageUrl, // Fallback to full image
+      prompt: variant.prompt,
+    },
+    colorClassification: variant.colorClassification,
+    provenance: variant.provenance,
+    similarity: variant.similarity,
+  };
+}
+
+/**
+ * Public view of a job (no ip_hash)
+ */
+export interface RemixJobView {
+  id: string;
+  status: RemixJobStatus;
+  stage: RemixJobStage;
+  originalImageUrl: string;
+  referenceImageUrls: string[];   // Further mood-board references (empty for a single image)
+  analysis: DesignAnalysis | null;
+  strategies: RemixStrategy[] | null;
+  variants: RemixJobVariant[] | null;
+  // Strategies that failed - retry them with POST /api/remix/jobs/[id]/retry
+  failedVariants: FailedVariant[];
+  remaining: number | null;
+  // Restricted terms found in the design text (see lib/trademark-screening.ts)
+  trademarkRisks: TrademarkIssue[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function toRemixJobView(job: RemixJobRow): RemixJobView {
+  const analysis = job.analysis as unknown as DesignAnalysis | null;
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    originalImageUrl: job.original_image_url,
+    referenceImageUrls: referenceImageUrls(job),
+    analysis,
+    strategies: job.strategies as unknown as RemixStrategy[] | null,
+    // Only expose variants once the upload stage has backfilled thumbnails
+    variants: job.stage === 'done'
+      ? (job.variants as unknown as StoredVariant[]).map(toReadyVariant)
+      : null,
+    failedVariants: (job.failed_variants as unknown as FailedVariant[] | null) ?? [],
+    remaining: job.remaining,
+    trademarkRisks: analysis ? trademarkIssues({ design_text: analysis.text }) : [],
+    error: job.error,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+  };
+}
+
+/**
+ * A job's further mood-board references (originals, in upload order)
+ */
+function referenceImageUrls(job: RemixJobRow): string[] {
+  return (job.reference_image_urls as string[] | null) ?? [];
+}
+
+/**
+ * Whether a job should be (re)started by a worker
+ */
+export function isJobRunnable(job: RemixJobRow): boolean {
+  if (job.status === 'queued') return true;
+  if (job.status !== 'running') return false;
+  return Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Whether a finished job has failed variants that can be re-run
+ */
+export function canRetryFailedVariants(job: RemixJobRow): boolean {
+  const failed = (job.failed_variants as unknown as FailedVariant[] | null) ?? [];
+  return failed.length > 0
+    && (job.status === 'completed' || (job.status === 'failed' && job.stage === 'variants'));
+}
+
+/**
+ * Create a job: upload the original image(s) and insert a queued row
+ * Pass originalImageUrl instead of imageDataUrl for images already in storage (bulk uploads),
+ * and referenceDataUrls for the rest of a mood board.
+ */
+export async function createRemixJob({
+  imageDataUrl,
+  originalImageUrl: storedImageUrl,
+  referenceDataUrls = [],
+  userId,
+  ipHash,
+  selection,
+  review = false,
+}: {
+  imageDataUrl?: string;
+  originalImageUrl?: string;
+  referenceDataUrls?: string[];
+  userId: string | null;
+  ipHash: string | null;
+  selection: StrategySelection;
+  review?: boolean; // Pause after analysis for the user to review
+}): Promise<RemixJobRow> {
+  const jobId = crypto.randomUUID();
+  let originalImageUrl = storedImageUrl;
+  if (!originalImageUrl) {
+    if (!imageDataUrl) {
+      throw new Error('Failed to create remix job: no image provided');
+    }
+    originalImageUrl = await uploadToStorage(imageDataUrl, `temp/${jobId}/original.png`);
+  }
+  const referenceUrls = await Promise.all(
+    referenceDataUrls.map((dataUrl, i) => uploadToStorage(dataUrl, `temp/${jobId}/reference_${i + 2}.png`))
+  );
+
+  const { data, error } = await supabase
+    .from('remix_jobs')
+    .insert({
+      id: jobId,
+      user_id: userId,
+      ip_hash: ipHash,
+      original_image_url: originalImageUrl,
+      reference_image_urls: referenceUrls,
+      strategy_ids: selection.strategyIds,
+      variant_count: selection.variantCount,
+      needs_review: review,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create remix job: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as RemixJobRow;
+}
+
+/**
+ * Load a job by ID
+ */
+export async function getRemixJob(jobId: string): Promise<RemixJobRow | null> {
+  const { data, error } = await supabase
+    .from('remix_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load remix job: ${error.message}`);
+  }
+
+  return (data as RemixJobRow | null) ?? null;
+}
+
+/**
+ * Load a job the current request may see
+ * Jobs started by a signed-in user are only visible to that user (others get null, i.e. 404)
+ */
+export async function getRemixJobForCurrentUser(jobId: string): Promise<RemixJobRow | null> {
+  const job = await getRemixJob(jobId);
+  if (!job?.user_id) {
+    return job;
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user && user.id === job.user_id ? job : null;
+}
+
+/**
+ * Save job fields (also bumps updated_at, which acts as the worker heartbeat)
+ */
+async function updateRemixJob(jobId: string, fields: Partial<RemixJobRow>): Promise<RemixJobRow> {
+  const { data, error } = await supabase
+    .from('remix_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update remix job: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as RemixJobRow;
+}
+
+/**
+ * Review step 1: save the user's corrected analysis and plan strategies from it
+ * The job stays awaiting_review (now at the variants stage) until generation starts.
+ */
+export async function planReviewedStrategies(
+  job: RemixJobRow,
+  analysis: DesignAnalysis,
+  selection: StrategySelection
+): Promise<RemixJobRow> {
+  const slots = await resolveStrategySlots(selection, job.user_id);
+  const strategies = await withUsageContext({ userId: job.user_id, jobId: job.id }, () =>
+    resolveGenerationPipeline().planStrategies(analysis, slots)
+  );
+  console.log(`📝 Remix job ${job.id}: planned ${strategies.length} strategies from reviewed analysis`);
+
+  return updateRemixJob(job.id, {
+    analysis: analysis as never,
+    strategies: strategies as never,
+    strategy_ids: selection.strategyIds,
+    variant_count: selection.variantCount,
+    stage: 'variants',
+  });
+}
+
+/**
+ * Review step 2: save the user's edited prompts and queue the variants stage
+ * Only prompts of existing strategies can change (IDs / template links are kept).
+ */
+export async function startReviewedGeneration(
+  job: RemixJobRow,
+  prompts: Record<number, string>
+): Promise<RemixJobRow> {
+  const strategies = (job.strategies as unknown as RemixStrategy[]).map((strategy) => ({
+    ...strategy,
+    prompt: prompts[strategy.id]?.trim() || strategy.prompt,
+  }));
+
+  return updateRemixJob(job.id, {
+    strategies: strategies as never,
+    status: 'queued',
+    attempts: 0,
+  });
+}
+
+/**
+ * Send a finished job back to the variants stage to re-run only its failed strategies
+ * Succeeded variants are kept; the worker skips strategies that already have one.
+ */
+export async function requeueFailedVariants(jobId: string): Promise<RemixJobRow> {
+  return updateRemixJob(jobId, {
+    status: 'queued',
+    stage: 'variants',
+    attempts: 0,
+    error: null,
+  });
+}
+
+/**
+ * Atomically claim a job for this worker
+ * Optimistic lock on attempts so two pollers can't both resume the same job
+ */
+async function claimRemixJob(jobId: string): Promise<RemixJobRow | null> {
+  const job = await getRemixJob(jobId);
+  if (!job || !isJobRunnable(job)) {
+    return null;
+  }
+
+  if (job.attempts >= MAX_ATTEMPTS) {
+    await updateRemixJob(jobId, {
+      status: 'failed',
+      error: `Remix job did not finish after ${MAX_ATTEMPTS} attempts (stuck in ${job.stage})`,
+    });
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('remix_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle();
+
+  return (data as RemixJobRow | null) ?? null;
+}
+
+/**
+ * Worker: run (or resume) a job through its remaining stages
+ * Safe to call multiple times - only one caller wins the claim.
+ * Individual variant failures are saved on the job; it only fails if none succeed.
+ * Pass onEvent to stream progress (see POST /api/remix with Accept: text/event-stream).
+ * Pass deadline (epoch ms) when the function already spent part of its budget;
+ * a job that runs out of time is queued again and resumed by the next poll.
+ */
+export async function runRemixJob(
+  jobId: string,
+  { onEvent, deadline = Date.now() + JOB_DEADLINE_MS }: { onEvent?: GenerationEventHandler; deadline?: number } = {}
+): Promise<void> {
+  await withDeadline(deadline, async () => {
+    if (isDeadlineNear()) {
+      console.log(`⏱️ Remix job ${jobId}: not enough time left to start, leaving it for the next poll`);
+      return;
+    }
+
+    const job = await claimRemixJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    const emit: GenerationEventHandler = (event) => onEvent?.(event);
+
+    console.log(`🧵 Remix job ${jobId}: attempt ${job.attempts}, resuming at stage "${job.stage}"`);
+
+    // Every API call of the job is billed to its user in the usage ledger
+    await withUsageContext({ userId: job.user_id, jobId }, () => runRemixStages(job, emit));
+  });
+}
+
+/**
+ * Run a claimed job's remaining stages, saving progress after each one
+ */
+async function runRemixStages(job: RemixJobRow, emit: GenerationEventHandler): Promise<void> {
+  const jobId = job.id;
+
+  try {
+    const pipeline = resolveGenerationPipeline();
+
+    const references = referenceImageUrls(job);
+
+    // Stage 1: PRE-PROCESS - Extract design from mockup by removing background
+    if (job.stage === 'preprocess') {
+      emit({ type: 'stage', stage: 'preprocess' });
+      const [cleanedImageUrl, ...cleanedReferenceUrls] = await Promise.all(
+        [job.original_image_url, ...references].map(async (imageUrl) => {
+          try {
+            console.log("🧹 Pre-processing: Extracting design from mockup...");
+            const originalImage = await fetchImageAsDataUrl(imageUrl);
+            // Re-uploads of the same design reuse the cached cleaned reference
+            const cleanedUrl = await removeBackgroundCached(originalImage, pipeline.backgroundProvider);
+            console.log("✅ Design extracted successfully - mockup removed");
+            return cleanedUrl;
+          } catch (error) {
+            console.error("Pre-processing error:", error);
+            // If background removal fails, fall back to original image
+            console.log("⚠️ Falling back to original image as reference");
+            return imageUrl;
+          }
+        })
+      );
+      job = await updateRemixJob(jobId, {
+        cleaned_image_url: cleanedImageUrl,
+        cleaned_reference_urls: cleanedReferenceUrls,
+        stage: 'analysis',
+      });
+    }
+
+    // Stage 2: Analyze the design (use ORIGINAL image(s) for better context)
+    if (job.stage === 'analysis') {
+      emit({ type: 'stage', stage: 'analysis' });
+      const analyses = await Promise.all(
+        [job.original_image_url, ...references].map(async (imageUrl) =>
+          analyzeCached(await fetchImageAsDataUrl(imageUrl), pipeline.analysisProvider)
+        )
+      );
+      let analysis = analyses[0];
+      if (analyses.length > 1) {
+        try {
+          analysis = await pipeline.blendAnalyses(analyses);
+        } catch (error) {
+          // A plain field-by-field merge still gives a usable mood board
+          console.warn(`⚠️ Remix job ${jobId}: blending ${analyses.length} analyses failed, merging fields instead:`, error);
+          analysis = mergeDesignAnalyses(analyses);
+        }
+        console.log(`🎨 Mood board: blended ${analyses.length} references`);
+      }
+      console.log("Design analysis complete:", analysis);
+      job = await updateRemixJob(jobId, { analysis: analysis as never, stage: 'strategies' });
+      for (const risk of trademarkIssues({ design_text: analysis.text })) {
+        console.warn(`™️ Remix job ${jobId}: ${risk.level} trademark_risk "${risk.term}" in design text`);
+      }
+    }
+
+    const analysis = job.analysis as unknown as DesignAnalysis;
+    emit({ type: 'analysis', analysis });
+
+    // Review jobs hand over to the user here (see planReviewedStrategies)
+    if (job.stage === 'strategies' && job.needs_review) {
+      await updateRemixJob(jobId, { status: 'awaiting_review' });
+      console.log(`📝 Remix job ${jobId} awaiting review`);
+      return;
+    }
+
+    // Stage 3: Generate remix strategies
+    if (job.stage === 'strategies') {
+      emit({ type: 'stage', stage: 'strategies' });
+      const slots = await resolveStrategySlots({
+        strategyIds: (job.strategy_ids as string[] | null) ?? DEFAULT_STRATEGY_IDS,
+        variantCount: job.variant_count,
+      }, job.user_id);
+      const strategies = await pipeline.planStrategies(analysis, slots);
+      console.log("Remix strategies generated:", strategies.length);
+      job = await updateRemixJob(jobId, { strategies: strategies as never, stage: 'variants' });
+    }
+
+    // Stage 4: Generate variant images, upload each one the moment it's ready
+    // On a retry, strategies that already have a variant are skipped
+    if (job.stage === 'variants') {
+      const strategies = job.strategies as unknown as RemixStrategy[];
+      const stored: StoredVariant[] = [...((job.variants as unknown as StoredVariant[] | null) ?? [])];
+      const pending = strategies.filter((strategy) => !stored.some((variant) => variant.id === strategy.id));
+      emit({ type: 'strategies', strategies: pending.map(({ id, strategy }) => ({ id, strategy })) });
+      emit({ type: 'stage', stage: 'variants' });
+      const cleanedReference = await fetchImageAsDataUrl(job.cleaned_image_url || job.original_image_url);
+      const extraReferences = await Promise.all(
+        ((job.cleaned_reference_urls as string[] | null) ?? references).map(fetchImageAsDataUrl)
+      );
+
+      // Each finished variant is saved right away, so a killed worker resumes without it.
+      // Saves are chained so a slower write never overwrites a newer list.
+      let savedVariants: Promise<void> = Promise.resolve();
+      const saveVariants = () => {
+        savedVariants = savedVariants
+          .then(async () => {
+            await updateRemixJob(jobId, { variants: [...stored].sort((a, b) => a.id - b.id) as never });
+          })
+          .catch((saveError) => console.warn(`⚠️ Remix job ${jobId}: could not save variant progress:`, saveError));
+        return savedVariants;
+      };
+
+      const results = await generateVariantImages(cleanedReference, pending, analysis, {
+        pipeline,
+        extraReferences,
+        onProgress: emit,
+        onVariant: async (variant, tier) => {
+          const { imageUrl, thumbnailUrl } = await uploadVariantImages(
+            variant.design.imageData,
+            `temp/${jobId}/variant_${variant.id}`
+          );
+          const storedVariant: StoredVariant = {
+            id: variant.id,
+            strategy: variant.strategy,
+            strategyId: variant.strategyId,
+            prompt: variant.design.prompt,
+            tier,
+            imageUrl,
+            thumbnailUrl,
+            colorClassification: variant.colorClassification,
+            provenance: variant.provenance,
+            similarity: variant.similarity,
+          };
+          stored.push(storedVariant);
+          await saveVariants();
+          emit({ type: 'variant_ready', variant: toReadyVariant(storedVariant) });
+        },
+      });
+      await savedVariants;
+
+      const failed = results.filter((result): result is FailedVariant => result.status === 'failed');
+      stored.sort((a, b) => a.id - b.id);
+
+      // Variants cut short by the deadline aren't failures - the next run generates them
+      if (failed.length > 0 && isDeadlineNear()) {
+        await updateRemixJob(jobId, { variants: stored as never, status: 'queued' });
+        console.log(`⏱️ Remix job ${jobId}: out of time with ${failed.length} variants left, queued to resume`);
+        return;
+      }
+      console.log(`✅ ${stored.length} variants generated and uploaded, ${failed.length} failed`);
+
+      // Keep whatever succeeded - only a run with nothing to show fails the job
+      job = await updateRemixJob(jobId, { variants: stored as never, failed_variants: failed as never });
+      if (stored.length === 0) {
+        throw new Error(`All variants failed: ${failed.map((variant) => variant.error).join('; ')}`);
+      }
+      job = await updateRemixJob(jobId, { stage: 'upload' });
+    }
+
+    // Stage 5: Backfill any missing thumbnails, then count usage
+    if (job.stage === 'upload') {
+      emit({ type: 'stage', stage: 'upload' });
+      const stored = job.variants as unknown as StoredVariant[];
+
+      const finalVariants: StoredVariant[] = await Promise.all(
+        stored.map(async (variant) => {
+          if (variant.thumbnailUrl) {
+            return variant;
+          }
+          try {
+            const imageData = await fetchImageAsDataUrl(variant.imageUrl);
+            const thumbnailUrl = await uploadThumbnail(imageData, `temp/${jobId}/variant_${variant.id}_thumb.webp`);
+            return thumbnailUrl ? { ...variant, thumbnailUrl } : variant;
+          } catch {
+            console.warn(`⚠️ Thumbnail creation failed for variant ${variant.id}, using full image`);
+            return variant;
+          }
+        })
+      );
+
+      // Increment usage count for anonymous users AFTER successful generation
+      // (retries of failed variants reuse the count from the first run)
+      let remaining: number | null = job.remaining;
+      if (job.ip_hash && remaining === null) {
+        try {
+          const newCount = await incrementUsage(job.ip_hash);
+          remaining = Math.max(0, DAILY_LIMIT - newCount);
+          console.log(`📊 Anonymous usage updated: ${newCount}/${DAILY_LIMIT}, remaining: ${remaining}`);
+        } catch (usageError) {
+          console.error('Failed to increment usage:', usageError);
+        }
+      }
+
+      job = await updateRemixJob(jobId, {
+        variants: finalVariants as never,
+        remaining,
+        stage: 'done',
+        status: 'completed',
+      });
+    }
+
+    emit({ type: 'stage', stage: 'done' });
+    console.log(`✅ Remix job ${jobId} completed`);
+  } catch (error) {
+    console.error(`❌ Remix job ${jobId} failed at stage "${job.stage}":`, error);
+    emit({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    await updateRemixJob(jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }).catch((saveError) => console.error('Failed to save job failure:', saveError));
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Remix upload parsing - Server-only
+ * Shared by POST /api/remix (one-shot) and POST /api/remix/analyze (review flow):
+ * rate limit check, image validation and strategy selection.
+ *
+ * Send one `image` field, or 2-5 for a mood-board remix (first = primary reference).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "./supabase/server";
+import { checkRateLimit, hashIP } from "./anonymous-usage";
+import { MAX_REFERENCE_IMAGES } from "./mood-board";
+import { parseStrategySelection, type StrategySelection } from "./strategy-templates";
+import { resolveStrategySlots } from "./strategy-templates.server";
+
+// Validate file size (10MB max)
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+export interface RemixUpload {
+  user: User | null;
+  ipHash: string | null;
+  imageDataUrl: string;
+  referenceDataUrls: string[];   // Further mood-board references (empty for a single image)
+  selection: StrategySelection;
+}
+
+/**
+ * Get the current user from session (if authenticated)
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * Anonymous daily limit for a generation request (by hashed client IP)
+ * Returns the IP hash, or the 429 response to send back
+ */
+export async function checkAnonymousLimit(
+  request: Request
+): Promise<{ ipHash: string } | { response: NextResponse }> {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ip = forwardedFor?.split(',')[0]?.trim() ||
+             request.headers.get('x-real-ip') ||
+             'unknown';
+  const ipHash = hashIP(ip);
+
+  const rateCheck = await checkRateLimit(ipHash);
+
+  if (!rateCheck.allowed) {
+    return {
+      response: NextResponse.json(
+        {
+          error: 'daily_limit',
+          message: 'You\'ve used your 2 free designs for today. Sign up to get unlimited access!',
+          remaining: 0
+        },
+        { status: 429 }
+      ),
+    };
+  }
+
+  return { ipHash };
+}
+
+/**
+ * Validate a remix upload request
+ * Returns the parsed upload, or the error response to send back
+ */
+export async function parseRemixUpload(
+  request: NextRequest
+): Promise<{ upload: RemixUpload } | { response: NextResponse }> {
+  // Check if user is authenticated (skip rate limit for authenticated users)
+  const user = await getCurrentUser();
+  let ipHash: string | null = null;
+
+  if (!user) {
+    const limit = await checkAnonymousLimit(request);
+    if ("response" in limit) {
+      return limit;
+    }
+    ipHash = limit.ipHash;
+  }
+
+  // Parse the uploaded image(s) from FormData
+  const formData = await request.formData();
+  const files = formData.getAll("image").filter((entry): entry is File => typeof entry !== "string");
+
+  // Validate file exists
+  if (files.length === 0) {
+    return { response: NextResponse.json({ error: "No image file provided" }, { status: 400 }) };
+  }
+
+  if (files.length > MAX_REFERENCE_IMAGES) {
+    return {
+      response: NextResponse.json(
+        { error: `Too many images. A mood board takes at most ${MAX_REFERENCE_IMAGES} references.` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  for (const file of files) {
+    // Validate file type
+    if (!file.type.startsWith("image/")) {
+      return {
+        response: NextResponse.json({ error: "Invalid file type. Please upload an image." }, { status: 400 }),
+      };
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return {
+        response: NextResponse.json({ error: "File too large. Maximum size is 10MB." }, { status: 400 }),
+      };
+    }
+  }
+
+  // Validate the strategy selection (unknown / other users' templates are rejected up front)
+  let rawStrategyIds: unknown = undefined;
+  const strategyIdsField = formData.get("strategyIds");
+  if (typeof strategyIdsField === "string" && strategyIdsField) {
+    try {
+      rawStrategyIds = JSON.parse(strategyIdsField);
+    } catch {
+      return { response: NextResponse.json({ error: "strategyIds must be a JSON array" }, { status: 400 }) };
+    }
+  }
+  const parsedSelection = parseStrategySelection(rawStrategyIds, formData.get("variantCount"));
+  if ("error" in parsedSelection) {
+    return { response: NextResponse.json({ error: parsedSelection.error }, { status: 400 }) };
+  }
+  try {
+    await resolveStrategySlots(parsedSelection.selection, user?.id ?? null);
+  } catch (selectionError) {
+    return {
+      response: NextResponse.json(
+        { error: selectionError instanceof Error ? selectionError.message : "Invalid strategy selection" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Convert files to base64 data URLs for storage upload
+  const [imageDataUrl, ...referenceDataUrls] = await Promise.all(
+    files.map(async (file) => {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      return `data:${file.type};base64,${buffer.toString("base64")}`;
+    })
+  );
+
+  return {
+    upload: { user, ipHash, imageDataUrl, referenceDataUrls, selection: parsedSelection.selection },
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Resilient provider calls - Server-only
+ * Wraps every Gemini / Recraft request with:
+ * - a per-provider timeout
+ * - jittered exponential backoff on 408/429/5xx, timeouts and network errors
+ *   (honouring Retry-After / Gemini RetryInfo when the provider sends one)
+ * - a circuit breaker that fails fast while a provider keeps failing, so the
+ *   tier pipeline moves straight on to the next provider
+ * - an optional deadline (withDeadline) shared by every call of a job, so
+ *   timeouts x retries x tiers can't outlast the function's maxDuration
+ *
+ * Breaker state lives in memory, per server instance. See GET /api/remix.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface ProviderPolicy {
+  timeoutMs: number;
+  maxAttempts: number;       // Including the first call
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;   // Retry-After longer than this is not worth waiting for
+  failureThreshold: number;  // Consecutive failed calls before the circuit opens
+  cooldownMs: number;        // How long the circuit stays open before a trial call
+}
+
+const DEFAULT_POLICY: ProviderPolicy = {
+  timeoutMs: 60_000,
+  maxAttempts: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 20_000,
+  failureThreshold: 5,
+  cooldownMs: 60_000,
+};
+
+// Timeouts are overridable per provider: GEMINI_TIMEOUT_MS, RECRAFT_TIMEOUT_MS
+const PROVIDER_POLICIES: Record<string, ProviderPolicy> = {
+  gemini: {
+    ...DEFAULT_POLICY,
+    timeoutMs: Number(process.env.GEMINI_TIMEOUT_MS) || 90_000, // Image generation is slow
+  },
+  recraft: {
+    ...DEFAULT_POLICY,
+    timeoutMs: Number(process.env.RECRAFT_TIMEOUT_MS) || 60_000,
+  },
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// No attempt is started with less time than this left before the deadline
+const MIN_ATTEMPT_MS = 15_000;
+
+const deadlineStorage = new AsyncLocalStorage<{ deadline: number }>();
+
+/**
+ * The provider answered with a retryable HTTP status
+ */
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(provider: string, operation: string, status: number, body: string, retryAfterMs: number | null) {
+    super(`${provider} ${operation} returned ${status}: ${body.slice(0, 300)}`);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The call took longer than the provider's timeout
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(provider: string, operation: string, timeoutMs: number) {
+    super(`${provider} ${operation} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * The provider's circuit is open - the call was not attempted
+ */
+export class CircuitOpenError extends Error {
+  readonly provider: string;
+  readonly retryAt: string;
+
+  constructor(provider: string, retryAt: number) {
+    super(`${provider} is temporarily disabled after repeated failures (retry after ${new Date(retryAt).toISOString()})`);
+    this.name = 'CircuitOpenError';
+    this.provider = provider;
+    this.retryAt = new Date(retryAt).toISOString();
+  }
+}
+
+/**
+ * Too little time was left before the deadline - the call was not attempted
+ */
+export class DeadlineExceededError extends Error {
+  constructor(provider: string, operation: string) {
+    super(`${provider} ${operation} skipped: not enough time left before the deadline`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  totals: { calls: number; failures: number; retries: number; rejected: number };
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  timeoutMs: number;
+  openUntil: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  totals: Circuit['totals'];
+}
+
+const circuits = new Map<string, Circuit>();
+
+function policyFor(provider: string): ProviderPolicy {
+  return PROVIDER_POLICIES[provider] ?? DEFAULT_POLICY;
+}
+
+function circuitFor(provider: string): Circuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = {
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastError: null,
+      lastFailureAt: null,
+      totals: { calls: 0, failures: 0, retries: 0, rejected: 0 },
+    };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether calls to this provider are currently being skipped
+ * (open circuit that hasn't cooled down, or a half-open trial already running)
+ */
+export function isCircuitOpen(provider: string): boolean {
+  const circuit = circuits.get(provider);
+  if (!circuit || circuit.state === 'closed') {
+    return false;
+  }
+  if (circuit.state === 'open') {
+    return Date.now() < (circuit.openedAt ?? 0) + policyFor(provider).cooldownMs;
+  }
+  return circuit.trialInFlight;
+}
+
+/**
+ * Breaker state for every provider that has been called (health endpoint)
+ */
+export function getCircuitSnapshots(): Record<string, CircuitSnapshot> {
+  const snapshots: Record<string, CircuitSnapshot> = {};
+  for (const provider of new Set([...Object.keys(PROVIDER_POLICIES), ...circuits.keys()])) {
+    const circuit = circuitFor(provider);
+    const policy = policyFor(provider);
+    snapshots[provider] = {
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      failureThreshold: policy.failureThreshold,
+      timeoutMs: policy.timeoutMs,
+      openUntil: circuit.state === 'open' && circuit.openedAt
+        ? new Date(circuit.openedAt + policy.cooldownMs).toISOString()
+        : null,
+      lastError: circuit.lastError,
+      lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt).toISOString() : null,
+      totals: { ...circuit.totals },
+    };
+  }
+  return snapshots;
+}
+
+/**
+ * Run fn with a deadline (epoch ms) for every provider call made inside it:
+ * timeouts are cut to the time left, and no attempt starts once it's nearly up
+ */
+export function withDeadline<T>(deadline: number, fn: () => Promise<T>): Promise<T> {
+  return deadlineStorage.run({ deadline }, fn);
+}
+
+/**
+ * Time left before the current deadline (Infinity outside withDeadline)
+ */
+export function deadlineRemainingMs(): number {
+  const store = deadlineStorage.getStore();
+  return store ? store.deadline - Date.now() : Infinity;
+}
+
+/**
+ * Whether the current deadline leaves too little time to start another call
+ */
+export function isDeadlineNear(): boolean {
+  return deadlineRemainingMs() < MIN_ATTEMPT_MS;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decide whether an error is worth retrying, and how long the provider asked us to wait
+ */
+function classifyError(error: unknown): { retryable: boolean; retryAfterMs: number | null } {
+  if (error instanceof ProviderTimeoutError) {
+    return { retryable: true, retryAfterMs: null };
+  }
+  if (error instanceof ProviderHttpError) {
+    return { retryable: RETRYABLE_STATUSES.has(error.status), retryAfterMs: error.retryAfterMs };
+  }
+
+  // SDK errors (GoogleGenerativeAIFetchError, OpenAI APIError) carry the HTTP status
+  const err = error as {
+    status?: number;
+    headers?: Record<string, string> | Headers;
+    errorDetails?: Array<Record<string, unknown>>;
+  } | null;
+  if (typeof err?.status === 'number') {
+    // Gemini: { "@type": "...RetryInfo", retryDelay: "12s" }
+    const retryInfo = err.errorDetails?.find((detail) => String(detail['@type'] ?? '').endsWith('RetryInfo'));
+    const retryDelay = typeof retryInfo?.retryDelay === 'string' ? parseFloat(retryInfo.retryDelay) * 1000 : null;
+    const headers = err.headers;
+    const retryAfterHeader = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+    return {
+      retryable: RETRYABLE_STATUSES.has(err.status),
+      retryAfterMs: retryDelay ?? parseRetryAfter(retryAfterHeader),
+    };
+  }
+
+  // fetch() network failures surface as TypeError ("fetch failed")
+  if (error instanceof TypeError) {
+    return { retryable: true, retryAfterMs: null };
+  }
+  return { retryable: false, retryAfterMs: null };
+}
+
+function backoffDelay(policy: ProviderPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter in the upper half so parallel variants don't retry in lockstep
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+function recordSuccess(circuit: Circuit, provider: string) {
+  if (circuit.state !== 'closed') {
+    console.log(`🟢 Circuit closed for ${provider}`);
+  }
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(circuit: Circuit, provider: string, policy: ProviderPolicy, error: unknown) {
+  circuit.consecutiveFailures++;
+  circuit.totals.failures++;
+  circuit.lastError = error instanceof Error ? error.message : String(error);
+  circuit.lastFailureAt = Date.now();
+  circuit.trialInFlight = false;
+
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= policy.failureThreshold) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+    console.warn(`🔴 Circuit open for ${provider} (${circuit.consecutiveFailures} consecutive failures) - skipping for ${policy.cooldownMs / 1000}s`);
+  }
+}
+
+/**
+ * Run a provider call with timeout, retries and the circuit breaker.
+ * The call receives an AbortSignal that fires on timeout - pass it to fetch / the SDK.
+ * Non-retryable errors (400s, validation) are rethrown as-is and don't trip the breaker.
+ */
+export async function withResilience<T>(
+  provider: string,
+  operation: string,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const policy = policyFor(provider);
+  const circuit = circuitFor(provider);
+
+  // Checked before the breaker so a skipped call never holds the half-open trial
+  if (isDeadlineNear()) {
+    throw new DeadlineExceededError(provider, operation);
+  }
+
+  if (circuit.state === 'open') {
+    const retryAt = (circuit.openedAt ?? 0) + policy.cooldownMs;
+    if (Date.now() < retryAt || circuit.trialInFlight) {
+      circuit.totals.rejected++;
+      throw new CircuitOpenError(provider, retryAt);
+    }
+    // Cooled down - let one trial call through
+    circuit.state = 'half_open';
+  }
+  if (circuit.state === 'half_open') {
+    if (circuit.trialInFlight) {
+      circuit.totals.rejected++;
+      throw new CircuitOpenError(provider, Date.now() + policy.cooldownMs);
+    }
+    circuit.trialInFlight = true;
+  }
+
+  circuit.totals.calls++;
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timeoutMs = Math.min(policy.timeoutMs, deadlineRemainingMs());
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new ProviderTimeoutError(provider, operation, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      // Race as well as abort, in case the callee ignores the signal
+      const result = await Promise.race([call(controller.signal), timeout]);
+      recordSuccess(circuit, provider);
+      return result;
+    } catch (error) {
+      const { retryable, retryAfterMs } = classifyError(error);
+
+      if (!retryable) {
+        // The provider is up - this request was just bad
+        if (circuit.state === 'half_open') {
+          recordSuccess(circuit, provider);
+        }
+        throw error;
+      }
+
+      const waitMs = retryAfterMs ?? backoffDelay(policy, attempt);
+      const outOfTime = deadlineRemainingMs() - waitMs < MIN_ATTEMPT_MS;
+      if (attempt >= policy.maxAttempts || waitMs > policy.maxRetryAfterMs || outOfTime) {
+        // A timeout we shortened to fit the deadline says nothing about the provider
+        if (!(error instanceof ProviderTimeoutError && timeoutMs < policy.timeoutMs)) {
+          recordFailure(circuit, provider, policy, error);
+        } else {
+          circuit.trialInFlight = false;
+        }
+        throw error;
+      }
+
+      circuit.totals.retries++;
+      console.warn(`🔁 ${provider} ${operation} failed (${error instanceof Error ? error.message : error}) - retry ${attempt}/${policy.maxAttempts - 1} in ${waitMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * fetch() through withResilience
+ * Retryable statuses (408/429/5xx) are retried; any other response is returned
+ * as-is so callers keep their own `if (!response.ok)` handling.
+ */
+export async function resilientFetch(
+  provider: string,
+  operation: string,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  return withResilience(provider, operation, async (signal) => {
+    const response = await fetch(url, { ...init, signal });
+    if (RETRYABLE_STATUSES.has(response.status)) {
+      const body = await response.text();
+      throw new ProviderHttpError(
+        provider,
+        operation,
+        response.status,
+        body,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  });
+}
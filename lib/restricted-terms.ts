@@ -0,0 +1,104 @@
+/**
+ * Restricted terms for trademark screening (see lib/trademark-screening.ts)
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Maintaining the list:
+ * - One entry per mark; put spelling variants in `aliases` instead of new entries
+ * - level "error" blocks publishing, "warning" only asks the seller to double-check
+ * - Set `exact: true` for short or dictionary-word marks ("Gap", "Apple", "Chanel")
+ *   so fuzzy matching doesn't flag every near-miss; one-word aliases are always exact
+ */
+
+export type RestrictedTermCategory = 'brand' | 'sports_league' | 'sports_team' | 'celebrity' | 'character' | 'phrase';
+
+export interface RestrictedTerm {
+  term: string;
+  category: RestrictedTermCategory;
+  level: 'error' | 'warning';
+  aliases?: string[];
+  exact?: boolean;
+}
+
+export const RESTRICTED_TERMS: RestrictedTerm[] = [
+  // Apparel / consumer brands
+  { term: 'Nike', category: 'brand', level: 'error', aliases: ['Just Do It'], exact: true },
+  { term: 'Adidas', category: 'brand', level: 'error' },
+  { term: 'Under Armour', category: 'brand', level: 'error' },
+  { term: 'Supreme', category: 'brand', level: 'warning', exact: true },
+  { term: 'Gucci', category: 'brand', level: 'error' },
+  { term: 'Louis Vuitton', category: 'brand', level: 'error' },
+  { term: 'Chanel', category: 'brand', level: 'error', exact: true },
+  { term: 'Coca-Cola', category: 'brand', level: 'error', aliases: ['Coke'] },
+  { term: 'Pepsi', category: 'brand', level: 'error', exact: true },
+  { term: 'Starbucks', category: 'brand', level: 'error' },
+  { term: 'Harley-Davidson', category: 'brand', level: 'error' },
+  { term: 'Jeep', category: 'brand', level: 'warning', exact: true },
+  { term: 'John Deere', category: 'brand', level: 'error' },
+  { term: 'Apple', category: 'brand', level: 'warning', exact: true },
+  { term: 'Gap', category: 'brand', level: 'warning', exact: true },
+  { term: 'Yeti', category: 'brand', level: 'warning', exact: true },
+  { term: 'Stanley', category: 'brand', level: 'warning', exact: true },
+  { term: 'Jack Daniels', category: 'brand', level: 'error' },
+  { term: 'Budweiser', category: 'brand', level: 'error' },
+  { term: 'Corona', category: 'brand', level: 'warning', exact: true },
+  { term: 'Fortnite', category: 'brand', level: 'error' },
+  { term: 'Minecraft', category: 'brand', level: 'error' },
+  { term: 'Pokemon', category: 'brand', level: 'error', aliases: ['Pikachu'] },
+
+  // Entertainment characters / franchises
+  { term: 'Disney', category: 'character', level: 'error' },
+  { term: 'Mickey Mouse', category: 'character', level: 'error' },
+  { term: 'Marvel', category: 'character', level: 'error', exact: true },
+  { term: 'Star Wars', category: 'character', level: 'error' },
+  { term: 'Harry Potter', category: 'character', level: 'error', aliases: ['Hogwarts'] },
+  { term: 'Grinch', category: 'character', level: 'error', exact: true },
+  { term: 'Hello Kitty', category: 'character', level: 'error' },
+  { term: 'Barbie', category: 'character', level: 'error', exact: true },
+  { term: 'Snoopy', category: 'character', level: 'error', aliases: ['Peanuts'] },
+  { term: 'Sesame Street', category: 'character', level: 'error' },
+
+  // Sports leagues
+  { term: 'NFL', category: 'sports_league', level: 'error', exact: true },
+  { term: 'NBA', category: 'sports_league', level: 'error', exact: true },
+  { term: 'MLB', category: 'sports_league', level: 'error', exact: true },
+  { term: 'NHL', category: 'sports_league', level: 'error', exact: true },
+  { term: 'NCAA', category: 'sports_league', level: 'error', exact: true },
+  { term: 'FIFA', category: 'sports_league', level: 'error', exact: true },
+  { term: 'Super Bowl', category: 'sports_league', level: 'error' },
+  { term: 'March Madness', category: 'sports_league', level: 'error' },
+  { term: 'World Series', category: 'sports_league', level: 'warning' },
+  { term: 'Olympics', category: 'sports_league', level: 'error', aliases: ['Olympic'] },
+
+  // Sports teams (most-infringed)
+  { term: 'Dallas Cowboys', category: 'sports_team', level: 'error' },
+  { term: 'New England Patriots', category: 'sports_team', level: 'error' },
+  { term: 'Green Bay Packers', category: 'sports_team', level: 'error' },
+  { term: 'Kansas City Chiefs', category: 'sports_team', level: 'error' },
+  { term: 'Los Angeles Lakers', category: 'sports_team', level: 'error', aliases: ['Lakers'] },
+  { term: 'New York Yankees', category: 'sports_team', level: 'error', aliases: ['Yankees'] },
+  { term: 'Boston Red Sox', category: 'sports_team', level: 'error', aliases: ['Red Sox'] },
+  { term: 'Chicago Bulls', category: 'sports_team', level: 'error' },
+  { term: 'Real Madrid', category: 'sports_team', level: 'error' },
+  { term: 'Manchester United', category: 'sports_team', level: 'error' },
+
+  // Celebrities (right of publicity)
+  { term: 'Taylor Swift', category: 'celebrity', level: 'error', aliases: ['Swiftie', 'Swifties'] },
+  { term: 'Beyonce', category: 'celebrity', level: 'error' },
+  { term: 'Elvis Presley', category: 'celebrity', level: 'error' },
+  { term: 'Michael Jordan', category: 'celebrity', level: 'error' },
+  { term: 'LeBron James', category: 'celebrity', level: 'error' },
+  { term: 'Travis Kelce', category: 'celebrity', level: 'error' },
+  { term: 'Dolly Parton', category: 'celebrity', level: 'error' },
+  { term: 'Bob Ross', category: 'celebrity', level: 'error' },
+  { term: 'Elon Musk', category: 'celebrity', level: 'warning' },
+  { term: 'Donald Trump', category: 'celebrity', level: 'warning' },
+
+  // Trademarked phrases
+  { term: 'Let\'s Go Brandon', category: 'phrase', level: 'warning' },
+  { term: 'Hakuna Matata', category: 'phrase', level: 'error' },
+  { term: 'Yeah Buddy', category: 'phrase', level: 'warning' },
+  { term: 'Namast\'ay in Bed', category: 'phrase', level: 'error' },
+  { term: 'Keep Calm and Carry On', category: 'phrase', level: 'warning' },
+  // Everyday phrase inside longer slogans ("Mom Life Is Good Enough") - flag, don't block
+  { term: 'Life Is Good', category: 'phrase', level: 'warning', exact: true },
+];
@@ -0,0 +1,59 @@
+/**
+ * Seasonal event lookup - Server-only
+ * The calendar a user sees: built-in holidays plus their own events.
+ */
+
+import { serviceClient as supabase } from "./storage.server";
+import { BUILTIN_SEASONAL_EVENTS, type SeasonalEvent } from "./seasonal-events";
+import type { SeasonalEventRow } from "./supabase/types";
+
+export function toSeasonalEvent(row: SeasonalEventRow): SeasonalEvent {
+  return {
+    id: row.id,
+    name: row.name,
+    month: row.month,
+    day: row.day,
+    weekday: row.day === null ? row.weekday : null,
+    nth: row.day === null ? row.nth : null,
+    leadDays: row.lead_days,
+    promptHint: row.prompt_hint,
+    builtIn: false,
+  };
+}
+
+/**
+ * Database fields from a validated event body (a fixed day wins over a weekday rule)
+ */
+export function toSeasonalEventFields(body: Record<string, unknown>) {
+  const hasDay = body.day !== null && body.day !== undefined;
+  return {
+    name: String(body.name).trim(),
+    month: Number(body.month),
+    day: hasDay ? Number(body.day) : null,
+    weekday: hasDay ? null : Number(body.weekday),
+    nth: hasDay ? null : Number(body.nth),
+    lead_days: Number(body.leadDays),
+    prompt_hint: String(body.promptHint).trim(),
+  };
+}
+
+/**
+ * Built-in events followed by the user's own (by month)
+ */
+export async function listSeasonalEvents(userId: string | null): Promise<SeasonalEvent[]> {
+  if (!userId) {
+    return BUILTIN_SEASONAL_EVENTS;
+  }
+
+  const { data, error } = await supabase
+    .from('seasonal_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('month', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load seasonal events: ${error.message}`);
+  }
+
+  return [...BUILTIN_SEASONAL_EVENTS, ...((data as SeasonalEventRow[]) || []).map(toSeasonalEvent)];
+}
@@ -0,0 +1,189 @@
+/**
+ * Seasonal event calendar - built-in holidays + user-defined events
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * An event recurs every year on a fixed date (Dec 25) or on the nth weekday
+ * of a month (3rd Sunday of June). Its prompt hint turns a project into a
+ * themed variant: the project is regenerated with a "season:<eventId>"
+ * strategy, so seasonal variants are recognisable by their strategy_id.
+ */
+
+import type { StrategyTemplate } from './strategy-templates';
+
+// Prefix for seasonal strategies, followed by the event ID
+const SEASON_PREFIX = 'season:';
+
+// Show an event this many days ahead by default (time to prepare listings)
+export const DEFAULT_LEAD_DAYS = 45;
+export const MIN_LEAD_DAYS = 7;
+export const MAX_LEAD_DAYS = 120;
+
+// Variants generated per project for one event
+export const SEASONAL_VARIANT_COUNT = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const NTH_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'Last' };
+
+export interface SeasonalEvent {
+  id: string;
+  name: string;
+  month: number;           // 1-12
+  day: number | null;      // Fixed date, or null for a weekday rule
+  weekday: number | null;  // 0 = Sunday ... 6 = Saturday
+  nth: number | null;      // 1-4, or -1 for the last one in the month
+  leadDays: number;
+  promptHint: string;      // What makes a design fit the event
+  builtIn: boolean;
+}
+
+function builtInEvent(event: Omit<SeasonalEvent, 'builtIn' | 'leadDays' | 'day' | 'weekday' | 'nth'> & Partial<SeasonalEvent>): SeasonalEvent {
+  return { day: null, weekday: null, nth: null, leadDays: DEFAULT_LEAD_DAYS, ...event, builtIn: true };
+}
+
+/**
+ * The POD sales calendar that ships with the app (in date order)
+ */
+export const BUILTIN_SEASONAL_EVENTS: SeasonalEvent[] = [
+  builtInEvent({ id: 'new-year', name: "New Year's", month: 1, day: 1, leadDays: 30, promptHint: 'fireworks, confetti, champagne and a fresh-start New Year mood' }),
+  builtInEvent({ id: 'valentines-day', name: "Valentine's Day", month: 2, day: 14, promptHint: 'hearts, roses, cupids and a playful love theme' }),
+  builtInEvent({ id: 'st-patricks-day', name: "St. Patrick's Day", month: 3, day: 17, promptHint: 'shamrocks, green and gold, pots of gold and lucky Irish charm' }),
+  builtInEvent({ id: 'mothers-day', name: "Mother's Day", month: 5, weekday: 0, nth: 2, promptHint: 'flowers and a warm tribute to moms ("best mom ever" spirit)' }),
+  builtInEvent({ id: 'fathers-day', name: "Father's Day", month: 6, weekday: 0, nth: 3, promptHint: 'a proud dad theme with grilling, tools or fishing props and dad-joke humor' }),
+  builtInEvent({ id: 'independence-day', name: 'Fourth of July', month: 7, day: 4, promptHint: 'stars and stripes, fireworks, red white and blue patriotic flair' }),
+  builtInEvent({ id: 'halloween', name: 'Halloween', month: 10, day: 31, leadDays: 60, promptHint: 'pumpkins, bats, ghosts, spooky-cute costumes and orange and purple tones' }),
+  builtInEvent({ id: 'thanksgiving', name: 'Thanksgiving', month: 11, weekday: 4, nth: 4, promptHint: 'turkeys, autumn leaves, pie and a grateful harvest feast mood' }),
+  builtInEvent({ id: 'christmas', name: 'Christmas', month: 12, day: 25, leadDays: 75, promptHint: 'Santa hats, snow, ornaments, twinkling lights and festive red and green' }),
+];
+
+export function isSeasonalStrategyId(id: string): boolean {
+  return id.startsWith(SEASON_PREFIX);
+}
+
+export function seasonalStrategyId(eventId: string): string {
+  return `${SEASON_PREFIX}${eventId}`;
+}
+
+export function seasonalEventIdFromStrategyId(id: string): string {
+  return id.slice(SEASON_PREFIX.length);
+}
+
+/**
+ * Strategy template for an event - its name becomes the variant's strategy label
+ */
+export function seasonalStrategyTemplate(event: SeasonalEvent): StrategyTemplate {
+  return {
+    id: seasonalStrategyId(event.id),
+    name: event.name,
+    promptScaffold: `Give {theme} a ${event.name} makeover: ${event.promptHint}. Same pose, composition and {style} style; give the text "{text}" a ${event.name} twist.`,
+    similarityTarget: 75,
+    builtIn: true,
+  };
+}
+
+/**
+ * The event's date in a given year (UTC midnight)
+ */
+export function seasonalEventDate(event: SeasonalEvent, year: number): Date {
+  const monthIndex = event.month - 1;
+  if (event.day !== null) {
+    return new Date(Date.UTC(year, monthIndex, event.day));
+  }
+
+  const weekday = event.weekday ?? 0;
+  const nth = event.nth ?? 1;
+  if (nth === -1) {
+    const last = new Date(Date.UTC(year, monthIndex + 1, 0));
+    return new Date(Date.UTC(year, monthIndex, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7)));
+  }
+  const first = new Date(Date.UTC(year, monthIndex, 1));
+  const firstMatch = 1 + ((weekday - first.getUTCDay() + 7) % 7);
+  return new Date(Date.UTC(year, monthIndex, firstMatch + (nth - 1) * 7));
+}
+
+export interface UpcomingSeasonalEvent {
+  event: SeasonalEvent;
+  date: string;       // ISO date (YYYY-MM-DD)
+  daysUntil: number;  // 0 = today
+}
+
+/**
+ * Events whose next occurrence falls within their lead time, soonest first
+ */
+export function upcomingSeasonalEvents(events: SeasonalEvent[], now: Date = new Date()): UpcomingSeasonalEvent[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  return events
+    .map((event) => {
+      let date = seasonalEventDate(event, now.getUTCFullYear());
+      if (date.getTime() < today) {
+        date = seasonalEventDate(event, now.getUTCFullYear() + 1);
+      }
+      return {
+        event,
+        date: date.toISOString().slice(0, 10),
+        daysUntil: Math.round((date.getTime() - today) / DAY_MS),
+      };
+    })
+    .filter((upcoming) => upcoming.daysUntil <= upcoming.event.leadDays)
+    .sort((a, b) => a.daysUntil - b.daysUntil);
+}
+
+/**
+ * Human readable recurrence, e.g. "December 25" or "3rd Sunday of June"
+ */
+export function formatSeasonalRule(event: SeasonalEvent): string {
+  const month = MONTH_NAMES[event.month - 1];
+  if (event.day !== null) {
+    return `${month} ${event.day}`;
+  }
+  return `${NTH_LABELS[event.nth ?? 1]} ${WEEKDAY_NAMES[event.weekday ?? 0]} of ${month}`;
+}
+
+/**
+ * Validate a user event before saving
+ * Returns an error message, or null if valid
+ */
+export function validateSeasonalEventInput(input: {
+  name?: unknown;
+  month?: unknown;
+  day?: unknown;
+  weekday?: unknown;
+  nth?: unknown;
+  leadDays?: unknown;
+  promptHint?: unknown;
+}): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 60) {
+    return 'Name is required (max 60 characters)';
+  }
+  const month = Number(input.month);
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    return 'Month must be 1-12';
+  }
+  if (input.day !== null && input.day !== undefined) {
+    const day = Number(input.day);
+    // Feb 29 would skip most years
+    const daysInMonth = new Date(Date.UTC(2023, month, 0)).getUTCDate();
+    if (!Number.isInteger(day) || day < 1 || day > daysInMonth) {
+      return `Day must be 1-${daysInMonth} for ${MONTH_NAMES[month - 1]}`;
+    }
+  } else {
+    const weekday = Number(input.weekday);
+    const nth = Number(input.nth);
+    if (input.weekday === null || input.weekday === undefined || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return 'Give either a day of the month or a weekday (0-6)';
+    }
+    if (!(nth in NTH_LABELS)) {
+      return 'Week must be 1-4, or -1 for the last one';
+    }
+  }
+  const leadDays = Number(input.leadDays);
+  if (!Number.isInteger(leadDays) || leadDays < MIN_LEAD_DAYS || leadDays > MAX_LEAD_DAYS) {
+    return `Lead time must be ${MIN_LEAD_DAYS}-${MAX_LEAD_DAYS} days`;
+  }
+  if (typeof input.promptHint !== 'string' || !input.promptHint.trim() || input.promptHint.length > 300) {
+    return 'Theme hint is required (max 300 characters)';
+  }
+  return null;
+}
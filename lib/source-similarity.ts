@@ -0,0 +1,21 @@
+/**
+ * Similarity of a variant to the design it was remixed from.
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Strategies aim for "80-95% similar"; anything above the threshold is treated
+ * as a near-copy of the source and has to be acknowledged before publishing.
+ */
+
+export const DEFAULT_TOO_CLOSE_THRESHOLD = 92;
+
+export interface SourceSimilarity {
+  score: number;      // 0-100, mean of the two measures below
+  phash: number;      // 0-100, perceptual-hash agreement (overall layout / tones)
+  ssim: number;       // 0-100, structural similarity (shapes / edges)
+  threshold: number;  // Score at or above which the variant is "too close"
+  tooClose: boolean;
+}
+
+export function isTooCloseToSource(similarity: SourceSimilarity | null | undefined): boolean {
+  return !!similarity?.tooClose;
+}
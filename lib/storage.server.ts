@@ -0,0 +1,153 @@
+/**
+ * Supabase Storage helpers - Server-only
+ * Uses the service role key for unrestricted storage access in API routes/workers
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { createThumbnail } from "./thumbnail";
+
+export const STORAGE_BUCKET = "design-images";
+
+// Create a Supabase client for server-side storage and job operations
+export const serviceClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * Convert base64 data URL to Buffer for upload
+ */
+export function dataURLtoBuffer(dataURL: string): { buffer: Buffer; mimeType: string } {
+  const matches = dataURL.match(/^data:([^;]+);base64,(.+)$/);
+  if (!matches) {
+    throw new Error("Invalid data URL format");
+  }
+  const mimeType = matches[1];
+  const base64Data = matches[2];
+  const buffer = Buffer.from(base64Data, "base64");
+  return { buffer, mimeType };
+}
+
+/**
+ * Upload an image to Supabase Storage and return the public URL
+ */
+export async function uploadToStorage(imageData: string, path: string): Promise<string> {
+  const { buffer, mimeType } = dataURLtoBuffer(imageData);
+
+  const { error } = await serviceClient.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, buffer, {
+      contentType: mimeType,
+      upsert: true,
+    });
+
+  if (error) {
+    console.error("Storage upload error:", error);
+    throw new Error(`Failed to upload image: ${error.message}`);
+  }
+
+  const { data: urlData } = serviceClient.storage
+    .from(STORAGE_BUCKET)
+    .getPublicUrl(path);
+
+  return urlData.publicUrl;
+}
+
+/**
+ * Path inside the bucket for one of its public URLs, or null for URLs
+ * that point somewhere else (e.g. old externally hosted images)
+ */
+export function storagePathFromPublicUrl(url: string): string | null {
+  const marker = `/storage/v1/object/public/${STORAGE_BUCKET}/`;
+  try {
+    const { pathname } = new URL(url);
+    const index = pathname.indexOf(marker);
+    return index === -1 ? null : decodeURIComponent(pathname.slice(index + marker.length));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a WebP thumbnail and upload it
+ * Returns the thumbnail URL, or null if thumbnail creation failed
+ */
+export async function uploadThumbnail(imageData: string, path: string): Promise<string | null> {
+  try {
+    const thumbnailBuffer = await createThumbnail(imageData, 400);
+    const { error } = await serviceClient.storage
+      .from(STORAGE_BUCKET)
+      .upload(path, thumbnailBuffer, {
+        contentType: 'image/webp',
+        upsert: true,
+      });
+
+    if (error) {
+      return null;
+    }
+
+    const { data: urlData } = serviceClient.storage
+      .from(STORAGE_BUCKET)
+      .getPublicUrl(path);
+
+    return urlData.publicUrl;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download an image URL and return it as a base64 data URL
+ */
+export async function fetchImageAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status})`);
+  }
+  const contentType = response.headers.get('content-type') || 'image/png';
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Copy an image to a new path in the bucket and return its public URL
+ * (images hosted elsewhere are downloaded and uploaded instead)
+ */
+export async function copyInStorage(url: string, path: string): Promise<string> {
+  const sourcePath = storagePathFromPublicUrl(url);
+  if (!sourcePath) {
+    return uploadToStorage(await fetchImageAsDataUrl(url), path);
+  }
+
+  const { error } = await serviceClient.storage
+    .from(STORAGE_BUCKET)
+    .copy(sourcePath, path);
+
+  if (error) {
+    throw new Error(`Failed to copy image: ${error.message}`);
+  }
+
+  const { data: urlData } = serviceClient.storage
+    .from(STORAGE_BUCKET)
+    .getPublicUrl(path);
+
+  return urlData.publicUrl;
+}
+
+/**
+ * Upload a finished variant (full-size PNG + WebP thumbnail)
+ * @param basePath - path without extension, e.g. "temp/<session>/variant_1"
+ */
+export async function uploadVariantImages(
+  imageData: string,
+  basePath: string
+): Promise<{ imageUrl: string; thumbnailUrl: string }> {
+  const imageUrl = await uploadToStorage(imageData, `${basePath}.png`);
+  const thumbnailUrl = await uploadThumbnail(imageData, `${basePath}_thumb.webp`);
+
+  if (!thumbnailUrl) {
+    console.warn(`⚠️ Thumbnail creation failed for ${basePath}, using full image`);
+  }
+
+  return { imageUrl, thumbnailUrl: thumbnailUrl || imageUrl };
+}
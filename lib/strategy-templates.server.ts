@@ -0,0 +1,97 @@
+/**
+ * Strategy template lookup - Server-only
+ * Resolves a run's strategy selection (built-in + the user's own templates) into variant slots.
+ */
+
+import { serviceClient as supabase } from "./storage.server";
+import { listSeasonalEvents } from "./seasonal-events.server";
+import { isLocaleStrategyId, localeStrategyTemplate } from "./localization";
+import {
+  isSeasonalStrategyId,
+  seasonalEventIdFromStrategyId,
+  seasonalStrategyTemplate,
+} from "./seasonal-events";
+import {
+  BUILTIN_STRATEGY_TEMPLATES,
+  isBuiltInStrategyId,
+  isNicheStrategyId,
+  nicheStrategyTemplate,
+  planStrategySlots,
+  type StrategySelection,
+  type StrategySlot,
+  type StrategyTemplate,
+} from "./strategy-templates";
+import type { StrategyTemplateRow } from "./supabase/types";
+
+export function toStrategyTemplate(row: StrategyTemplateRow): StrategyTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    promptScaffold: row.prompt_scaffold,
+    similarityTarget: row.similarity_target,
+    builtIn: false,
+  };
+}
+
+/**
+ * Built-in templates followed by the user's own (oldest first)
+ */
+export async function listStrategyTemplates(userId: string | null): Promise<StrategyTemplate[]> {
+  if (!userId) {
+    return BUILTIN_STRATEGY_TEMPLATES;
+  }
+
+  const { data, error } = await supabase
+    .from('strategy_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load strategy templates: ${error.message}`);
+  }
+
+  return [...BUILTIN_STRATEGY_TEMPLATES, ...((data as StrategyTemplateRow[]) || []).map(toStrategyTemplate)];
+}
+
+/**
+ * Turn a selection into variant slots
+ * Throws if an ID is unknown or belongs to another user (anonymous users get built-ins only).
+ */
+export async function resolveStrategySlots(
+  selection: StrategySelection,
+  userId: string | null
+): Promise<StrategySlot[]> {
+  const customIds = selection.strategyIds.filter(
+    (id) => !isBuiltInStrategyId(id) && !isNicheStrategyId(id) && !isSeasonalStrategyId(id) && !isLocaleStrategyId(id)
+  );
+  const available = customIds.length > 0
+    ? await listStrategyTemplates(userId)
+    : BUILTIN_STRATEGY_TEMPLATES;
+  const events = selection.strategyIds.some(isSeasonalStrategyId)
+    ? await listSeasonalEvents(userId)
+    : [];
+
+  const templates = selection.strategyIds.map((id) => {
+    if (isNicheStrategyId(id)) {
+      return nicheStrategyTemplate(id);
+    }
+    if (isSeasonalStrategyId(id)) {
+      const event = events.find((e) => e.id === seasonalEventIdFromStrategyId(id));
+      if (!event) {
+        throw new Error(`Unknown seasonal event: ${seasonalEventIdFromStrategyId(id)}`);
+      }
+      return seasonalStrategyTemplate(event);
+    }
+    if (isLocaleStrategyId(id)) {
+      return localeStrategyTemplate(id);
+    }
+    const template = available.find((t) => t.id === id);
+    if (!template) {
+      throw new Error(`Unknown strategy template: ${id}`);
+    }
+    return template;
+  });
+
+  return planStrategySlots(templates, selection.variantCount);
+}
@@ -0,0 +1,222 @@
+/**
+ * Remix strategy templates - built-in + user-defined
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * A template is a named prompt scaffold with {theme}/{text}/{style} placeholders
+ * and a similarity target. A remix run picks some templates and a variant count;
+ * the templates are cycled to fill that many variant slots.
+ *
+ * Niche retargeting is the other mode: the run lists target audiences
+ * ("nurses", "dog moms") and each becomes a strategy of its own, identified as
+ * "niche:<audience>" in place of a template ID.
+ */
+
+import type { DesignAnalysis } from './design-utils';
+
+export const MIN_VARIANT_COUNT = 2;
+export const MAX_VARIANT_COUNT = 12;
+export const DEFAULT_VARIANT_COUNT = 4;
+
+export const STRATEGY_PLACEHOLDERS = ['{theme}', '{text}', '{style}'] as const;
+
+// Prefix for templates that ship with the app (user templates use their uuid)
+const BUILTIN_PREFIX = 'builtin:';
+// Prefix for niche retargeting strategies, followed by the audience
+const NICHE_PREFIX = 'niche:';
+export const MAX_NICHE_LENGTH = 40;
+
+export interface StrategyTemplate {
+  id: string;
+  name: string;
+  promptScaffold: string;
+  similarityTarget: number; // Percent, e.g. 90 = "90% similar to the original"
+  builtIn: boolean;
+}
+
+/**
+ * The original four strategies (Safe Recreation, Phrase Variation, Element Tweak, Artistic Treatment)
+ */
+export const BUILTIN_STRATEGY_TEMPLATES: StrategyTemplate[] = [
+  {
+    id: `${BUILTIN_PREFIX}safe-recreation`,
+    name: 'Safe Recreation',
+    promptScaffold: 'Recreate {theme} with tiny proportion tweaks. Same pose. Keep the text "{text}" and the {style} style.',
+    similarityTarget: 90,
+    builtIn: true,
+  },
+  {
+    id: `${BUILTIN_PREFIX}phrase-variation`,
+    name: 'Phrase Variation',
+    promptScaffold: 'Change the wording of "{text}" only. Same {theme}, same {style} style, same typography.',
+    similarityTarget: 85,
+    builtIn: true,
+  },
+  {
+    id: `${BUILTIN_PREFIX}element-tweak`,
+    name: 'Element Tweak',
+    promptScaffold: 'One tiny decorative change to {theme}. Nearly identical otherwise, {style} style.',
+    similarityTarget: 90,
+    builtIn: true,
+  },
+  {
+    id: `${BUILTIN_PREFIX}artistic-treatment`,
+    name: 'Artistic Treatment',
+    promptScaffold: 'Render {theme} with a different line weight or texture than the {style} original. Same content and text "{text}".',
+    similarityTarget: 89,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_STRATEGY_IDS = BUILTIN_STRATEGY_TEMPLATES.map((template) => template.id);
+
+export function isBuiltInStrategyId(id: string): boolean {
+  return id.startsWith(BUILTIN_PREFIX);
+}
+
+export function isNicheStrategyId(id: string): boolean {
+  return id.startsWith(NICHE_PREFIX);
+}
+
+export function nicheStrategyId(niche: string): string {
+  return `${NICHE_PREFIX}${niche.trim()}`;
+}
+
+/**
+ * Template for one target niche - its name (the niche) becomes the variant's strategy label.
+ * Text and props change for the audience; pose, composition and style stay.
+ */
+export function nicheStrategyTemplate(id: string): StrategyTemplate {
+  const niche = id.slice(NICHE_PREFIX.length);
+  return {
+    id,
+    name: niche,
+    promptScaffold: `Retarget {theme} to ${niche}: rewrite the text "{text}" for ${niche} and swap props for ones ${niche} recognize. Same pose, composition and {style} style.`,
+    similarityTarget: 75,
+    builtIn: true,
+  };
+}
+
+/**
+ * Which templates a run uses and how many variants it produces
+ */
+export interface StrategySelection {
+  strategyIds: string[];
+  variantCount: number;
+}
+
+export const DEFAULT_STRATEGY_SELECTION: StrategySelection = {
+  strategyIds: DEFAULT_STRATEGY_IDS,
+  variantCount: DEFAULT_VARIANT_COUNT,
+};
+
+/**
+ * Niche retargeting run: one variant per niche (a single niche gets two takes)
+ */
+export function nicheSelection(niches: string[]): StrategySelection {
+  // First spelling wins for case-insensitive duplicates
+  const seen = new Set<string>();
+  const unique = niches
+    .map((niche) => niche.trim())
+    .filter((niche) => niche && !seen.has(niche.toLowerCase()) && seen.add(niche.toLowerCase()))
+    .slice(0, MAX_VARIANT_COUNT);
+  return {
+    strategyIds: unique.map(nicheStrategyId),
+    variantCount: Math.max(MIN_VARIANT_COUNT, unique.length),
+  };
+}
+
+/**
+ * One variant to generate: its number and the template that drives it
+ */
+export interface StrategySlot {
+  id: number;
+  template: StrategyTemplate;
+}
+
+/**
+ * Cycle the chosen templates until there are `count` slots
+ * e.g. 2 templates × 5 variants → A, B, A, B, A
+ */
+export function planStrategySlots(templates: StrategyTemplate[], count: number): StrategySlot[] {
+  if (templates.length === 0) {
+    throw new Error('At least one strategy template is required');
+  }
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    template: templates[i % templates.length],
+  }));
+}
+
+/**
+ * Fill {theme}/{text}/{style} from the design analysis
+ */
+export function fillStrategyScaffold(scaffold: string, analysis: DesignAnalysis): string {
+  return scaffold
+    .replace(/\{theme\}/g, analysis.theme || 'the design')
+    .replace(/\{text\}/g, analysis.text || '')
+    .replace(/\{style\}/g, analysis.style || 'original');
+}
+
+/**
+ * Validate a run's strategy selection (from form data or JSON)
+ * Returns the normalized selection, or an error message
+ */
+export function parseStrategySelection(
+  strategyIds: unknown,
+  variantCount: unknown
+): { selection: StrategySelection } | { error: string } {
+  const ids = strategyIds === undefined || strategyIds === null
+    ? DEFAULT_STRATEGY_IDS
+    : strategyIds;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string' && id.length > 0)) {
+    return { error: 'strategyIds must be a non-empty array of strategy IDs' };
+  }
+
+  const count = variantCount === undefined || variantCount === null || variantCount === ''
+    ? DEFAULT_VARIANT_COUNT
+    : Number(variantCount);
+  if (!Number.isInteger(count) || count < MIN_VARIANT_COUNT || count > MAX_VARIANT_COUNT) {
+    return { error: `variantCount must be a whole number from ${MIN_VARIANT_COUNT} to ${MAX_VARIANT_COUNT}` };
+  }
+
+  const nicheIds = (ids as string[]).filter(isNicheStrategyId);
+  if (nicheIds.length > 0) {
+    if (nicheIds.length !== ids.length) {
+      return { error: 'Niche retargeting cannot be combined with other strategies' };
+    }
+    const invalid = nicheIds.find((id) => {
+      const niche = id.slice(NICHE_PREFIX.length).trim();
+      return !niche || niche.length > MAX_NICHE_LENGTH;
+    });
+    if (invalid) {
+      return { error: `Each niche needs a name of 1-${MAX_NICHE_LENGTH} characters` };
+    }
+  }
+
+  return { selection: { strategyIds: [...new Set(ids as string[])], variantCount: count } };
+}
+
+/**
+ * Validate a user template before saving
+ * Returns an error message, or null if valid
+ */
+export function validateStrategyTemplateInput(input: {
+  name?: unknown;
+  promptScaffold?: unknown;
+  similarityTarget?: unknown;
+}): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 60) {
+    return 'Name is required (max 60 characters)';
+  }
+  if (typeof input.promptScaffold !== 'string' || !input.promptScaffold.trim() || input.promptScaffold.length > 600) {
+    return 'Prompt scaffold is required (max 600 characters)';
+  }
+  if (!STRATEGY_PLACEHOLDERS.some((placeholder) => (input.promptScaffold as string).includes(placeholder))) {
+    return `Prompt scaffold must use at least one of ${STRATEGY_PLACEHOLDERS.join(', ')}`;
+  }
+  const target = Number(input.similarityTarget);
+  if (!Number.isInteger(target) || target < 50 || target > 100) {
+    return 'Similarity target must be a whole number from 50 to 100';
+  }
+  return null;
+}
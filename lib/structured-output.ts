@@ -0,0 +1,342 @@
+/**
+ * Structured (JSON) output from Gemini - Server-only
+ * Uses the model's native JSON mode with a response schema, validates the reply
+ * at runtime, and re-asks the model once with the validation errors before failing.
+ */
+
+import { SchemaType, type GenerativeModel, type Part, type ResponseSchema } from "@google/generative-ai";
+import { coerceDesignType, type DesignAnalysis } from "./design-utils";
+import { withResilience } from "./resilient-call";
+import { recordGeminiUsage } from "./cost-ledger";
+
+export interface SchemaIssue {
+  path: string;    // e.g. "design_type", "[2].prompt"
+  message: string;
+}
+
+/**
+ * The model's reply did not match the schema (even after the re-ask)
+ */
+export class StructuredOutputError extends Error {
+  readonly schema: string;
+  readonly issues: SchemaIssue[];
+  readonly raw: string;
+
+  constructor(schema: string, issues: SchemaIssue[], raw: string) {
+    super(`Invalid ${schema} from model: ${formatIssues(issues)}`);
+    this.name = "StructuredOutputError";
+    this.schema = schema;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+export type ParseResult<T> = { value: T } | { issues: SchemaIssue[] };
+
+/**
+ * Runtime schema: what the model is told to return + how its reply is validated / coerced
+ */
+export interface OutputSchema<T> {
+  name: string;
+  responseSchema: ResponseSchema;
+  parse(value: unknown): ParseResult<T>;
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("; ");
+}
+
+/**
+ * Read a string field - numbers are stringified, null/missing uses the fallback (if any)
+ */
+function readString(
+  obj: Record<string, unknown>,
+  key: string,
+  issues: SchemaIssue[],
+  { path = key, fallback }: { path?: string; fallback?: string } = {}
+): string {
+  const value = obj[key];
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  if ((value === undefined || value === null) && fallback !== undefined) return fallback;
+  issues.push({ path, message: value === undefined ? "is required" : `expected string, got ${typeof value}` });
+  return "";
+}
+
+export const designAnalysisSchema: OutputSchema<DesignAnalysis> = {
+  name: "DesignAnalysis",
+  responseSchema: {
+    type: SchemaType.OBJECT,
+    properties: {
+      theme: { type: SchemaType.STRING },
+      style: { type: SchemaType.STRING },
+      graphic_colors: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+      text: { type: SchemaType.STRING },
+      design_type: { type: SchemaType.STRING, enum: ["text_only", "graphic_only", "mixed"] },
+      tone: { type: SchemaType.STRING },
+      typography_style: { type: SchemaType.STRING },
+      text_color: { type: SchemaType.STRING },
+      character_action: { type: SchemaType.STRING },
+    },
+    required: ["theme", "style", "graphic_colors", "text", "design_type", "tone", "typography_style", "text_color"],
+  },
+
+  parse(value) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { issues: [{ path: "", message: "expected a JSON object" }] };
+    }
+    const obj = value as Record<string, unknown>;
+    const issues: SchemaIssue[] = [];
+
+    // Colors sometimes come back as "red, black" instead of an array
+    let graphicColors: string[] = [];
+    if (Array.isArray(obj.graphic_colors)) {
+      graphicColors = obj.graphic_colors.filter((c): c is string => typeof c === "string");
+    } else if (typeof obj.graphic_colors === "string") {
+      graphicColors = obj.graphic_colors.split(",");
+    } else {
+      issues.push({ path: "graphic_colors", message: "expected an array of color names" });
+    }
+
+    const designType = coerceDesignType(obj.design_type);
+    if (!designType) {
+      issues.push({
+        path: "design_type",
+        message: `expected "text_only", "graphic_only" or "mixed", got ${JSON.stringify(obj.design_type)}`,
+      });
+    }
+
+    const analysis: DesignAnalysis = {
+      theme: readString(obj, "theme", issues),
+      style: readString(obj, "style", issues),
+      graphic_colors: graphicColors.map((c) => c.trim()).filter(Boolean),
+      text: readString(obj, "text", issues, { fallback: "" }),
+      design_type: designType ?? "mixed",
+      tone: readString(obj, "tone", issues),
+      typography_style: readString(obj, "typography_style", issues, { fallback: "" }),
+      text_color: readString(obj, "text_color", issues, { fallback: "none" }) || "none",
+      character_action: readString(obj, "character_action", issues, { fallback: "none" }) || "none",
+    };
+
+    return issues.length > 0 ? { issues } : { value: analysis };
+  },
+};
+
+export interface DesignText {
+  text: string;
+}
+
+/**
+ * Text read back from a generated variant ("" when there is none)
+ */
+export const designTextSchema: OutputSchema<DesignText> = {
+  name: "DesignText",
+  responseSchema: {
+    type: SchemaType.OBJECT,
+    properties: {
+      text: { type: SchemaType.STRING },
+    },
+    required: ["text"],
+  },
+
+  parse(value) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { issues: [{ path: "", message: "expected a JSON object" }] };
+    }
+    const issues: SchemaIssue[] = [];
+    const text = readString(value as Record<string, unknown>, "text", issues, { fallback: "" });
+    return issues.length > 0 ? { issues } : { value: { text: text.replace(/\s+/g, " ") } };
+  },
+};
+
+export interface DesignTranslation {
+  language: string;  // ISO 639-1 code
+  text: string;
+}
+
+/**
+ * Schema for one translation of the design text per requested language code
+ */
+export function designTranslationsSchema(languages: string[]): OutputSchema<DesignTranslation[]> {
+  return {
+    name: "DesignTranslation[]",
+    responseSchema: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          language: { type: SchemaType.STRING },
+          text: { type: SchemaType.STRING },
+        },
+        required: ["language", "text"],
+      },
+    },
+
+    parse(value) {
+      // Tolerate a { translations: [...] } wrapper
+      const list = value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>).translations
+        : value;
+      if (!Array.isArray(list)) {
+        return { issues: [{ path: "", message: "expected a JSON array" }] };
+      }
+
+      const issues: SchemaIssue[] = [];
+      const translations = list.map((item, i): DesignTranslation => {
+        if (!item || typeof item !== "object") {
+          issues.push({ path: `[${i}]`, message: "expected an object" });
+          return { language: "", text: "" };
+        }
+        const obj = item as Record<string, unknown>;
+        const language = readString(obj, "language", issues, { path: `[${i}].language` }).toLowerCase();
+        const text = readString(obj, "text", issues, { path: `[${i}].text` }).replace(/\s+/g, " ");
+        if (!text && obj.text !== undefined) {
+          issues.push({ path: `[${i}].text`, message: "must not be empty" });
+        }
+        return { language, text };
+      });
+
+      for (const code of languages) {
+        if (!translations.some((translation) => translation.language === code)) {
+          issues.push({ path: "", message: `missing translation for "${code}"` });
+        }
+      }
+
+      return issues.length > 0 ? { issues } : { value: translations };
+    },
+  };
+}
+
+export interface StrategyDraft {
+  id: number;
+  strategy: string;
+  prompt: string;
+}
+
+/**
+ * Schema for exactly `expected` remix strategies
+ */
+export function remixStrategiesSchema(expected: number): OutputSchema<StrategyDraft[]> {
+  return {
+    name: "RemixStrategy[]",
+    responseSchema: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          id: { type: SchemaType.INTEGER },
+          strategy: { type: SchemaType.STRING },
+          prompt: { type: SchemaType.STRING },
+        },
+        required: ["id", "strategy", "prompt"],
+      },
+    },
+
+    parse(value) {
+      // Tolerate a { strategies: [...] } wrapper
+      const list = value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>).strategies
+        : value;
+      if (!Array.isArray(list)) {
+        return { issues: [{ path: "", message: "expected a JSON array" }] };
+      }
+
+      const issues: SchemaIssue[] = [];
+      if (list.length !== expected) {
+        issues.push({ path: "", message: `expected ${expected} strategies, got ${list.length}` });
+      }
+
+      const strategies = list.map((item, i): StrategyDraft => {
+        if (!item || typeof item !== "object") {
+          issues.push({ path: `[${i}]`, message: "expected an object" });
+          return { id: i + 1, strategy: "", prompt: "" };
+        }
+        const obj = item as Record<string, unknown>;
+        const id = typeof obj.id === "string" ? Number.parseInt(obj.id, 10) : obj.id;
+        if (typeof id !== "number" || !Number.isInteger(id)) {
+          issues.push({ path: `[${i}].id`, message: "expected an integer" });
+        }
+        const strategy = readString(obj, "strategy", issues, { path: `[${i}].strategy` });
+        const prompt = readString(obj, "prompt", issues, { path: `[${i}].prompt` }).replace(/\s+/g, " ");
+        if (!prompt && obj.prompt !== undefined) {
+          issues.push({ path: `[${i}].prompt`, message: "must not be empty" });
+        }
+        return { id: typeof id === "number" ? id : i + 1, strategy, prompt };
+      });
+
+      return issues.length > 0 ? { issues } : { value: strategies };
+    },
+  };
+}
+
+function parseReply<T>(schema: OutputSchema<T>, text: string): ParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { issues: [{ path: "", message: `not valid JSON (${error instanceof Error ? error.message : "parse error"})` }] };
+  }
+  return schema.parse(json);
+}
+
+/**
+ * Ask the model for JSON matching `schema`
+ * On a validation failure the model is shown its reply + the errors and asked once more.
+ * Throws StructuredOutputError if the second reply is still invalid.
+ */
+export async function generateStructured<T>(
+  model: GenerativeModel,
+  parts: Array<string | Part>,
+  schema: OutputSchema<T>
+): Promise<T> {
+  const userParts: Part[] = parts.map((part) => (typeof part === "string" ? { text: part } : part));
+  const generationConfig = {
+    responseMimeType: "application/json",
+    responseSchema: schema.responseSchema,
+  };
+
+  const first = await withResilience("gemini", schema.name, (signal) =>
+    model.generateContent({
+      contents: [{ role: "user", parts: userParts }],
+      generationConfig,
+    }, { signal })
+  );
+  recordGeminiUsage(model, schema.name, first.response);
+  const firstText = first.response.text();
+  console.log(`🤖 ${schema.name} raw response:`, firstText);
+
+  const firstResult = parseReply(schema, firstText);
+  if ("value" in firstResult) {
+    return firstResult.value;
+  }
+
+  console.log(`⚠️ ${schema.name} failed validation (${formatIssues(firstResult.issues)}), re-asking once...`);
+  const retry = await withResilience("gemini", `${schema.name} re-ask`, (signal) =>
+    model.generateContent({
+      contents: [
+        { role: "user", parts: userParts },
+        { role: "model", parts: [{ text: firstText }] },
+        {
+          role: "user",
+          parts: [{
+            text: `Your response did not match the required schema:\n${firstResult.issues
+              .map((issue) => `- ${issue.path || "(root)"}: ${issue.message}`)
+              .join("\n")}\n\nReturn the corrected JSON only.`,
+          }],
+        },
+      ],
+      generationConfig,
+    }, { signal })
+  );
+  recordGeminiUsage(model, `${schema.name} re-ask`, retry.response);
+  const retryText = retry.response.text();
+  console.log(`🤖 ${schema.name} re-ask response:`, retryText);
+
+  const retryResult = parseReply(schema, retryText);
+  if ("value" in retryResult) {
+    console.log(`✅ ${schema.name} valid after re-ask`);
+    return retryResult.value;
+  }
+
+  throw new StructuredOutputError(schema.name, retryResult.issues, retryText);
+}
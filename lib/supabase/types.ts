@@ -1,3 +1,6 @@
+import type { VariantProvenance } from '../generation-events'
+import type { SourceSimilarity } from '../source-similarity'
+
 export type Json =
   | string
   | number
@@ -38,6 +41,9 @@ export type Database = {
           user_id: string
           name: string
           original_image_url: string
+          parent_project_id: string | null
+          parent_variant_id: string | null
+          remix_job_id: string | null
           created_at: string
         }
         Insert: {
@@ -45,6 +51,9 @@ export type Database = {
           user_id: string
           name: string
           original_image_url: string
+          parent_project_id?: string | null
+          parent_variant_id?: string | null
+          remix_job_id?: string | null
           created_at?: string
         }
         Update: {
@@ -52,6 +61,9 @@ export type Database = {
           user_id?: string
           name?: string
           original_image_url?: string
+          parent_project_id?: string | null
+          parent_variant_id?: string | null
+          remix_job_id?: string | null
           created_at?: string
         }
       }
@@ -63,9 +75,14 @@ export type Database = {
           variant_number: number
           batch_number: number
           strategy: string
+          strategy_id: string | null
+          language: string | null
           image_url: string
           thumbnail_url: string | null
           recommended_background: 'light' | 'dark'
+          provenance: VariantProvenance | null
+          similarity: SourceSimilarity | null
+          parent_variant_id: string | null
           created_at: string
         }
         Insert: {
@@ -75,9 +92,14 @@ export type Database = {
           variant_number: number
           batch_number?: number
           strategy: string
+          strategy_id?: string | null
+          language?: string | null
           image_url: string
           thumbnail_url?: string | null
           recommended_background: 'light' | 'dark'
+          provenance?: VariantProvenance | null
+          similarity?: SourceSimilarity | null
+          parent_variant_id?: string | null
           created_at?: string
         }
         Update: {
@@ -87,10 +109,311 @@ export type Database = {
           variant_number?: number
           batch_number?: number
           strategy?: string
+          strategy_id?: string | null
+          language?: string | null
           image_url?: string
           thumbnail_url?: string | null
           recommended_background?: 'light' | 'dark'
+          provenance?: VariantProvenance | null
+          similarity?: SourceSimilarity | null
+          parent_variant_id?: string | null
+          created_at?: string
+        }
+      }
+      strategy_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          prompt_scaffold: string
+          similarity_target: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          prompt_scaffold: string
+          similarity_target?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          prompt_scaffold?: string
+          similarity_target?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      seasonal_events: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          month: number
+          day: number | null
+          weekday: number | null
+          nth: number | null
+          lead_days: number
+          prompt_hint: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          month: number
+          day?: number | null
+          weekday?: number | null
+          nth?: number | null
+          lead_days?: number
+          prompt_hint: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          month?: number
+          day?: number | null
+          weekday?: number | null
+          nth?: number | null
+          lead_days?: number
+          prompt_hint?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      image_cache: {
+        Row: {
+          sha256: string
+          phash: string
+          cleaned_image_url: string | null
+          cleaned_by: string | null
+          analysis: Json | null
+          analyzed_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          sha256: string
+          phash: string
+          cleaned_image_url?: string | null
+          cleaned_by?: string | null
+          analysis?: Json | null
+          analyzed_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          sha256?: string
+          phash?: string
+          cleaned_image_url?: string | null
+          cleaned_by?: string | null
+          analysis?: Json | null
+          analyzed_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      usage_ledger: {
+        Row: {
+          id: string
+          user_id: string | null
+          project_id: string | null
+          job_id: string | null
+          provider: string
+          model: string
+          operation: string
+          input_tokens: number
+          output_tokens: number
+          images: number
+          estimated_cost_usd: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          project_id?: string | null
+          job_id?: string | null
+          provider: string
+          model: string
+          operation: string
+          input_tokens?: number
+          output_tokens?: number
+          images?: number
+          estimated_cost_usd?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          project_id?: string | null
+          job_id?: string | null
+          provider?: string
+          model?: string
+          operation?: string
+          input_tokens?: number
+          output_tokens?: number
+          images?: number
+          estimated_cost_usd?: number
+          created_at?: string
+        }
+      }
+      bulk_batches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          status: 'active' | 'paused' | 'cancelled' | 'completed'
+          strategy_ids: Json | null
+          variant_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          status?: 'active' | 'paused' | 'cancelled' | 'completed'
+          strategy_ids?: Json | null
+          variant_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          status?: 'active' | 'paused' | 'cancelled' | 'completed'
+          strategy_ids?: Json | null
+          variant_count?: number
           created_at?: string
+          updated_at?: string
+        }
+      }
+      bulk_items: {
+        Row: {
+          id: string
+          batch_id: string
+          user_id: string
+          position: number
+          file_name: string
+          original_image_url: string
+          status: 'pending' | 'running' | 'saving' | 'completed' | 'failed' | 'cancelled'
+          job_id: string | null
+          project_id: string | null
+          project_name: string | null
+          error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          batch_id: string
+          user_id: string
+          position: number
+          file_name: string
+          original_image_url: string
+          status?: 'pending' | 'running' | 'saving' | 'completed' | 'failed' | 'cancelled'
+          job_id?: string | null
+          project_id?: string | null
+          project_name?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          batch_id?: string
+          user_id?: string
+          position?: number
+          file_name?: string
+          original_image_url?: string
+          status?: 'pending' | 'running' | 'saving' | 'completed' | 'failed' | 'cancelled'
+          job_id?: string | null
+          project_id?: string | null
+          project_name?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      remix_jobs: {
+        Row: {
+          id: string
+          user_id: string | null
+          ip_hash: string | null
+          status: 'queued' | 'running' | 'awaiting_review' | 'completed' | 'failed'
+          stage: 'preprocess' | 'analysis' | 'strategies' | 'variants' | 'upload' | 'done'
+          attempts: number
+          original_image_url: string
+          cleaned_image_url: string | null
+          reference_image_urls: Json
+          cleaned_reference_urls: Json | null
+          analysis: Json | null
+          strategies: Json | null
+          variants: Json | null
+          failed_variants: Json
+          strategy_ids: Json | null
+          variant_count: number
+          needs_review: boolean
+          remaining: number | null
+          error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          ip_hash?: string | null
+          status?: 'queued' | 'running' | 'awaiting_review' | 'completed' | 'failed'
+          stage?: 'preprocess' | 'analysis' | 'strategies' | 'variants' | 'upload' | 'done'
+          attempts?: number
+          original_image_url: string
+          cleaned_image_url?: string | null
+          reference_image_urls?: Json
+          cleaned_reference_urls?: Json | null
+          analysis?: Json | null
+          strategies?: Json | null
+          variants?: Json | null
+          failed_variants?: Json
+          strategy_ids?: Json | null
+          variant_count?: number
+          needs_review?: boolean
+          remaining?: number | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          ip_hash?: string | null
+          status?: 'queued' | 'running' | 'awaiting_review' | 'completed' | 'failed'
+          stage?: 'preprocess' | 'analysis' | 'strategies' | 'variants' | 'upload' | 'done'
+          attempts?: number
+          original_image_url?: string
+          cleaned_image_url?: string | null
+          reference_image_urls?: Json
+          cleaned_reference_urls?: Json | null
+          analysis?: Json | null
+          strategies?: Json | null
+          variants?: Json | null
+          failed_variants?: Json
+          strategy_ids?: Json | null
+          variant_count?: number
+          needs_review?: boolean
+          remaining?: number | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
         }
       }
       user_integrations: {
@@ -272,3 +595,27 @@ export type UserProviderShop = Database['public']['Tables']['user_provider_shops
 export type UserProviderShopInsert = Database['public']['Tables']['user_provider_shops']['Insert']
 export type PublishedProduct = Database['public']['Tables']['published_products']['Row']
 export type PublishedProductInsert = Database['public']['Tables']['published_products']['Insert']
+
+// Async remix jobs
+export type RemixJobRow = Database['public']['Tables']['remix_jobs']['Row']
+export type RemixJobInsert = Database['public']['Tables']['remix_jobs']['Insert']
+
+// User strategy templates
+export type StrategyTemplateRow = Database['public']['Tables']['strategy_templates']['Row']
+export type StrategyTemplateInsert = Database['public']['Tables']['strategy_templates']['Insert']
+export type SeasonalEventRow = Database['public']['Tables']['seasonal_events']['Row']
+export type SeasonalEventInsert = Database['public']['Tables']['seasonal_events']['Insert']
+
+// Pre-processing cache (cleaned references + analyses by image hash)
+export type ImageCacheRow = Database['public']['Tables']['image_cache']['Row']
+export type ImageCacheInsert = Database['public']['Tables']['image_cache']['Insert']
+
+// External API cost ledger
+export type UsageLedgerRow = Database['public']['Tables']['usage_ledger']['Row']
+export type UsageLedgerInsert = Database['public']['Tables']['usage_ledger']['Insert']
+
+// Bulk remix queue
+export type BulkBatchRow = Database['public']['Tables']['bulk_batches']['Row']
+export type BulkBatchInsert = Database['public']['Tables']['bulk_batches']['Insert']
+export type BulkItemRow = Database['public']['Tables']['bulk_items']['Row']
+export type BulkItemInsert = Database['public']['Tables']['bulk_items']['Insert']
@@ -0,0 +1,104 @@
+/**
+ * Text fidelity - how closely the lettering in a variant matches the original phrase.
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Image models often misspell text, so variants whose strategy keeps the text
+ * are read back and compared to analysis.text by edit distance.
+ * Localized variants are compared to their translation instead (strategy.text).
+ */
+
+import { isSeasonalStrategyId } from './seasonal-events';
+import { isNicheStrategyId } from './strategy-templates';
+
+// Score (0-100) below which a variant is regenerated / flagged
+export const DEFAULT_TEXT_FIDELITY_THRESHOLD = 85;
+
+// Strategies that change the wording on purpose - nothing to compare against
+// (niche retargeting and seasonal strategies rewrite it too)
+const TEXT_CHANGING_STRATEGY_IDS = new Set(['builtin:phrase-variation']);
+
+export interface TextFidelity {
+  expected: string;
+  detected: string;
+  score: number;      // 0-100, 100 = exact match (ignoring case, punctuation and spacing)
+  distance: number;   // Levenshtein edits between the normalized strings
+  passed: boolean;
+  retries: number;    // Regenerations spent because the text didn't match
+}
+
+/**
+ * Uppercase, drop punctuation / accents and collapse whitespace, so only real
+ * spelling differences count (stylized lettering has no reliable case).
+ * Letters of any script are kept, so translated text is compared too.
+ */
+export function normalizeDesignText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance (insertions, deletions, substitutions)
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Compare detected text to the expected phrase
+ */
+export function scoreTextFidelity(
+  expected: string,
+  detected: string,
+  threshold: number = DEFAULT_TEXT_FIDELITY_THRESHOLD
+): Omit<TextFidelity, 'retries'> {
+  const a = normalizeDesignText(expected);
+  const b = normalizeDesignText(detected);
+  const distance = levenshtein(a, b);
+  const longest = Math.max(a.length, b.length);
+  const score = longest === 0 ? 100 : Math.max(0, Math.round((1 - distance / longest) * 100));
+
+  return { expected, detected, score, distance, passed: score >= threshold };
+}
+
+/**
+ * The phrase a strategy's variant should reproduce, or null when there is
+ * nothing to check: no text in the design, a strategy that rewrites the text,
+ * or a (reviewed) prompt that no longer contains the phrase.
+ * A strategy with its own text (a translation) is checked against that.
+ */
+export function expectedVariantText(
+  strategy: { prompt: string; strategyId?: string; text?: string },
+  designText: string | null | undefined
+): string | null {
+  if (strategy.text?.trim()) {
+    const text = strategy.text.trim();
+    return normalizeDesignText(strategy.prompt).includes(normalizeDesignText(text)) ? text : null;
+  }
+  const text = designText?.trim();
+  const changesText = strategy.strategyId
+    && (TEXT_CHANGING_STRATEGY_IDS.has(strategy.strategyId)
+      || isNicheStrategyId(strategy.strategyId)
+      || isSeasonalStrategyId(strategy.strategyId));
+  if (!text || changesText) {
+    return null;
+  }
+  return normalizeDesignText(strategy.prompt).includes(normalizeDesignText(text)) ? text : null;
+}
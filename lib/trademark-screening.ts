@@ -0,0 +1,194 @@
+/**
+ * Trademark / restricted-phrase screening
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Checks design text, listing titles, descriptions and tags against the local
+ * list in lib/restricted-terms.ts. Matching is fuzzy so that "NlKE", "Adiddas"
+ * or "T4ylor Sw1ft" are still caught.
+ *
+ * Only exact (or de-leeted exact) matches keep the term's level - a near miss
+ * is at most a warning, so everyday words close to a mark ("channel" / Chanel,
+ * "bakers" / Lakers, "peanut" / Peanuts) never block publishing. One-word
+ * aliases ("Lakers", "Yankees") are matched exactly.
+ */
+
+import { levenshtein, normalizeDesignText } from './text-fidelity';
+import { RESTRICTED_TERMS, type RestrictedTerm, type RestrictedTermCategory } from './restricted-terms';
+
+export interface TrademarkMatch {
+  term: string;                    // Canonical restricted term
+  category: RestrictedTermCategory;
+  level: 'error' | 'warning';
+  field: string;                   // Which input matched, e.g. "title", "tags[2]", "design_text"
+  matched: string;                 // The text that matched (normalized)
+  distance: number;                // 0 = exact
+}
+
+/**
+ * Same shape as the /api/products/validate issues
+ */
+export interface TrademarkIssue {
+  level: 'error' | 'warning';
+  code: 'trademark_risk';
+  message: string;
+  term: string;
+  field: string;
+}
+
+// Look-alike characters used to dodge filters
+// (lowercase "l" is tried both ways: "NlKE" vs the real l in "T4ylor")
+const LEET_MAP: Record<string, string> = {
+  '0': 'O', '1': 'I', '3': 'E', '4': 'A', '5': 'S', '7': 'T', '$': 'S', '@': 'A', '!': 'I', '|': 'I', 'l': 'I',
+};
+
+const CATEGORY_LABELS: Record<RestrictedTermCategory, string> = {
+  brand: 'brand',
+  sports_league: 'sports league',
+  sports_team: 'sports team',
+  celebrity: 'celebrity name',
+  character: 'licensed character',
+  phrase: 'trademarked phrase',
+};
+
+/**
+ * Edits allowed for a fuzzy match - short marks must match exactly
+ */
+function allowedDistance(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+function toWords(text: string): string[] {
+  return normalizeDesignText(text).split(' ').filter(Boolean);
+}
+
+function deLeet(text: string, { keepL = false }: { keepL?: boolean } = {}): string {
+  return text.replace(keepL ? /[013457$@!|]/g : /[013457$@!|l]/g, (ch) => LEET_MAP[ch] ?? ch);
+}
+
+interface CompiledVariant {
+  words: string[];
+  exact: boolean;
+}
+
+interface CompiledTerm {
+  entry: RestrictedTerm;
+  variants: CompiledVariant[];  // The term + aliases
+}
+
+const COMPILED_TERMS: CompiledTerm[] = RESTRICTED_TERMS.map((entry) => ({
+  entry,
+  variants: [
+    { words: toWords(entry.term), exact: !!entry.exact },
+    // Short forms of a longer mark are usually dictionary words
+    ...(entry.aliases ?? []).map((alias) => {
+      const words = toWords(alias);
+      return { words, exact: !!entry.exact || words.length === 1 };
+    }),
+  ].filter((variant) => variant.words.length > 0),
+}));
+
+/**
+ * Best match of one term against the text's words (sliding window of the
+ * term's word count, also compared with the spaces removed: "COCACOLA")
+ */
+function matchTerm(words: string[], compiled: CompiledTerm): { matched: string; distance: number } | null {
+  let best: { matched: string; distance: number } | null = null;
+
+  for (const variant of compiled.variants) {
+    const target = variant.words.join('');
+    const maxDistance = variant.exact ? 0 : allowedDistance(target.length);
+    const wordCount = variant.words.length;
+
+    // Windows of the same word count, plus one fewer (split/merged words)
+    for (const size of new Set([wordCount, Math.max(1, wordCount - 1), wordCount + 1])) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const window = words.slice(i, i + size).join('');
+        // Cheap length filter before the edit distance
+        if (Math.abs(window.length - target.length) > maxDistance) continue;
+        const distance = levenshtein(window, target);
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = { matched: words.slice(i, i + size).join(' '), distance };
+          if (distance === 0) return best;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Screen a set of named text fields, e.g. { title, description, "tags[0]": ... }
+ * Returns one match per (term, field), strongest first.
+ */
+export function screenForTrademarks(fields: Record<string, string | null | undefined>): TrademarkMatch[] {
+  const matches: TrademarkMatch[] = [];
+
+  for (const [field, text] of Object.entries(fields)) {
+    if (!text?.trim()) continue;
+    // Raw text keeps "$" / "@" look-alikes that normalization would strip
+    const wordSets = [toWords(text), toWords(deLeet(text)), toWords(deLeet(text, { keepL: true }))];
+
+    for (const compiled of COMPILED_TERMS) {
+      let best: { matched: string; distance: number } | null = null;
+      for (const words of wordSets) {
+        const match = matchTerm(words, compiled);
+        if (match && (!best || match.distance < best.distance)) {
+          best = match;
+        }
+      }
+      if (best) {
+        matches.push({
+          term: compiled.entry.term,
+          category: compiled.entry.category,
+          // Near misses are for the seller to double-check, not to block on
+          level: best.distance === 0 ? compiled.entry.level : 'warning',
+          field,
+          matched: best.matched,
+          distance: best.distance,
+        });
+      }
+    }
+  }
+
+  return matches.sort((a, b) =>
+    (a.level === b.level ? 0 : a.level === 'error' ? -1 : 1) || a.distance - b.distance
+  );
+}
+
+/**
+ * Screen listing / design content and turn matches into validation issues
+ * (one issue per term, listing every field it appeared in)
+ */
+export function trademarkIssues(fields: Record<string, string | null | undefined>): TrademarkIssue[] {
+  const byTerm = new Map<string, TrademarkMatch[]>();
+  for (const match of screenForTrademarks(fields)) {
+    byTerm.set(match.term, [...(byTerm.get(match.term) ?? []), match]);
+  }
+
+  return Array.from(byTerm.values()).map((termMatches) => {
+    const [first] = termMatches;
+    const where = termMatches.map((m) => m.field).join(', ');
+    const lookalike = first.distance > 0 ? ` (looks like "${first.matched}")` : '';
+    return {
+      level: first.level,
+      code: 'trademark_risk',
+      message: first.level === 'error'
+        ? `"${first.term}" is a protected ${CATEGORY_LABELS[first.category]}${lookalike} - remove it from ${where} before publishing.`
+        : `"${first.term}" may be a protected ${CATEGORY_LABELS[first.category]}${lookalike} in ${where} - make sure you have the rights to use it.`,
+      term: first.term,
+      field: where,
+    };
+  });
+}
+
+/**
+ * Tag list → named fields for screening ("tags[0]", "tags[1]", ...)
+ */
+export function tagFields(tags: unknown): Record<string, string> {
+  if (!Array.isArray(tags)) return {};
+  return Object.fromEntries(
+    tags.filter((tag): tag is string => typeof tag === 'string').map((tag, i) => [`tags[${i}]`, tag])
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Font library for vector typography (see lib/typography.ts)
+ *
+ * The font files live in /fonts (from Google Fonts; SIL Open Font License,
+ * Permanent Marker under Apache 2.0 - see fonts/licenses) and are registered
+ * with fontconfig through fonts/fonts.conf, so sharp's SVG renderer can use
+ * them. Each entry also has a generic fallback stack, so a missing file
+ * degrades to a similar system font instead of failing.
+ *
+ * Adding a font: drop the .ttf into /fonts and its license into
+ * fonts/licenses, and add an entry below - `keywords` are matched against
+ * analysis.typography_style.
+ */
+
+export type FontCategory = 'block' | 'condensed' | 'serif' | 'slab' | 'script' | 'handwritten' | 'rounded';
+
+export interface TypographyFont {
+  id: string;
+  family: string;         // Family name inside the font file
+  file: string;           // File in /fonts
+  category: FontCategory;
+  weight: number;
+  keywords: string[];
+  fallback: string;       // Generic CSS font stack used when the file is missing
+  advance: number;        // Average uppercase advance width, in em (for layout estimates)
+}
+
+export const FONT_LIBRARY: TypographyFont[] = [
+  {
+    id: 'anton',
+    family: 'Anton',
+    file: 'Anton-Regular.ttf',
+    category: 'condensed',
+    weight: 400,
+    keywords: ['bold', 'condensed', 'impact', 'heavy', 'tall', 'athletic', 'poster'],
+    fallback: "Impact, 'Arial Narrow', sans-serif",
+    advance: 0.5,
+  },
+  {
+    id: 'bebas-neue',
+    family: 'Bebas Neue',
+    file: 'BebasNeue-Regular.ttf',
+    category: 'condensed',
+    weight: 400,
+    keywords: ['sans', 'sans-serif', 'clean', 'modern', 'minimal', 'all caps', 'uppercase'],
+    fallback: "'Arial Narrow', sans-serif",
+    advance: 0.45,
+  },
+  {
+    id: 'archivo-black',
+    family: 'Archivo Black',
+    file: 'ArchivoBlack-Regular.ttf',
+    category: 'block',
+    weight: 900,
+    keywords: ['block', 'bold', 'sans', 'sans-serif', 'heavy', 'chunky', 'thick', 'blocky'],
+    fallback: "'Arial Black', sans-serif",
+    advance: 0.78,
+  },
+  {
+    id: 'alfa-slab-one',
+    family: 'Alfa Slab One',
+    file: 'AlfaSlabOne-Regular.ttf',
+    category: 'slab',
+    weight: 400,
+    keywords: ['slab', 'retro', 'vintage', 'western', 'varsity', 'college', 'collegiate', 'distressed'],
+    fallback: "Rockwell, 'Courier New', serif",
+    advance: 0.75,
+  },
+  {
+    id: 'playfair-display',
+    family: 'Playfair Display',
+    file: 'PlayfairDisplay-Bold.ttf',
+    category: 'serif',
+    weight: 700,
+    keywords: ['serif', 'elegant', 'classic', 'classy', 'editorial', 'luxury', 'high contrast'],
+    fallback: "Georgia, 'Times New Roman', serif",
+    advance: 0.68,
+  },
+  {
+    id: 'pacifico',
+    family: 'Pacifico',
+    file: 'Pacifico-Regular.ttf',
+    category: 'script',
+    weight: 400,
+    keywords: ['script', 'cursive', 'retro script', 'surf', 'brush script', 'flowing', 'calligraphy'],
+    fallback: "'Brush Script MT', cursive",
+    advance: 0.62,
+  },
+  {
+    id: 'permanent-marker',
+    family: 'Permanent Marker',
+    file: 'PermanentMarker-Regular.ttf',
+    category: 'handwritten',
+    weight: 400,
+    keywords: ['hand-drawn', 'handwritten', 'hand drawn', 'marker', 'brush', 'grunge', 'casual', 'sketch'],
+    fallback: "'Comic Sans MS', cursive",
+    advance: 0.7,
+  },
+  {
+    id: 'fredoka',
+    family: 'Fredoka',
+    file: 'Fredoka-Bold.ttf',
+    category: 'rounded',
+    weight: 700,
+    keywords: ['rounded', 'bubble', 'cute', 'playful', 'kids', 'cartoon', 'fun', 'soft'],
+    fallback: "'Arial Rounded MT Bold', sans-serif",
+    advance: 0.66,
+  },
+];
+
+// Used when nothing in typography_style matches
+export const DEFAULT_FONT_ID = 'archivo-black';
+
+/**
+ * Fonts ranked by how well their keywords match a typography description
+ * (best first; the default font leads when nothing matches)
+ */
+export function rankFonts(typographyStyle: string | null | undefined): TypographyFont[] {
+  const style = (typographyStyle || '').toLowerCase();
+  const scored = FONT_LIBRARY.map((font, index) => ({
+    font,
+    index,
+    score: font.keywords.reduce((sum, keyword) => sum + (style.includes(keyword) ? keyword.length : 0), 0)
+      + (font.id === DEFAULT_FONT_ID ? 0.5 : 0),
+  }));
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ font }) => font);
+}
+
+/**
+ * CSS font-family value for a font (bundled family first, then its fallback)
+ */
+export function fontStack(font: TypographyFont): string {
+  return `'${font.family}', ${font.fallback}`;
+}
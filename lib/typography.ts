@@ -0,0 +1,338 @@
+/**
+ * Vector typography for text-only designs - Server-only
+ *
+ * Image models mangle letters; for designs that are (almost) all text we set
+ * the phrase ourselves instead: pick a font from the bundled library
+ * (lib/typography-fonts.ts), lay it out (stacked, arched, distressed), write
+ * an SVG and rasterize it with sharp at POD size. The SVG is kept as the
+ * vector source file; exports embed the font in it (embedTypographyFont).
+ *
+ * Layout sizes are estimates from each font's average advance width - the
+ * raster is trimmed afterwards, so small misses don't matter.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { POD_CONFIG } from './image-utils';
+import { FONT_LIBRARY, fontStack, rankFonts, type TypographyFont } from './typography-fonts';
+
+const FONTS_DIR = path.join(process.cwd(), 'fonts');
+
+// librsvg finds fonts through fontconfig - register the bundled /fonts folder
+process.env.FONTCONFIG_PATH ??= FONTS_DIR;
+
+export type TypographyLayout = 'stacked' | 'arched' | 'distressed';
+
+export const TYPOGRAPHY_LAYOUTS: TypographyLayout[] = ['stacked', 'arched', 'distressed'];
+
+export interface TypographyRequest {
+  text: string;
+  typographyStyle?: string | null;
+  textColor?: string | null;
+  layout: TypographyLayout;
+  variation?: number;            // Picks between equally good fonts (e.g. the variant number)
+}
+
+export interface TypographyResult {
+  imageData: string;             // PNG data URI at POD size, transparent background
+  svg: string;                   // Vector source
+  layout: TypographyLayout;
+  font: TypographyFont;
+  color: string;
+}
+
+// SVG coordinate space - a third of the POD canvas, scaled up when rasterizing
+const VIEW_WIDTH = POD_CONFIG.width / 3;
+const VIEW_HEIGHT = POD_CONFIG.height / 3;
+const MARGIN = VIEW_WIDTH * 0.06;
+const LINE_GAP = 0.12;           // Of the line's font size
+const ARC_ANGLE = 1.3;           // Radians covered by arched text (~75°)
+
+// Relative glyph widths - narrow and wide letters differ a lot from the average
+const NARROW_GLYPHS = /[IJijl1!.,:;'|\s-]/;
+const WIDE_GLYPHS = /[MWmw@%]/;
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#111111',
+  white: '#FFFFFF',
+  red: '#D62828',
+  orange: '#F77F00',
+  yellow: '#FCBF49',
+  gold: '#D4A017',
+  green: '#2A9D57',
+  teal: '#1B998B',
+  blue: '#1D4E89',
+  navy: '#14213D',
+  purple: '#6A4C93',
+  pink: '#F08CAE',
+  brown: '#7F5539',
+  gray: '#6C757D',
+  grey: '#6C757D',
+  silver: '#C0C0C0',
+  cream: '#F4EBD0',
+  beige: '#E8D8B0',
+};
+
+interface Line {
+  text: string;
+  fontSize: number;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * analysis.text_color ("white", "dark red with black outline", "#ff0000") → hex
+ */
+export function resolveTextColor(textColor: string | null | undefined): string {
+  const value = (textColor || '').trim().toLowerCase();
+  const hex = value.match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b/);
+  if (hex) return hex[0].toUpperCase();
+
+  const name = Object.keys(NAMED_COLORS).find((color) => new RegExp(`\\b${color}\\b`).test(value));
+  return name ? NAMED_COLORS[name] : NAMED_COLORS.black;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) - same text + layout → same distressing
+ */
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Estimated advance of one character, in em
+ */
+function glyphAdvance(char: string, font: TypographyFont): number {
+  if (NARROW_GLYPHS.test(char)) return font.advance * 0.45;
+  if (WIDE_GLYPHS.test(char)) return font.advance * 1.3;
+  return font.advance;
+}
+
+/**
+ * Estimated width of a string, in em
+ */
+function textAdvance(text: string, font: TypographyFont): number {
+  return Array.from(text).reduce((sum, char) => sum + glyphAdvance(char, font), 0);
+}
+
+/**
+ * Split words into 1-4 lines of similar length (stacked typography)
+ */
+function balanceLines(words: string[]): string[] {
+  const totalChars = words.join(' ').length;
+  const lineCount = Math.min(words.length, 4, Math.max(1, Math.round(Math.sqrt(totalChars / 3))));
+  const target = totalChars / lineCount;
+
+  const lines: string[] = [];
+  let current: string[] = [];
+  for (const word of words) {
+    const candidate = [...current, word].join(' ');
+    const linesLeft = lineCount - lines.length;
+    if (current.length > 0 && candidate.length > target * 1.15 && linesLeft > 1) {
+      lines.push(current.join(' '));
+      current = [word];
+    } else {
+      current.push(word);
+    }
+  }
+  if (current.length > 0) lines.push(current.join(' '));
+  return lines;
+}
+
+/**
+ * Size each line to fill the width (classic stacked look), then shrink
+ * everything if the stack is taller than the space available
+ */
+function fitLines(texts: string[], font: TypographyFont, width: number, maxHeight: number): Line[] {
+  const maxFontSize = maxHeight * 0.45;
+  let lines = texts.map((text) => ({
+    text,
+    fontSize: Math.min(maxFontSize, width / Math.max(textAdvance(text, font), font.advance)),
+  }));
+
+  const height = lines.reduce((sum, line) => sum + line.fontSize * (1 + LINE_GAP), 0);
+  if (height > maxHeight) {
+    const scale = maxHeight / height;
+    lines = lines.map((line) => ({ ...line, fontSize: line.fontSize * scale }));
+  }
+  return lines;
+}
+
+/**
+ * Lines stacked top to bottom, centered; returns the elements and the height used
+ */
+function stackedElements(lines: Line[], top: number, attrs: string): { elements: string; height: number } {
+  let y = top;
+  const elements = lines.map((line) => {
+    y += line.fontSize;
+    const element = `<text x="${VIEW_WIDTH / 2}" y="${y.toFixed(1)}" font-size="${line.fontSize.toFixed(1)}" text-anchor="middle" ${attrs}>${escapeXml(line.text)}</text>`;
+    y += line.fontSize * LINE_GAP;
+    return element;
+  });
+  return { elements: elements.join('\n    '), height: y - top };
+}
+
+/**
+ * One line of text along an upward arc - each glyph placed and rotated on its own,
+ * which renders the same everywhere (librsvg has no reliable textPath support)
+ */
+function archedElements(text: string, font: TypographyFont, top: number, attrs: string): { elements: string; height: number } {
+  const chars = Array.from(text);
+  const usableWidth = VIEW_WIDTH - MARGIN * 2;
+  // Chord of the arc is ~0.93 of its length at ARC_ANGLE
+  const fontSize = Math.min(VIEW_HEIGHT * 0.2, usableWidth / (0.93 * Math.max(textAdvance(text, font), font.advance)));
+  const arcLength = fontSize * textAdvance(text, font);
+  const radius = arcLength / ARC_ANGLE;
+  const baseline = top + fontSize;
+
+  let travelled = 0;
+  const elements = chars.map((char) => {
+    const advance = fontSize * glyphAdvance(char, font);
+    const angle = -ARC_ANGLE / 2 + (travelled + advance / 2) / radius;
+    travelled += advance;
+    const x = VIEW_WIDTH / 2 + radius * Math.sin(angle);
+    const y = baseline + radius * (1 - Math.cos(angle));
+    const degrees = (angle * 180) / Math.PI;
+    return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="${fontSize.toFixed(1)}" text-anchor="middle" transform="rotate(${degrees.toFixed(2)} ${x.toFixed(1)} ${y.toFixed(1)})" ${attrs}>${escapeXml(char)}</text>`;
+  });
+
+  const sag = radius * (1 - Math.cos(ARC_ANGLE / 2));
+  return { elements: elements.join('\n    '), height: fontSize + sag + fontSize * LINE_GAP };
+}
+
+/**
+ * Worn-print texture: a mask of seeded specks and scratches knocked out of the text
+ */
+function distressMask(seed: string): string {
+  const random = seededRandom(seed);
+  const specks: string[] = [];
+  for (let i = 0; i < 700; i++) {
+    const x = (random() * VIEW_WIDTH).toFixed(1);
+    const y = (random() * VIEW_HEIGHT).toFixed(1);
+    const r = (1.5 + random() * random() * 14).toFixed(1);
+    specks.push(`<circle cx="${x}" cy="${y}" r="${r}" fill="black"/>`);
+  }
+  for (let i = 0; i < 60; i++) {
+    const x = (random() * VIEW_WIDTH).toFixed(1);
+    const y = (random() * VIEW_HEIGHT).toFixed(1);
+    const length = (60 + random() * 240).toFixed(1);
+    const angle = (-30 + random() * 60).toFixed(1);
+    specks.push(`<rect x="${x}" y="${y}" width="${length}" height="${(1.5 + random() * 4).toFixed(1)}" transform="rotate(${angle} ${x} ${y})" fill="black"/>`);
+  }
+  return `<mask id="distress" maskUnits="userSpaceOnUse" x="0" y="0" width="${VIEW_WIDTH}" height="${VIEW_HEIGHT}">
+      <rect width="${VIEW_WIDTH}" height="${VIEW_HEIGHT}" fill="white"/>
+      ${specks.join('\n      ')}
+    </mask>`;
+}
+
+/**
+ * Build the SVG for one layout
+ */
+export function buildTypographySvg(request: TypographyRequest): { svg: string; font: TypographyFont; color: string } {
+  const text = request.text.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    throw new Error('Typography needs text to render');
+  }
+
+  const ranked = rankFonts(request.typographyStyle);
+  // Alternate between the two best matches so variants don't all share one font
+  const font = ranked[(request.variation ?? 0) % Math.min(2, ranked.length)];
+  const color = resolveTextColor(request.textColor);
+  const attrs = `font-family="${escapeXml(fontStack(font))}" font-weight="${font.weight}" fill="${color}"`;
+
+  const usableWidth = VIEW_WIDTH - MARGIN * 2;
+  const usableHeight = VIEW_HEIGHT - MARGIN * 2;
+  const words = text.split(' ');
+
+  let body: string;
+  let height: number;
+  if (request.layout === 'arched') {
+    // Arc the first half of the phrase, stack the rest underneath
+    const arcWordCount = words.length >= 3 ? Math.ceil(words.length / 2) : words.length;
+    const arc = archedElements(words.slice(0, arcWordCount).join(' '), font, 0, attrs);
+    const rest = words.slice(arcWordCount);
+    const stack = rest.length > 0
+      ? stackedElements(fitLines(balanceLines(rest), font, usableWidth * 0.85, usableHeight - arc.height), arc.height, attrs)
+      : { elements: '', height: 0 };
+    body = [arc.elements, stack.elements].filter(Boolean).join('\n    ');
+    height = arc.height + stack.height;
+  } else {
+    const stack = stackedElements(fitLines(balanceLines(words), font, usableWidth, usableHeight), 0, attrs);
+    body = stack.elements;
+    height = stack.height;
+  }
+
+  // Center the block vertically
+  const offsetY = Math.max(MARGIN, (VIEW_HEIGHT - height) / 2);
+  const distressed = request.layout === 'distressed';
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${POD_CONFIG.width}" height="${POD_CONFIG.height}" viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}">
+  <defs>
+    ${distressed ? distressMask(`${text}:${font.id}`) : ''}
+  </defs>
+  <g transform="translate(0 ${offsetY.toFixed(1)})"${distressed ? ' mask="url(#distress)"' : ''}>
+    ${body}
+  </g>
+</svg>`;
+
+  return { svg, font, color };
+}
+
+/**
+ * Render a text-only design: SVG layout → transparent PNG at POD size
+ */
+export async function renderTypography(request: TypographyRequest): Promise<TypographyResult> {
+  try {
+    const { svg, font, color } = buildTypographySvg(request);
+    const buffer = await sharp(Buffer.from(svg)).png().toBuffer();
+
+    console.log(`🔤 Typography rendered: ${request.layout} in ${font.family} (${color})`);
+
+    return {
+      imageData: `data:image/png;base64,${buffer.toString('base64')}`,
+      svg,
+      layout: request.layout,
+      font,
+      color,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to render typography: ${msg}`);
+  }
+}
+
+/**
+ * Embed a library font in a typography SVG as an @font-face data URI, so the
+ * file renders the same outside this server (print providers, editors)
+ * @param family - Font family the SVG was set in (VectorSource.font)
+ */
+export async function embedTypographyFont(svg: string, family: string): Promise<string> {
+  const font = FONT_LIBRARY.find((entry) => entry.family === family);
+  if (!font) {
+    throw new Error(`Font "${family}" is not in the typography library`);
+  }
+
+  const data = await readFile(path.join(FONTS_DIR, font.file));
+  const fontFace = `<style>@font-face { font-family: '${font.family}'; font-weight: ${font.weight}; src: url(data:font/ttf;base64,${data.toString('base64')}) format('truetype'); }</style>`;
+
+  // Our SVGs always open with <defs>; fall back to right after the root tag
+  return svg.includes('<defs>')
+    ? svg.replace('<defs>', `<defs>\n    ${fontFace}`)
+    : svg.replace(/<svg\b[^>]*>/, (root) => `${root}\n  <defs>${fontFace}</defs>`);
+}
@@ -0,0 +1,121 @@
+/**
+ * Usage summaries - totals and breakdowns of usage_ledger rows
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Entries are usage_ledger rows already grouped in SQL (usage_breakdown RPC):
+ * one entry per provider/model/operation/project with its call count and sums.
+ */
+
+import type { UsageLedgerRow } from './supabase/types';
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 365;
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+// One row of a breakdown table (provider/model, operation or project)
+export interface UsageBreakdownEntry extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  since: string;                          // ISO date of the oldest row included
+  totals: UsageTotals;
+  byModel: UsageBreakdownEntry[];
+  byOperation: UsageBreakdownEntry[];
+  byProject: UsageBreakdownEntry[];       // Calls not linked to a project are left out
+}
+
+export type UsageEntry = Pick<UsageLedgerRow, 'provider' | 'model' | 'operation'> & {
+  projectId: string | null;               // Resolved from project_id, or the project saved from job_id
+  calls: number;
+  // Sums - bigint / numeric aggregates can come back from PostgREST as strings
+  input_tokens: number | string;
+  output_tokens: number | string;
+  images: number | string;
+  estimated_cost_usd: number | string;
+};
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): void {
+  totals.calls += Number(entry.calls) || 0;
+  totals.inputTokens += Number(entry.input_tokens) || 0;
+  totals.outputTokens += Number(entry.output_tokens) || 0;
+  totals.images += Number(entry.images) || 0;
+  totals.costUsd += Number(entry.estimated_cost_usd) || 0;
+}
+
+function roundCost(totals: UsageTotals): void {
+  totals.costUsd = Math.round(totals.costUsd * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Totals plus per-model, per-operation and per-project breakdowns (most expensive first)
+ * @param projectNames - project id → name, for the per-project labels
+ */
+export function summarizeUsage(
+  entries: UsageEntry[],
+  projectNames: Record<string, string>,
+  since: string
+): UsageSummary {
+  const totals = emptyTotals();
+  const groups = {
+    byModel: new Map<string, UsageBreakdownEntry>(),
+    byOperation: new Map<string, UsageBreakdownEntry>(),
+    byProject: new Map<string, UsageBreakdownEntry>(),
+  };
+
+  const addTo = (group: Map<string, UsageBreakdownEntry>, key: string, label: string, entry: UsageEntry) => {
+    let row = group.get(key);
+    if (!row) {
+      row = { key, label, ...emptyTotals() };
+      group.set(key, row);
+    }
+    addEntry(row, entry);
+  };
+
+  for (const entry of entries) {
+    addEntry(totals, entry);
+    addTo(groups.byModel, `${entry.provider}/${entry.model}`, `${entry.provider} · ${entry.model}`, entry);
+    // "image generation (normal)", "(aggressive)" and "(no-reference)" tiers are one operation here
+    const operation = entry.operation.replace(/ \(.*\)$/, '');
+    addTo(groups.byOperation, operation, operation, entry);
+    if (entry.projectId) {
+      addTo(groups.byProject, entry.projectId, projectNames[entry.projectId] || 'Deleted project', entry);
+    }
+  }
+
+  const sorted = (group: Map<string, UsageBreakdownEntry>) => {
+    const rows = Array.from(group.values());
+    rows.forEach(roundCost);
+    return rows.sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+  };
+
+  roundCost(totals);
+  return {
+    since,
+    totals,
+    byModel: sorted(groups.byModel),
+    byOperation: sorted(groups.byOperation),
+    byProject: sorted(groups.byProject),
+  };
+}
+
+/**
+ * Format an estimated cost for display ($0.0042, $1.23)
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Follow-up edits of a single variant - Server-only
+ * "change the word BEER to COFFEE", "make the bear hold a dumbbell"
+ *
+ * 1. Flatten the variant onto a solid canvas (green screen for light designs)
+ * 2. Image-to-image edit with the edit provider (optionally limited by a mask)
+ * 3. Remove the canvas again (local chroma key first, see background-removal.ts)
+ * 4. With a mask: paste only the masked area back onto the untouched parent
+ * 5. Trim + normalize to POD specs, like freshly generated variants
+ */
+
+import sharp from 'sharp';
+import type { DesignAnalysis } from './design-utils';
+import { SIMILARITY_TOO_CLOSE_THRESHOLD, type ColorClassification } from './gemini';
+import type { VariantProvenance } from './generation-events';
+import type { SourceSimilarity } from './source-similarity';
+import { removeBackgroundWithFallback } from './background-removal';
+import { measureSourceSimilarity } from './image-hash';
+import { resolveGenerationPipeline, type GenerationPipelineConfig } from './image-providers';
+import { detectRecommendedBackground, normalizeToPODSize, trimTransparentPixels } from './image-utils';
+
+export const MAX_EDIT_INSTRUCTION_LENGTH = 500;
+
+// Longest side sent to the model - POD canvases (4500x5400) are far bigger than needed
+const EDIT_WORKING_SIZE = 1024;
+const GREEN_SCREEN = '#00AA00';
+
+export interface VariantEditInput {
+  parentVariantId: string;
+  imageData: string;                       // Parent variant (transparent PNG data URI)
+  instruction: string;
+  mask?: string | null;                    // Data URI, any size - white = area to change
+  lightDesign: boolean;                    // Parent recommended for dark products
+  analysis: DesignAnalysis | null;         // Parent's analysis (carried into provenance)
+  strategyId: string | null;
+  sourceImage?: string | null;             // Cleaned project original, for the similarity score
+}
+
+export interface EditedVariant {
+  imageData: string;
+  colorClassification: ColorClassification;
+  provenance: VariantProvenance;
+  similarity: SourceSimilarity | null;
+}
+
+function toBuffer(imageData: string): Buffer {
+  const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+  return Buffer.from(base64Data, 'base64');
+}
+
+function toDataUrl(buffer: Buffer): string {
+  return `data:image/png;base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Mask as a single-channel image of the given size (white = editable),
+ * with a slightly soft edge so the pasted area blends in
+ */
+async function prepareMask(mask: string, width: number, height: number): Promise<Buffer> {
+  return sharp(toBuffer(mask))
+    .flatten({ background: '#000000' })
+    .resize(width, height, { fit: 'fill' })
+    .grayscale()
+    .blur(2)
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Keep the parent outside the mask and the edit inside it
+ */
+async function pasteMaskedEdit(parent: Buffer, edited: Buffer, mask: string): Promise<Buffer> {
+  const { width = EDIT_WORKING_SIZE, height = EDIT_WORKING_SIZE } = await sharp(parent).metadata();
+  const maskAlpha = await prepareMask(mask, width, height);
+  // Grey + alpha image whose alpha is the mask, used as a stencil
+  const stencil = await sharp(Buffer.alloc(width * height, 255), { raw: { width, height, channels: 1 } })
+    .joinChannel(maskAlpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  const editedInside = await sharp(edited)
+    .resize(width, height, { fit: 'fill' })
+    .ensureAlpha()
+    .composite([{ input: stencil, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+  const parentOutside = await sharp(parent)
+    .ensureAlpha()
+    .composite([{ input: stencil, blend: 'dest-out' }])
+    .png()
+    .toBuffer();
+
+  return sharp(parentOutside).composite([{ input: editedInside, blend: 'over' }]).png().toBuffer();
+}
+
+/**
+ * Edit one variant and return the new, POD-ready design + its provenance
+ */
+export async function editVariantImage(
+  input: VariantEditInput,
+  pipelineOverrides: Partial<GenerationPipelineConfig> = {}
+): Promise<EditedVariant> {
+  const pipeline = resolveGenerationPipeline(pipelineOverrides);
+  const provider = pipeline.editProvider;
+  if (!provider.edit) {
+    throw new Error(`Image provider "${provider.name}" does not support edits`);
+  }
+
+  const parent = toBuffer(input.imageData);
+  // Light artwork disappears on white - use the green screen, as generation does
+  const canvasColor = input.lightDesign ? GREEN_SCREEN : '#FFFFFF';
+
+  const working = await sharp(parent)
+    .resize(EDIT_WORKING_SIZE, EDIT_WORKING_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: canvasColor })
+    .png()
+    .toBuffer();
+  const { width = EDIT_WORKING_SIZE, height = EDIT_WORKING_SIZE } = await sharp(working).metadata();
+
+  let workingMask: string | null = null;
+  if (input.mask) {
+    const maskPixels = await prepareMask(input.mask, width, height);
+    const maskPng = await sharp(maskPixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+    workingMask = toDataUrl(maskPng);
+  }
+
+  console.log(`✏️ Editing variant ${input.parentVariantId} with ${provider.name}: "${input.instruction}"${workingMask ? ' (masked)' : ''}`);
+  const result = await provider.edit({
+    imageData: toDataUrl(working),
+    instruction: input.instruction,
+    mask: workingMask,
+    canvasColor,
+  });
+
+  let backgroundMethod: string | null = null;
+  let cleaned = result.imageData;
+  if (!result.hasCleanBackground) {
+    const removal = await removeBackgroundWithFallback(result.imageData, pipeline.backgroundProvider);
+    cleaned = removal.imageData;
+    backgroundMethod = removal.method;
+  }
+
+  if (input.mask) {
+    cleaned = toDataUrl(await pasteMaskedEdit(parent, toBuffer(cleaned), input.mask));
+  }
+
+  const trimmed = await trimTransparentPixels(cleaned);
+  const podReady = await normalizeToPODSize(trimmed);
+
+  let recommendedBackground: 'light' | 'dark' = input.lightDesign ? 'dark' : 'light';
+  try {
+    recommendedBackground = await detectRecommendedBackground(cleaned);
+  } catch {
+    console.warn(`⚠️ Color classification failed for edit of ${input.parentVariantId}, keeping parent's`);
+  }
+
+  // An edit can drift back towards the source - score it like any other variant
+  let similarity: SourceSimilarity | null = null;
+  if (input.sourceImage) {
+    try {
+      similarity = await measureSourceSimilarity(input.sourceImage, trimmed, SIMILARITY_TOO_CLOSE_THRESHOLD);
+    } catch (error) {
+      console.warn(`⚠️ Similarity check failed for edit of ${input.parentVariantId}:`, error);
+    }
+  }
+
+  console.log(`✅ Edit of variant ${input.parentVariantId} complete`);
+
+  return {
+    imageData: podReady,
+    colorClassification: {
+      recommendedBackground,
+      productHint: recommendedBackground === 'dark' ? 'Best on dark products' : 'Best on light products',
+    },
+    provenance: {
+      analysis: input.analysis,
+      prompt: input.instruction,
+      strategyId: input.strategyId,
+      provider: provider.name,
+      model: result.model ?? null,
+      usedTier: 'edit',
+      attempts: [{
+        tier: 'edit',
+        provider: provider.name,
+        model: result.model ?? null,
+        outcome: 'accepted',
+        reason: result.reason,
+      }],
+      backgroundRemoval: { provider: backgroundMethod, skipped: result.hasCleanBackground },
+      edit: {
+        parentVariantId: input.parentVariantId,
+        instruction: input.instruction,
+        masked: !!input.mask,
+      },
+      generatedAt: new Date().toISOString(),
+    },
+    similarity,
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * Raster-to-vector tracing - Server-only
+ * Turns a variant PNG into an SVG for print providers and sticker cutters.
+ *
+ * 1. Downscale to a working size and quantize the opaque pixels to N colours (k-means)
+ * 2. Clean up single-pixel speckles left over from anti-aliasing
+ * 3. Trace each colour layer's pixel outline into closed contours
+ * 4. Simplify the pixel staircases (Douglas-Peucker) into straight-segment paths
+ *
+ * Layers are stacked largest-first and each layer also covers the area of the
+ * layers drawn above it, so neighbouring colours never leave hairline gaps.
+ */
+
+import sharp from 'sharp';
+import { closestColor, flatPixels, quantizeColors, toHex } from './color-quantize';
+
+export const MIN_VECTOR_COLORS = 2;
+export const MAX_VECTOR_COLORS = 16;
+export const DEFAULT_VECTOR_COLORS = 6;
+
+// Longest side that gets traced - path detail beyond this is invisible in print
+const TRACE_MAX_SIZE = 1024;
+// Pixels more transparent than this are left out of every layer
+const ALPHA_CUTOFF = 128;
+// Max distance (traced pixels) a simplified path may stray from the pixel outline
+const SIMPLIFY_TOLERANCE = 0.6;
+// Contours smaller than this (square traced pixels) are dropped as noise
+const MIN_CONTOUR_AREA = 4;
+
+export interface VectorizeOptions {
+  colors?: number;
+}
+
+export interface VectorizedImage {
+  svg: string;
+  width: number;          // Source image size (the SVG's width/height)
+  height: number;
+  palette: string[];      // Hex colours, in drawing order
+  pathCount: number;
+}
+
+type Point = [number, number];
+
+function toBuffer(imageData: string | Buffer): Buffer {
+  if (Buffer.isBuffer(imageData)) return imageData;
+  const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
+  return Buffer.from(base64Data, 'base64');
+}
+
+/**
+ * Reassign pixels that share their colour with none of their 4 neighbours
+ * (anti-aliasing leftovers) to the most common neighbouring colour
+ */
+function despeckle(labels: Int16Array, width: number, height: number): void {
+  const source = labels.slice();
+  const counts = new Map<number, number>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const label = source[i];
+      if (label < 0) continue;
+
+      const neighbours = [
+        x > 0 ? source[i - 1] : -1,
+        x < width - 1 ? source[i + 1] : -1,
+        y > 0 ? source[i - width] : -1,
+        y < height - 1 ? source[i + width] : -1,
+      ];
+      if (neighbours.includes(label)) continue;
+
+      counts.clear();
+      for (const n of neighbours) {
+        if (n >= 0) counts.set(n, (counts.get(n) || 0) + 1);
+      }
+      let best = label;
+      let bestCount = 0;
+      counts.forEach((count, n) => {
+        if (count > bestCount) {
+          best = n;
+          bestCount = count;
+        }
+      });
+      labels[i] = best;
+    }
+  }
+}
+
+/**
+ * Closed outlines of a binary mask, following pixel edges.
+ * Every edge keeps the inside on its right, so holes wind the opposite way.
+ */
+function traceContours(mask: Uint8Array, width: number, height: number): Point[][] {
+  const stride = width + 1;
+  // Up to two outgoing edges per pixel corner (two when regions touch diagonally)
+  const next = new Int32Array(stride * (height + 1) * 2).fill(-1);
+  const addEdge = (from: number, to: number) => {
+    next[from * 2 + (next[from * 2] === -1 ? 0 : 1)] = to;
+  };
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      const topLeft = y * stride + x;
+      const topRight = topLeft + 1;
+      const bottomLeft = topLeft + stride;
+      const bottomRight = bottomLeft + 1;
+      if (!inside(x, y - 1)) addEdge(topLeft, topRight);
+      if (!inside(x + 1, y)) addEdge(topRight, bottomRight);
+      if (!inside(x, y + 1)) addEdge(bottomRight, bottomLeft);
+      if (!inside(x - 1, y)) addEdge(bottomLeft, topLeft);
+    }
+  }
+
+  const takeEdge = (from: number): number => {
+    const slot = next[from * 2 + 1] !== -1 ? from * 2 + 1 : from * 2;
+    const to = next[slot];
+    next[slot] = -1;
+    return to;
+  };
+
+  const contours: Point[][] = [];
+  for (let start = 0; start < stride * (height + 1); start++) {
+    while (next[start * 2] !== -1) {
+      const contour: Point[] = [];
+      let vertex = start;
+      do {
+        contour.push([vertex % stride, Math.floor(vertex / stride)]);
+        vertex = takeEdge(vertex);
+      } while (vertex !== start && vertex !== -1);
+      contours.push(contour);
+    }
+  }
+  return contours;
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+function douglasPeucker(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  const [ax, ay] = points[0];
+  const [bx, by] = points[points.length - 1];
+  const length = Math.hypot(bx - ax, by - ay);
+
+  let farthest = 0;
+  let farthestDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i];
+    const d = length === 0
+      ? Math.hypot(px - ax, py - ay)
+      : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+    if (d > farthestDistance) {
+      farthest = i;
+      farthestDistance = d;
+    }
+  }
+
+  if (farthestDistance <= tolerance) return [points[0], points[points.length - 1]];
+  const left = douglasPeucker(points.slice(0, farthest + 1), tolerance);
+  const right = douglasPeucker(points.slice(farthest), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Simplify a closed contour: split it at two far-apart points and
+ * run Douglas-Peucker on both halves
+ */
+function simplifyContour(contour: Point[]): Point[] {
+  // Pixel-edge midpoints turn 1px staircases into straight diagonals
+  const midpoints = contour.map(([x, y], i): Point => {
+    const [nx, ny] = contour[(i + 1) % contour.length];
+    return [(x + nx) / 2, (y + ny) / 2];
+  });
+
+  let split = 0;
+  let splitDistance = 0;
+  midpoints.forEach(([x, y], i) => {
+    const d = (x - midpoints[0][0]) ** 2 + (y - midpoints[0][1]) ** 2;
+    if (d > splitDistance) {
+      split = i;
+      splitDistance = d;
+    }
+  });
+
+  const first = douglasPeucker(midpoints.slice(0, split + 1), SIMPLIFY_TOLERANCE);
+  const second = douglasPeucker([...midpoints.slice(split), midpoints[0]], SIMPLIFY_TOLERANCE);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function contourToPath(points: Point[]): string {
+  return `M${points.map(([x, y]) => `${x} ${y}`).join('L')}Z`;
+}
+
+/**
+ * Trace an image (PNG/WebP/JPEG data URI or buffer, transparent background)
+ * into a colour-layered SVG
+ */
+export async function vectorizeImage(
+  imageData: string | Buffer,
+  options: VectorizeOptions = {}
+): Promise<VectorizedImage> {
+  const colorCount = Math.round(options.colors ?? DEFAULT_VECTOR_COLORS);
+  if (colorCount < MIN_VECTOR_COLORS || colorCount > MAX_VECTOR_COLORS) {
+    throw new Error(`Colour count must be between ${MIN_VECTOR_COLORS} and ${MAX_VECTOR_COLORS}`);
+  }
+
+  const input = toBuffer(imageData);
+  const metadata = await sharp(input).metadata();
+  const sourceWidth = metadata.width || TRACE_MAX_SIZE;
+  const sourceHeight = metadata.height || TRACE_MAX_SIZE;
+
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .resize(TRACE_MAX_SIZE, TRACE_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const pixels = new Uint8Array(data.buffer, data.byteOffset, data.length);
+
+  const opaque = new Uint8Array(width * height);
+  for (let i = 0; i < opaque.length; i++) {
+    opaque[i] = pixels[i * 4 + 3] >= ALPHA_CUTOFF ? 1 : 0;
+  }
+
+  const flat = flatPixels(pixels, opaque, width);
+  const centers = quantizeColors(pixels, flat.includes(1) ? flat : opaque, colorCount);
+  const labels = new Int16Array(width * height).fill(-1);
+  for (let i = 0; i < labels.length; i++) {
+    if (opaque[i]) labels[i] = closestColor(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2], centers);
+  }
+  despeckle(labels, width, height);
+
+  // Largest colour at the bottom; each layer spans itself plus every layer above it
+  const areas = centers.map(() => 0);
+  labels.forEach(label => { if (label >= 0) areas[label]++; });
+  const order = centers.map((_, k) => k).filter(k => areas[k] > 0).sort((a, b) => areas[b] - areas[a]);
+  const rank = new Int16Array(centers.length).fill(-1);
+  order.forEach((k, position) => { rank[k] = position; });
+
+  const mask = new Uint8Array(width * height);
+  const paths: string[] = [];
+  let pathCount = 0;
+  order.forEach((k, position) => {
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = labels[i] >= 0 && rank[labels[i]] >= position ? 1 : 0;
+    }
+
+    const d = traceContours(mask, width, height)
+      .filter(contour => Math.abs(polygonArea(contour)) >= MIN_CONTOUR_AREA)
+      .map(simplifyContour)
+      .filter(points => points.length >= 3)
+      .map(contourToPath);
+    if (d.length === 0) return;
+
+    pathCount += d.length;
+    paths.push(`  <path fill="${toHex(centers[k])}" fill-rule="evenodd" d="${d.join('')}"/>`);
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${sourceWidth}" height="${sourceHeight}" viewBox="0 0 ${width} ${height}">
+${paths.join('\n')}
+</svg>`;
+
+  return {
+    svg,
+    width: sourceWidth,
+    height: sourceHeight,
+    palette: order.map(k => toHex(centers[k])),
+    pathCount,
+  };
+}
+
+/**
+ * Place an SVG on a larger canvas (e.g. a product print area) as a nested <svg>.
+ * The design keeps its aspect ratio and is centered in the given box.
+ */
+export function placeSvgOnCanvas(
+  svg: string,
+  canvas: { width: number; height: number },
+  box: { left: number; top: number; width: number; height: number }
+): string {
+  const inner = svg
+    .replace(/<\?xml[^>]*\?>\s*/, '')
+    .replace(/<svg\b[^>]*>/, (tag) => tag
+      .replace(/\s(?:x|y|width|height)="[^"]*"/g, '')
+      .replace(/^<svg/, `<svg x="${box.left}" y="${box.top}" width="${box.width}" height="${box.height}"`));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}" viewBox="0 0 ${canvas.width} ${canvas.height}">
+${inner}
+</svg>`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP reader for bulk uploads
+ * This file contains NO server-side dependencies (shared by routes and client).
+ *
+ * Reads the central directory and inflates entries with the platform's
+ * DecompressionStream, so no library is needed. Supports stored and deflated
+ * entries (what every common zip tool writes); encrypted and ZIP64 archives
+ * are rejected.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP file (or the archive is damaged)');
+}
+
+function readEntries(view: DataView, bytes: Uint8Array<ArrayBuffer>): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported - please zip fewer or smaller files');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIP central directory is damaged');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    if (flags & 1) {
+      throw new Error('Encrypted ZIP files are not supported');
+    }
+
+    entries.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflateEntry(view: DataView, bytes: Uint8Array<ArrayBuffer>, entry: ZipEntry): Promise<Uint8Array<ArrayBuffer>> {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`ZIP entry "${entry.name}" is damaged`);
+  }
+  // Sizes come from the central directory - local headers may defer them to a data descriptor
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data;
+  }
+  if (entry.method !== METHOD_DEFLATE) {
+    throw new Error(`ZIP entry "${entry.name}" uses an unsupported compression method`);
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Extract the files of a ZIP archive whose names pass the filter
+ * Folders and macOS metadata (__MACOSX/, ._*) are skipped; files keep their
+ * base name, in archive order.
+ */
+export async function extractZipFiles(
+  archive: Blob,
+  filter: (fileName: string) => boolean = () => true
+): Promise<File[]> {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const files: File[] = [];
+  for (const entry of readEntries(view, bytes)) {
+    const baseName = entry.name.split('/').pop() ?? '';
+    if (!baseName || entry.name.startsWith('__MACOSX/') || baseName.startsWith('.') || !filter(baseName)) {
+      continue;
+    }
+    const data = await inflateEntry(view, bytes, entry);
+    const extension = baseName.split('.').pop()?.toLowerCase() ?? '';
+    files.push(new File([data], baseName, { type: MIME_TYPES[extension] || 'application/octet-stream' }));
+  }
+  return files;
+}
@@ -3,6 +3,10 @@ import path from "path";
 
 const nextConfig: NextConfig = {
   outputFileTracingRoot: path.join(__dirname),
+  // Bundled fonts for vector typography (lib/typography.ts renders SVG text server-side)
+  outputFileTracingIncludes: {
+    '/api/**': ['./fonts/**'],
+  },
   
   images: {
     remotePatterns: [
@@ -0,0 +1,101 @@
+-- =====================================================
+-- POD Remix - Bulk Remix Queue
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-usage-ledger.sql)
+--
+-- A bulk upload (many images, or a ZIP) becomes one batch with an item per
+-- image. Items wait as 'pending' until the queue starts a remix job for them
+-- (at most a few per user at a time). When the job finishes the item is
+-- 'saving' while its project is copied out of the job and named automatically.
+-- Pausing a batch stops new items from starting, cancelling it drops the
+-- items that haven't started.
+
+create table if not exists bulk_batches (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  status text not null default 'active'
+    check (status in ('active', 'paused', 'cancelled', 'completed')),
+  strategy_ids jsonb,
+  variant_count int not null default 4
+    check (variant_count between 2 and 12),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists bulk_items (
+  id uuid default gen_random_uuid() primary key,
+  batch_id uuid not null references bulk_batches(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  position int not null,                                       -- upload order within the batch
+  file_name text not null,
+  original_image_url text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'saving', 'completed', 'failed', 'cancelled')),
+  job_id uuid,                                                 -- remix job, once started
+  project_id uuid references projects(id) on delete set null,  -- saved project, once completed
+  project_name text,
+  error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Indexes
+create index if not exists bulk_batches_user_idx on bulk_batches(user_id, created_at desc);
+create index if not exists bulk_items_batch_idx on bulk_items(batch_id, position);
+create index if not exists bulk_items_user_status_idx on bulk_items(user_id, status);
+
+-- RLS: API routes use the service role key; users can read their own queue
+alter table bulk_batches enable row level security;
+alter table bulk_items enable row level security;
+
+create policy "Users can view own bulk batches"
+  on bulk_batches for select
+  using (auth.uid() = user_id);
+
+create policy "Users can view own bulk items"
+  on bulk_items for select
+  using (auth.uid() = user_id);
+
+-- Start the next pending item (oldest active batch first) if the user has
+-- fewer than p_max_running remix jobs generating. The count and the claim run
+-- in one transaction under a per-user lock, so concurrent queue passes (the
+-- dashboard poll and a finishing job) can't both see the same free slot.
+-- A running item without a job yet (just claimed) counts as generating.
+create or replace function claim_bulk_item(p_user_id uuid, p_max_running int)
+returns setof bulk_items
+language plpgsql
+as $$
+declare
+  v_running int;
+begin
+  perform pg_advisory_xact_lock(hashtext('bulk_queue:' || p_user_id::text));
+
+  select count(*) into v_running
+  from bulk_items i
+  left join remix_jobs j on j.id = i.job_id
+  where i.user_id = p_user_id
+    and i.status = 'running'
+    and (j.id is null or j.status not in ('completed', 'failed'));
+
+  if v_running >= p_max_running then
+    return;
+  end if;
+
+  return query
+  update bulk_items
+  set status = 'running', updated_at = now()
+  where id = (
+    select i.id
+    from bulk_items i
+    join bulk_batches b on b.id = i.batch_id
+    where i.user_id = p_user_id
+      and i.status = 'pending'
+      and b.status = 'active'
+    order by b.created_at, i.position
+    limit 1
+    for update of i skip locked
+  )
+  returning *;
+end;
+$$;
@@ -0,0 +1,29 @@
+-- =====================================================
+-- POD Remix - Pre-processing Cache
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Regenerating a project or re-uploading the same design used to pay for
+-- background removal and analysis again on identical bytes. Results are cached
+-- per image, keyed by SHA-256 of the bytes. A perceptual hash (64x64 dHash)
+-- finds the same picture saved as different bytes (re-saved PNG, stripped
+-- metadata); it must match exactly, since a near-identical picture (same
+-- layout, different phrase) must not inherit another image's analysis.
+-- Cleaned reference images live in the design-images bucket under cache/.
+
+create table if not exists image_cache (
+  sha256 text primary key,
+  phash text not null,
+  cleaned_image_url text,
+  cleaned_by text,       -- background provider that produced cleaned_image_url
+  analysis jsonb,
+  analyzed_by text,      -- analysis provider that produced analysis
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Secondary lookup: same picture, different bytes
+create index if not exists image_cache_phash_idx on image_cache(phash);
+
+-- RLS: only API routes / workers (service role key) read and write the cache
+alter table image_cache enable row level security;
@@ -0,0 +1,11 @@
+-- =====================================================
+-- POD Remix - Localization variants
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-seasonal-events.sql)
+--
+-- Localization strategies ("locale:<code>") put the design text translated
+-- into another language on the same design. The ISO 639-1 code of a
+-- variant's text is stored here (null = the original language).
+
+alter table variants
+add column if not exists language text;
@@ -0,0 +1,15 @@
+-- =====================================================
+-- POD Remix - Mood-board remixes (multiple references)
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-remix-review.sql)
+--
+-- A remix can take 2-5 reference images. original_image_url stays the first
+-- (primary) reference; the others are stored here, in upload order.
+-- Their analyses are blended into the job's single analysis, and the
+-- cleaned references are all sent to the image model.
+
+alter table remix_jobs
+add column if not exists reference_image_urls jsonb not null default '[]'::jsonb;
+
+alter table remix_jobs
+add column if not exists cleaned_reference_urls jsonb;
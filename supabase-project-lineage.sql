@@ -0,0 +1,19 @@
+-- =====================================================
+-- Project lineage: projects remixed from a variant
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+
+-- "Remix this" on a variant starts a new project with that variant as the
+-- original design. The new project remembers where it came from, so the
+-- project page can show original → variant → sub-variant.
+-- Deleting an ancestor keeps the remix (link becomes NULL).
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS parent_project_id uuid REFERENCES projects(id) ON DELETE SET NULL;
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS parent_variant_id uuid REFERENCES variants(id) ON DELETE SET NULL;
+
+-- Children of a project (lineage view)
+CREATE INDEX IF NOT EXISTS idx_projects_parent_project_id
+ON projects (parent_project_id)
+WHERE parent_project_id IS NOT NULL;
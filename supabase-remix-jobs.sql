@@ -0,0 +1,48 @@
+-- =====================================================
+-- POD Remix - Asynchronous Remix Jobs
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+--
+-- POST /api/remix enqueues a job and returns its ID.
+-- A worker runs the stages (preprocess → analysis → strategies → variants → upload)
+-- and saves state after each one, so a job that hits the function timeout
+-- can be resumed from its last completed stage.
+
+create table if not exists remix_jobs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade, -- null for anonymous users
+  ip_hash text,                                              -- anonymous rate limiting
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed')),
+  stage text not null default 'preprocess'
+    check (stage in ('preprocess', 'analysis', 'strategies', 'variants', 'upload', 'done')),
+  attempts int not null default 0,
+  original_image_url text not null,
+  cleaned_image_url text,
+  analysis jsonb,
+  strategies jsonb,
+  variants jsonb,
+  remaining int,                                             -- anonymous generations left after this job
+  error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Indexes
+create index if not exists remix_jobs_user_id_idx on remix_jobs(user_id, created_at desc);
+create index if not exists remix_jobs_status_idx on remix_jobs(status, updated_at);
+
+-- RLS: API routes use the service role key; users can read their own jobs
+alter table remix_jobs enable row level security;
+
+create policy "Users can view own remix jobs"
+  on remix_jobs for select
+  using (auth.uid() = user_id);
+
+-- Cleanup: jobs older than 7 days (run as a daily cron job, optional)
+create or replace function cleanup_remix_jobs()
+returns void as $$
+begin
+  delete from remix_jobs where created_at < now() - interval '7 days';
+end;
+$$ language plpgsql;
@@ -0,0 +1,15 @@
+-- =====================================================
+-- POD Remix - Review step for remix jobs
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-strategy-templates.sql)
+--
+-- Review flow: POST /api/remix/analyze → user corrects the analysis →
+-- POST /api/remix/strategies → user edits prompts → POST /api/remix/jobs/[id]/generate
+-- The worker pauses the job as 'awaiting_review' instead of planning strategies itself.
+
+alter table remix_jobs
+add column if not exists needs_review boolean not null default false;
+
+alter table remix_jobs drop constraint if exists remix_jobs_status_check;
+alter table remix_jobs add constraint remix_jobs_status_check
+  check (status in ('queued', 'running', 'awaiting_review', 'completed', 'failed'));
@@ -0,0 +1,36 @@
+-- =====================================================
+-- POD Remix - Seasonal Event Calendar
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-strategy-templates.sql)
+--
+-- Users add their own events to the seasonal calendar: a name, a yearly date
+-- (fixed day, or nth weekday of the month), how many days ahead to prepare,
+-- and a theme hint for the generated variants.
+-- Built-in holidays live in code (lib/seasonal-events.ts).
+-- Seasonal variants are marked by variants.strategy_id = 'season:<event id>'.
+
+create table if not exists seasonal_events (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  month int not null check (month between 1 and 12),
+  day int check (day between 1 and 31),
+  weekday int check (weekday between 0 and 6),
+  nth int check (nth in (1, 2, 3, 4, -1)),
+  lead_days int not null default 45 check (lead_days between 7 and 120),
+  prompt_hint text not null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  -- Either a fixed day or a weekday rule
+  check ((day is not null) or (weekday is not null and nth is not null))
+);
+
+create index if not exists seasonal_events_user_id_idx on seasonal_events(user_id, month);
+
+-- RLS
+alter table seasonal_events enable row level security;
+
+create policy "Users can manage their seasonal events"
+  on seasonal_events for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
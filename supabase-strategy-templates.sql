@@ -0,0 +1,45 @@
+-- =====================================================
+-- POD Remix - User Strategy Templates
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-remix-jobs.sql)
+--
+-- Users save their own remix strategies: a name, a prompt scaffold with
+-- {theme}/{text}/{style} placeholders, and a similarity target (percent).
+-- Built-in strategies live in code (lib/strategy-templates.ts) with "builtin:" IDs.
+
+create table if not exists strategy_templates (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  prompt_scaffold text not null,
+  similarity_target int not null default 85
+    check (similarity_target between 50 and 100),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists strategy_templates_user_id_idx on strategy_templates(user_id, created_at);
+
+-- RLS
+alter table strategy_templates enable row level security;
+
+create policy "Users can manage their strategy templates"
+  on strategy_templates for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Which strategy template produced each variant (built-in ID or template uuid)
+alter table variants
+add column if not exists strategy_id text;
+
+-- Strategy selection for a remix job
+alter table remix_jobs
+add column if not exists strategy_ids jsonb,
+add column if not exists variant_count int not null default 4
+  check (variant_count between 2 and 12);
+
+-- Runs can produce up to 12 variants per batch (was 1-4); the run size is
+-- capped by remix_jobs.variant_count, so only require a positive number
+ALTER TABLE variants DROP CONSTRAINT IF EXISTS variants_variant_number_check;
+ALTER TABLE variants ADD CONSTRAINT variants_variant_number_check
+  CHECK (variant_number >= 1);
@@ -0,0 +1,113 @@
+-- =====================================================
+-- POD Remix - Cost & Usage Ledger
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+--
+-- One row per external API call (Gemini, Recraft), written by the server
+-- (lib/cost-ledger.ts) with the tokens/images used and an estimated cost.
+-- Calls made while generating a remix carry the job ID; the project saved
+-- from that job records it in projects.remix_job_id, so per-project totals
+-- cover generation as well as later regenerations and edits.
+
+create table if not exists usage_ledger (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade,   -- null for anonymous remixes
+  project_id uuid references projects(id) on delete set null, -- regenerate / edit calls
+  job_id uuid,                                                -- remix job (jobs are cleaned up after 7 days)
+  provider text not null,                                     -- gemini | recraft
+  model text not null,
+  operation text not null,                                    -- e.g. "design analysis", "image generation (normal)"
+  input_tokens int not null default 0,
+  output_tokens int not null default 0,
+  images int not null default 0,
+  estimated_cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz default now()
+);
+
+-- Indexes
+create index if not exists usage_ledger_user_idx on usage_ledger(user_id, created_at desc);
+create index if not exists usage_ledger_project_idx on usage_ledger(project_id) where project_id is not null;
+create index if not exists usage_ledger_job_idx on usage_ledger(job_id) where job_id is not null;
+
+-- RLS: the server writes with the service role key; users can read their own rows
+alter table usage_ledger enable row level security;
+
+create policy "Users can view own usage"
+  on usage_ledger for select
+  using (auth.uid() = user_id);
+
+-- Link projects to the remix job that generated them
+alter table projects
+add column if not exists remix_job_id uuid;
+
+create index if not exists idx_projects_remix_job_id
+on projects(remix_job_id)
+where remix_job_id is not null;
+
+-- Usage of a user's calls since a date, grouped in SQL (a busy account writes
+-- far more ledger rows than one API response returns). Rows without a project
+-- are attributed to the project saved from their remix job.
+-- Runs as the caller, so RLS still limits it to their own rows.
+create or replace function usage_breakdown(p_user_id uuid, p_since timestamptz, p_project_id uuid default null)
+returns table (
+  provider text,
+  model text,
+  operation text,
+  project_id uuid,
+  calls bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  images bigint,
+  estimated_cost_usd numeric
+)
+language sql stable
+as $$
+  select l.provider,
+         l.model,
+         l.operation,
+         coalesce(l.project_id, p.id) as project_id,
+         count(*) as calls,
+         sum(l.input_tokens) as input_tokens,
+         sum(l.output_tokens) as output_tokens,
+         sum(l.images) as images,
+         sum(l.estimated_cost_usd) as estimated_cost_usd
+  from usage_ledger l
+  left join projects p
+    on l.project_id is null
+   and l.job_id is not null
+   and p.remix_job_id = l.job_id
+   and p.user_id = p_user_id
+  where l.user_id = p_user_id
+    and l.created_at >= p_since
+    and (p_project_id is null or coalesce(l.project_id, p.id) = p_project_id)
+  group by 1, 2, 3, 4;
+$$;
+
+-- Anonymous remixes are logged with user_id null. When the user signs in and
+-- saves the project, its remix job's calls become theirs.
+create or replace function attribute_remix_job_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.remix_job_id is not null and new.user_id is not null then
+    update usage_ledger
+    set user_id = new.user_id
+    where job_id = new.remix_job_id
+      and user_id is null
+      and exists (
+        select 1 from remix_jobs j
+        where j.id = new.remix_job_id
+          and (j.user_id is null or j.user_id = new.user_id)
+      );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_attribute_remix_job_usage on projects;
+create trigger projects_attribute_remix_job_usage
+  after insert or update of remix_job_id on projects
+  for each row execute function attribute_remix_job_usage();
@@ -0,0 +1,20 @@
+-- =====================================================
+-- Variant edits: link edited variants to their parent
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+
+-- Variants created by POST /api/variants/[id]/edit point at the variant they
+-- were edited from. Deleting the parent keeps the edit (link becomes NULL).
+ALTER TABLE variants
+ADD COLUMN IF NOT EXISTS parent_variant_id uuid REFERENCES variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_variants_parent_variant_id
+ON variants (parent_variant_id)
+WHERE parent_variant_id IS NOT NULL;
+
+-- Edits are appended to their parent's batch, so a batch can grow past the
+-- original variant count - only require a positive variant number
+-- (uniqueness per project + batch is still enforced by variants_project_batch_variant_unique)
+ALTER TABLE variants DROP CONSTRAINT IF EXISTS variants_variant_number_check;
+ALTER TABLE variants ADD CONSTRAINT variants_variant_number_check
+  CHECK (variant_number >= 1);
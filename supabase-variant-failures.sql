@@ -0,0 +1,14 @@
+-- =====================================================
+-- Add failed_variants column to remix_jobs table
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor (after supabase-remix-jobs.sql)
+
+-- Strategies that failed in the variants stage:
+-- [{ id, strategy, status: 'failed', error, tier }]
+-- POST /api/remix/jobs/[id]/retry re-runs only these strategies.
+ALTER TABLE remix_jobs
+ADD COLUMN IF NOT EXISTS failed_variants jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Note: variants now always holds the stored shape
+-- ({ id, strategy, prompt, imageUrl, thumbnailUrl, tier, colorClassification })
+-- Jobs are temporary, so rows written before this migration can simply expire.
@@ -0,0 +1,14 @@
+-- =====================================================
+-- Add provenance column to variants table
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+
+-- How each variant was produced, so it can be explained or reproduced later:
+-- { analysis, prompt, strategyId, provider, model, usedTier,
+--   attempts: [{ tier, provider, model, outcome, reason }],
+--   backgroundRemoval: { provider, skipped }, generatedAt }
+-- attempts[].reason holds the mockup-validation reason (or error) for every tier tried.
+ALTER TABLE variants
+ADD COLUMN IF NOT EXISTS provenance jsonb;
+
+-- Variants saved before this migration have no provenance (NULL)
@@ -0,0 +1,18 @@
+-- =====================================================
+-- Add source-similarity column to variants table
+-- =====================================================
+-- Run this SQL in your Supabase SQL Editor
+
+-- How close each variant is to the design it was remixed from:
+-- { score, phash, ssim, threshold, tooClose }  (scores are 0-100)
+-- tooClose variants show a "too close to source" warning and need an explicit
+-- acknowledgement before a product is created from them.
+ALTER TABLE variants
+ADD COLUMN IF NOT EXISTS similarity jsonb;
+
+-- Find near-copies across the catalog
+CREATE INDEX IF NOT EXISTS idx_variants_similarity_score
+ON variants (((similarity->>'score')::int))
+WHERE similarity IS NOT NULL;
+
+-- Variants saved before this migration have no score (NULL)